@@ -0,0 +1,40 @@
+import React from 'react';
+import { KeyRound } from 'lucide-react';
+import { useI18n } from './hooks/useI18n';
+
+interface ApiKeyPromptProps {
+  onSelect: () => void;
+}
+
+// AI Studio builds only; proxy builds sign in through LoginPrompt instead
+const ApiKeyPrompt: React.FC<ApiKeyPromptProps> = ({ onSelect }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-xl flex items-center justify-center p-6">
+      <div className="w-full max-w-sm bg-slate-900 border border-white/10 rounded-[32px] p-8 shadow-2xl">
+        <div className="w-14 h-14 rounded-2xl bg-indigo-500/20 flex items-center justify-center mb-6">
+          <KeyRound className="w-7 h-7 text-indigo-400" />
+        </div>
+        <h2 className="text-xl font-display font-bold text-white mb-2">{t('apiKey.title')}</h2>
+        <p className="text-sm text-slate-400 mb-2">{t('apiKey.body')}</p>
+        <a
+          href="https://ai.google.dev/gemini-api/docs/billing"
+          target="_blank"
+          rel="noreferrer"
+          className="text-xs text-indigo-300 hover:text-indigo-200 underline"
+        >
+          {t('apiKey.billing')}
+        </a>
+        <button
+          onClick={onSelect}
+          className="mt-6 w-full py-3 rounded-xl bg-indigo-500 text-white font-bold hover:bg-indigo-400"
+        >
+          {t('apiKey.select')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyPrompt;
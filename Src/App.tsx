@@ -1,56 +1,205 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Header from './Header';
 import ApiKeyPrompt from './ApiKeyPrompt';
-import { LiveAvatarService } from './services/live-session';
-import { VeoService, SpeechService, SpeechOptions } from './gemini';
+import LoginPrompt from './LoginPrompt';
+import MemoryPanel from './MemoryPanel';
+import HistoryPanel from './HistoryPanel';
+import PersonaSwitcher from './PersonaSwitcher';
+import LanguageSwitch from './LanguageSwitch';
+import SessionStateBadge from './SessionStateBadge';
+import VoiceInputMenu from './VoiceInputMenu';
+import RecorderMenu from './RecorderMenu';
+import PushToTalkButton from './PushToTalkButton';
+import ToolConfirmCard from './ToolConfirmCard';
+import ToolLogPanel from './ToolLogPanel';
+import VisionMenu from './VisionMenu';
+import VisionIndicator from './VisionIndicator';
+import ImageAskDialog from './ImageAskDialog';
+import PwaBanner from './PwaBanner';
+import SettingsPanel from './SettingsPanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import ErrorNotice from './ErrorNotice';
+import ChatPanel from './ChatPanel';
+import KnowledgePanel from './KnowledgePanel';
+import UsagePanel from './UsagePanel';
+import SourceChips from './SourceChips';
+import AudioMeters from './AudioMeters';
+import { createLiveProvider, LiveCallbacks, LiveProvider, LiveImage } from './services/live-provider';
+import { ReplayLiveProvider, SessionRecorder, SessionRecording } from './services/session-recorder';
+import { ChatTurn, createTextChat } from './services/text-chat';
+import { meterLevel } from './services/audio-pipeline';
+import { AUTH_MODE, AuthService } from './services/auth';
+import { MemoryService } from './services/memory-store';
+import { KnowledgeService, Retrieve } from './services/knowledge-store';
+import { BudgetError, UsageMetric, UsageService, BudgetLevel, USAGE_METRICS, VOICE_METRICS, budgetLevels, worstLevel } from './services/usage';
+import { HistoryService, HistorySession, HistoryRole, HistoryChannel } from './services/history-store';
+import { Persona, PersonaService, DEFAULT_NAMESPACE, FALLBACK_AVATAR_URL } from './services/personas';
+import { VisemeEngine, VisemeLanguage } from './services/viseme-engine';
+import { VoiceActivityDetector, VoiceInputSettings } from './services/vad';
+import { ToolRegistry, ToolRunner } from './services/tools';
+import { ToolStore, Reminder } from './services/tool-store';
+import { builtinTools, defaultHttpTools, expressionTool, knowledgeTool } from './services/builtin-tools';
+import { AvatarAnimator, resolvePresets } from './services/avatar-animator';
+import { VisionService, VisionSettings, VisionSource, VISION_RESOLUTIONS, frameOptions } from './services/vision';
+import { useVisemes } from './hooks/useVisemes';
+import { useVeoJobs } from './hooks/useVeoJobs';
+import { useI18n } from './hooks/useI18n';
+import { useSessionMachine } from './hooks/useSessionMachine';
+import { usePushToTalk } from './hooks/usePushToTalk';
+import { useToolCalls } from './hooks/useToolCalls';
+import { useAvatarAnimator } from './hooks/useAvatarAnimator';
+import { I18nService } from './services/i18n';
+import { PwaService } from './services/pwa';
+import { SettingsService } from './services/settings';
+import { useSettings } from './hooks/useSettings';
+import { usePwa } from './hooks/usePwa';
+import { useUsage } from './hooks/useUsage';
+import { dropEndsSession, isConnectedState, isSessionOpen, reconnectPolicy, toLiveStatus } from './services/session-machine';
+import { AstraError, NetworkError, classifyError, isCancelled, retryDelay, shouldRetry } from './services/errors';
+import { DiagnosticsService } from './services/diagnostics';
+import { veoJobs, CLIP_STATES } from './services/veo-jobs';
+import { SpeechService, SpeechOptions } from './gemini';
 import { AspectRatio } from './types';
 import { motion, AnimatePresence } from 'motion/react';
-import { Sparkles, Video, Camera, Mic, MicOff, RefreshCw, AlertCircle, CheckCircle2, Settings, Volume2 } from 'lucide-react';
+import { Sparkles, Video, Camera, Mic, MicOff, RefreshCw, AlertCircle, CheckCircle2, Settings, Volume2, Brain, History, X, Wrench, BellRing, Activity, MessageSquare, BookOpen, Gauge } from 'lucide-react';
 
-const ASTRA_AVATAR_URL = "https://i.ibb.co/zWDWymtV/1771300703380.jpg";
+const visemeLanguage = (language: string): VisemeLanguage => language.startsWith('fa') ? 'fa' : 'en';
+
+// Every turn, spoken or typed, is grounded in the active persona's documents
+const retrieveKnowledge: Retrieve = query => KnowledgeService.search(PersonaService.getActive().memoryNamespace, query);
 
 const App: React.FC = () => {
+  const [persona, setPersona] = useState<Persona>(() => PersonaService.getActive());
+  const { t, locale, formatNumber } = useI18n();
+  // The twin listens and answers in the UI language
+  const speechLanguage = I18nService.speechLanguage(locale, persona.language);
   const [needsApiKey, setNeedsApiKey] = useState(false);
   const [isAuthChecking, setIsAuthChecking] = useState(true);
   const [audioLevel, setAudioLevel] = useState(0); 
-  const [status, setStatus] = useState<'idle' | 'listening' | 'speaking'>('idle');
+  const [userLevel, setUserLevel] = useState(0);
+  const [session, dispatch] = useSessionMachine();
+  const { online } = usePwa();
+  const settings = useSettings();
+  const status = toLiveStatus(session.state);
   const [isVisionSync, setIsVisionSync] = useState(false);
-  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>(() => SettingsService.get().camera.facingMode);
+  const [visionSource, setVisionSource] = useState<VisionSource>('camera');
+  const visionSettings = settings.camera.vision;
+  const setVisionSettings = (vision: VisionSettings) => SettingsService.update('camera', { ...SettingsService.get().camera, vision });
+  const [pendingImage, setPendingImage] = useState<LiveImage | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Typed cause of `error`, which picks the recommended action shown with it
+  const [errorCause, setErrorCause] = useState<AstraError | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [lastMemory, setLastMemory] = useState<string | null>(null);
   const [memoryLoaded, setMemoryLoaded] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [memoryRevision, setMemoryRevision] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [resumeFrom, setResumeFrom] = useState<HistorySession | null>(null);
+  const [showTools, setShowTools] = useState(false);
+  const [showKnowledge, setShowKnowledge] = useState(false);
+  // Knowledge base citations of the current reply; the ref collects them for history until the turn completes
+  const [turnSources, setTurnSources] = useState<string[]>([]);
+  const turnSourcesRef = useRef<string[]>([]);
+  const [dueReminders, setDueReminders] = useState<Reminder[]>([]);
+  const [showUsage, setShowUsage] = useState(false);
+  const usage = useUsage();
+  const usageLevels = useMemo(() => budgetLevels(usage.today.totals, settings.usage), [usage.today.totals, settings.usage]);
+  const usageLevel = worstLevel(Object.values(usageLevels));
+  const voiceLevel = worstLevel(VOICE_METRICS.map(metric => usageLevels[metric]));
+  // Budget warnings and downgrades, shown as toasts beside due reminders
+  const [usageNotices, setUsageNotices] = useState<{ id: string; text: string }[]>([]);
+  // Level each metric was last announced at, so a warning is shown once per crossing
+  const announcedLevels = useRef<Partial<Record<UsageMetric, BudgetLevel>>>({});
   
   const [textInput, setTextInput] = useState('');
   const [astraResponse, setAstraResponse] = useState<string | null>(null);
   const latestResponseRef = useRef<string>('');
   const [isTyping, setIsTyping] = useState(false);
-  const [isBlinking, setIsBlinking] = useState(false);
-  const [mouthShape, setMouthShape] = useState({ scale: 1, skew: 0 });
-  const [idleAction, setIdleAction] = useState<'none' | 'glance' | 'tilt' | 'shift'>('none');
-  const [enableIdleActions, setEnableIdleActions] = useState(true);
 
   // Veo Animation States
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [isAnimating, setIsAnimating] = useState(false);
-  const [animationStatus, setAnimationStatus] = useState<string>('');
+  const veo = useVeoJobs(persona.memoryNamespace);
+  const [isQueueingAnimation, setIsQueueingAnimation] = useState(false);
+  const isAnimating = isQueueingAnimation || veo.active.length > 0;
+  const runningJob = veo.active.find(job => job.status === 'running') ?? veo.active[0];
+  const animationStatus = runningJob
+    ? t('animation.progress', { progress: runningJob.progress, pending: veo.active.length, total: CLIP_STATES.length })
+    : t('animation.preparing');
+  // Each state falls back to the idle loop, then to the persona's bundled clip
+  const clipFor = (state: typeof status) => settings.animation.stateClips
+    ? veo.clips[state] ?? veo.clips.idle ?? persona.veoClipUrl ?? null
+    : null;
+  const hasClip = Boolean(clipFor(status));
   
   const [showSettings, setShowSettings] = useState(false);
-  const [voiceSettings, setVoiceSettings] = useState<SpeechOptions>({
-    voiceName: 'Kore',
-    speakingRate: 1.0,
-    pitch: 1.0,
-    quality: 'high'
-  });
+  const voiceSettings: SpeechOptions = SettingsService.voiceFor(persona.id, persona.voice);
+  const voiceInput = settings.voiceInput;
+  const setVoiceInput = (next: VoiceInputSettings) => SettingsService.update('voiceInput', next);
+  const [isTalking, setIsTalking] = useState(false);
   
-  const liveService = useRef(new LiveAvatarService());
+  const liveService = useRef<LiveProvider>(createLiveProvider(retrieveKnowledge));
+  // The configured provider, put back when a replay or text chat ends
+  const bridgeProvider = useRef(liveService.current);
+  const recorder = useRef<SessionRecorder | null>(null);
+  // Off on every load: recordings include microphone audio
+  const [recordSessions, setRecordSessions] = useState(false);
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Replays re-run the UI only; tools, memory and history are left as they are
+  const isReplay = () => liveService.current.id === 'replay';
+  const textChat = useRef(createTextChat(
+    () => SettingsService.get().chat.speakReplies && UsageService.allows('speechCalls'),
+    retrieveKnowledge,
+  ));
+  const [showChat, setShowChat] = useState(false);
+  const [chatTurns, setChatTurns] = useState<ChatTurn[]>([]);
+  const isTextChat = () => liveService.current.id === 'text';
+  const visemeEngine = useRef(new VisemeEngine({ language: visemeLanguage(speechLanguage) }));
+  const mouthShape = useVisemes(visemeEngine.current, status === 'speaking');
   const videoRef = useRef<HTMLVideoElement>(null);
-  const isConnected = status !== 'idle';
+  const sessionIdRef = useRef<string>('');
+  const turnRef = useRef(0);
+  const userUtteranceRef = useRef('');
+  const isConnected = isConnectedState(session.state);
+  const connectionRef = useRef(0);
+  const vad = useRef(new VoiceActivityDetector(voiceInput));
+  // Read from long-lived callbacks (VAD, provider, talk key) that must see the latest values
+  const voiceInputRef = useRef(voiceInput);
+  voiceInputRef.current = voiceInput;
+  const sessionStateRef = useRef(session.state);
+  sessionStateRef.current = session.state;
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  const isTalkingRef = useRef(false);
+  // Context the session was opened with (a resumed conversation), kept for reconnects
+  const baseContextRef = useRef('');
+  const animator = useRef(new AvatarAnimator(resolvePresets(persona.expressions)));
+  useAvatarAnimator(animator.current);
+  // One animator drives the portrait and the Veo clips; clips keep their own movement and blinks
+  const avatarMotion = animator.current.motion({ status, audioLevel, mouth: mouthShape, mode: hasClip ? 'video' : 'still' });
+  // Callbacks of the open connection; tool results that belong to the session are reported through them, so recordings keep them
+  const liveCallbacks = useRef<LiveCallbacks | null>(null);
+  const toolRegistry = useRef(new ToolRegistry([
+    ...builtinTools(),
+    expressionTool(animator.current),
+    knowledgeTool(sources => liveCallbacks.current?.onSources?.(sources)),
+    ...defaultHttpTools(),
+  ]));
+  const toolRunner = useRef(new ToolRunner(toolRegistry.current));
+  const toolCalls = useToolCalls(toolRunner.current);
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        if (!(await window.aistudio.hasSelectedApiKey())) {
+        if (AUTH_MODE === 'proxy') {
+          AuthService.resume();
+          if (liveService.current.requiresApiKey && !AuthService.hasValidSession()) {
+            setNeedsApiKey(true);
+          }
+        } else if (liveService.current.requiresApiKey && !(await window.aistudio.hasSelectedApiKey())) {
           setNeedsApiKey(true);
         }
       } catch (e) {
@@ -58,13 +207,38 @@ const App: React.FC = () => {
       } finally {
         setIsAuthChecking(false);
       }
-      const memory = liveService.current.getStoredMemory();
-      if (memory.length > 0) setMemoryLoaded(true);
+      try {
+        // Facts from before long-term memory existed belong to the original twin
+        await MemoryService.seedFromLegacy(DEFAULT_NAMESPACE, liveService.current.getStoredMemory());
+      } catch (e) {
+        console.error("Memory store unavailable", e);
+      }
     };
     checkAuth();
+    PwaService.register();
     return () => liveService.current.stop();
   }, []);
 
+  useEffect(() => {
+    MemoryService.list(persona.memoryNamespace)
+      .then(facts => setMemoryLoaded(facts.length > 0))
+      .catch(() => setMemoryLoaded(false));
+  }, [persona]);
+
+  useEffect(() => {
+    visemeEngine.current.setLanguage(visemeLanguage(speechLanguage));
+  }, [speechLanguage]);
+
+  // Reminders set by the twin surface here whether or not a session is open
+  useEffect(() => {
+    const poll = () => ToolStore.takeDueReminders(persona.memoryNamespace)
+      .then(due => { if (due.length > 0) setDueReminders(list => [...list, ...due]); })
+      .catch(e => console.error("Reminder check failed", e));
+    poll();
+    const timer = window.setInterval(poll, 30000);
+    return () => clearInterval(timer);
+  }, [persona]);
+
   useEffect(() => {
     const root = document.documentElement;
     // Only trigger intense distortion when audioLevel is significant
@@ -74,143 +248,219 @@ const App: React.FC = () => {
     root.style.setProperty('--distortion-amount', distortionValue.toString());
   }, [audioLevel, status]);
 
-  // Random Blinking Logic - Refined for more natural feel
+  // Blinking and idle actions are timed by the animator; idle actions only play between sessions
   useEffect(() => {
-    let blinkTimeout: number;
-    const scheduleBlink = () => {
-      // Natural variation: shorter intervals between some blinks, longer between others
-      const isDoubleBlink = Math.random() > 0.8;
-      const delay = isDoubleBlink ? 200 : (Math.random() * 5000 + 2500); 
-      
-      blinkTimeout = window.setTimeout(() => {
-        setIsBlinking(true);
-        // Vary blink duration slightly
-        const blinkDuration = Math.random() * 50 + 100; 
-        setTimeout(() => {
-          setIsBlinking(false);
-          scheduleBlink();
-        }, blinkDuration);
-      }, delay);
-    };
-    scheduleBlink();
-    return () => clearTimeout(blinkTimeout);
-  }, []);
+    animator.current.configure({ blinking: settings.idle.blinking, idleActions: settings.idle.actions, isIdle: status === 'idle' });
+  }, [settings.idle.blinking, settings.idle.actions, status]);
 
-  // Lip Sync Simulation Logic
   useEffect(() => {
-    if (status !== 'speaking' || !astraResponse) {
-      setMouthShape({ scale: 1, skew: 0 });
-      return;
-    }
+    animator.current.setPresets(resolvePresets(persona.expressions));
+    animator.current.reset();
+  }, [persona]);
 
-    const lastChar = astraResponse.trim().slice(-1).toLowerCase();
-    let scale = 1;
-    let skew = 0;
-
-    // Enhanced mapping for more realistic lip-syncing
-    const vowels = ['a', 'e', 'o', 'آ', 'ا', 'و', 'u', 'i', 'ی'];
-    const plosives = ['p', 'b', 'm', 't', 'd', 'پ', 'ب', 'م', 'ت', 'د'];
-    const fricatives = ['f', 'v', 's', 'z', 'ف', 'و', 'س', 'ز'];
-
-    if (vowels.includes(lastChar)) {
-      scale = 1.2 + (Math.random() * 0.1); // Wide open
-      skew = 1.5;
-    } else if (plosives.includes(lastChar)) {
-      scale = 0.85; // Tight closed
-      skew = -0.5;
-    } else if (fricatives.includes(lastChar)) {
-      scale = 1.05; // Slightly open
-      skew = 0.8;
-    } else {
-      scale = 1.1; // Neutral
-      skew = 0.3;
-    }
+  useEffect(() => () => animator.current.dispose(), []);
 
-    setMouthShape({ scale, skew });
-  }, [astraResponse, status]);
+  const logHistory = (role: HistoryRole, channel: HistoryChannel, text: string) => {
+    if (isReplay()) return;
+    HistoryService.append(sessionIdRef.current, role, channel, text)
+      .catch(e => console.error("Failed to record history", e));
+  };
 
-  // Random Idle Actions Logic
-  useEffect(() => {
-    if (status !== 'idle' || !enableIdleActions) {
-      setIdleAction('none');
-      return;
-    }
+  const addSources = (sources: string[]) => {
+    if (sources.length === 0) return;
+    turnSourcesRef.current = [...new Set([...turnSourcesRef.current, ...sources])];
+    setTurnSources(turnSourcesRef.current);
+  };
 
-    let actionTimeout: number;
-    const scheduleAction = () => {
-      const delay = Math.random() * 8000 + 4000; // Action every 4-12 seconds
-      actionTimeout = window.setTimeout(() => {
-        const actions: ('glance' | 'tilt' | 'shift')[] = ['glance', 'tilt', 'shift'];
-        const randomAction = actions[Math.floor(Math.random() * actions.length)];
-        
-        setIdleAction(randomAction);
-        
-        // Reset action after a short duration
-        setTimeout(() => {
-          setIdleAction('none');
-          scheduleAction();
-        }, 2000 + Math.random() * 1000);
-      }, delay);
-    };
+  const clearSources = () => {
+    turnSourcesRef.current = [];
+    setTurnSources([]);
+  };
 
-    scheduleAction();
-    return () => clearTimeout(actionTimeout);
-  }, [status]);
+  // `message` is the localized text for this failure; the error keeps the raw one for diagnostics
+  const showError = (cause: AstraError, message = cause.message) => {
+    setError(message);
+    setErrorCause(cause);
+  };
 
-  const handleSendMessage = async () => {
-    if (!textInput.trim() || !isConnected) return;
+  const clearError = () => {
+    setError(null);
+    setErrorCause(null);
+  };
+
+  const showUsageNotice = (text: string) => {
+    const id = crypto.randomUUID();
+    setUsageNotices(list => [...list, { id, text }]);
+    setTimeout(() => setUsageNotices(list => list.filter(notice => notice.id !== id)), 10000);
+  };
+
+  const showBudgetError = (metric: UsageMetric) =>
+    showError(new BudgetError(metric), t('usage.blocked', { metric: t(`usage.metric.${metric}`) }));
+
+  useEffect(() => {
+    DiagnosticsService.log('session', session.attempt > 0 ? `${session.state} (attempt ${session.attempt})` : session.state);
+  }, [session.state, session.attempt]);
+
+  // Typed input goes to whichever bridge is open, the live session or the text chat
+  const sendMessage = async (text: string) => {
+    if (!text.trim() || !isConnected) return false;
+    if (!UsageService.allows('textTurns')) {
+      showBudgetError('textTurns');
+      return false;
+    }
     try {
       setIsTyping(true);
       setAstraResponse(null); // Clear previous response for new command
-      await liveService.current.send(textInput); 
-      setTextInput(''); 
+      clearSources();
+      logHistory('user', 'text', text);
+      if (isTextChat()) setChatTurns(turns => [...turns, { role: 'user', text }]);
+      dispatch({ type: 'thinking' });
+      await liveService.current.send(text);
+      if (!isReplay()) UsageService.record('textTurns');
+      return true;
     } catch (err) {
       console.error("Neural command failure:", err);
+      DiagnosticsService.error('session', classifyError(err));
+      dispatch({ type: 'listening' });
       setIsTyping(false);
+      return false;
     }
   };
 
-  const startCamera = async (mode: 'user' | 'environment') => {
-    try {
-      if (videoRef.current && videoRef.current.srcObject) {
-        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-        tracks.forEach(t => t.stop());
-      }
+  const handleSendMessage = async () => {
+    if (await sendMessage(textInput)) setTextInput('');
+  };
 
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: mode } 
-      });
+  const visionLabel = visionSource === 'screen'
+    ? t('vision.screen')
+    : t(facingMode === 'user' ? 'vision.selfLens' : 'vision.externalLens');
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        setIsVisionSync(true);
-        setFacingMode(mode);
-        if (isConnected) {
-          setTimeout(() => {
-            liveService.current.setVision(videoRef.current);
-          }, 500);
-        }
-      }
+  const stopStream = () => {
+    const stream = videoRef.current?.srcObject as MediaStream | null;
+    stream?.getTracks().forEach(track => track.stop());
+    if (videoRef.current) videoRef.current.srcObject = null;
+  };
+
+  // Shows a new capture in the preview and hands it to the twin once it has a frame to send.
+  const shareStream = async (stream: MediaStream, source: VisionSource, label: string) => {
+    if (!videoRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    stopStream();
+    videoRef.current.srcObject = stream;
+    setIsVisionSync(true);
+    setVisionSource(source);
+    logHistory('system', 'vision', t('vision.onWithLens', { lens: label }));
+    await VisionService.waitForFrame(videoRef.current);
+    if (isConnectedState(sessionStateRef.current)) {
+      liveService.current.setVision(videoRef.current, frameOptions(visionSettings));
+    }
+  };
+
+  const startCamera = async (mode: 'user' | 'environment') => {
+    try {
+      // Phones can only open one camera at a time
+      stopStream();
+      const stream = await VisionService.openCamera(mode, visionSettings);
+      setFacingMode(mode);
+      await shareStream(stream, 'camera', t(mode === 'user' ? 'vision.selfLens' : 'vision.externalLens'));
+      DiagnosticsService.log('vision', `Camera on (${mode})`);
     } catch (err) {
-      setError("Neural lens access denied. Please check camera permissions.");
+      const error = classifyError(err, 'permission');
+      DiagnosticsService.error('vision', error);
+      showError(error, t(error.kind === 'device' ? 'error.lensUnavailable' : 'error.lensDenied'));
       setIsVisionSync(false);
     }
   };
 
+  const startScreenShare = async () => {
+    try {
+      const stream = await VisionService.openScreen(visionSettings);
+      // The browser's own "stop sharing" control ends the track
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (videoRef.current?.srcObject === stream) stopVision();
+      });
+      await shareStream(stream, 'screen', t('vision.screen'));
+      DiagnosticsService.log('vision', 'Screen share on');
+    } catch (err: any) {
+      if (err?.name === 'NotAllowedError') return; // Picker dismissed
+      const error = classifyError(err);
+      DiagnosticsService.error('vision', error);
+      showError(error, t('error.screenFailed', { message: error.message }));
+    }
+  };
+
+  const stopVision = () => {
+    setIsVisionSync(false);
+    liveService.current.setVision(null);
+    logHistory('system', 'vision', t('vision.off'));
+    DiagnosticsService.log('vision', 'Vision off');
+    stopStream();
+  };
+
   const toggleVision = async () => {
     if (isVisionSync) {
-      setIsVisionSync(false);
-      liveService.current.setVision(null);
-      if (videoRef.current && videoRef.current.srcObject) {
-        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-        tracks.forEach(t => t.stop());
-        videoRef.current.srcObject = null;
-      }
+      stopVision();
     } else {
       await startCamera(facingMode);
     }
   };
 
+  const openImage = async (file: Blob) => {
+    try {
+      setPendingImage(await VisionService.readImage(file, VISION_RESOLUTIONS[visionSettings.resolution]));
+    } catch (err) {
+      const error = classifyError(err);
+      DiagnosticsService.error('vision', error);
+      showError(error, t('error.imageFailed', { message: error.message }));
+    }
+  };
+
+  const snapshotAndAsk = () => {
+    try {
+      setPendingImage(VisionService.captureFrame(videoRef.current!, VISION_RESOLUTIONS[visionSettings.resolution]));
+    } catch (err) {
+      const error = classifyError(err);
+      DiagnosticsService.error('vision', error);
+      showError(error, t('error.imageFailed', { message: error.message }));
+    }
+  };
+
+  const askAboutImage = async (image: LiveImage, question: string) => {
+    setPendingImage(null);
+    if (!isConnectedState(sessionStateRef.current)) return;
+    try {
+      setIsTyping(true);
+      setAstraResponse(null);
+      logHistory('user', 'vision', question ? t('vision.imageWithQuestion', { question }) : t('vision.imageShared'));
+      dispatch({ type: 'thinking' });
+      await liveService.current.sendImage(image, question || undefined);
+    } catch (err) {
+      console.error("Image send failed:", err);
+      DiagnosticsService.error('session', classifyError(err));
+      dispatch({ type: 'listening' });
+      setIsTyping(false);
+    }
+  };
+
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const file = Array.from(e.clipboardData?.files ?? []).find(f => f.type.startsWith('image/'));
+      if (!file) return;
+      e.preventDefault();
+      openImage(file);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [visionSettings.resolution]);
+
+  useEffect(() => {
+    if (!isVisionSync) return;
+    VisionService.applySettings(videoRef.current?.srcObject as MediaStream | null, visionSettings);
+    if (isConnected) liveService.current.setVision(videoRef.current, frameOptions(visionSettings));
+  }, [visionSettings]);
+
   const switchCamera = async () => {
     const nextMode = facingMode === 'user' ? 'environment' : 'user';
     await startCamera(nextMode);
@@ -220,11 +470,11 @@ const App: React.FC = () => {
     if (isAnimating) return;
     
     try {
-      setIsAnimating(true);
-      setError(null);
+      setIsQueueingAnimation(true);
+      clearError();
       
       // Fetch image and convert to base64
-      const response = await fetch(ASTRA_AVATAR_URL);
+      const response = await fetch(persona.avatarUrl);
       const blob = await response.blob();
       const reader = new FileReader();
       
@@ -234,93 +484,510 @@ const App: React.FC = () => {
       reader.readAsDataURL(blob);
       const base64 = await base64Promise;
 
-      const url = await VeoService.animateImage(
-        base64,
-        'image/jpeg',
-        AspectRatio.PORTRAIT,
-        (msg) => setAnimationStatus(msg)
-      );
-      
-      setVideoUrl(url);
-    } catch (err: any) {
+      // Jobs persist and resume on reload; clips already cached for this image are reused
+      await Promise.all(CLIP_STATES.map(clipState => veoJobs.generate({
+        namespace: persona.memoryNamespace,
+        clipState,
+        imageBase64: base64,
+        mimeType: blob.type || 'image/jpeg',
+        aspectRatio: AspectRatio.PORTRAIT,
+      })));
+    } catch (err) {
+      if (isCancelled(err)) return;
       console.error("Animation failed:", err);
-      if (err.message === "API_KEY_PERMISSION_DENIED" || err.message === "API_KEY_EXPIRED") {
+      // Failed Veo jobs write their own diagnostics entry
+      const error = classifyError(err);
+      if (error instanceof BudgetError) {
+        showBudgetError(error.metric);
+      } else if (error.kind === 'auth') {
         setNeedsApiKey(true);
-      } else if (err.message === "SERVICE_UNAVAILABLE") {
-        setError("Neural animation engine is temporarily overloaded. Please try again in a few minutes.");
-      } else if (err.message === "QUOTA_EXHAUSTED") {
-        setError("Neural Quota Exhausted: You have reached your API limit. Please switch to a Paid API key or wait for the quota to reset.");
+      } else if (error.kind === 'unavailable') {
+        showError(error, t('error.animationOverloaded'));
+      } else if (error.kind === 'quota') {
+        showError(error, t('error.animationQuota'));
         setNeedsApiKey(true); // Re-prompt to allow switching keys
       } else {
-        setError("Neural animation failed. Please ensure you are using a Paid API key.");
+        showError(error, t('error.animationFailed'));
       }
     } finally {
-      setIsAnimating(false);
-      setAnimationStatus('');
+      setIsQueueingAnimation(false);
     }
   };
 
+  const cancelAnimation = () => {
+    veo.active.forEach(job => veoJobs.cancel(job.id));
+  };
+
+  const resetSessionView = () => {
+    visemeEngine.current.reset();
+    animator.current.reset();
+    setAstraResponse(null);
+    setIsTyping(false);
+    setAudioLevel(0);
+    setUserLevel(0);
+  };
+
+  // Invalidates the current connection's callbacks and stops the provider.
+  const teardownConnection = () => {
+    connectionRef.current++;
+    liveService.current.stop();
+    vad.current.reset();
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    resetSessionView();
+  };
+
+  const finishHistory = () => {
+    if (!isReplay()) HistoryService.endSession(sessionIdRef.current).catch(() => {});
+    UsageService.endSession();
+    sessionIdRef.current = '';
+    setActiveSessionId(null);
+  };
+
+  // Keeps the finished recording for download.
+  const finishRecording = () => {
+    if (!recorder.current) return;
+    const recording = recorder.current.finish();
+    DiagnosticsService.log('session', `Recorded ${recorder.current.eventCount} events`);
+    setLastRecording(recording);
+    recorder.current = null;
+  };
+
+  // Replays and text chats borrow the bridge; the configured provider comes back when they end.
+  const restoreProvider = () => {
+    if (liveService.current === bridgeProvider.current) return;
+    liveService.current = bridgeProvider.current;
+    setIsReplaying(false);
+    setShowChat(false);
+  };
+
+  const endSession = () => {
+    teardownConnection();
+    toolRunner.current.cancelAll();
+    finishHistory();
+    finishRecording();
+    restoreProvider();
+    dispatch({ type: 'close' });
+  };
+
+  const failSession = (cause: AstraError, message = cause.message) => {
+    teardownConnection();
+    toolRunner.current.cancelAll();
+    finishHistory();
+    finishRecording();
+    restoreProvider();
+    DiagnosticsService.error('session', cause);
+    showError(cause, message);
+    dispatch({ type: 'failed', error: message, kind: cause.kind });
+    if (cause.kind === 'auth' || cause.kind === 'quota') {
+      setNeedsApiKey(true);
+    }
+  };
+
+  // Keeps the history session open; the reconnect effect takes it from here.
+  const dropSession = (cause: AstraError) => {
+    // A drop the machine would not retry gets the same cleanup as any other failure
+    if (dropEndsSession(sessionRef.current, cause.kind)) {
+      const key = sessionRef.current.state === 'reconnecting' ? 'error.reconnectFailed' : 'error.connectionFailed';
+      failSession(cause, t(key, { message: cause.message }));
+      return;
+    }
+    teardownConnection();
+    DiagnosticsService.log('session', `Dropped: ${cause.name}: ${cause.message}`, 'warn');
+    dispatch({ type: 'dropped', reason: cause.message, kind: cause.kind });
+  };
+
+  // The camera stream may have died with the network; bring it back before reconnecting.
+  const restoreVision = async () => {
+    const stream = videoRef.current?.srcObject as MediaStream | null;
+    if (isVisionSync && !stream?.getVideoTracks().some(track => track.readyState === 'live')) {
+      // Screen capture needs a fresh user gesture, so a dead share just ends
+      if (visionSource === 'screen') {
+        stopVision();
+      } else {
+        await startCamera(facingMode);
+      }
+    }
+  };
+
+  const bargeIn = () => {
+    liveService.current.interrupt();
+    visemeEngine.current.reset();
+    setAudioLevel(0);
+    setIsTyping(false);
+    dispatch({ type: 'interrupted' });
+  };
+
+  // A user turn opens on detected speech or a pressed talk key and closes on silence or release.
+  const beginUserTurn = () => {
+    // Text chats have no microphone to open
+    if (!isConnectedState(sessionStateRef.current) || isTalkingRef.current || isTextChat()) return;
+    isTalkingRef.current = true;
+    clearSources();
+    setIsTalking(true);
+    if (sessionStateRef.current === 'speaking' || sessionStateRef.current === 'thinking') bargeIn();
+    if (voiceInputRef.current.mode === 'ptt') liveService.current.setMicrophoneEnabled(true);
+    liveService.current.signalActivity('start');
+  };
+
+  const endUserTurn = () => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    liveService.current.signalActivity('end');
+    if (voiceInputRef.current.mode === 'ptt') liveService.current.setMicrophoneEnabled(false);
+    if (isConnectedState(sessionStateRef.current)) dispatch({ type: 'thinking' });
+  };
+
+  usePushToTalk(isConnected && voiceInput.mode === 'ptt', beginUserTurn, endUserTurn);
+
+  useEffect(() => vad.current.subscribe(event => (event === 'speechStart' ? beginUserTurn() : endUserTurn())), []);
+
+  useEffect(() => {
+    vad.current.configure(voiceInput);
+  }, [voiceInput]);
+
+  // Push-to-talk keeps the mic closed between presses; open-mic mode streams continuously
+  useEffect(() => {
+    if (!isConnected) return;
+    endUserTurn();
+    vad.current.reset();
+    liveService.current.setMicrophoneEnabled(voiceInput.mode === 'vad');
+  }, [voiceInput.mode, isConnected]);
+
+  const switchPersona = (next: Persona) => {
+    if (next.id === persona.id) return;
+    if (isSessionOpen(session.state)) endSession();
+    PersonaService.setActive(next.id);
+    setPersona(next);
+    setResumeFrom(null);
+    setLastMemory(null);
+  };
+
+  /**
+   * Opens the provider connection for the current history session. When
+   * resuming after a drop, the recent transcript is handed back as context
+   * and the twin skips its greeting.
+   */
+  const connectBridge = async (resuming: boolean) => {
+    const connection = ++connectionRef.current;
+    const current = () => connection === connectionRef.current;
+
+    const recent = resuming
+      ? await HistoryService.buildResumeContext(sessionIdRef.current).catch(() => '')
+      : '';
+    const context = [baseContextRef.current, recent].filter(Boolean).join('\n');
+    if (resuming) await restoreVision();
+    const memories = (await MemoryService.relevant(persona.memoryNamespace, context || textInput).catch(() => [])).map(f => f.text);
+
+    const callbacks: LiveCallbacks = {
+      onAudioLevel: (level) => {
+        if (current()) setAudioLevel(Math.min(1, level * SettingsService.get().animation.intensity));
+      },
+      onOutputAudio: (pcm, sampleRate) => {
+        if (!current()) return;
+        visemeEngine.current.push(pcm, sampleRate);
+        // A text chat reads replies aloud with speech calls, which are metered on their own
+        if (!isReplay() && !isTextChat()) UsageService.record('audioOutSeconds', pcm.length / sampleRate);
+      },
+      onInputAudio: (pcm, sampleRate) => {
+        if (!current()) return;
+        setUserLevel(meterLevel(pcm));
+        // Only frames that are streamed upstream count: all of them in open-mic mode, held turns with push-to-talk
+        if (!isReplay() && (voiceInputRef.current.mode === 'vad' || isTalkingRef.current)) {
+          UsageService.record('audioInSeconds', pcm.length / sampleRate);
+        }
+        if (voiceInputRef.current.mode === 'vad') vad.current.process(pcm, sampleRate);
+      },
+      onStatusChange: (s) => {
+        if (!current()) return;
+        dispatch({ type: s === 'speaking' ? 'speaking' : 'listening' });
+        if (s === 'speaking') {
+          setIsTyping(true);
+        }
+      },
+      onInterrupted: () => {
+        if (!current()) return;
+        dispatch({ type: 'interrupted' });
+        visemeEngine.current.reset();
+        setAudioLevel(0);
+        setIsTyping(false);
+      },
+      onClose: (reason) => {
+        if (current()) dropSession(new NetworkError(reason));
+      },
+      onToolCall: (calls) => {
+        if (!current()) return;
+        const context = { namespace: persona.memoryNamespace, sessionId: sessionIdRef.current };
+        if (isReplay()) {
+          // Expressions play again; tools with effects outside the avatar stay as they were and answer nothing
+          const replayable = calls.filter(call => toolRegistry.current.get(call.name)?.replayable);
+          calls.filter(call => !replayable.includes(call)).forEach(call => DiagnosticsService.log('tools', `${call.name}: not run during replay`));
+          toolRunner.current.handle(replayable, context, () => {});
+          return;
+        }
+        toolRunner.current.handle(calls, context, (response, record) => {
+          if (connection === connectionRef.current) liveService.current.sendToolResponses([response]);
+          DiagnosticsService.log('tools', `${record.name}: ${record.status}${record.error ? ` (${record.error})` : ''}`, record.status === 'error' ? 'warn' : 'info');
+          logHistory('system', 'tool', t('tools.logCall', { tool: record.name, status: t(`tools.status.${record.status}`) }));
+        });
+      },
+      onToolCallCancellation: (ids) => {
+        if (current()) toolRunner.current.cancel(ids);
+      },
+      onError: (error) => {
+        if (!current()) return;
+        if (shouldRetry(error, 0)) {
+          dropSession(error);
+        } else {
+          failSession(error);
+        }
+      },
+      onMemoryUpdate: (fact) => {
+        if (!current()) return;
+        setLastMemory(fact);
+        setTimeout(() => setLastMemory(null), 8000);
+        if (isReplay()) return;
+        MemoryService.remember(persona.memoryNamespace, fact, { sessionId: sessionIdRef.current, turn: turnRef.current })
+          .then(() => {
+            setMemoryLoaded(true);
+            setMemoryRevision(r => r + 1);
+          })
+          .catch(e => console.error("Failed to persist memory", e));
+      },
+      onInputTranscription: (text) => {
+        if (current()) userUtteranceRef.current = text;
+      },
+      onSources: (sources) => {
+        if (current()) addSources(sources);
+      },
+      onTranscription: (text) => {
+        if (!current()) return;
+        setAstraResponse(text);
+        latestResponseRef.current = text;
+        animator.current.observeTranscript(text, speechLanguage);
+        if (text.length > 0) setIsTyping(false);
+      },
+      onTurnComplete: async () => {
+        if (!current()) return;
+        dispatch({ type: 'turnComplete' });
+        setIsTyping(false);
+        const channel = isTextChat() ? 'text' : 'voice';
+        const reply = latestResponseRef.current;
+        const sources = turnSourcesRef.current;
+        turnSourcesRef.current = [];
+        logHistory('user', channel, userUtteranceRef.current);
+        logHistory('twin', channel, reply && sources.length > 0
+          ? `${reply}\n\n${t('knowledge.sourcesLine', { sources: sources.join('; ') })}`
+          : reply);
+        if (isTextChat() && reply) setChatTurns(turns => [...turns, { role: 'twin', text: reply, sources }]);
+        userUtteranceRef.current = '';
+        latestResponseRef.current = ''; // Reset for next turn
+        turnRef.current += 1;
+      }
+    };
+
+    const source = videoRef.current?.srcObject ? videoRef.current : undefined;
+    liveCallbacks.current = recorder.current?.wrap(callbacks, resuming) ?? callbacks;
+    await liveService.current.start(liveCallbacks.current, source, {
+      ...voiceSettings,
+      disableNativeAudio: false,
+      memories,
+      context: context || undefined,
+      systemInstruction: persona.systemInstruction,
+      language: speechLanguage,
+      // The persona's greeting is written in its own language
+      greeting: speechLanguage === persona.language ? persona.greeting : undefined,
+      resuming,
+      // Turns are cut by the local VAD or the talk key, not the server
+      manualActivity: true,
+      tools: toolRegistry.current.declarations(),
+      vision: frameOptions(visionSettings),
+      audio: SettingsService.get().audio,
+    });
+
+    if (!current()) {
+      // Closed while connecting; nothing else will stop this connection
+      if (!sessionIdRef.current) liveService.current.stop();
+      return;
+    }
+    dispatch({ type: 'connected' });
+  };
+
   const toggleSession = async () => {
-    if (status !== 'idle') {
-      liveService.current.stop();
-      setStatus('idle');
-      setAstraResponse(null);
-      setIsTyping(false);
-      setAudioLevel(0);
+    if (isSessionOpen(session.state)) {
+      endSession();
+      return;
+    }
+    await openSession();
+  };
+
+  // Starts a history session and connects the current provider to it.
+  const openSession = async () => {
+    if (!online) {
+      restoreProvider();
+      showError(new NetworkError('Browser is offline'), t('error.offline'));
+      return;
+    }
+
+    // A low voice budget opens the text chat instead, the same downgrade a running session gets; a used-up one refuses
+    const levels = isTextChat() ? [] : VOICE_METRICS.map(metric => UsageService.level(metric));
+    if (worstLevel(levels) !== 'ok' && settings.usage.downgradeToText) {
+      liveService.current = textChat.current;
+      setChatTurns([]);
+      setShowChat(true);
+      showUsageNotice(t('usage.switchedToText'));
+    } else if (worstLevel(levels) === 'exceeded') {
+      showBudgetError(VOICE_METRICS[levels.indexOf('exceeded')]);
       return;
     }
 
     try {
-      setError(null);
-      await liveService.current.start({
-        onAudioLevel: (level) => setAudioLevel(level),
-        onStatusChange: (s) => {
-          setStatus(s);
-          if (s === 'speaking') {
-            setIsTyping(true);
-          }
-        },
-        onError: (msg) => {
-          setError(msg);
-          setStatus('idle');
-          setIsTyping(false);
-          if (msg.includes("Model access denied") || msg.includes("Quota exhausted")) {
-            setNeedsApiKey(true);
-          }
-        },
-        onMemoryUpdate: (fact) => {
-          setLastMemory(fact);
-          setTimeout(() => setLastMemory(null), 8000);
-        },
-        onTranscription: (text) => {
-          setAstraResponse(text);
-          latestResponseRef.current = text;
-          if (text.length > 0) setIsTyping(false);
-        },
-        onTurnComplete: async () => {
-          setStatus('idle');
-          setIsTyping(false);
-          latestResponseRef.current = ''; // Reset for next turn
-        }
-      }, isVisionSync ? videoRef.current! : undefined, { ...voiceSettings, disableNativeAudio: false });
-    } catch (err: any) {
+      clearError();
+      dispatch({ type: 'connect' });
+      const record = await HistoryService.startSession(persona.memoryNamespace, persona.name, resumeFrom?.id ?? null).catch(() => null);
+      sessionIdRef.current = record?.id ?? crypto.randomUUID();
+      setActiveSessionId(record?.id ?? null);
+      UsageService.beginSession(sessionIdRef.current, { personaId: persona.id, provider: liveService.current.id });
+      turnRef.current = 0;
+      userUtteranceRef.current = '';
+      clearSources();
+      toolRunner.current.reset();
+      recorder.current = recordSessions
+        ? new SessionRecorder({ personaId: persona.id, provider: liveService.current.id, language: speechLanguage })
+        : null;
+      baseContextRef.current = resumeFrom
+        ? await HistoryService.buildResumeContext(resumeFrom.id).catch(() => '')
+        : '';
+      setResumeFrom(null);
+      if (isVisionSync) {
+        logHistory('system', 'vision', t('vision.on'));
+      } else if (settings.camera.startWithVision && !isTextChat()) {
+        await startCamera(settings.camera.facingMode);
+      }
+      await connectBridge(false);
+    } catch (err) {
       console.error("Session start failed:", err);
-      const msg = err?.message || String(err);
-      if (msg.includes("Permission denied") || msg.includes("NotAllowedError")) {
-        setError("Microphone access is required for the Neural Bridge. Please check your browser permissions.");
+      const error = classifyError(err, 'network');
+      if (error.kind === 'permission') {
+        failSession(error, t('error.micRequired'));
+      } else if (error.kind === 'device') {
+        failSession(error, t('error.micUnavailable'));
       } else {
-        setError(`Neural Bridge connection failed: ${msg}`);
+        failSession(error, t('error.connectionFailed', { message: error.message }));
       }
-      setStatus('idle');
     }
   };
 
+  /**
+   * Opens a typed conversation in place of the live session. It needs no
+   * microphone and shares history and memories with voice sessions.
+   */
+  const openTextChat = async () => {
+    if (isSessionOpen(session.state)) endSession();
+    liveService.current = textChat.current;
+    setChatTurns([]);
+    setShowChat(true);
+    await openSession();
+  };
+
+  /**
+   * Plays a recorded session back through the same callbacks a live
+   * connection uses. The replay provider stands in for the configured one
+   * until the session ends.
+   */
+  const startReplay = async (recording: SessionRecording) => {
+    const recorded = PersonaService.list().find(p => p.id === recording.personaId);
+    if (recorded && recorded.id !== persona.id) {
+      switchPersona(recorded);
+    } else if (isSessionOpen(session.state)) {
+      endSession();
+    }
+
+    const replay = new ReplayLiveProvider(recording, () => {
+      if (liveService.current === replay) endSession();
+    });
+    liveService.current = replay;
+    setIsReplaying(true);
+    DiagnosticsService.log('session', `Replaying ${recording.segments.length} connection(s) recorded ${recording.recordedAt}`);
+    try {
+      clearError();
+      dispatch({ type: 'connect' });
+      // Never a history session; it only marks the bridge as open for connectBridge
+      sessionIdRef.current = `replay-${crypto.randomUUID()}`;
+      turnRef.current = 0;
+      userUtteranceRef.current = '';
+      baseContextRef.current = '';
+      await connectBridge(false);
+    } catch (err) {
+      failSession(classifyError(err));
+    }
+  };
+
+  useEffect(() => {
+    // Offline attempts would only burn the retry budget; the effect re-runs when the network returns
+    if (session.state !== 'reconnecting' || !online) return;
+    const timer = window.setTimeout(async () => {
+      try {
+        await connectBridge(true);
+      } catch (err) {
+        const error = classifyError(err, 'network');
+        console.error(`Reconnect attempt ${session.attempt} failed:`, err);
+        if (shouldRetry(error, session.attempt)) {
+          DiagnosticsService.log('session', `Reconnect attempt ${session.attempt} failed: ${error.name}: ${error.message}`, 'warn');
+          dispatch({ type: 'retryFailed', reason: error.message, kind: error.kind });
+        } else {
+          failSession(error, t('error.reconnectFailed', { message: error.message }));
+        }
+      }
+    }, retryDelay(reconnectPolicy(session), session.attempt));
+    return () => clearTimeout(timer);
+  }, [session.state, session.attempt, online]);
+
+  // Live time is metered while a voice connection is up; reconnect gaps, text chats and replays are free
+  useEffect(() => {
+    if (!isConnected || showChat || isReplaying) return;
+    UsageService.startClock();
+    return () => UsageService.stopClock();
+  }, [isConnected, showChat, isReplaying]);
+
+  // Runs whenever usage moves; announcedLevels keeps each level change to a single notice
+  useEffect(() => {
+    for (const metric of USAGE_METRICS) {
+      const level = usageLevels[metric];
+      if (level === (announcedLevels.current[metric] ?? 'ok')) continue;
+      announcedLevels.current[metric] = level;
+      if (level === 'ok') continue;
+      const budget = settings.usage.budgets[metric] ?? 0;
+      const percent = formatNumber(budget > 0 ? usage.today.totals[metric] / budget : 1, { style: 'percent' });
+      showUsageNotice(t(level === 'warning' ? 'usage.warning' : 'usage.exceeded', { metric: t(`usage.metric.${metric}`), percent }));
+      DiagnosticsService.log('app', `Usage of ${metric} at ${level} for ${usage.today.day}`, 'warn');
+    }
+  }, [usageLevels, usage.today, settings.usage.budgets]);
+
+  // Downgrades before a voice budget runs out: vision first, then the voice session itself
+  useEffect(() => {
+    if (!isConnected || isTextChat() || isReplay() || voiceLevel === 'ok') return;
+    if (settings.usage.disableVision && isVisionSync) {
+      stopVision();
+      showUsageNotice(t('usage.visionOff'));
+    }
+    if (settings.usage.downgradeToText) {
+      DiagnosticsService.log('app', `Voice budget at ${voiceLevel}; switching to text chat`, 'warn');
+      showUsageNotice(t('usage.switchedToText'));
+      openTextChat();
+    } else if (voiceLevel === 'exceeded') {
+      endSession();
+      showBudgetError(VOICE_METRICS.find(metric => usageLevels[metric] === 'exceeded')!);
+    }
+  }, [voiceLevel, isConnected, isVisionSync, settings.usage.downgradeToText, settings.usage.disableVision]);
+
   if (isAuthChecking) {
     return (
       <div className="min-h-screen bg-slate-950 flex items-center justify-center">
         <div className="flex flex-col items-center">
           <div className="w-12 h-12 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin mb-4"></div>
-          <p className="text-indigo-300 text-xs font-bold uppercase tracking-widest animate-pulse">Initializing Neural Bridge...</p>
+          <p className="text-indigo-300 text-xs font-bold uppercase tracking-widest animate-pulse">{t('app.initializing')}</p>
         </div>
       </div>
     );
@@ -328,12 +995,234 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen pb-24 overflow-hidden selection:bg-indigo-500/30">
-      {needsApiKey && <ApiKeyPrompt onSelect={() => { window.aistudio.openSelectKey(); setNeedsApiKey(false); }} />}
+      {needsApiKey && (AUTH_MODE === 'proxy'
+        ? <LoginPrompt onAuthenticated={() => setNeedsApiKey(false)} />
+        : <ApiKeyPrompt onSelect={() => { window.aistudio.openSelectKey(); setNeedsApiKey(false); }} />)}
+      <AnimatePresence>
+        {showMemory && <MemoryPanel namespace={persona.memoryNamespace} revision={memoryRevision} onClose={() => setShowMemory(false)} />}
+        {showUsage && <UsagePanel onClose={() => setShowUsage(false)} />}
+        {showKnowledge && (
+          <KnowledgePanel namespace={persona.memoryNamespace} twinName={persona.name} onClose={() => setShowKnowledge(false)} />
+        )}
+        {showHistory && (
+          <HistoryPanel
+            namespace={persona.memoryNamespace}
+            activeSessionId={activeSessionId}
+            onClose={() => setShowHistory(false)}
+            onResume={(session) => { setResumeFrom(session); setShowHistory(false); }}
+          />
+        )}
+        {showSettings && (
+          <SettingsPanel persona={persona} canPreview={!isSessionOpen(session.state)} onClose={() => setShowSettings(false)} />
+        )}
+        {showDiagnostics && (
+          <DiagnosticsPanel
+            context={{ persona: persona.id, session: session.state, locale }}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
+        {pendingImage && (
+          <ImageAskDialog
+            image={pendingImage}
+            canSend={isConnected}
+            onSend={(question) => askAboutImage(pendingImage, question)}
+            onClose={() => setPendingImage(null)}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {showChat && (
+          <ChatPanel
+            twinName={persona.name}
+            turns={chatTurns}
+            pending={status === 'speaking' ? astraResponse : null}
+            isThinking={session.state === 'thinking'}
+            isOpen={isConnected}
+            speakReplies={settings.chat.speakReplies}
+            onSpeakRepliesChange={(speakReplies) => SettingsService.update('chat', { ...settings.chat, speakReplies })}
+            onSend={sendMessage}
+            onClose={endSession}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {showTools && (
+          <ToolLogPanel
+            namespace={persona.memoryNamespace}
+            calendarName={persona.name}
+            records={toolCalls.records}
+            onClose={() => setShowTools(false)}
+          />
+        )}
+      </AnimatePresence>
+      <div className="fixed bottom-8 end-6 z-40 flex flex-col gap-3">
+        <AnimatePresence>
+          {toolCalls.pending.map(record => (
+            <ToolConfirmCard key={record.id} record={record} onDecide={(id, approved) => toolRunner.current.decide(id, approved)} />
+          ))}
+        </AnimatePresence>
+      </div>
+      <div className="fixed top-6 left-1/2 -translate-x-1/2 z-40 flex flex-col gap-2">
+        <AnimatePresence>
+          {dueReminders.map(reminder => (
+            <motion.div
+              key={reminder.id}
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="flex items-center gap-3 px-5 py-3 rounded-2xl bg-slate-900/95 border border-amber-400/30 shadow-2xl text-sm text-slate-100"
+            >
+              <BellRing className="w-4 h-4 text-amber-400 shrink-0" />
+              <span className="text-[10px] font-bold uppercase tracking-widest text-amber-300">{t('tools.reminderDue')}</span>
+              <span>{reminder.text}</span>
+              <button onClick={() => setDueReminders(list => list.filter(r => r.id !== reminder.id))} className="text-slate-400 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          ))}
+          {usageNotices.map(notice => (
+            <motion.div
+              key={notice.id}
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="flex items-center gap-3 px-5 py-3 rounded-2xl bg-slate-900/95 border border-amber-400/30 shadow-2xl text-sm text-slate-100"
+            >
+              <Gauge className="w-4 h-4 text-amber-400 shrink-0" />
+              <span className="text-[10px] font-bold uppercase tracking-widest text-amber-300">{t('usage.notice')}</span>
+              <span>{notice.text}</span>
+              <button onClick={() => setUsageNotices(list => list.filter(n => n.id !== notice.id))} className="text-slate-400 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+      <AnimatePresence>
+        {isConnected && voiceInput.mode === 'ptt' && (
+          <PushToTalkButton isHeld={isTalking} onPress={beginUserTurn} onRelease={endUserTurn} />
+        )}
+      </AnimatePresence>
       
       <div className="max-w-4xl mx-auto px-6">
         <Header />
+        <PwaBanner />
+
+        <div className="flex justify-end gap-2 mt-4">
+          <div className="me-auto">
+            <PersonaSwitcher active={persona} onSelect={switchPersona} />
+          </div>
+          <LanguageSwitch />
+          {resumeFrom && (
+            <div className="flex items-center gap-2 px-4 rounded-2xl bg-indigo-500/10 border border-indigo-400/30 text-[11px] text-indigo-200">
+              <span className="truncate max-w-[200px]">{t('app.resuming', { title: resumeFrom.title || t('app.previousSession') })}</span>
+              <button onClick={() => setResumeFrom(null)} className="hover:text-white"><X className="w-3 h-3" /></button>
+            </div>
+          )}
+          <VisionMenu
+            settings={visionSettings}
+            onChange={setVisionSettings}
+            sharing={isVisionSync ? visionSource : null}
+            onCamera={() => startCamera(facingMode)}
+            onScreen={startScreenShare}
+            onImage={openImage}
+            onSnapshot={snapshotAndAsk}
+            onStop={stopVision}
+          />
+          <VoiceInputMenu settings={voiceInput} onChange={setVoiceInput} />
+          <button
+            onClick={() => (showChat ? endSession() : openTextChat())}
+            className={`p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors ${showChat ? 'text-indigo-300' : 'text-slate-400'}`}
+            title={t('chat.open')}
+          >
+            <MessageSquare className="w-5 h-5" />
+          </button>
+          <RecorderMenu
+            recordSessions={recordSessions}
+            onRecordSessionsChange={setRecordSessions}
+            isRecording={recorder.current !== null && isSessionOpen(session.state)}
+            lastRecording={lastRecording}
+            isReplaying={isReplaying}
+            onReplay={startReplay}
+            onStopReplay={endSession}
+          />
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors text-slate-400"
+            title={t('settings.title')}
+          >
+            <Settings className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowTools(true)}
+            className={`relative p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors ${toolCalls.running.length > 0 ? 'text-indigo-300' : 'text-slate-400'}`}
+            title={t('tools.title')}
+          >
+            <Wrench className="w-5 h-5" />
+            {toolCalls.pending.length > 0 && (
+              <span className="absolute -top-1 -end-1 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-[10px] font-bold text-white flex items-center justify-center">
+                {toolCalls.pending.length}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => setShowDiagnostics(true)}
+            className={`p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors ${errorCause ? 'text-rose-300' : 'text-slate-400'}`}
+            title={t('diagnostics.title')}
+          >
+            <Activity className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors text-slate-400"
+            title={t('app.history')}
+          >
+            <History className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowMemory(true)}
+            className={`p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors ${memoryLoaded ? 'text-indigo-300' : 'text-slate-400'}`}
+            title={t('app.memory')}
+          >
+            <Brain className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowKnowledge(true)}
+            className="p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors text-slate-400"
+            title={t('knowledge.open')}
+          >
+            <BookOpen className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowUsage(true)}
+            className={`p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors ${usageLevel === 'exceeded' ? 'text-rose-300' : usageLevel === 'warning' ? 'text-amber-300' : 'text-slate-400'}`}
+            title={t('usage.open')}
+          >
+            <Gauge className="w-5 h-5" />
+          </button>
+        </div>
 
         <div className="flex flex-col items-center justify-center mt-8 space-y-10">
+          <div className="flex flex-col items-center gap-2">
+            <SessionStateBadge session={session} onRetry={toggleSession} isOffline={!online} />
+            {isConnected && !showChat && <AudioMeters userLevel={userLevel} twinLevel={audioLevel} twinName={persona.name} />}
+            {isConnected && !showChat && <SourceChips sources={turnSources} />}
+            <AnimatePresence>
+              {errorCause && (
+                <ErrorNotice
+                  kind={errorCause.kind}
+                  action={errorCause.action}
+                  onDetails={() => setShowDiagnostics(true)}
+                  onDismiss={clearError}
+                />
+              )}
+            </AnimatePresence>
+            <AnimatePresence>
+              {isVisionSync && (
+                <VisionIndicator source={visionSource} label={visionLabel} settings={visionSettings} isLive={isConnected} onStop={stopVision} />
+              )}
+            </AnimatePresence>
+          </div>
           
           {/* Avatar Container */}
           <div className="relative group">
@@ -347,81 +1236,28 @@ const App: React.FC = () => {
               status === 'listening' ? 'border-emerald-400/60 scale-[1.02]' : 'border-slate-800/50'
             }`}>
               <div className="w-full h-full relative overflow-hidden bg-slate-950">
-                {videoUrl ? (
-                  <video 
-                    src={videoUrl} 
-                    autoPlay 
-                    loop 
-                    muted 
-                    playsInline
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <motion.div 
-                    className={`w-full h-full bg-cover bg-center neural-distort`}
+                <motion.div 
+                    className={`w-full h-full bg-cover bg-center neural-distort relative`}
                     style={{ 
-                      backgroundImage: `url(${ASTRA_AVATAR_URL})`,
-                    }}
-                    animate={{
-                      scale: status === 'speaking' 
-                        ? 1.1 + (audioLevel > 0.1 ? audioLevel * 0.15 : 0)
-                        : 1.1,
-                      scaleX: status === 'speaking' ? 1 - (audioLevel * 0.03) : 1, 
-                      scaleY: status === 'speaking' 
-                        ? (1 + (audioLevel * 0.12)) * mouthShape.scale // Lip Sync + Audio
-                        : 1, 
-                      rotate: status === 'speaking' 
-                        ? [0, -1.5, 1.5, 0] 
-                        : (idleAction === 'tilt' ? [0, 1.5, -1.5, 0] : [0, -0.4, 0.4, 0]), 
-                      skewX: status === 'speaking' 
-                        ? (audioLevel * 5) 
-                        : (idleAction === 'shift' ? 1.2 : 0), 
-                      skewY: status === 'speaking' 
-                        ? (audioLevel * 2 + mouthShape.skew) 
-                        : (idleAction === 'glance' ? 0.6 : 0), 
-                      x: status === 'speaking' 
-                        ? [0, -2, 2, 0] 
-                        : (idleAction === 'shift' ? [0, 3, -3, 0] : [0, -0.6, 0.6, 0]),
-                      y: status === 'speaking' 
-                        ? [0, -2.5, 2.5, 0] 
-                        : [0, -3, 3, 0],
-                      filter: `
-                        brightness(${status === 'idle' ? 0.7 : 1.1 + (audioLevel * 0.35)}) 
-                        contrast(${1.1 + (audioLevel * 0.2)}) 
-                        saturate(${1.1 + (audioLevel * 0.25)}) 
-                        drop-shadow(0 0 ${audioLevel * 25}px rgba(99, 102, 241, ${audioLevel * 0.6}))
-                        ${isBlinking ? 'brightness(0.2)' : 'brightness(1)'}
-                      `
-                    }}
-                    transition={{
-                      scale: { type: 'spring', damping: 25, stiffness: 150 },
-                      scaleX: status === 'speaking' 
-                        ? { type: 'spring', damping: 15, stiffness: 200 }
-                        : { duration: 0.3 },
-                      scaleY: status === 'speaking'
-                        ? { type: 'spring', damping: 8, stiffness: 250 } // Snappier for lip sync
-                        : { duration: 0.3 },
-                      rotate: { 
-                        repeat: Infinity, 
-                        duration: status === 'speaking' ? 0.3 : 5, 
-                        ease: "easeInOut" 
-                      },
-                      skewX: { type: 'spring', damping: 8, stiffness: 120 },
-                      skewY: { type: 'spring', damping: 10, stiffness: 100 },
-                      x: { 
-                        repeat: Infinity, 
-                        duration: status === 'speaking' ? 0.4 : 7, 
-                        ease: "easeInOut" 
-                      },
-                      y: { 
-                        repeat: Infinity, 
-                        duration: status === 'speaking' ? 0.6 : 4, 
-                        ease: "easeInOut" 
-                      },
-                      filter: { duration: isBlinking ? 0.08 : 0.25 }
+                      // The bundled avatar sits underneath and shows through if the persona's cannot load
+                      backgroundImage: hasClip ? undefined : `url(${persona.avatarUrl}), url(${FALLBACK_AVATAR_URL})`,
                     }}
-                  />
-                )}
+                    animate={avatarMotion.animate}
+                    transition={avatarMotion.transition}
+                  >
+                    {/* State loops stay mounted and cross-fade so switching never stalls on a reload */}
+                    {hasClip && [...new Set(CLIP_STATES.map(clipFor))].map(src => src && (
+                        <video
+                          key={src}
+                          src={src}
+                          autoPlay
+                          loop
+                          muted
+                          playsInline
+                          className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ${clipFor(status) === src ? 'opacity-100' : 'opacity-0'}`}
+                        />
+                    ))}
+                  </motion.div>
                 
                 {/* Enlarged Vision Preview */}
                 <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-56 h-56 md:w-80 md:h-80 rounded-full border-4 border-cyan-400/60 overflow-hidden transition-all duration-700 shadow-[0_0_60px_rgba(6,182,212,0.4)] z-30 ${isVisionSync ? 'opacity-100 scale-100 animate-vision-pulse' : 'opacity-0 scale-50 pointer-events-none'}`}>
@@ -430,15 +1266,15 @@ const App: React.FC = () => {
                      autoPlay 
                      playsInline 
                      muted 
-                     className={`w-full h-full object-cover ${facingMode === 'user' ? 'scale-x-[-1]' : ''}`} 
+                     className={`w-full h-full ${visionSource === 'screen' ? 'object-contain bg-slate-950' : 'object-cover'} ${visionSource === 'camera' && facingMode === 'user' ? 'scale-x-[-1]' : ''}`} 
                    />
                    <div className="absolute inset-0 bg-cyan-500/10 pointer-events-none mix-blend-overlay"></div>
                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-cyan-500/80 backdrop-blur px-3 py-1 rounded-full text-[10px] text-white font-bold tracking-widest uppercase">
-                     {facingMode === 'user' ? 'Self Lens' : 'External Lens'}
+                     {visionLabel}
                    </div>
                 </div>
 
-                {status === 'idle' && !videoUrl && <div className="absolute inset-0 shimmer-overlay"></div>}
+                {status === 'idle' && !hasClip && <div className="absolute inset-0 shimmer-overlay"></div>}
 
                 {/* Animation Overlay */}
                 <AnimatePresence>
@@ -453,8 +1289,9 @@ const App: React.FC = () => {
                         <div className="w-20 h-20 border-4 border-indigo-500/20 rounded-full animate-spin border-t-indigo-500"></div>
                         <Sparkles className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-indigo-400 w-8 h-8 animate-pulse" />
                       </div>
-                      <h3 className="text-xl font-display font-bold text-white mb-2">Neural Synthesis</h3>
+                      <h3 className="text-xl font-display font-bold text-white mb-2">{t('animation.title')}</h3>
                       <p className="text-indigo-300 text-sm font-medium animate-pulse">{animationStatus}</p>
+                      <p className="mt-2 text-slate-500 text-[11px]">{t('animation.resumable')}</p>
                       <div className="mt-8 w-full max-w-[200px] h-1 bg-slate-800 rounded-full overflow-hidden">
                         <motion.div 
                           className="h-full bg-indigo-500"
@@ -468,6 +1305,14 @@ const App: React.FC = () => {
                           }}
                         />
                       </div>
+                      {veo.active.length > 0 && (
+                        <button
+                          onClick={cancelAnimation}
+                          className="mt-6 flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 text-xs text-slate-300 hover:text-rose-300"
+                        >
+                          <X className="w-4 h-4" /> {t('animation.cancel')}
+                        </button>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -476,8 +1321,101 @@ const App: React.FC = () => {
 
             {/* Neural Bridge Status */}
             <div className="absolute -bottom-10 left-1/2 -translate-x-1/2 px-12 py-5 rounded-[35px] bg-slate-950/90 backdrop-blur-3xl border border-white/10 shadow-2xl flex flex-col items-center min-w-[300px]">
-              <div className="flex items-center space-x-4">
+              <div className="flex items-center gap-4">
                 <div className="relative">
                   <div className={`w-3.5 h-3.5 rounded-full ${status === 'speaking' ? 'bg-indigo-400' : status === 'listening' ? 'bg-emerald-400' : 'bg-slate-600'}`}></div>
                   {status !== 'idle' && <div className={`absolute inset-0 rounded-full animate-ping opacity-75 ${status === 'speaking' ? 'bg-indigo-300' : 'bg-emerald-300'}`}></div>}
                 </div>
+                <span className="text-xs font-bold uppercase tracking-[0.3em] text-slate-200">{t(`session.state.${session.state}`)}</span>
+                {status === 'speaking' && <Volume2 className="w-4 h-4 text-indigo-300" />}
+              </div>
+              {error && (
+                <p className="mt-3 flex items-center gap-2 max-w-xs text-[11px] text-rose-300">
+                  <AlertCircle className="w-3.5 h-3.5 shrink-0" /> {error}
+                </p>
+              )}
+              <AnimatePresence>
+                {lastMemory && (
+                  <motion.p
+                    initial={{ opacity: 0, y: 4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    className="mt-3 flex items-center gap-2 max-w-xs text-[11px] text-emerald-300"
+                  >
+                    <CheckCircle2 className="w-3.5 h-3.5 shrink-0" /> {t('app.memorySaved', { fact: lastMemory })}
+                  </motion.p>
+                )}
+              </AnimatePresence>
+            </div>
+          </div>
+
+          {/* Twin reply */}
+          {!showChat && (astraResponse || isTyping) && (
+            <div className="w-full max-w-2xl mt-8 px-6 py-4 rounded-3xl bg-slate-900/70 border border-white/10 text-sm text-slate-200 leading-relaxed">
+              {astraResponse || <span className="text-slate-500 animate-pulse">{t('session.state.thinking')}</span>}
+            </div>
+          )}
+
+          {/* Controls */}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={toggleSession}
+              className={`flex items-center gap-3 px-8 py-4 rounded-[28px] font-bold text-sm transition-colors ${isSessionOpen(session.state) ? 'bg-rose-500/90 hover:bg-rose-400 text-white' : 'bg-indigo-500 hover:bg-indigo-400 text-white'}`}
+            >
+              {isSessionOpen(session.state) ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+              {t(isSessionOpen(session.state) ? 'app.disconnect' : 'app.connect')}
+            </button>
+            <button
+              onClick={toggleVision}
+              className={`p-4 rounded-[22px] border transition-colors ${isVisionSync ? 'bg-cyan-500/20 border-cyan-400/50 text-cyan-200' : 'bg-slate-900/80 border-white/10 text-slate-400 hover:text-white'}`}
+              title={t('app.lens')}
+            >
+              <Camera className="w-5 h-5" />
+            </button>
+            {isVisionSync && visionSource === 'camera' && (
+              <button
+                onClick={switchCamera}
+                className="p-4 rounded-[22px] bg-slate-900/80 border border-white/10 text-slate-400 hover:text-white transition-colors"
+                title={t('app.switchLens')}
+              >
+                <RefreshCw className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={handleAnimate}
+              disabled={isAnimating}
+              className="p-4 rounded-[22px] bg-slate-900/80 border border-white/10 text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+              title={t('app.animate')}
+            >
+              <Video className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Typed commands to the live session; the text chat has its own panel */}
+          {isConnected && !showChat && (
+            <form
+              onSubmit={(e) => { e.preventDefault(); handleSendMessage(); }}
+              className="w-full max-w-2xl flex items-center gap-3"
+            >
+              <input
+                value={textInput}
+                onChange={(e) => setTextInput(e.target.value)}
+                placeholder={t('app.commandPlaceholder', { name: persona.name })}
+                className="flex-1 bg-slate-900/80 border border-white/10 rounded-2xl px-5 py-3 text-sm text-white outline-none focus:border-indigo-400/60"
+              />
+              <button
+                type="submit"
+                disabled={!textInput.trim()}
+                className="px-5 py-3 rounded-2xl bg-indigo-500 text-white text-sm font-bold hover:bg-indigo-400 disabled:opacity-40"
+              >
+                {t('app.send')}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default App;
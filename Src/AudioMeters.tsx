@@ -0,0 +1,34 @@
+import React from 'react';
+import { Mic, Volume2 } from 'lucide-react';
+import { useI18n } from './hooks/useI18n';
+
+interface AudioMetersProps {
+  // Both 0..1: the mic on a decibel scale, the twin as its providers report it
+  userLevel: number;
+  twinLevel: number;
+  twinName: string;
+}
+
+const Meter: React.FC<{ icon: React.ReactNode; label: string; level: number; color: string }> = ({ icon, label, level, color }) => (
+  <div className="flex items-center gap-2" title={label}>
+    {icon}
+    <span className="w-14 truncate text-[10px] text-slate-400">{label}</span>
+    <div className="w-28 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+      <div className={`h-full rounded-full ${color} transition-[width] duration-75`} style={{ width: `${Math.round(level * 100)}%` }} />
+    </div>
+  </div>
+);
+
+/** Side-by-side input and output levels, so a silent mic or muted twin is easy to spot. */
+const AudioMeters: React.FC<AudioMetersProps> = ({ userLevel, twinLevel, twinName }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 px-4 py-2 rounded-2xl bg-slate-950/60 border border-white/5">
+      <Meter icon={<Mic className="w-3.5 h-3.5 text-emerald-400" />} label={t('meters.you')} level={userLevel} color="bg-emerald-400" />
+      <Meter icon={<Volume2 className="w-3.5 h-3.5 text-indigo-400" />} label={twinName} level={twinLevel} color="bg-indigo-400" />
+    </div>
+  );
+};
+
+export default AudioMeters;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { MessageSquare, X, Send, Volume2, VolumeX } from 'lucide-react';
+import { ChatTurn } from './services/text-chat';
+import Markdown from './Markdown';
+import SourceChips from './SourceChips';
+import { useI18n } from './hooks/useI18n';
+
+interface ChatPanelProps {
+  twinName: string;
+  turns: ChatTurn[];
+  // The reply as it streams in, while the twin is answering
+  pending: string | null;
+  isThinking: boolean;
+  isOpen: boolean;
+  speakReplies: boolean;
+  onSpeakRepliesChange: (speak: boolean) => void;
+  onSend: (text: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Docked text chat. It leaves the avatar visible, so the twin can be watched
+ * answering while replies stream in.
+ */
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  twinName, turns, pending, isThinking, isOpen, speakReplies, onSpeakRepliesChange, onSend, onClose,
+}) => {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const { t, isRtl } = useI18n();
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [turns.length, pending, isThinking]);
+
+  const submit = () => {
+    if (!draft.trim() || !isOpen) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <motion.aside
+      initial={{ opacity: 0, x: isRtl ? -40 : 40 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: isRtl ? -40 : 40 }}
+      className="fixed top-0 end-0 z-40 w-full max-w-md h-full bg-slate-900/95 backdrop-blur border-s border-white/10 flex flex-col"
+    >
+      <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+        <div className="flex items-center gap-3">
+          <MessageSquare className="w-5 h-5 text-indigo-400" />
+          <h2 className="text-white font-display font-bold">{t('chat.title', { name: twinName })}</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onSpeakRepliesChange(!speakReplies)}
+            className={speakReplies ? 'text-indigo-300 hover:text-white' : 'text-slate-500 hover:text-white'}
+            title={t(speakReplies ? 'chat.speakOn' : 'chat.speakOff')}
+          >
+            {speakReplies ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title={t('chat.end')}><X className="w-5 h-5" /></button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+        {turns.length === 0 && !pending && !isThinking && (
+          <p className="text-center text-slate-500 text-sm py-10">{t('chat.empty')}</p>
+        )}
+        {turns.map((turn, i) => turn.role === 'user' ? (
+          <div key={i} className="ms-auto max-w-[85%] w-fit px-4 py-2 rounded-2xl bg-indigo-500 text-sm text-white whitespace-pre-wrap break-words">
+            {turn.text}
+          </div>
+        ) : (
+          <div key={i} className="max-w-[90%] px-4 py-3 rounded-2xl bg-slate-950/60 border border-white/5 text-sm text-slate-200 space-y-2">
+            <Markdown text={turn.text} />
+            {turn.sources && <SourceChips sources={turn.sources} />}
+          </div>
+        ))}
+        {pending ? (
+          <div className="max-w-[90%] px-4 py-3 rounded-2xl bg-slate-950/60 border border-indigo-400/20 text-sm text-slate-200">
+            <Markdown text={pending} />
+          </div>
+        ) : isThinking && (
+          <p className="text-[11px] text-indigo-300 animate-pulse">{t('chat.thinking', { name: twinName })}</p>
+        )}
+      </div>
+
+      <div className="px-6 py-4 border-t border-white/10 flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          rows={2}
+          disabled={!isOpen}
+          placeholder={t(isOpen ? 'chat.placeholder' : 'chat.connecting')}
+          className="flex-1 resize-none rounded-2xl bg-slate-950/60 border border-white/10 px-4 py-3 text-sm text-white placeholder:text-slate-500 focus:outline-none focus:border-indigo-400/50 disabled:opacity-50"
+        />
+        <button
+          onClick={submit}
+          disabled={!isOpen || !draft.trim()}
+          className="p-3 rounded-2xl bg-indigo-500 text-white hover:bg-indigo-400 disabled:opacity-40"
+          title={t('chat.send')}
+        >
+          <Send className="w-5 h-5 rtl:-scale-x-100" />
+        </button>
+      </div>
+    </motion.aside>
+  );
+};
+
+export default ChatPanel;
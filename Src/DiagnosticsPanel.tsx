@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Activity, X, Copy, Download, Trash2 } from 'lucide-react';
+import { DiagnosticLevel, DiagnosticsService } from './services/diagnostics';
+import { downloadFile, dateStamp } from './utils/files';
+import { useDiagnostics } from './hooks/useDiagnostics';
+import { useI18n } from './hooks/useI18n';
+
+interface DiagnosticsPanelProps {
+  // Extra lines for the report header, such as the active persona and session state
+  context: Record<string, string>;
+  onClose: () => void;
+}
+
+const LEVEL_COLORS: Record<DiagnosticLevel, string> = {
+  info: 'text-slate-400',
+  warn: 'text-amber-300',
+  error: 'text-rose-400',
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ context, onClose }) => {
+  const events = useDiagnostics();
+  const [notice, setNotice] = useState<string | null>(null);
+  const { t, isRtl, formatDate, formatNumber } = useI18n();
+
+  const copyReport = async () => {
+    try {
+      await navigator.clipboard.writeText(DiagnosticsService.report(context));
+      setNotice(t('diagnostics.copied'));
+    } catch {
+      setNotice(t('diagnostics.copyFailed'));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <Activity className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-white font-display font-bold">{t('diagnostics.title')}</h2>
+            <span className="text-[10px] text-slate-400 font-bold">{formatNumber(events.length)}</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-white/5">
+          <p className="text-[11px] text-slate-500">{t('diagnostics.hint')}</p>
+          <div className="flex gap-2">
+            <button onClick={copyReport} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-500 text-xs text-white hover:bg-indigo-400">
+              <Copy className="w-4 h-4" /> {t('diagnostics.copy')}
+            </button>
+            <button
+              onClick={() => downloadFile(`astra-diagnostics-${dateStamp()}.txt`, DiagnosticsService.report(context), 'text/plain')}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700"
+            >
+              <Download className="w-4 h-4" /> {t('diagnostics.download')}
+            </button>
+            <button
+              onClick={() => { DiagnosticsService.clear(); setNotice(null); }}
+              className="ms-auto flex items-center gap-2 px-3 py-2 rounded-xl text-xs text-slate-400 hover:text-rose-300"
+            >
+              <Trash2 className="w-4 h-4" /> {t('diagnostics.clear')}
+            </button>
+          </div>
+          {notice && <p className="text-[11px] text-indigo-300">{notice}</p>}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {events.length === 0 && (
+            <li className="text-center text-slate-500 text-sm py-10">{t('diagnostics.empty')}</li>
+          )}
+          {[...events].reverse().map(event => (
+            <li key={event.id} className="rounded-xl px-3 py-2 border border-white/5 bg-slate-950/60">
+              <div className="flex items-center gap-2 text-[10px] uppercase tracking-widest">
+                <span className={`font-bold ${LEVEL_COLORS[event.level]}`}>{t(`diagnostics.level.${event.level}`)}</span>
+                <span className="text-slate-500">{event.source}{event.kind && ` · ${t(`error.kind.${event.kind}`)}`}</span>
+                <span className="ms-auto text-slate-600 normal-case tracking-normal">{formatDate(event.at, { timeStyle: 'medium' })}</span>
+              </div>
+              <p dir="ltr" className="mt-1 text-[11px] text-slate-300 font-mono break-words">{event.message}</p>
+            </li>
+          ))}
+        </ul>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,336 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Mic, PhoneOff, Send, Camera, CameraOff } from 'lucide-react';
+import LoginPrompt from './LoginPrompt';
+import { createLiveProvider } from './services/live-provider';
+import { EmbedBridge } from './services/embed-bridge';
+import { EMBED_VERSION, EmbedCommand, EmbedEvent, EmbedTheme, EmbedVisionSource, parseEmbedQuery } from './services/embed-protocol';
+import { AUTH_MODE, AuthService } from './services/auth';
+import { MemoryService } from './services/memory-store';
+import { PersonaService, showFallbackAvatar } from './services/personas';
+import { SettingsService } from './services/settings';
+import { I18nService } from './services/i18n';
+import { VisionService, VISION_DEFAULTS, frameOptions } from './services/vision';
+import { isConnectedState, isSessionOpen, toLiveStatus } from './services/session-machine';
+import { AuthError, NetworkError, classifyError } from './services/errors';
+import { useSessionMachine } from './hooks/useSessionMachine';
+import { useI18n } from './hooks/useI18n';
+
+const DEFAULT_ACCENT = '#6366f1';
+const MAX_RADIUS = 48;
+
+const cssColor = (value?: string) => (value && CSS.supports('color', value) ? value : undefined);
+
+// Theme values arrive from another site, so only parseable colours and a clamped radius get through
+const themeStyle = (theme: EmbedTheme): React.CSSProperties => ({
+  '--astra-accent': cssColor(theme.accent) ?? DEFAULT_ACCENT,
+  '--astra-radius': `${Math.max(0, Math.min(MAX_RADIUS, theme.radius ?? 24))}px`,
+  background: cssColor(theme.background),
+} as React.CSSProperties);
+
+interface EmbedWidgetProps {
+  // Verified origin of the framing page; null when the widget is opened on its own
+  host: string | null;
+  options: ReturnType<typeof parseEmbedQuery>;
+}
+
+/**
+ * The twin as a compact widget for other sites. It runs one live session at
+ * a time with the persona's memories, and can be driven by its own controls,
+ * by the host page through the SDK, or both. Tools stay off here: there is
+ * no room to confirm sensitive calls, and the host did not choose them.
+ */
+const EmbedWidget: React.FC<EmbedWidgetProps> = ({ host, options }) => {
+  const { t, locale, dir } = useI18n();
+  const [persona, setPersona] = useState(() => PersonaService.get(options.persona));
+  const [theme, setTheme] = useState(options.theme);
+  const [session, dispatch] = useSessionMachine();
+  const [reply, setReply] = useState('');
+  const [draft, setDraft] = useState('');
+  const [audioLevel, setAudioLevel] = useState(0);
+  const [vision, setVision] = useState<EmbedVisionSource | null>(null);
+  const [needsLogin, setNeedsLogin] = useState(false);
+  const provider = useRef(createLiveProvider());
+  const bridge = useRef<EmbedBridge | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const connectionRef = useRef(0);
+  const replyRef = useRef('');
+  const utteranceRef = useRef('');
+  // Host commands can arrive back to back, before React re-renders with the last one's changes
+  const personaRef = useRef(persona);
+  const sessionStateRef = useRef(session.state);
+  sessionStateRef.current = session.state;
+  const status = toLiveStatus(session.state);
+  const isOpen = isSessionOpen(session.state);
+  const isLight = theme.mode === 'light';
+
+  const emit = (event: EmbedEvent) => bridge.current?.emit(event);
+
+  const fail = (err: unknown) => {
+    const error = classifyError(err, 'network');
+    connectionRef.current++;
+    provider.current.stop();
+    setAudioLevel(0);
+    dispatch({ type: 'failed', error: error.message, kind: error.kind });
+    emit({ type: 'error', kind: error.kind, message: error.message, retryable: error.policy.retryable });
+  };
+
+  const start = async () => {
+    if (isSessionOpen(sessionStateRef.current)) return;
+    if (provider.current.requiresApiKey && !AuthService.hasValidSession()) {
+      // AI Studio keys only exist inside AI Studio, so a third-party page can only use the proxy
+      if (AUTH_MODE === 'proxy') setNeedsLogin(true);
+      throw new AuthError('Sign in to start a session');
+    }
+    const connection = ++connectionRef.current;
+    const current = () => connection === connectionRef.current;
+    const twin = personaRef.current;
+    const speechLanguage = I18nService.speechLanguage(locale, twin.language);
+    dispatch({ type: 'connect' });
+    replyRef.current = '';
+    utteranceRef.current = '';
+    setReply('');
+
+    const memories = (await MemoryService.relevant(twin.memoryNamespace).catch(() => [])).map(f => f.text);
+    try {
+      await provider.current.start({
+        onAudioLevel: (level) => {
+          if (current()) setAudioLevel(level);
+        },
+        onStatusChange: (s) => {
+          if (current()) dispatch({ type: s === 'speaking' ? 'speaking' : 'listening' });
+        },
+        onInputTranscription: (text) => {
+          if (!current()) return;
+          utteranceRef.current = text;
+          emit({ type: 'transcription', role: 'user', text, final: false });
+        },
+        onTranscription: (text) => {
+          if (!current()) return;
+          replyRef.current = text;
+          setReply(text);
+          emit({ type: 'transcription', role: 'twin', text, final: false });
+        },
+        onMemoryUpdate: (fact) => {
+          if (!current()) return;
+          emit({ type: 'memory', fact });
+          MemoryService.remember(twin.memoryNamespace, fact, null).catch(e => console.error("Failed to persist memory", e));
+        },
+        onTurnComplete: () => {
+          if (!current()) return;
+          dispatch({ type: 'turnComplete' });
+          if (utteranceRef.current) emit({ type: 'transcription', role: 'user', text: utteranceRef.current, final: true });
+          if (replyRef.current) emit({ type: 'transcription', role: 'twin', text: replyRef.current, final: true });
+          utteranceRef.current = '';
+          replyRef.current = '';
+        },
+        onInterrupted: () => {
+          if (!current()) return;
+          dispatch({ type: 'interrupted' });
+          setAudioLevel(0);
+        },
+        onError: (error) => {
+          if (current()) fail(error);
+        },
+        onClose: (reason) => {
+          if (current()) fail(new NetworkError(reason));
+        },
+      }, videoRef.current?.srcObject ? videoRef.current : undefined, {
+        ...SettingsService.voiceFor(twin.id, twin.voice),
+        memories,
+        systemInstruction: twin.systemInstruction,
+        language: speechLanguage,
+        greeting: speechLanguage === twin.language ? twin.greeting : undefined,
+        vision: frameOptions(VISION_DEFAULTS),
+        audio: SettingsService.get().audio,
+      });
+    } catch (err) {
+      if (current()) fail(err);
+      throw err;
+    }
+    if (current()) dispatch({ type: 'connected' });
+  };
+
+  const stop = () => {
+    connectionRef.current++;
+    provider.current.stop();
+    setAudioLevel(0);
+    dispatch({ type: 'close' });
+  };
+
+  const send = async (text: string) => {
+    if (!text.trim()) return;
+    if (!isConnectedState(sessionStateRef.current)) throw new NetworkError('No session is open; start one first');
+    setReply('');
+    dispatch({ type: 'thinking' });
+    emit({ type: 'transcription', role: 'user', text, final: true });
+    await provider.current.send(text);
+  };
+
+  const stopStream = () => {
+    const stream = videoRef.current?.srcObject as MediaStream | null;
+    stream?.getTracks().forEach(track => track.stop());
+    if (videoRef.current) videoRef.current.srcObject = null;
+  };
+
+  const changeVision = async (source: EmbedVisionSource | null) => {
+    const video = videoRef.current;
+    provider.current.setVision(null);
+    stopStream();
+    setVision(null);
+    if (!source || !video) return;
+    let stream: MediaStream;
+    try {
+      stream = source === 'camera'
+        ? await VisionService.openCamera('user', VISION_DEFAULTS)
+        : await VisionService.openScreen(VISION_DEFAULTS);
+    } catch (err) {
+      throw classifyError(err, 'permission');
+    }
+    video.srcObject = stream;
+    setVision(source);
+    stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (videoRef.current?.srcObject === stream) changeVision(null);
+    });
+    await VisionService.waitForFrame(video);
+    if (isConnectedState(sessionStateRef.current)) provider.current.setVision(video, frameOptions(VISION_DEFAULTS));
+  };
+
+  const changePersona = (id: string) => {
+    const next = PersonaService.list().find(p => p.id === id);
+    if (!next) throw new Error(`Unknown persona "${id}"`);
+    if (next.id === personaRef.current.id) return;
+    if (isSessionOpen(sessionStateRef.current)) stop();
+    personaRef.current = next;
+    setPersona(next);
+    setReply('');
+    emit({ type: 'persona', personaId: next.id });
+  };
+
+  // The bridge is created once; it reaches the latest handlers through this ref
+  const handleCommand = useRef<(command: EmbedCommand) => Promise<void>>(async () => {});
+  handleCommand.current = async (command) => {
+    switch (command.type) {
+      case 'start': return start();
+      case 'stop': return stop();
+      case 'send': return send(String(command.text ?? ''));
+      case 'setVision': return changeVision(command.source === 'camera' || command.source === 'screen' ? command.source : null);
+      case 'setPersona': return changePersona(String(command.personaId));
+      case 'setTheme': return setTheme(current => ({ ...current, ...command.theme }));
+      default: throw new Error(`Unknown command "${(command as { type: string }).type}"`);
+    }
+  };
+
+  useEffect(() => {
+    if (!host) return;
+    const channel = new EmbedBridge(host, command => handleCommand.current(command));
+    bridge.current = channel;
+    channel.emit({
+      type: 'ready',
+      version: EMBED_VERSION,
+      personaId: personaRef.current.id,
+      personas: PersonaService.list().map(({ id, name }) => ({ id, name })),
+    });
+    return () => {
+      channel.dispose();
+      bridge.current = null;
+    };
+  }, [host]);
+
+  useEffect(() => {
+    emit({ type: 'status', state: session.state });
+  }, [session.state]);
+
+  useEffect(() => () => {
+    provider.current.stop();
+    stopStream();
+  }, []);
+
+  const submit = () => {
+    const text = draft.trim();
+    if (!text) return;
+    setDraft('');
+    send(text).catch(err => console.error("Embed send failed", err));
+  };
+
+  return (
+    <div
+      dir={dir}
+      style={themeStyle(theme)}
+      className={`relative h-screen w-full overflow-hidden flex flex-col items-center justify-between gap-3 p-4 ${isLight ? 'bg-white text-slate-900' : 'bg-slate-950 text-white'}`}
+    >
+      {needsLogin && <LoginPrompt onAuthenticated={() => { setNeedsLogin(false); start().catch(() => {}); }} />}
+
+      <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest opacity-70">
+        <span
+          className={`w-2 h-2 rounded-full ${status !== 'idle' ? 'animate-pulse' : ''}`}
+          style={{ background: status === 'idle' ? '#64748b' : 'var(--astra-accent)' }}
+        />
+        <span>{persona.name}</span>
+        <span>·</span>
+        <span>{t(`session.state.${session.state}`)}</span>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center justify-center">
+        <motion.img
+          src={persona.avatarUrl}
+          onError={showFallbackAvatar}
+          alt={persona.name}
+          animate={{ scale: status === 'speaking' ? 1 + audioLevel * 0.08 : 1 }}
+          className="max-h-full aspect-square rounded-full object-cover border-2"
+          style={{ borderColor: status === 'idle' ? 'transparent' : 'var(--astra-accent)' }}
+        />
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          className={vision ? 'absolute bottom-0 end-0 w-1/4 aspect-square rounded-full object-cover border-2 border-white/40' : 'hidden'}
+        />
+      </div>
+
+      <p className="w-full min-h-[2.5rem] text-sm text-center line-clamp-3" aria-live="polite">
+        {reply || (session.state === 'error' ? session.error : '')}
+      </p>
+
+      {options.controls && (
+        <div className="w-full flex items-center gap-2">
+          <button
+            onClick={() => (isOpen ? stop() : start().catch(err => console.error("Embed start failed", err)))}
+            className="p-3 text-white shrink-0"
+            style={{ background: isOpen ? '#e11d48' : 'var(--astra-accent)', borderRadius: 'var(--astra-radius)' }}
+            title={t(isOpen ? 'embed.stop' : 'embed.start', { name: persona.name })}
+          >
+            {isOpen ? <PhoneOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+          </button>
+          <form
+            onSubmit={(e) => { e.preventDefault(); submit(); }}
+            className={`flex-1 flex items-center gap-1 px-3 border ${isLight ? 'bg-slate-100 border-slate-200' : 'bg-slate-900 border-white/10'}`}
+            style={{ borderRadius: 'var(--astra-radius)' }}
+          >
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={!isConnectedState(session.state)}
+              placeholder={t('embed.placeholder')}
+              className="flex-1 min-w-0 bg-transparent py-2.5 text-sm outline-none disabled:opacity-50"
+            />
+            <button type="submit" disabled={!draft.trim() || !isConnectedState(session.state)} className="opacity-70 hover:opacity-100 disabled:opacity-30" title={t('chat.send')}>
+              <Send className="w-4 h-4 rtl:-scale-x-100" />
+            </button>
+          </form>
+          <button
+            onClick={() => changeVision(vision ? null : 'camera').catch(err => console.error("Embed camera failed", err))}
+            className={`p-3 shrink-0 border ${isLight ? 'border-slate-200' : 'border-white/10'}`}
+            style={{ borderRadius: 'var(--astra-radius)', color: vision ? 'var(--astra-accent)' : undefined }}
+            title={t(vision ? 'embed.cameraOff' : 'embed.cameraOn')}
+          >
+            {vision ? <CameraOff className="w-5 h-5" /> : <Camera className="w-5 h-5" />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmbedWidget;
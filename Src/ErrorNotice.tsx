@@ -0,0 +1,40 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { AlertCircle, Activity, X } from 'lucide-react';
+import { ErrorAction, ErrorKind } from './services/errors';
+import { useI18n } from './hooks/useI18n';
+
+// The failure message itself is shown by the bridge status panel; this adds what to do about it
+interface ErrorNoticeProps {
+  kind: ErrorKind;
+  action: ErrorAction;
+  onDetails: () => void;
+  onDismiss: () => void;
+}
+
+/** Recommended action for the last failure, with a way into the diagnostics log. */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ kind, action, onDetails, onDismiss }) => {
+  const { t } = useI18n();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -6 }}
+      role="alert"
+      className="flex items-start gap-3 max-w-md px-4 py-3 rounded-2xl bg-slate-950/80 backdrop-blur border border-rose-400/40 text-[11px] text-rose-100"
+    >
+      <AlertCircle className="w-4 h-4 text-rose-400 shrink-0" />
+      <div className="space-y-1">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-rose-300">{t(`error.kind.${kind}`)}</p>
+        <p className="text-slate-200">{t(`error.action.${action}`)}</p>
+        <button onClick={onDetails} className="flex items-center gap-1 text-indigo-300 hover:text-white">
+          <Activity className="w-3 h-3" /> {t('diagnostics.open')}
+        </button>
+      </div>
+      <button onClick={onDismiss} className="text-slate-400 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+    </motion.div>
+  );
+};
+
+export default ErrorNotice;
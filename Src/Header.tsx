@@ -0,0 +1,21 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { useI18n } from './hooks/useI18n';
+
+const Header: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <header className="flex items-center gap-4 pt-10">
+      <div className="w-12 h-12 rounded-2xl bg-indigo-500/20 border border-indigo-400/30 flex items-center justify-center">
+        <Sparkles className="w-6 h-6 text-indigo-400" />
+      </div>
+      <div>
+        <h1 className="text-2xl font-display font-bold text-white tracking-tight">Astra 5.0</h1>
+        <p className="text-[10px] text-indigo-300 font-bold uppercase tracking-[0.3em]">{t('app.tagline')}</p>
+      </div>
+    </header>
+  );
+};
+
+export default Header;
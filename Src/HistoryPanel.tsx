@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { History, Search, X, FileText, FileJson, Trash2, PlayCircle, ChevronLeft, Eye, Wrench } from 'lucide-react';
+import { HistoryService, HistorySession, HistoryEntry, HistorySearchHit } from './services/history-store';
+import { downloadFile, dateStamp } from './utils/files';
+import { useI18n } from './hooks/useI18n';
+
+interface HistoryPanelProps {
+  namespace: string;
+  onClose: () => void;
+  onResume: (session: HistorySession) => void;
+  activeSessionId: string | null;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ namespace, onClose, onResume, activeSessionId }) => {
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [selected, setSelected] = useState<HistorySession | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<HistorySearchHit[]>([]);
+  const { t, isRtl, formatDate } = useI18n();
+
+  const reload = async () => setSessions(await HistoryService.listSessions(namespace));
+
+  useEffect(() => {
+    reload();
+  }, [namespace]);
+
+  useEffect(() => {
+    if (!selected) return;
+    HistoryService.getEntries(selected.id).then(setEntries);
+  }, [selected]);
+
+  useEffect(() => {
+    const handle = window.setTimeout(async () => setHits(await HistoryService.search(namespace, query)), 200);
+    return () => clearTimeout(handle);
+  }, [namespace, query]);
+
+  const exportSession = async (session: HistorySession, format: 'md' | 'json') => {
+    const name = `${namespace}-session-${dateStamp(new Date(session.startedAt))}-${session.id.slice(0, 8)}`;
+    if (format === 'md') {
+      downloadFile(`${name}.md`, await HistoryService.exportMarkdown(session.id), 'text/markdown');
+    } else {
+      downloadFile(`${name}.json`, await HistoryService.exportJson(session.id), 'application/json');
+    }
+  };
+
+  const removeSession = async (session: HistorySession) => {
+    await HistoryService.deleteSession(session.id);
+    setSelected(null);
+    reload();
+  };
+
+  const renderEntry = (entry: HistoryEntry) => (
+    <li key={entry.id} className={entry.role === 'system' ? 'text-center' : ''}>
+      {entry.role === 'system' ? (
+        <span className="inline-flex items-center gap-1 text-[10px] uppercase tracking-widest text-cyan-400/80">
+          {entry.channel === 'tool' ? <Wrench className="w-3 h-3" /> : <Eye className="w-3 h-3" />} {entry.text}
+        </span>
+      ) : (
+        <div className={`rounded-2xl px-4 py-3 text-sm ${entry.role === 'user' ? 'bg-emerald-500/10 text-emerald-100 ms-8' : 'bg-indigo-500/10 text-indigo-100 me-8'}`}>
+          <p>{entry.text}</p>
+          <p className="mt-1 text-[10px] text-slate-500">{formatDate(entry.at, { timeStyle: 'medium' })} · {t(`history.channel.${entry.channel}`)}</p>
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            {selected ? (
+              <button onClick={() => setSelected(null)} className="text-slate-400 hover:text-white"><ChevronLeft className="w-5 h-5 rtl:rotate-180" /></button>
+            ) : (
+              <History className="w-5 h-5 text-indigo-400" />
+            )}
+            <h2 className="text-white font-display font-bold truncate max-w-[240px]">
+              {selected ? (selected.title || t('history.untitled')) : t('history.title')}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        {selected ? (
+          <>
+            <div className="flex gap-2 px-6 py-4 border-b border-white/5">
+              <button onClick={() => onResume(selected)} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-500 text-xs text-white hover:bg-indigo-400">
+                <PlayCircle className="w-4 h-4" /> {t('history.resume')}
+              </button>
+              <button onClick={() => exportSession(selected, 'md')} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+                <FileText className="w-4 h-4" /> {t('history.markdown')}
+              </button>
+              <button onClick={() => exportSession(selected, 'json')} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+                <FileJson className="w-4 h-4" /> {t('history.json')}
+              </button>
+              <button
+                onClick={() => removeSession(selected)}
+                disabled={selected.id === activeSessionId}
+                className="ms-auto p-2 rounded-xl text-slate-400 hover:text-rose-400 disabled:opacity-30"
+                title={t('history.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+              {entries.map(renderEntry)}
+            </ul>
+          </>
+        ) : (
+          <>
+            <div className="px-6 py-4 border-b border-white/5">
+              <div className="flex items-center bg-slate-950 rounded-xl px-3 border border-white/10">
+                <Search className="w-4 h-4 text-slate-500" />
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t('history.search')}
+                  className="flex-1 bg-transparent px-2 py-2 text-sm text-white outline-none"
+                />
+              </div>
+            </div>
+            <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+              {query.trim() ? (
+                hits.length === 0
+                  ? <li className="text-center text-slate-500 text-sm py-10">{t('history.noMatches')}</li>
+                  : hits.map(({ session, entry }) => (
+                    <li key={entry.id}>
+                      <button onClick={() => setSelected(session)} className="w-full text-start rounded-2xl p-4 bg-slate-950/60 border border-white/5 hover:border-indigo-400/40">
+                        <p className="text-sm text-slate-100 line-clamp-2">{entry.text}</p>
+                        <p className="mt-2 text-[10px] text-slate-500 uppercase tracking-widest">
+                          {session.title || t('history.untitledShort')} · {formatDate(entry.at, { dateStyle: 'medium', timeStyle: 'short' })}
+                        </p>
+                      </button>
+                    </li>
+                  ))
+              ) : sessions.length === 0 ? (
+                <li className="text-center text-slate-500 text-sm py-10">{t('history.empty')}</li>
+              ) : sessions.map(session => (
+                <li key={session.id}>
+                  <button onClick={() => setSelected(session)} className="w-full text-start rounded-2xl p-4 bg-slate-950/60 border border-white/5 hover:border-indigo-400/40">
+                    <p className="text-sm text-slate-100 truncate">{session.title || t('history.untitled')}</p>
+                    <p className="mt-2 text-[10px] text-slate-500 uppercase tracking-widest">
+                      {formatDate(session.startedAt, { dateStyle: 'medium', timeStyle: 'short' })} · {t('history.entries', { count: session.entryCount })}
+                      {session.id === activeSessionId && <span className="text-emerald-400"> · {t('history.live')}</span>}
+                      {session.resumedFrom && <span> · {t('history.resumed')}</span>}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default HistoryPanel;
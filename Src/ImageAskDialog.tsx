@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Send, X } from 'lucide-react';
+import { LiveImage } from './services/live-provider';
+import { imageDataUrl } from './services/vision';
+import { useI18n } from './hooks/useI18n';
+
+interface ImageAskDialogProps {
+  image: LiveImage;
+  canSend: boolean;
+  onSend: (question: string) => void;
+  onClose: () => void;
+}
+
+const ImageAskDialog: React.FC<ImageAskDialogProps> = ({ image, canSend, onSend, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const { t } = useI18n();
+
+  const submit = () => {
+    if (canSend) onSend(question.trim());
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.96 }}
+        animate={{ scale: 1 }}
+        className="w-full max-w-lg rounded-3xl bg-slate-900 border border-white/10 shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-white/10">
+          <h2 className="text-white font-display font-bold">{t('vision.askTitle')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+        <img src={imageDataUrl(image)} alt="" className="w-full max-h-80 object-contain bg-slate-950" />
+        <div className="p-6 space-y-3">
+          <div className="flex items-center gap-2 bg-slate-950 rounded-xl px-3 border border-white/10">
+            <input
+              autoFocus
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder={t('vision.askPlaceholder')}
+              className="flex-1 bg-transparent py-3 text-sm text-white outline-none"
+            />
+            <button onClick={submit} disabled={!canSend} className="p-2 rounded-lg text-indigo-300 hover:text-white disabled:opacity-30" title={t('vision.ask')}>
+              <Send className="w-4 h-4 rtl:-scale-x-100" />
+            </button>
+          </div>
+          {!canSend && <p className="text-[11px] text-amber-300">{t('vision.askOffline')}</p>}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ImageAskDialog;
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { BookOpen, Upload, RefreshCw, Trash2, X, Search, FileText, AlertCircle } from 'lucide-react';
+import { KnowledgeService, KnowledgeDocument, KnowledgePassage, citation } from './services/knowledge-store';
+import { useI18n } from './hooks/useI18n';
+
+interface KnowledgePanelProps {
+  namespace: string;
+  twinName: string;
+  onClose: () => void;
+}
+
+const KnowledgePanel: React.FC<KnowledgePanelProps> = ({ namespace, twinName, onClose }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<KnowledgePassage[] | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t, isRtl, formatNumber, formatDate } = useI18n();
+
+  const reload = async () => setDocuments(await KnowledgeService.list(namespace));
+
+  // Indexing runs in the background and reports each status change
+  useEffect(() => {
+    reload();
+    return KnowledgeService.subscribe(() => { reload(); });
+  }, [namespace]);
+
+  const handleAdd = async (files: File[]) => {
+    setNotice(null);
+    const problems: string[] = [];
+    let added = 0;
+    for (const file of files) {
+      try {
+        const document = await KnowledgeService.add(namespace, file);
+        if (document.status === 'ready') added++;
+        else problems.push(`${file.name}: ${document.error}`);
+      } catch (err: any) {
+        problems.push(err?.message || String(err));
+      }
+    }
+    setNotice([added > 0 && t('knowledge.added', { count: added }), ...problems].filter(Boolean).join('\n'));
+  };
+
+  const runSearch = async () => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    setResults(await KnowledgeService.search(namespace, query).catch(() => []));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <BookOpen className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-white font-display font-bold">{t('knowledge.title')}</h2>
+            <span className="text-[10px] text-slate-400 font-bold">{formatNumber(documents.length)}</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-white/5">
+          <p className="text-[11px] text-slate-400">{t('knowledge.hint', { name: twinName })}</p>
+          <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+            <Upload className="w-4 h-4" /> {t('knowledge.add')}
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept={KnowledgeService.accept}
+            className="hidden"
+            onChange={(e) => {
+              const files = [...(e.target.files ?? [])];
+              if (files.length > 0) handleAdd(files);
+              e.target.value = '';
+            }}
+          />
+          {notice && <p className="text-[11px] text-indigo-300 whitespace-pre-line">{notice}</p>}
+          <form
+            onSubmit={(e) => { e.preventDefault(); runSearch(); }}
+            className="flex items-center bg-slate-950 rounded-xl px-3 border border-white/10"
+          >
+            <Search className="w-4 h-4 text-slate-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('knowledge.test')}
+              className="flex-1 bg-transparent px-2 py-2 text-sm text-white outline-none"
+            />
+            {results && (
+              <button type="button" onClick={() => { setQuery(''); setResults(null); }} className="text-slate-500 hover:text-white">
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </form>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {results ? (
+            <>
+              {results.length === 0 && (
+                <li className="text-center text-slate-500 text-sm py-10">{t('knowledge.noResults')}</li>
+              )}
+              {results.map((passage, i) => (
+                <li key={i} className="rounded-2xl p-4 border border-white/5 bg-slate-950/60">
+                  <p className="text-[10px] text-indigo-300 font-bold uppercase tracking-widest mb-2">{citation(passage)}</p>
+                  <p className="text-sm text-slate-200 whitespace-pre-line line-clamp-6">{passage.text}</p>
+                </li>
+              ))}
+            </>
+          ) : (
+            <>
+              {documents.length === 0 && (
+                <li className="text-center text-slate-500 text-sm py-10">{t('knowledge.empty')}</li>
+              )}
+              {documents.map(document => (
+                <li key={document.id} className={`rounded-2xl p-4 border ${document.status === 'failed' ? 'border-rose-400/30 bg-rose-500/5' : 'border-white/5 bg-slate-950/60'}`}>
+                  <div className="flex items-start gap-3">
+                    <FileText className="w-4 h-4 mt-0.5 text-slate-500 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-100 truncate" title={document.fileName}>{document.title}</p>
+                      {document.error && (
+                        <p className="flex items-center gap-1 mt-1 text-[11px] text-rose-300">
+                          <AlertCircle className="w-3 h-3 shrink-0" /> {document.error}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between mt-3">
+                    <div className="flex items-center gap-2 text-[10px] text-slate-500 uppercase tracking-widest">
+                      <span className={document.status === 'indexing' ? 'text-indigo-300 animate-pulse' : undefined}>{t(`knowledge.status.${document.status}`)}</span>
+                      <span>·</span>
+                      <span>{document.format}</span>
+                      {document.status === 'ready' && (
+                        <>
+                          <span>·</span>
+                          <span>{t('knowledge.chunks', { count: document.chunkCount })}</span>
+                        </>
+                      )}
+                      <span>·</span>
+                      <span>{formatDate(document.indexedAt ?? document.addedAt)}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-slate-400">
+                      <button
+                        onClick={() => KnowledgeService.reindex(document.id)}
+                        disabled={document.status === 'indexing'}
+                        className="hover:text-indigo-400 disabled:opacity-40"
+                        title={t('knowledge.reindex')}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => KnowledgeService.remove(document.id)} className="hover:text-rose-400" title={t('knowledge.remove')}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </>
+          )}
+        </ul>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default KnowledgePanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, Locale } from './services/i18n';
+import { useI18n } from './hooks/useI18n';
+
+const LanguageSwitch: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div
+      className="flex items-center gap-1 p-1 rounded-2xl bg-slate-900/80 border border-white/10"
+      role="radiogroup"
+      aria-label={t('language.label')}
+    >
+      <Languages className="w-4 h-4 mx-2 text-slate-500" />
+      {(Object.keys(LOCALES) as Locale[]).map(id => (
+        <button
+          key={id}
+          role="radio"
+          aria-checked={locale === id}
+          lang={id}
+          onClick={() => setLocale(id)}
+          className={`px-3 py-2 rounded-xl text-xs font-bold transition-colors ${locale === id ? 'bg-indigo-500 text-white' : 'text-slate-400 hover:text-white'}`}
+        >
+          {LOCALES[id].label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitch;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { AuthService } from './services/auth';
+import { useI18n } from './hooks/useI18n';
+
+interface LoginPromptProps {
+  onAuthenticated: () => void;
+}
+
+const LoginPrompt: React.FC<LoginPromptProps> = ({ onAuthenticated }) => {
+  const [accessCode, setAccessCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accessCode.trim() || isSubmitting) return;
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await AuthService.login(accessCode.trim());
+      onAuthenticated();
+    } catch (err: any) {
+      setError(err?.message || t('login.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/90 backdrop-blur-xl flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-slate-900 border border-white/10 rounded-[32px] p-8 shadow-2xl">
+        <div className="w-14 h-14 rounded-2xl bg-indigo-500/20 flex items-center justify-center mb-6">
+          <KeyRound className="w-7 h-7 text-indigo-400" />
+        </div>
+        <h2 className="text-xl font-display font-bold text-white mb-2">{t('login.title')}</h2>
+        <p className="text-sm text-slate-400 mb-6">{t('login.body')}</p>
+        <input
+          type="password"
+          autoFocus
+          value={accessCode}
+          onChange={(e) => setAccessCode(e.target.value)}
+          placeholder={t('login.placeholder')}
+          className="w-full bg-slate-950 border border-white/10 rounded-xl px-4 py-3 text-white outline-none focus:border-indigo-400/60"
+        />
+        {error && <p className="mt-3 text-xs text-rose-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting || !accessCode.trim()}
+          className="mt-6 w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-500 text-white font-bold hover:bg-indigo-400 disabled:opacity-40"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {t('login.submit')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginPrompt;
@@ -0,0 +1,110 @@
+import React from 'react';
+
+// Inline spans in the order they are tried: code first so nothing inside it is parsed
+const INLINE = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/;
+
+const renderInline = (text: string, key = 0): React.ReactNode[] => {
+  const match = INLINE.exec(text);
+  if (!match) return text ? [text] : [];
+  const [token, code, bold, italic, link] = match;
+  const before = text.slice(0, match.index);
+  const rest = renderInline(text.slice(match.index + token.length), key + 1);
+  let node: React.ReactNode;
+  if (code) {
+    node = <code key={key} className="px-1 rounded bg-slate-800 font-mono text-[0.9em] text-indigo-200">{code.slice(1, -1)}</code>;
+  } else if (bold) {
+    node = <strong key={key} className="text-white">{renderInline(bold.slice(2, -2), key * 10)}</strong>;
+  } else if (italic) {
+    node = <em key={key}>{renderInline(italic.slice(1, -1), key * 10)}</em>;
+  } else {
+    const [, label, href] = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(link)!;
+    // Only web links; anything else (javascript:, data:) stays plain text
+    node = /^https?:\/\//i.test(href)
+      ? <a key={key} href={href} target="_blank" rel="noreferrer noopener" className="text-indigo-300 underline hover:text-white">{label}</a>
+      : label;
+  }
+  return [...(before ? [before] : []), node, ...rest];
+};
+
+type Block =
+  | { type: 'code'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'paragraph'; text: string };
+
+const LIST_ITEM = /^\s*([-*+]|\d+\.)\s+(.*)$/;
+
+const parseBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim().startsWith('```')) {
+      const body: string[] = [];
+      // An unclosed fence (a reply still streaming) runs to the end
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) body.push(lines[i]);
+      blocks.push({ type: 'code', text: body.join('\n') });
+      i++;
+    } else if (/^#{1,6}\s/.test(line)) {
+      const [, hashes, text] = /^(#{1,6})\s+(.*)$/.exec(line)!;
+      blocks.push({ type: 'heading', level: hashes.length, text });
+      i++;
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && LIST_ITEM.test(lines[i])) items.push(LIST_ITEM.exec(lines[i++])![2]);
+      blocks.push({ type: 'list', ordered, items });
+    } else if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quoted.push(lines[i++].replace(/^>\s?/, ''));
+      blocks.push({ type: 'quote', text: quoted.join(' ') });
+    } else if (line.trim()) {
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i].trim() && !/^(```|#{1,6}\s|>)/.test(lines[i].trim()) && !LIST_ITEM.test(lines[i])) {
+        paragraph.push(lines[i++].trim());
+      }
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+    } else {
+      i++;
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Renders the Markdown subset chat replies use: paragraphs, headings, lists,
+ * quotes, code and inline emphasis and links. Output is built from React
+ * elements, never HTML strings, so model text cannot inject markup.
+ */
+const Markdown: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => (
+  <div className={`space-y-2 break-words ${className}`}>
+    {parseBlocks(text).map((block, i) => {
+      switch (block.type) {
+        case 'code':
+          return (
+            <pre key={i} dir="ltr" className="p-3 rounded-xl bg-slate-950 border border-white/5 overflow-x-auto text-[12px] font-mono text-slate-200">
+              <code>{block.text}</code>
+            </pre>
+          );
+        case 'heading':
+          return <p key={i} className={`font-display font-bold text-white ${block.level <= 2 ? 'text-base' : 'text-sm'}`}>{renderInline(block.text)}</p>;
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} className={`ps-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+            </List>
+          );
+        }
+        case 'quote':
+          return <blockquote key={i} className="ps-3 border-s-2 border-indigo-400/40 text-slate-400">{renderInline(block.text)}</blockquote>;
+        default:
+          return <p key={i}>{renderInline(block.text)}</p>;
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Brain, Download, Upload, Pin, PinOff, Trash2, Pencil, Check, X, Search } from 'lucide-react';
+import { MemoryService, MemoryFact, MemoryCategory, MEMORY_CATEGORIES } from './services/memory-store';
+import { downloadFile, dateStamp } from './utils/files';
+import { useI18n } from './hooks/useI18n';
+
+interface MemoryPanelProps {
+  namespace: string;
+  onClose: () => void;
+  // Bumped by the parent whenever the live session stores a new fact
+  revision: number;
+}
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ namespace, onClose, revision }) => {
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<MemoryCategory | 'all'>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t, isRtl, formatNumber, formatDate } = useI18n();
+
+  const reload = async () => setFacts(await MemoryService.list(namespace));
+
+  useEffect(() => {
+    reload();
+  }, [namespace, revision]);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return facts.filter(f =>
+      (category === 'all' || f.category === category) &&
+      (!needle || f.text.toLowerCase().includes(needle))
+    );
+  }, [facts, query, category]);
+
+  const saveEdit = async (fact: MemoryFact) => {
+    if (draft.trim()) {
+      await MemoryService.update(fact.id, { text: draft.trim(), confidence: 1 });
+    }
+    setEditingId(null);
+    reload();
+  };
+
+  const handleExport = async () => {
+    downloadFile(`${namespace}-memory-${dateStamp()}.json`, await MemoryService.exportJson(namespace), 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const count = await MemoryService.importJson(namespace, await file.text());
+      setNotice(t('memory.imported', { count }));
+      reload();
+    } catch (err: any) {
+      setNotice(t('common.importFailed', { message: err?.message || String(err) }));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <Brain className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-white font-display font-bold">{t('memory.title')}</h2>
+            <span className="text-[10px] text-slate-400 font-bold">{formatNumber(facts.length)}</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-white/5">
+          <div className="flex items-center bg-slate-950 rounded-xl px-3 border border-white/10">
+            <Search className="w-4 h-4 text-slate-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('memory.search')}
+              className="flex-1 bg-transparent px-2 py-2 text-sm text-white outline-none"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(['all', ...MEMORY_CATEGORIES] as const).map(c => (
+              <button
+                key={c}
+                onClick={() => setCategory(c)}
+                className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest ${category === c ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400'}`}
+              >
+                {t(`memory.category.${c}`)}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleExport} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+              <Download className="w-4 h-4" /> {t('memory.export')}
+            </button>
+            <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+              <Upload className="w-4 h-4" /> {t('memory.import')}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {notice && <p className="text-[11px] text-indigo-300">{notice}</p>}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {visible.length === 0 && (
+            <li className="text-center text-slate-500 text-sm py-10">{t('memory.empty')}</li>
+          )}
+          {visible.map(fact => (
+            <li key={fact.id} className={`rounded-2xl p-4 border ${fact.pinned ? 'border-indigo-400/40 bg-indigo-500/10' : 'border-white/5 bg-slate-950/60'}`}>
+              {editingId === fact.id ? (
+                <textarea
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  className="w-full bg-slate-950 text-sm text-white rounded-lg p-2 outline-none border border-indigo-500/40"
+                />
+              ) : (
+                <p className="text-sm text-slate-100">{fact.text}</p>
+              )}
+              <div className="flex items-center justify-between mt-3">
+                <div className="flex items-center gap-2 text-[10px] text-slate-500 uppercase tracking-widest">
+                  <span>{t(`memory.category.${fact.category}`)}</span>
+                  <span>·</span>
+                  <span>{formatNumber(fact.confidence, { style: 'percent' })}</span>
+                  <span>·</span>
+                  <span>{formatDate(fact.updatedAt)}</span>
+                  {fact.source && <span title={fact.source.sessionId}>· {t('memory.turn', { turn: fact.source.turn })}</span>}
+                </div>
+                <div className="flex items-center gap-2 text-slate-400">
+                  {editingId === fact.id ? (
+                    <>
+                      <button onClick={() => saveEdit(fact)} className="hover:text-emerald-400"><Check className="w-4 h-4" /></button>
+                      <button onClick={() => setEditingId(null)} className="hover:text-white"><X className="w-4 h-4" /></button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={async () => { await MemoryService.update(fact.id, { pinned: !fact.pinned }); reload(); }}
+                        className="hover:text-indigo-400"
+                        title={t(fact.pinned ? 'memory.unpin' : 'memory.pin')}
+                      >
+                        {fact.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => { setEditingId(fact.id); setDraft(fact.text); }} className="hover:text-white" title={t('memory.edit')}>
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={async () => { await MemoryService.remove([fact.id]); reload(); }}
+                        className="hover:text-rose-400"
+                        title={t('memory.forget')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default MemoryPanel;
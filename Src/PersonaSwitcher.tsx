@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { ChevronDown, Check, Upload, Trash2, Users } from 'lucide-react';
+import { Persona, PersonaService, showFallbackAvatar } from './services/personas';
+import { useI18n } from './hooks/useI18n';
+
+interface PersonaSwitcherProps {
+  active: Persona;
+  onSelect: (persona: Persona) => void;
+}
+
+const PersonaSwitcher: React.FC<PersonaSwitcherProps> = ({ active, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>(() => PersonaService.list());
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t } = useI18n();
+
+  const handleImport = async (file: File) => {
+    try {
+      const persona = await PersonaService.importFile(file);
+      setPersonas(PersonaService.list());
+      setNotice(t('persona.imported', { name: persona.name }));
+    } catch (err: any) {
+      setNotice(t('common.importFailed', { message: err?.message || String(err) }));
+    }
+  };
+
+  const handleRemove = (persona: Persona) => {
+    PersonaService.remove(persona.id);
+    setPersonas(PersonaService.list());
+    if (persona.id === active.id) onSelect(PersonaService.get(null));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-3 ps-2 pe-4 py-2 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors"
+        title={t('persona.switch')}
+      >
+        <img src={active.avatarUrl} alt="" onError={showFallbackAvatar} className="w-8 h-8 rounded-full object-cover" />
+        <span className="text-sm text-slate-200 font-bold">{active.name}</span>
+        <ChevronDown className="w-4 h-4 text-slate-500" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="absolute start-0 mt-2 w-72 z-50 rounded-2xl bg-slate-900 border border-white/10 shadow-2xl p-2"
+          >
+            <div className="flex items-center gap-2 px-3 py-2 text-[10px] text-slate-500 uppercase tracking-widest">
+              <Users className="w-3 h-3" /> {t('persona.heading')}
+            </div>
+            {personas.map(persona => (
+              <div key={persona.id} className="flex items-center rounded-xl hover:bg-slate-800">
+                <button
+                  onClick={() => { onSelect(persona); setIsOpen(false); }}
+                  className="flex-1 flex items-center gap-3 px-3 py-2 text-start"
+                >
+                  <img src={persona.avatarUrl} alt="" onError={showFallbackAvatar} className="w-8 h-8 rounded-full object-cover" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{persona.name}</p>
+                    <p className="text-[10px] text-slate-500 truncate">{persona.subject || persona.id} · {persona.language}</p>
+                  </div>
+                  {persona.id === active.id && <Check className="w-4 h-4 text-indigo-400" />}
+                </button>
+                {!PersonaService.isBundled(persona.id) && (
+                  <button onClick={() => handleRemove(persona)} className="p-2 text-slate-500 hover:text-rose-400" title={t('persona.remove')}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="w-full flex items-center gap-2 px-3 py-2 mt-1 rounded-xl text-xs text-slate-300 hover:bg-slate-800"
+            >
+              <Upload className="w-4 h-4" /> {t('persona.import')}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            {notice && <p className="px-3 py-2 text-[11px] text-indigo-300">{notice}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default PersonaSwitcher;
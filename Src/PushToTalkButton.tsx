@@ -0,0 +1,38 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Mic } from 'lucide-react';
+import { useI18n } from './hooks/useI18n';
+
+interface PushToTalkButtonProps {
+  isHeld: boolean;
+  onPress: () => void;
+  onRelease: () => void;
+}
+
+const PushToTalkButton: React.FC<PushToTalkButtonProps> = ({ isHeld, onPress, onRelease }) => {
+  const { t } = useI18n();
+
+  return (
+    <motion.button
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0, scale: isHeld ? 1.08 : 1 }}
+      exit={{ opacity: 0, y: 20 }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onPress();
+      }}
+      onPointerUp={onRelease}
+      onPointerCancel={onRelease}
+      onContextMenu={(e) => e.preventDefault()}
+      className={`fixed bottom-8 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-8 py-4 rounded-full border select-none touch-none shadow-2xl transition-colors ${
+        isHeld ? 'bg-emerald-500 border-emerald-300 text-white' : 'bg-slate-900/90 border-white/10 text-slate-200 hover:border-emerald-400/40'
+      }`}
+    >
+      <Mic className={`w-5 h-5 ${isHeld ? 'animate-pulse' : ''}`} />
+      <span className="text-sm font-bold">{t(isHeld ? 'ptt.release' : 'ptt.hold')}</span>
+      <kbd className="hidden md:inline text-[10px] text-slate-400 border border-white/10 rounded px-1.5 py-0.5">Space</kbd>
+    </motion.button>
+  );
+};
+
+export default PushToTalkButton;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { CloudOff, Download, RefreshCw } from 'lucide-react';
+import { usePwa } from './hooks/usePwa';
+import { useI18n } from './hooks/useI18n';
+
+const PwaBanner: React.FC = () => {
+  const { online, installable, updateReady, install, applyUpdate } = usePwa();
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col items-center gap-2 mt-4">
+      <AnimatePresence>
+        {!online && (
+          <motion.div
+            key="offline"
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            role="status"
+            className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-amber-500/10 border border-amber-400/30 text-[11px] text-amber-100"
+          >
+            <CloudOff className="w-4 h-4 text-amber-400 shrink-0" />
+            <span>{t('pwa.offline')}</span>
+          </motion.div>
+        )}
+        {updateReady && (
+          <motion.div
+            key="update"
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-indigo-500/10 border border-indigo-400/30 text-[11px] text-indigo-100"
+          >
+            <span>{t('pwa.updateReady')}</span>
+            <button onClick={applyUpdate} className="flex items-center gap-1 font-bold text-white hover:text-indigo-300">
+              <RefreshCw className="w-3 h-3" /> {t('pwa.reload')}
+            </button>
+          </motion.div>
+        )}
+        {installable && (
+          <motion.button
+            key="install"
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            onClick={install}
+            className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 text-[11px] font-bold text-slate-200"
+          >
+            <Download className="w-4 h-4 text-indigo-400" /> {t('pwa.install')}
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default PwaBanner;
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { CircleDot, Download, Play, FileUp, Square } from 'lucide-react';
+import { SessionRecording, parseRecording, recordingDuration } from './services/session-recorder';
+import { downloadFile, dateStamp } from './utils/files';
+import { useI18n } from './hooks/useI18n';
+
+interface RecorderMenuProps {
+  // Record every session opened while this is on
+  recordSessions: boolean;
+  onRecordSessionsChange: (enabled: boolean) => void;
+  isRecording: boolean;
+  lastRecording: SessionRecording | null;
+  isReplaying: boolean;
+  onReplay: (recording: SessionRecording) => void;
+  onStopReplay: () => void;
+}
+
+const RecorderMenu: React.FC<RecorderMenuProps> = ({
+  recordSessions, onRecordSessionsChange, isRecording, lastRecording, isReplaying, onReplay, onStopReplay,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t, formatNumber } = useI18n();
+
+  const pick = (action: () => void) => () => {
+    setIsOpen(false);
+    action();
+  };
+
+  const openFile = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      setNotice(null);
+      setIsOpen(false);
+      onReplay(recording);
+    } catch (err: any) {
+      setNotice(t('common.importFailed', { message: err?.message || String(err) }));
+    }
+  };
+
+  const itemClass = 'w-full flex items-center gap-3 px-3 py-2 rounded-xl text-sm text-start text-slate-200 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`p-3 rounded-2xl bg-slate-900/80 border hover:border-indigo-400/40 transition-colors ${
+          isRecording ? 'border-rose-400/50 text-rose-400' : isReplaying ? 'border-cyan-400/50 text-cyan-300' : 'border-white/10 text-slate-400'
+        }`}
+        title={t('recorder.title')}
+      >
+        <CircleDot className={`w-5 h-5 ${isRecording ? 'animate-pulse' : ''}`} />
+      </button>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) openFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="absolute end-0 mt-2 w-72 z-50 rounded-2xl bg-slate-900 border border-white/10 shadow-2xl p-4 space-y-3"
+          >
+            <p className="text-[10px] text-slate-500 uppercase tracking-widest">{t('recorder.title')}</p>
+            <label className="flex items-center justify-between gap-3 text-xs text-slate-300 cursor-pointer">
+              {t('recorder.recordSessions')}
+              <input
+                type="checkbox"
+                checked={recordSessions}
+                onChange={(e) => onRecordSessionsChange(e.target.checked)}
+                className="w-4 h-4 accent-rose-500"
+              />
+            </label>
+            <p className="text-[11px] text-slate-400">{t(isRecording ? 'recorder.recording' : 'recorder.hint')}</p>
+
+            <div className="space-y-1 pt-2 border-t border-white/5">
+              {lastRecording && (
+                <>
+                  <button
+                    onClick={pick(() => downloadFile(
+                      `astra-session-${dateStamp()}.json`,
+                      JSON.stringify(lastRecording),
+                      'application/json',
+                    ))}
+                    className={itemClass}
+                  >
+                    <Download className="w-4 h-4 text-indigo-300" />
+                    {t('recorder.download', { seconds: formatNumber(recordingDuration(lastRecording) / 1000, { maximumFractionDigits: 0 }) })}
+                  </button>
+                  <button onClick={pick(() => onReplay(lastRecording))} disabled={isRecording} className={itemClass}>
+                    <Play className="w-4 h-4 text-cyan-300" /> {t('recorder.replayLast')}
+                  </button>
+                </>
+              )}
+              <button onClick={() => fileInput.current?.click()} disabled={isRecording} className={itemClass}>
+                <FileUp className="w-4 h-4 text-cyan-300" /> {t('recorder.replayFile')}
+              </button>
+              {isReplaying && (
+                <button onClick={pick(onStopReplay)} className={itemClass}>
+                  <Square className="w-4 h-4 text-rose-300" /> {t('recorder.stopReplay')}
+                </button>
+              )}
+            </div>
+            {notice && <p className="text-[11px] text-rose-300">{notice}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default RecorderMenu;
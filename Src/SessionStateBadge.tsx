@@ -0,0 +1,64 @@
+import React from 'react';
+import { CloudOff, Loader2, RefreshCw, WifiOff } from 'lucide-react';
+import { SessionSnapshot, SessionState, reconnectPolicy } from './services/session-machine';
+import { useI18n } from './hooks/useI18n';
+
+interface SessionStateBadgeProps {
+  session: SessionSnapshot;
+  onRetry: () => void;
+  // No network: the bridge cannot open, and reconnects wait until it is back
+  isOffline?: boolean;
+}
+
+const TONES: Record<SessionState, string> = {
+  closed: 'border-white/10 text-slate-400',
+  connecting: 'border-indigo-400/40 text-indigo-200',
+  listening: 'border-emerald-400/40 text-emerald-200',
+  thinking: 'border-cyan-400/40 text-cyan-200',
+  speaking: 'border-indigo-400/60 text-indigo-100',
+  interrupted: 'border-amber-400/40 text-amber-200',
+  reconnecting: 'border-amber-400/60 text-amber-100',
+  error: 'border-rose-400/60 text-rose-200',
+};
+
+const SessionStateBadge: React.FC<SessionStateBadgeProps> = ({ session, onRetry, isOffline = false }) => {
+  const { t } = useI18n();
+  const isBusy = session.state === 'connecting' || session.state === 'reconnecting' || session.state === 'thinking';
+
+  if (isOffline && (session.state === 'closed' || session.state === 'error' || session.state === 'reconnecting')) {
+    return (
+      <div
+        role="status"
+        aria-live="polite"
+        className="flex items-center gap-2 px-4 py-2 rounded-full bg-slate-950/80 backdrop-blur border border-amber-400/40 text-[11px] font-bold uppercase tracking-widest text-amber-200"
+      >
+        <CloudOff className="w-3 h-3" />
+        <span>{t(session.state === 'reconnecting' ? 'session.waitingForNetwork' : 'session.offline')}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`flex items-center gap-2 px-4 py-2 rounded-full bg-slate-950/80 backdrop-blur border text-[11px] font-bold uppercase tracking-widest ${TONES[session.state]}`}
+    >
+      {isBusy && <Loader2 className="w-3 h-3 animate-spin" />}
+      {session.state === 'error' && <WifiOff className="w-3 h-3" />}
+      <span>{t(`session.state.${session.state}`)}</span>
+      {session.state === 'reconnecting' && (
+        <span className="text-slate-500 normal-case tracking-normal font-medium" title={session.error ?? undefined}>
+          {t('session.attempt', { attempt: session.attempt, max: reconnectPolicy(session).maxAttempts })}
+        </span>
+      )}
+      {session.state === 'error' && (
+        <button onClick={onRetry} className="flex items-center gap-1 ms-2 text-white hover:text-indigo-300 normal-case tracking-normal">
+          <RefreshCw className="w-3 h-3" /> {t('session.retry')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SessionStateBadge;
@@ -0,0 +1,347 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Settings as SettingsIcon, X, Download, Upload, RotateCcw, Volume2, Loader2 } from 'lucide-react';
+import { SettingsService, VOICE_NAMES } from './services/settings';
+import { Persona } from './services/personas';
+import { I18nService, LOCALES, Locale } from './services/i18n';
+import { SpeechService } from './gemini';
+import { classifyError } from './services/errors';
+import { DiagnosticsService } from './services/diagnostics';
+import { UsageService } from './services/usage';
+import { downloadFile, dateStamp } from './utils/files';
+import { AudioDevice, AudioSettings } from './services/audio-devices';
+import { useSettings } from './hooks/useSettings';
+import { useAudioDevices } from './hooks/useAudioDevices';
+import { useI18n } from './hooks/useI18n';
+
+interface SettingsPanelProps {
+  persona: Persona;
+  // The preview would talk over the twin, so it is only offered between sessions
+  canPreview: boolean;
+  onClose: () => void;
+}
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, onChange }) => (
+  <label className="flex items-center justify-between gap-3 text-xs text-slate-300 cursor-pointer">
+    {label}
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="w-4 h-4 accent-indigo-500" />
+  </label>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-3">
+    <h3 className="text-[10px] text-slate-500 uppercase tracking-widest">{title}</h3>
+    {children}
+  </section>
+);
+
+// A remembered device that is unplugged stays selected, so it is used again once it is back
+const DeviceSelect: React.FC<{
+  label: string;
+  devices: AudioDevice[];
+  value: string | null;
+  disabled?: boolean;
+  onChange: (id: string | null) => void;
+}> = ({ label, devices, value, disabled, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <label className="flex items-center justify-between gap-3 text-xs text-slate-300">
+      {label}
+      <select
+        value={value ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="max-w-[60%] bg-slate-950 border border-white/10 rounded-lg px-2 py-1 text-white outline-none disabled:opacity-40"
+      >
+        <option value="">{t('settings.audio.default')}</option>
+        {devices.map((device, i) => (
+          <option key={device.id} value={device.id}>{device.label || t('settings.audio.unnamed', { number: i + 1 })}</option>
+        ))}
+        {value && !devices.some(device => device.id === value) && (
+          <option value={value}>{t('settings.audio.unplugged')}</option>
+        )}
+      </select>
+    </label>
+  );
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ persona, canPreview, onClose }) => {
+  const settings = useSettings();
+  const devices = useAudioDevices();
+  const setAudio = (changes: Partial<AudioSettings>) => SettingsService.update('audio', { ...settings.audio, ...changes });
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t, locale, isRtl, formatNumber } = useI18n();
+
+  const voice = SettingsService.voiceFor(persona.id, persona.voice);
+  const voiceNames = VOICE_NAMES.includes(persona.voice.voiceName) ? VOICE_NAMES : [persona.voice.voiceName, ...VOICE_NAMES];
+  const setVoice = (changes: Partial<typeof voice>) => SettingsService.setVoice(persona.id, { ...voice, ...changes });
+
+  const previewVoice = async () => {
+    setIsPreviewing(true);
+    setNotice(null);
+    try {
+      UsageService.record('speechCalls');
+      // The sample is written in the UI language, the same one the twin speaks in sessions
+      await SpeechService.speak(t('settings.voice.sample', { name: persona.name }), voice, I18nService.speechLanguage(locale, persona.language));
+    } catch (err) {
+      const error = classifyError(err);
+      DiagnosticsService.error('speech', error);
+      setNotice(t('settings.voice.previewFailed', { message: `${error.message} ${t(`error.action.${error.action}`)}` }));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      SettingsService.importJson(await file.text());
+      setNotice(t('settings.imported'));
+    } catch (err: any) {
+      setNotice(t('common.importFailed', { message: err?.message || String(err) }));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <SettingsIcon className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-white font-display font-bold">{t('settings.title')}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-white/5">
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadFile(`astra-settings-${dateStamp()}.json`, SettingsService.exportJson(), 'application/json')}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700"
+            >
+              <Download className="w-4 h-4" /> {t('settings.export')}
+            </button>
+            <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+              <Upload className="w-4 h-4" /> {t('settings.import')}
+            </button>
+            <button
+              onClick={() => { SettingsService.reset(); setNotice(t('settings.resetDone')); }}
+              className="ms-auto flex items-center gap-2 px-3 py-2 rounded-xl text-xs text-slate-400 hover:text-rose-300"
+            >
+              <RotateCcw className="w-4 h-4" /> {t('settings.reset')}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {notice && <p className="text-[11px] text-indigo-300">{notice}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-8">
+          <Section title={t('settings.language')}>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(LOCALES) as Locale[]).map(id => (
+                <button
+                  key={id}
+                  lang={id}
+                  onClick={() => SettingsService.update('language', id)}
+                  className={`px-3 py-2 rounded-xl text-xs font-bold ${settings.language === id ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {LOCALES[id].label}
+                </button>
+              ))}
+            </div>
+          </Section>
+
+          <Section title={t('settings.voice', { name: persona.name })}>
+            <label className="flex items-center justify-between gap-3 text-xs text-slate-300">
+              {t('settings.voice.name')}
+              <select
+                value={voice.voiceName}
+                onChange={(e) => setVoice({ voiceName: e.target.value })}
+                className="bg-slate-950 border border-white/10 rounded-lg px-2 py-1 text-white outline-none"
+              >
+                {voiceNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="flex justify-between text-xs text-slate-300">
+                {t('settings.voice.rate')}
+                <span className="text-slate-500">{formatNumber(voice.speakingRate, { maximumFractionDigits: 2 })}×</span>
+              </span>
+              <input
+                type="range"
+                min={0.5}
+                max={2}
+                step={0.05}
+                value={voice.speakingRate}
+                onChange={(e) => setVoice({ speakingRate: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="flex justify-between text-xs text-slate-300">
+                {t('settings.voice.pitch')}
+                <span className="text-slate-500">{formatNumber(voice.pitch, { maximumFractionDigits: 2 })}</span>
+              </span>
+              <input
+                type="range"
+                min={0.5}
+                max={1.5}
+                step={0.05}
+                value={voice.pitch}
+                onChange={(e) => setVoice({ pitch: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['high', 'standard'] as const).map(quality => (
+                <button
+                  key={quality}
+                  onClick={() => setVoice({ quality })}
+                  className={`px-3 py-2 rounded-xl text-xs font-bold ${voice.quality === quality ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {t(`settings.voice.quality.${quality}`)}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={previewVoice}
+                disabled={!canPreview || isPreviewing}
+                className="flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-500 text-xs text-white hover:bg-indigo-400 disabled:opacity-40"
+                title={canPreview ? undefined : t('settings.voice.previewBusy')}
+              >
+                {isPreviewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />} {t('settings.voice.preview')}
+              </button>
+              {settings.voices[persona.id] && (
+                <button onClick={() => SettingsService.setVoice(persona.id, null)} className="px-3 py-2 rounded-xl text-xs text-slate-400 hover:text-white">
+                  {t('settings.voice.personaDefault')}
+                </button>
+              )}
+            </div>
+          </Section>
+
+          <Section title={t('settings.audio')}>
+            <DeviceSelect
+              label={t('settings.audio.input')}
+              devices={devices.inputs}
+              value={settings.audio.inputDeviceId}
+              onChange={(inputDeviceId) => setAudio({ inputDeviceId })}
+            />
+            <DeviceSelect
+              label={t('settings.audio.output')}
+              devices={devices.outputs}
+              value={settings.audio.outputDeviceId}
+              disabled={!devices.canSelectOutput}
+              onChange={(outputDeviceId) => setAudio({ outputDeviceId })}
+            />
+            {!devices.canSelectOutput && <p className="text-[11px] text-slate-500">{t('settings.audio.outputUnsupported')}</p>}
+            {!devices.labelled && <p className="text-[11px] text-slate-500">{t('settings.audio.unlabelled')}</p>}
+            <Toggle
+              label={t('settings.audio.echoCancellation')}
+              checked={settings.audio.echoCancellation}
+              onChange={(echoCancellation) => setAudio({ echoCancellation })}
+            />
+            <Toggle
+              label={t('settings.audio.noiseSuppression')}
+              checked={settings.audio.noiseSuppression}
+              onChange={(noiseSuppression) => setAudio({ noiseSuppression })}
+            />
+            <Toggle
+              label={t('settings.audio.autoGain')}
+              checked={settings.audio.autoGainControl}
+              onChange={(autoGainControl) => setAudio({ autoGainControl })}
+            />
+            <p className="text-[11px] text-slate-500">{t('settings.audio.nextSession')}</p>
+          </Section>
+
+          <Section title={t('settings.animation')}>
+            <label className="block space-y-1">
+              <span className="flex justify-between text-xs text-slate-300">
+                {t('settings.animation.intensity')}
+                <span className="text-slate-500">{formatNumber(settings.animation.intensity, { style: 'percent' })}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1.5}
+                step={0.05}
+                value={settings.animation.intensity}
+                onChange={(e) => SettingsService.update('animation', { ...settings.animation, intensity: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+            <Toggle
+              label={t('settings.animation.stateClips')}
+              checked={settings.animation.stateClips}
+              onChange={(stateClips) => SettingsService.update('animation', { ...settings.animation, stateClips })}
+            />
+          </Section>
+
+          <Section title={t('settings.idle')}>
+            <Toggle
+              label={t('settings.idle.actions')}
+              checked={settings.idle.actions}
+              onChange={(actions) => SettingsService.update('idle', { ...settings.idle, actions })}
+            />
+            <Toggle
+              label={t('settings.idle.blinking')}
+              checked={settings.idle.blinking}
+              onChange={(blinking) => SettingsService.update('idle', { ...settings.idle, blinking })}
+            />
+          </Section>
+
+          <Section title={t('settings.camera')}>
+            <div className="grid grid-cols-2 gap-2">
+              {(['user', 'environment'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => SettingsService.update('camera', { ...settings.camera, facingMode: mode })}
+                  className={`px-3 py-2 rounded-xl text-xs font-bold ${settings.camera.facingMode === mode ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {t(mode === 'user' ? 'vision.selfLens' : 'vision.externalLens')}
+                </button>
+              ))}
+            </div>
+            <Toggle
+              label={t('settings.camera.startWithVision')}
+              checked={settings.camera.startWithVision}
+              onChange={(startWithVision) => SettingsService.update('camera', { ...settings.camera, startWithVision })}
+            />
+          </Section>
+
+          <Section title={t('settings.chat')}>
+            <Toggle
+              label={t('settings.chat.speakReplies')}
+              checked={settings.chat.speakReplies}
+              onChange={(speakReplies) => SettingsService.update('chat', { ...settings.chat, speakReplies })}
+            />
+          </Section>
+        </div>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { useI18n } from './hooks/useI18n';
+
+interface SourceChipsProps {
+  sources: string[];
+}
+
+// Knowledge base documents a reply was grounded in.
+const SourceChips: React.FC<SourceChipsProps> = ({ sources }) => {
+  const { t } = useI18n();
+  if (sources.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5" title={t('knowledge.sources')}>
+      <BookOpen className="w-3 h-3 text-slate-500" />
+      {sources.map(source => (
+        <span key={source} className="px-2 py-0.5 rounded-full bg-indigo-500/10 border border-indigo-400/20 text-[10px] text-indigo-200 max-w-[220px] truncate">
+          {source}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SourceChips;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ShieldAlert, Check, X } from 'lucide-react';
+import { ToolCallRecord } from './services/tools';
+import { useI18n } from './hooks/useI18n';
+
+interface ToolConfirmCardProps {
+  record: ToolCallRecord;
+  onDecide: (id: string, approved: boolean) => void;
+}
+
+const ToolConfirmCard: React.FC<ToolConfirmCardProps> = ({ record, onDecide }) => {
+  const { t } = useI18n();
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="w-80 rounded-3xl bg-slate-900/95 backdrop-blur-xl border border-amber-400/30 shadow-2xl p-5"
+    >
+      <div className="flex items-center gap-3">
+        <ShieldAlert className="w-5 h-5 text-amber-400 shrink-0" />
+        <h3 className="text-sm font-bold text-white truncate">{t('tools.confirmTitle', { tool: record.name })}</h3>
+      </div>
+      <p className="mt-2 text-[11px] text-slate-400">{t('tools.confirmBody')}</p>
+      <pre dir="ltr" className="mt-3 max-h-40 overflow-auto rounded-xl bg-slate-950 border border-white/5 p-3 text-[11px] text-slate-300 whitespace-pre-wrap break-all">
+        {JSON.stringify(record.args, null, 2)}
+      </pre>
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={() => onDecide(record.id, true)}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-emerald-500 text-xs font-bold text-white hover:bg-emerald-400"
+        >
+          <Check className="w-4 h-4" /> {t('tools.allow')}
+        </button>
+        <button
+          onClick={() => onDecide(record.id, false)}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs font-bold text-slate-200 hover:bg-slate-700"
+        >
+          <X className="w-4 h-4" /> {t('tools.deny')}
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ToolConfirmCard;
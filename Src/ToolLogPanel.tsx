@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Wrench, X, CalendarDays, Download, Upload, ShieldAlert } from 'lucide-react';
+import { ToolCallRecord, ToolCallStatus } from './services/tools';
+import { ToolStore } from './services/tool-store';
+import { parseIcs, toIcs } from './utils/ics';
+import { downloadFile, dateStamp } from './utils/files';
+import { useI18n } from './hooks/useI18n';
+
+interface ToolLogPanelProps {
+  namespace: string;
+  calendarName: string;
+  records: ToolCallRecord[];
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<ToolCallStatus, string> = {
+  'awaiting-confirmation': 'text-amber-300',
+  running: 'text-indigo-300 animate-pulse',
+  done: 'text-emerald-400',
+  error: 'text-rose-400',
+  declined: 'text-slate-400',
+  cancelled: 'text-slate-500',
+};
+
+const ToolLogPanel: React.FC<ToolLogPanelProps> = ({ namespace, calendarName, records, onClose }) => {
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t, isRtl, formatDate, formatNumber } = useI18n();
+
+  const exportCalendar = async () => {
+    const events = await ToolStore.listEvents(namespace);
+    downloadFile(`${namespace}-calendar-${dateStamp()}.ics`, toIcs(events, calendarName), 'text/calendar');
+  };
+
+  // Importing replaces the twin's calendar; the file is the source of truth
+  const importCalendar = async (file: File) => {
+    try {
+      const count = await ToolStore.replaceEvents(namespace, parseIcs(await file.text()));
+      setNotice(t('tools.calendarImported', { count }));
+    } catch (err: any) {
+      setNotice(t('common.importFailed', { message: err?.message || String(err) }));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <Wrench className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-white font-display font-bold">{t('tools.title')}</h2>
+            <span className="text-[10px] text-slate-400 font-bold">{formatNumber(records.length)}</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3 border-b border-white/5">
+          <div className="flex items-center gap-2 text-[10px] text-slate-400 uppercase tracking-widest">
+            <CalendarDays className="w-4 h-4" /> {t('tools.calendar')}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={exportCalendar} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+              <Download className="w-4 h-4" /> {t('tools.exportIcs')}
+            </button>
+            <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-800 text-xs text-slate-200 hover:bg-slate-700">
+              <Upload className="w-4 h-4" /> {t('tools.importIcs')}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="text/calendar,.ics"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importCalendar(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {notice && <p className="text-[11px] text-indigo-300">{notice}</p>}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {records.length === 0 && (
+            <li className="text-center text-slate-500 text-sm py-10">{t('tools.empty')}</li>
+          )}
+          {[...records].reverse().map(record => (
+            <li key={record.id} className="rounded-2xl p-4 border border-white/5 bg-slate-950/60">
+              <div className="flex items-center justify-between gap-3">
+                <p dir="ltr" className="flex items-center gap-2 text-sm text-slate-100 font-mono truncate">
+                  {record.sensitive && <ShieldAlert className="w-3.5 h-3.5 text-amber-400 shrink-0" />}
+                  {record.name}
+                </p>
+                <span className={`text-[10px] font-bold uppercase tracking-widest ${STATUS_COLORS[record.status]}`}>
+                  {t(`tools.status.${record.status}`)}
+                </span>
+              </div>
+              <p className="mt-1 text-[10px] text-slate-500">
+                {formatDate(record.startedAt, { timeStyle: 'medium' })}
+                {record.finishedAt !== null && ` · ${formatNumber((record.finishedAt - record.startedAt) / 1000, { maximumFractionDigits: 1 })} s`}
+              </p>
+              <p className="mt-3 text-[10px] text-slate-500 uppercase tracking-widest">{t('tools.arguments')}</p>
+              <pre dir="ltr" className="mt-1 max-h-32 overflow-auto text-[11px] text-slate-300 whitespace-pre-wrap break-all">
+                {JSON.stringify(record.args, null, 2)}
+              </pre>
+              {(record.status === 'done' || record.error) && (
+                <>
+                  <p className="mt-3 text-[10px] text-slate-500 uppercase tracking-widest">{t('tools.result')}</p>
+                  <pre dir="ltr" className={`mt-1 max-h-40 overflow-auto text-[11px] whitespace-pre-wrap break-all ${record.error ? 'text-rose-300' : 'text-slate-300'}`}>
+                    {record.error ?? JSON.stringify(record.result, null, 2)}
+                  </pre>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default ToolLogPanel;
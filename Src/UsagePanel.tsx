@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Gauge, Trash2, X } from 'lucide-react';
+import { BudgetLevel, USAGE_METRICS, UsageDay, UsageMetric, UsageService, budgetLevels, isTimeMetric } from './services/usage';
+import { SettingsService } from './services/settings';
+import { useSettings } from './hooks/useSettings';
+import { useUsage } from './hooks/useUsage';
+import { useI18n } from './hooks/useI18n';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const RECENT_DAYS = 7;
+
+const BAR_COLORS: Record<BudgetLevel, string> = {
+  ok: 'bg-indigo-500',
+  warning: 'bg-amber-400',
+  exceeded: 'bg-rose-500',
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const usage = useUsage();
+  const settings = useSettings();
+  const [recent, setRecent] = useState<UsageDay[]>([]);
+  const { t, isRtl, formatNumber, formatDate } = useI18n();
+  const { budgets, warnAt } = settings.usage;
+  const levels = budgetLevels(usage.today.totals, settings.usage);
+
+  useEffect(() => {
+    UsageService.history(RECENT_DAYS).then(setRecent).catch(() => setRecent([]));
+  }, []);
+
+  const format = (metric: UsageMetric, value: number) => isTimeMetric(metric)
+    ? t('usage.minutes', { value: formatNumber(value / 60, { maximumFractionDigits: 1 }) })
+    : formatNumber(value);
+
+  const setUsage = (changes: Partial<typeof settings.usage>) => SettingsService.update('usage', { ...settings.usage, ...changes });
+
+  // Time budgets are entered in minutes and stored in seconds
+  const setBudget = (metric: UsageMetric, input: string) => {
+    const value = input.trim() === '' ? null : Math.max(0, Number(input));
+    if (value !== null && !Number.isFinite(value)) return;
+    setUsage({ budgets: { ...budgets, [metric]: value === null ? null : isTimeMetric(metric) ? value * 60 : value } });
+  };
+
+  const budgetInput = (metric: UsageMetric) => {
+    const budget = budgets[metric];
+    if (budget === null) return '';
+    return String(isTimeMetric(metric) ? Math.round(budget / 6) / 10 : budget);
+  };
+
+  // Today's row follows the live counters; older days are read once
+  const days = recent.map(day => (day.day === usage.today.day ? usage.today : day)).reverse();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-md flex justify-end"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: isRtl ? -40 : 40 }}
+        animate={{ x: 0 }}
+        className="w-full max-w-md h-full bg-slate-900 border-s border-white/10 flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <Gauge className="w-5 h-5 text-indigo-400" />
+            <h2 className="text-white font-display font-bold">{t('usage.title')}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-8">
+          <p className="text-[11px] text-slate-400">{t('usage.hint')}</p>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] text-slate-500 uppercase tracking-widest">{t('usage.today')}</h3>
+            {USAGE_METRICS.map(metric => {
+              const used = usage.today.totals[metric];
+              const budget = budgets[metric];
+              return (
+                <div key={metric} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-slate-300">{t(`usage.metric.${metric}`)}</span>
+                    <span className={levels[metric] === 'ok' ? 'text-slate-500' : levels[metric] === 'warning' ? 'text-amber-300' : 'text-rose-300'}>
+                      {budget === null ? format(metric, used) : t('usage.of', { used: format(metric, used), budget: format(metric, budget) })}
+                    </span>
+                  </div>
+                  {budget !== null && (
+                    <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                      <div
+                        className={`h-full ${BAR_COLORS[levels[metric]]} transition-all`}
+                        style={{ width: `${budget > 0 ? Math.min(100, (used / budget) * 100) : 100}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </section>
+
+          {usage.session && (
+            <section className="space-y-3">
+              <h3 className="text-[10px] text-slate-500 uppercase tracking-widest">{t('usage.session')}</h3>
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+                {USAGE_METRICS.map(metric => (
+                  <div key={metric} className="flex justify-between gap-2">
+                    <dt className="text-slate-400 truncate">{t(`usage.metric.${metric}`)}</dt>
+                    <dd className="text-slate-200">{format(metric, usage.session!.totals[metric])}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] text-slate-500 uppercase tracking-widest">{t('usage.recent', { count: RECENT_DAYS })}</h3>
+            <ul className="space-y-2">
+              {days.map(day => (
+                <li key={day.day} className="rounded-xl px-3 py-2 border border-white/5 bg-slate-950/60">
+                  <p className="text-[10px] text-indigo-300 font-bold uppercase tracking-widest">
+                    {formatDate(new Date(`${day.day}T00:00`), { weekday: 'short', month: 'short', day: 'numeric' })}
+                  </p>
+                  <p className="mt-1 text-[11px] text-slate-400">
+                    {USAGE_METRICS.filter(metric => day.totals[metric] > 0)
+                      .map(metric => `${t(`usage.metric.${metric}`)} ${format(metric, day.totals[metric])}`)
+                      .join(' · ') || '—'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-[10px] text-slate-500 uppercase tracking-widest">{t('usage.budgets')}</h3>
+            <p className="text-[11px] text-slate-500">{t('usage.budgetHint')}</p>
+            {USAGE_METRICS.map(metric => (
+              <label key={metric} className="flex items-center justify-between gap-3 text-xs text-slate-300">
+                {t(`usage.metric.${metric}`)}
+                <span className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step={isTimeMetric(metric) ? 0.5 : 1}
+                    value={budgetInput(metric)}
+                    placeholder={t('usage.unlimited')}
+                    onChange={(e) => setBudget(metric, e.target.value)}
+                    className="w-24 bg-slate-950 border border-white/10 rounded-lg px-2 py-1 text-white outline-none"
+                  />
+                  {isTimeMetric(metric) && <span className="text-slate-500">{t('usage.minuteUnit')}</span>}
+                </span>
+              </label>
+            ))}
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-300">{t('usage.warnAt', { percent: formatNumber(warnAt, { style: 'percent' }) })}</span>
+              <input
+                type="range"
+                min={0.5}
+                max={0.95}
+                step={0.05}
+                value={warnAt}
+                onChange={(e) => setUsage({ warnAt: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3 text-xs text-slate-300">
+              {t('usage.downgradeToText')}
+              <input
+                type="checkbox"
+                checked={settings.usage.downgradeToText}
+                onChange={(e) => setUsage({ downgradeToText: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-3 text-xs text-slate-300">
+              {t('usage.disableVision')}
+              <input
+                type="checkbox"
+                checked={settings.usage.disableVision}
+                onChange={(e) => setUsage({ disableVision: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+          </section>
+
+          <button
+            onClick={() => UsageService.clear().then(() => UsageService.history(RECENT_DAYS)).then(setRecent).catch(() => {})}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs text-slate-400 hover:text-rose-300"
+          >
+            <Trash2 className="w-4 h-4" /> {t('usage.clear')}
+          </button>
+        </div>
+      </motion.aside>
+    </motion.div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Camera, MonitorUp, X } from 'lucide-react';
+import { VisionSettings, VisionSource, VISION_RESOLUTIONS } from './services/vision';
+import { useI18n } from './hooks/useI18n';
+
+interface VisionIndicatorProps {
+  source: VisionSource;
+  label: string;
+  settings: VisionSettings;
+  // Frames only reach the model while a session is connected
+  isLive: boolean;
+  onStop: () => void;
+}
+
+const VisionIndicator: React.FC<VisionIndicatorProps> = ({ source, label, settings, isLive, onStop }) => {
+  const { t, formatNumber } = useI18n();
+  const Icon = source === 'screen' ? MonitorUp : Camera;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -6 }}
+      role="status"
+      className="flex items-center gap-3 px-4 py-2 rounded-full bg-slate-950/80 backdrop-blur border border-cyan-400/40 text-[11px] text-cyan-100"
+    >
+      <span className={`w-2 h-2 rounded-full ${isLive ? 'bg-rose-500 animate-pulse' : 'bg-slate-500'}`} />
+      <Icon className="w-3.5 h-3.5 text-cyan-400" />
+      <span className="font-bold">{t(isLive ? 'vision.sharing' : 'vision.previewing', { source: label })}</span>
+      <span className="text-slate-400">
+        {t('vision.fps', { fps: formatNumber(settings.fps, { maximumFractionDigits: 1 }) })} · {t('vision.pixels', { width: VISION_RESOLUTIONS[settings.resolution] })}
+      </span>
+      <button onClick={onStop} className="text-slate-400 hover:text-rose-300" title={t('vision.stop')}>
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </motion.div>
+  );
+};
+
+export default VisionIndicator;
@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { ScanEye, Camera, MonitorUp, ImageUp, Aperture, MonitorOff } from 'lucide-react';
+import { VisionResolution, VisionSettings, VisionSource, VISION_RESOLUTIONS } from './services/vision';
+import { useI18n } from './hooks/useI18n';
+
+interface VisionMenuProps {
+  settings: VisionSettings;
+  onChange: (settings: VisionSettings) => void;
+  // What is streaming to the twin right now, if anything
+  sharing: VisionSource | null;
+  onCamera: () => void;
+  onScreen: () => void;
+  onImage: (file: File) => void;
+  onSnapshot: () => void;
+  onStop: () => void;
+}
+
+const RESOLUTIONS = Object.keys(VISION_RESOLUTIONS) as VisionResolution[];
+
+const VisionMenu: React.FC<VisionMenuProps> = ({ settings, onChange, sharing, onCamera, onScreen, onImage, onSnapshot, onStop }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { t, formatNumber } = useI18n();
+
+  // Picking a source closes the menu; the frame controls keep it open while adjusting
+  const pick = (action: () => void) => () => {
+    setIsOpen(false);
+    action();
+  };
+
+  const itemClass = 'w-full flex items-center gap-3 px-3 py-2 rounded-xl text-sm text-start text-slate-200 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`p-3 rounded-2xl bg-slate-900/80 border hover:border-indigo-400/40 transition-colors ${sharing ? 'border-cyan-400/50 text-cyan-300' : 'border-white/10 text-slate-400'}`}
+        title={t('vision.title')}
+      >
+        <ScanEye className="w-5 h-5" />
+      </button>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImage(file);
+          e.target.value = '';
+        }}
+      />
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="absolute end-0 mt-2 w-72 z-50 rounded-2xl bg-slate-900 border border-white/10 shadow-2xl p-4 space-y-4"
+          >
+            <div className="space-y-1">
+              <p className="text-[10px] text-slate-500 uppercase tracking-widest mb-2">{t('vision.title')}</p>
+              <button onClick={pick(onCamera)} className={itemClass}>
+                <Camera className="w-4 h-4 text-cyan-400" /> {t('vision.camera')}
+              </button>
+              <button onClick={pick(onScreen)} className={itemClass}>
+                <MonitorUp className="w-4 h-4 text-cyan-400" /> {t('vision.shareScreen')}
+              </button>
+              <button onClick={pick(() => fileInput.current?.click())} className={itemClass}>
+                <ImageUp className="w-4 h-4 text-cyan-400" /> {t('vision.uploadImage')}
+              </button>
+              <button onClick={pick(onSnapshot)} disabled={!sharing} className={itemClass}>
+                <Aperture className="w-4 h-4 text-cyan-400" /> {t('vision.snapshot')}
+              </button>
+              {sharing && (
+                <button onClick={pick(onStop)} className={`${itemClass} text-rose-300`}>
+                  <MonitorOff className="w-4 h-4" /> {t('vision.stop')}
+                </button>
+              )}
+              <p className="px-3 text-[11px] text-slate-500">{t('vision.pasteHint')}</p>
+            </div>
+
+            <label className="block space-y-1">
+              <span className="flex justify-between text-xs text-slate-300">
+                {t('vision.frameRate')}
+                <span className="text-slate-500">{t('vision.fps', { fps: formatNumber(settings.fps, { maximumFractionDigits: 1 }) })}</span>
+              </span>
+              <input
+                type="range"
+                min={0.5}
+                max={5}
+                step={0.5}
+                value={settings.fps}
+                onChange={(e) => onChange({ ...settings, fps: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+
+            <div className="space-y-1">
+              <p className="text-xs text-slate-300">{t('vision.resolution')}</p>
+              <div className="grid grid-cols-3 gap-2">
+                {RESOLUTIONS.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => onChange({ ...settings, resolution: id })}
+                    className={`px-2 py-2 rounded-xl text-[11px] font-bold ${settings.resolution === id ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                    title={t('vision.pixels', { width: VISION_RESOLUTIONS[id] })}
+                  >
+                    {t(`vision.resolution.${id}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default VisionMenu;
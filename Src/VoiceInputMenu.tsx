@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { AudioLines, Hand, Radio } from 'lucide-react';
+import { VoiceInputMode, VoiceInputSettings } from './services/vad';
+import { useI18n } from './hooks/useI18n';
+
+interface VoiceInputMenuProps {
+  settings: VoiceInputSettings;
+  onChange: (settings: VoiceInputSettings) => void;
+}
+
+const MODES: { id: VoiceInputMode; icon: typeof Radio }[] = [
+  { id: 'vad', icon: Radio },
+  { id: 'ptt', icon: Hand },
+];
+
+const VoiceInputMenu: React.FC<VoiceInputMenuProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { t, formatNumber } = useI18n();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-3 rounded-2xl bg-slate-900/80 border border-white/10 hover:border-indigo-400/40 transition-colors text-slate-400"
+        title={t('voiceInput.title')}
+      >
+        <AudioLines className="w-5 h-5" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -6 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -6 }}
+            className="absolute end-0 mt-2 w-72 z-50 rounded-2xl bg-slate-900 border border-white/10 shadow-2xl p-4 space-y-4"
+          >
+            <p className="text-[10px] text-slate-500 uppercase tracking-widest">{t('voiceInput.title')}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {MODES.map(({ id, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => onChange({ ...settings, mode: id })}
+                  className={`flex items-center justify-center gap-2 px-3 py-2 rounded-xl text-xs font-bold ${settings.mode === id ? 'bg-indigo-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  <Icon className="w-4 h-4" /> {t(`voiceInput.mode.${id}`)}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-slate-400">{t(`voiceInput.hint.${settings.mode}`)}</p>
+
+            <label className={`block space-y-1 ${settings.mode === 'ptt' ? 'opacity-40' : ''}`}>
+              <span className="flex justify-between text-xs text-slate-300">
+                {t('voiceInput.sensitivity')}
+                <span className="text-slate-500">{formatNumber(settings.sensitivity, { style: 'percent' })}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.sensitivity}
+                disabled={settings.mode === 'ptt'}
+                onChange={(e) => onChange({ ...settings, sensitivity: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+
+            <label className={`block space-y-1 ${settings.mode === 'ptt' ? 'opacity-40' : ''}`}>
+              <span className="flex justify-between text-xs text-slate-300">
+                {t('voiceInput.silence')}
+                <span className="text-slate-500">{t('voiceInput.seconds', { seconds: formatNumber(settings.silenceMs / 1000, { minimumFractionDigits: 1 }) })}</span>
+              </span>
+              <input
+                type="range"
+                min={300}
+                max={3000}
+                step={100}
+                value={settings.silenceMs}
+                disabled={settings.mode === 'ptt'}
+                onChange={(e) => onChange({ ...settings, silenceMs: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+            </label>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default VoiceInputMenu;
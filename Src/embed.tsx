@@ -0,0 +1,33 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import EmbedWidget from './EmbedWidget';
+import { hostOrigin, isAllowedHost } from './services/embed-bridge';
+import { parseEmbedQuery } from './services/embed-protocol';
+import { I18nService } from './services/i18n';
+import './embed.css';
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Could not find root element to mount to");
+}
+
+// Opened directly the widget works as a preview; framed, the host has to be on the allow-list.
+// A host whose origin cannot be determined is refused too.
+const isFramed = window.parent !== window;
+const host = hostOrigin();
+const root = ReactDOM.createRoot(rootElement);
+
+if (isFramed && !(host && isAllowedHost(host))) {
+  console.warn(`Embedding refused for ${host ?? 'an unknown origin'}; add it to EMBED_ALLOWED_ORIGINS`);
+  root.render(
+    <p className="h-full flex items-center justify-center p-4 text-center text-sm text-slate-400 bg-slate-950">
+      {I18nService.translate(I18nService.getLocale(), 'embed.blocked')}
+    </p>
+  );
+} else {
+  root.render(
+    <React.StrictMode>
+      <EmbedWidget host={isFramed ? host : null} options={parseEmbedQuery(new URLSearchParams(window.location.search))} />
+    </React.StrictMode>
+  );
+}
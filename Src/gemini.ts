@@ -0,0 +1,71 @@
+import { createGenAI } from './services/genai-client';
+import { AstraError, ModelError, classifyError } from './services/errors';
+import { AudioPlayback, decodePcm16 } from './services/audio-pipeline';
+import { SettingsService } from './services/settings';
+
+export interface SpeechOptions {
+  voiceName: string;
+  // 0.5 to 2, 1 is the voice's natural pace
+  speakingRate: number;
+  // 0.5 to 1.5, 1 is the voice's natural pitch
+  pitch: number;
+  quality: 'high' | 'standard';
+}
+
+const TTS_MODELS: Record<SpeechOptions['quality'], string> = {
+  high: 'gemini-2.5-pro-preview-tts',
+  standard: 'gemini-2.5-flash-preview-tts',
+};
+const TTS_SAMPLE_RATE = 24000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The TTS models take no numeric rate or pitch; both are asked for in the prompt instead
+const delivery = (options: SpeechOptions) => [
+  options.speakingRate > 1.1 && 'quickly',
+  options.speakingRate < 0.9 && 'slowly',
+  options.pitch > 1.1 && 'in a higher voice',
+  options.pitch < 0.9 && 'in a lower voice',
+].filter(Boolean).join(' and ');
+
+/**
+ * Reads text aloud with a prebuilt Gemini voice on the chosen speaker.
+ * Resolves once playback has finished, and rejects if the speaker could not be opened.
+ */
+export class SpeechService {
+  // `language` is a BCP 47 tag; without it the model guesses from the text, which goes wrong for short or mixed lines
+  static async speak(text: string, options?: SpeechOptions, language?: string) {
+    const { pcm, sampleRate } = await SpeechService.synthesize(text, options, language);
+    if (pcm.length === 0) return;
+    let failure = null as AstraError | null;
+    const playback = new AudioPlayback(SettingsService.get().audio, error => (failure = error));
+    playback.push(pcm, sampleRate);
+    await sleep((pcm.length / sampleRate) * 1000);
+    playback.close();
+    if (failure) throw failure;
+  }
+
+  // The speech as PCM without playing it, for callers that drive lip sync from the same samples
+  static async synthesize(text: string, options?: SpeechOptions, language?: string): Promise<{ pcm: Float32Array; sampleRate: number }> {
+    if (!text.trim()) return { pcm: new Float32Array(0), sampleRate: TTS_SAMPLE_RATE };
+    const voice = options ?? { voiceName: 'Kore', speakingRate: 1, pitch: 1, quality: 'high' };
+    const direction = [
+      language && `in the language with the BCP 47 tag ${language}`,
+      delivery(voice),
+    ].filter(Boolean).join(', ');
+    const response = await createGenAI().models.generateContent({
+      model: TTS_MODELS[voice.quality],
+      contents: [{ parts: [{ text: direction ? `Say ${direction}: ${text}` : text }] }],
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voiceName } } },
+      },
+    }).catch(err => {
+      throw classifyError(err, 'network');
+    });
+
+    const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+    if (!data) throw new ModelError('Speech synthesis returned no audio');
+    return { pcm: decodePcm16(data), sampleRate: TTS_SAMPLE_RATE };
+  }
+}
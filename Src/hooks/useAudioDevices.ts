@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { AudioDeviceService } from '../services/audio-devices';
+
+/** Connected microphones and speakers, updated as devices come and go. */
+export const useAudioDevices = () => useSyncExternalStore(AudioDeviceService.subscribe, AudioDeviceService.getState);
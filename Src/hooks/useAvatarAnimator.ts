@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { AvatarAnimator } from '../services/avatar-animator';
+
+/** Expression, blink and idle-action state of an AvatarAnimator. */
+export const useAvatarAnimator = (animator: AvatarAnimator) => useSyncExternalStore(animator.subscribe, animator.getState);
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { DiagnosticsService } from '../services/diagnostics';
+
+/** The diagnostics event log, oldest first. */
+export const useDiagnostics = () => useSyncExternalStore(DiagnosticsService.subscribe, DiagnosticsService.getEvents);
@@ -0,0 +1,34 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { I18nService, LOCALES, TranslateParams } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+
+/**
+ * Current UI language plus locale-aware helpers. Components re-render when
+ * the language is switched anywhere in the app.
+ */
+export const useI18n = () => {
+  const locale = useSyncExternalStore(I18nService.subscribe, I18nService.getLocale);
+
+  const t = useCallback(
+    (key: MessageKey, params?: TranslateParams) => I18nService.translate(locale, key, params),
+    [locale]
+  );
+  const formatNumber = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) => I18nService.formatNumber(locale, value, options),
+    [locale]
+  );
+  const formatDate = useCallback(
+    (value: number | Date, options?: Intl.DateTimeFormatOptions) => I18nService.formatDate(locale, value, options),
+    [locale]
+  );
+
+  return {
+    locale,
+    dir: LOCALES[locale].dir,
+    isRtl: LOCALES[locale].dir === 'rtl',
+    t,
+    formatNumber,
+    formatDate,
+    setLocale: I18nService.setLocale,
+  };
+};
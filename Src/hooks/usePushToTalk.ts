@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Holds the spacebar as a talk key while `enabled`. Typing into a field never
+ * triggers it, and losing window focus counts as a release so the mic can't stick open.
+ */
+export const usePushToTalk = (enabled: boolean, onPress: () => void, onRelease: () => void) => {
+  const handlers = useRef({ onPress, onRelease });
+  handlers.current = { onPress, onRelease };
+
+  useEffect(() => {
+    if (!enabled) return;
+    let isHeld = false;
+
+    const release = () => {
+      if (!isHeld) return;
+      isHeld = false;
+      handlers.current.onRelease();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isEditable(e.target)) return;
+      e.preventDefault();
+      if (isHeld) return;
+      isHeld = true;
+      handlers.current.onPress();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      e.preventDefault();
+      release();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { PwaService } from '../services/pwa';
+
+/** Connectivity, install and update state of the app shell. */
+export const usePwa = () => {
+  const state = useSyncExternalStore(PwaService.subscribe, PwaService.getState);
+  return { ...state, install: PwaService.install, applyUpdate: PwaService.applyUpdate };
+};
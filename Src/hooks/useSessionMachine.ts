@@ -0,0 +1,5 @@
+import { useReducer } from 'react';
+import { INITIAL_SESSION, transition } from '../services/session-machine';
+
+/** Neural Bridge session state; dispatch events, never set states directly. */
+export const useSessionMachine = () => useReducer(transition, INITIAL_SESSION);
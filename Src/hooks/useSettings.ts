@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { SettingsService } from '../services/settings';
+
+/** Current settings; components re-render when any section changes. */
+export const useSettings = () => useSyncExternalStore(SettingsService.subscribe, SettingsService.get);
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { ToolCallRecord, ToolRunner } from '../services/tools';
+
+/** Live view of the runner's call log for the current session. */
+export const useToolCalls = (runner: ToolRunner) => {
+  const [records, setRecords] = useState<ToolCallRecord[]>([]);
+
+  useEffect(() => runner.subscribe(setRecords), [runner]);
+
+  const pending = records.filter(r => r.status === 'awaiting-confirmation');
+  const running = records.filter(r => r.status === 'running');
+  return { records, pending, running };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { UsageService } from '../services/usage';
+
+/** Today's metered usage and the open session's share of it. */
+export const useUsage = () => useSyncExternalStore(UsageService.subscribe, UsageService.getState);
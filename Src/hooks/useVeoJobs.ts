@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { ClipState, VeoJob, veoJobs } from '../services/veo-jobs';
+
+/**
+ * Live view of a persona's Veo jobs and its finished state clips. Mounting
+ * the hook also resumes any generation left pending by a previous page load.
+ */
+export const useVeoJobs = (namespace: string) => {
+  const [jobs, setJobs] = useState<VeoJob[]>([]);
+  const [clips, setClips] = useState<Partial<Record<ClipState, string>>>({});
+
+  useEffect(() => {
+    let isCurrent = true;
+    veoJobs.init().catch(e => console.error("Veo job store unavailable", e));
+    const unsubscribe = veoJobs.subscribe(all => {
+      if (!isCurrent) return;
+      setJobs(all.filter(job => job.namespace === namespace));
+      veoJobs.clipSet(namespace)
+        .then(next => { if (isCurrent) setClips(next); })
+        .catch(() => {});
+    });
+    return () => {
+      isCurrent = false;
+      unsubscribe();
+    };
+  }, [namespace]);
+
+  const active = jobs.filter(job => job.status === 'pending' || job.status === 'running');
+  return { jobs, clips, active };
+};
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { MouthShape, VisemeEngine } from '../services/viseme-engine';
+
+const REST_SHAPE: MouthShape & { viseme: string } = { scale: 1, skew: 0, viseme: 'sil' };
+const EPSILON = 0.01;
+
+/**
+ * Samples a VisemeEngine once per animation frame while `active`, and only
+ * re-renders when the mouth shape actually moves.
+ */
+export const useVisemes = (engine: VisemeEngine, active: boolean) => {
+  const [shape, setShape] = useState(REST_SHAPE);
+
+  useEffect(() => {
+    if (!active) {
+      setShape(REST_SHAPE);
+      return;
+    }
+
+    let frame: number;
+    const tick = () => {
+      const next = engine.sample();
+      setShape(prev =>
+        Math.abs(prev.scale - next.scale) < EPSILON && Math.abs(prev.skew - next.skew) < EPSILON && prev.viseme === next.viseme
+          ? prev
+          : next
+      );
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [engine, active]);
+
+  return shape;
+};
@@ -0,0 +1,318 @@
+// Source catalog: every key used by the UI is defined here first. Placeholders
+// are written as {name} and filled in by I18nService.translate.
+export const en = {
+  'language.label': 'Language',
+
+  'app.initializing': 'Initializing Neural Bridge...',
+  'app.history': 'Session History',
+  'app.memory': 'Neural Memory',
+  'app.resuming': 'Resuming: {title}',
+  'app.previousSession': 'previous session',
+  'app.connect': 'Open Neural Bridge',
+  'app.disconnect': 'Close Neural Bridge',
+  'app.lens': 'Neural lens',
+  'app.switchLens': 'Switch lens',
+  'app.animate': 'Animate avatar',
+  'app.commandPlaceholder': 'Say something to {name}...',
+  'app.send': 'Send',
+  'app.memorySaved': 'Remembered: {fact}',
+  'app.tagline': 'Digital twin',
+
+  'apiKey.title': 'Select an API key',
+  'apiKey.body': 'The Neural Bridge and avatar animation need a Gemini API key from a paid Google Cloud project.',
+  'apiKey.billing': 'About billing',
+  'apiKey.select': 'Select key',
+
+  'error.lensDenied': 'Neural lens access denied. Please check camera permissions.',
+  'error.lensUnavailable': 'No camera could be opened for the neural lens.',
+  'error.screenFailed': 'Screen sharing failed: {message}',
+  'error.imageFailed': 'Could not read that image: {message}',
+  'error.micRequired': 'Microphone access is required for the Neural Bridge. Please check your browser permissions.',
+  'error.micUnavailable': 'No microphone could be opened for the Neural Bridge.',
+  'error.connectionFailed': 'Neural Bridge connection failed: {message}',
+  'error.offline': 'You are offline. The Neural Bridge needs a network connection.',
+  'error.reconnectFailed': 'Neural Bridge lost its connection and could not restore it: {message}',
+  'error.animationOverloaded': 'Neural animation engine is temporarily overloaded. Please try again in a few minutes.',
+  'error.animationQuota': 'Neural Quota Exhausted: You have reached your API limit. Please switch to a Paid API key or wait for the quota to reset.',
+  'error.animationFailed': 'Neural animation failed. Please ensure you are using a Paid API key.',
+  'error.kind.auth': 'Sign-in problem',
+  'error.kind.quota': 'Quota reached',
+  'error.kind.permission': 'Permission needed',
+  'error.kind.device': 'Device unavailable',
+  'error.kind.network': 'Network problem',
+  'error.kind.unavailable': 'Service busy',
+  'error.kind.model': 'Model error',
+  'error.action.signIn': 'Sign in again or select a valid API key.',
+  'error.action.switchKey': 'Switch to an API key with quota left, or wait for the quota to reset.',
+  'error.action.grantPermission': 'Allow access in your browser\'s site settings, then try again.',
+  'error.action.checkDevice': 'Connect the device, or close other apps that are using it, then try again.',
+  'error.action.checkConnection': 'Check your network connection. Astra retries on its own for a while.',
+  'error.action.tryLater': 'The service is overloaded. Try again in a few minutes.',
+  'error.action.reportBug': 'If this keeps happening, copy the diagnostics report into a bug report.',
+
+  'session.state.closed': 'Offline',
+  'session.state.connecting': 'Connecting...',
+  'session.state.listening': 'Listening',
+  'session.state.thinking': 'Thinking...',
+  'session.state.speaking': 'Speaking',
+  'session.state.interrupted': 'Interrupted',
+  'session.state.reconnecting': 'Reconnecting...',
+  'session.state.error': 'Connection lost',
+  'session.attempt': 'Attempt {attempt} of {max}',
+  'session.retry': 'Reconnect',
+  'session.offline': 'Neural Bridge unavailable offline',
+  'session.waitingForNetwork': 'Waiting for network...',
+
+  'pwa.offline': 'You are offline. History and memories are still available; the Neural Bridge is not.',
+  'pwa.updateReady': 'A new version of Astra is ready.',
+  'pwa.reload': 'Reload',
+  'pwa.install': 'Install Astra',
+
+  'voiceInput.title': 'Voice input',
+  'voiceInput.mode.vad': 'Open mic',
+  'voiceInput.mode.ptt': 'Push to talk',
+  'voiceInput.hint.vad': 'Your turn ends after a pause. Speak over the twin to interrupt it.',
+  'voiceInput.hint.ptt': 'Hold the button or the spacebar while you speak.',
+  'voiceInput.sensitivity': 'Sensitivity',
+  'voiceInput.silence': 'Silence timeout',
+  'voiceInput.seconds': '{seconds} s',
+  'ptt.hold': 'Hold to talk',
+  'ptt.release': 'Release to send',
+
+  'vision.selfLens': 'Self Lens',
+  'vision.externalLens': 'External Lens',
+  'vision.on': 'Vision on',
+  'vision.onWithLens': 'Vision on · {lens}',
+  'vision.off': 'Vision off',
+  'vision.title': 'Vision',
+  'vision.camera': 'Camera',
+  'vision.screen': 'Screen',
+  'vision.shareScreen': 'Share screen or window',
+  'vision.uploadImage': 'Upload an image',
+  'vision.snapshot': 'Snapshot and ask',
+  'vision.stop': 'Stop sharing',
+  'vision.pasteHint': 'You can also paste an image anywhere on the page.',
+  'vision.frameRate': 'Frame rate',
+  'vision.fps': '{fps} fps',
+  'vision.resolution': 'Resolution',
+  'vision.resolution.low': 'Low',
+  'vision.resolution.medium': 'Medium',
+  'vision.resolution.high': 'High',
+  'vision.pixels': '{width} px',
+  'vision.sharing': 'Sharing {source} with the twin',
+  'vision.previewing': '{source} ready, shared when connected',
+  'vision.askTitle': 'Ask about this image',
+  'vision.askPlaceholder': 'Question about the image (optional)',
+  'vision.ask': 'Send to the twin',
+  'vision.askOffline': 'Start a session to send images to the twin.',
+  'vision.imageShared': 'Image shared',
+  'vision.imageWithQuestion': 'Image shared: {question}',
+
+  'animation.title': 'Neural Synthesis',
+  'animation.preparing': 'Preparing neural synthesis...',
+  'animation.progress': '{progress} ({pending} of {total} pending)',
+  'animation.resumable': 'Generation continues if you reload this page.',
+  'animation.cancel': 'Cancel synthesis',
+
+  'login.title': 'Neural Gateway',
+  'login.body': 'Enter the access code for this Astra server to open a secure session.',
+  'login.placeholder': 'Access code',
+  'login.submit': 'Connect',
+  'login.failed': 'Login failed',
+
+  'memory.title': 'Neural Memory',
+  'memory.search': 'Search memories',
+  'memory.export': 'Export',
+  'memory.import': 'Import',
+  'memory.imported': 'Imported {count} memories',
+  'memory.empty': 'No memories yet.',
+  'memory.turn': 'turn {turn}',
+  'memory.pin': 'Pin',
+  'memory.unpin': 'Unpin',
+  'memory.edit': 'Edit',
+  'memory.forget': 'Forget',
+  'memory.category.all': 'all',
+  'memory.category.personal': 'personal',
+  'memory.category.preference': 'preference',
+  'memory.category.work': 'work',
+  'memory.category.relationship': 'relationship',
+  'memory.category.other': 'other',
+
+  'history.title': 'Session History',
+  'history.untitled': 'Untitled session',
+  'history.untitledShort': 'Untitled',
+  'history.search': 'Search all conversations',
+  'history.noMatches': 'No matches.',
+  'history.empty': 'No sessions recorded yet.',
+  'history.entries': '{count} entries',
+  'history.live': 'live',
+  'history.resumed': 'resumed',
+  'history.resume': 'Resume',
+  'history.markdown': 'Markdown',
+  'history.json': 'JSON',
+  'history.delete': 'Delete session',
+  'history.channel.voice': 'voice',
+  'history.channel.text': 'text',
+  'history.channel.vision': 'vision',
+  'history.channel.tool': 'tool',
+  'history.export.title': 'Neural Bridge session',
+  'history.export.started': 'Started {date}',
+  'history.export.you': 'You',
+
+  'tools.title': 'Tool Calls',
+  'tools.empty': 'The twin has not used any tools in this session.',
+  'tools.status.awaiting-confirmation': 'awaiting approval',
+  'tools.status.running': 'running',
+  'tools.status.done': 'done',
+  'tools.status.error': 'failed',
+  'tools.status.declined': 'declined',
+  'tools.status.cancelled': 'cancelled',
+  'tools.confirmTitle': 'Allow {tool}?',
+  'tools.confirmBody': 'The twin wants to run this action on your behalf.',
+  'tools.allow': 'Allow',
+  'tools.deny': 'Deny',
+  'tools.arguments': 'Arguments',
+  'tools.result': 'Result',
+  'tools.calendar': 'Local calendar',
+  'tools.importIcs': 'Import .ics',
+  'tools.exportIcs': 'Export .ics',
+  'tools.calendarImported': 'Imported {count} events',
+  'tools.reminderDue': 'Reminder',
+  'tools.logCall': '{tool} · {status}',
+
+  'settings.title': 'Settings',
+  'settings.export': 'Export',
+  'settings.import': 'Import',
+  'settings.imported': 'Settings imported',
+  'settings.reset': 'Reset all',
+  'settings.resetDone': 'Settings reset to defaults',
+  'settings.language': 'Language',
+  'settings.voice': 'Voice of {name}',
+  'settings.voice.name': 'Voice',
+  'settings.voice.rate': 'Speaking rate',
+  'settings.voice.pitch': 'Pitch',
+  'settings.voice.quality.high': 'High quality',
+  'settings.voice.quality.standard': 'Standard',
+  'settings.voice.preview': 'Preview voice',
+  'settings.voice.previewBusy': 'End the session to preview the voice',
+  'settings.voice.previewFailed': 'Voice preview failed: {message}',
+  'settings.voice.personaDefault': 'Use persona default',
+  'settings.voice.sample': 'Hi, this is {name}. This is how I will sound in our next session.',
+  'settings.animation': 'Animation',
+  'settings.animation.intensity': 'Motion intensity',
+  'settings.animation.stateClips': 'Play generated state clips',
+  'settings.idle': 'Idle behaviour',
+  'settings.idle.actions': 'Glances, tilts and shifts while idle',
+  'settings.idle.blinking': 'Blinking',
+  'settings.camera': 'Camera',
+  'settings.camera.startWithVision': 'Turn the camera on when a session starts',
+  'settings.chat': 'Text chat',
+  'settings.chat.speakReplies': 'Read replies aloud',
+  'settings.audio': 'Audio devices',
+  'settings.audio.input': 'Microphone',
+  'settings.audio.output': 'Speaker',
+  'settings.audio.default': 'System default',
+  'settings.audio.unnamed': 'Device {number}',
+  'settings.audio.unplugged': 'Saved device (not connected)',
+  'settings.audio.outputUnsupported': 'This browser always plays through the system speaker.',
+  'settings.audio.unlabelled': 'Device names appear after microphone access is allowed once.',
+  'settings.audio.echoCancellation': 'Echo cancellation',
+  'settings.audio.noiseSuppression': 'Noise suppression',
+  'settings.audio.autoGain': 'Automatic gain',
+  'settings.audio.nextSession': 'Changes apply from the next session.',
+  'meters.you': 'You',
+
+  'diagnostics.title': 'Diagnostics',
+  'diagnostics.open': 'Show diagnostics',
+  'diagnostics.hint': 'Events from this tab only. Nothing is sent anywhere; copy the report into a bug report.',
+  'diagnostics.copy': 'Copy report',
+  'diagnostics.copied': 'Report copied to the clipboard',
+  'diagnostics.copyFailed': 'The clipboard is not available. Download the report instead.',
+  'diagnostics.download': 'Download',
+  'diagnostics.clear': 'Clear',
+  'diagnostics.empty': 'No events yet',
+  'diagnostics.level.info': 'Info',
+  'diagnostics.level.warn': 'Warning',
+  'diagnostics.level.error': 'Error',
+  'recorder.title': 'Recording and replay',
+  'recorder.recordSessions': 'Record sessions',
+  'recorder.hint': 'Recordings include your microphone audio and stay in this browser until you download them.',
+  'recorder.recording': 'Recording this session…',
+  'recorder.download': 'Download last recording ({seconds} s)',
+  'recorder.replayLast': 'Replay last recording',
+  'recorder.replayFile': 'Replay a recording…',
+  'recorder.stopReplay': 'Stop replay',
+  'chat.open': 'Text chat',
+  'chat.title': 'Chat with {name}',
+  'chat.empty': 'Type a message to start. No microphone needed.',
+  'chat.thinking': '{name} is thinking…',
+  'chat.placeholder': 'Type a message',
+  'chat.connecting': 'Connecting…',
+  'chat.send': 'Send',
+  'chat.end': 'End chat',
+  'chat.speakOn': 'Replies are read aloud',
+  'chat.speakOff': 'Replies are text only',
+
+  'knowledge.open': 'Knowledge base',
+  'knowledge.title': 'Knowledge Base',
+  'knowledge.hint': 'Markdown, text and PDF files stay in this browser. {name} searches them to ground answers and cites the passages it uses.',
+  'knowledge.add': 'Add documents',
+  'knowledge.added': 'Indexed {count} documents',
+  'knowledge.empty': 'No documents yet.',
+  'knowledge.chunks': '{count} passages',
+  'knowledge.status.indexing': 'Indexing…',
+  'knowledge.status.ready': 'Ready',
+  'knowledge.status.failed': 'Failed',
+  'knowledge.reindex': 'Re-index',
+  'knowledge.remove': 'Remove',
+  'knowledge.test': 'Try a search',
+  'knowledge.noResults': 'No matching passages.',
+  'knowledge.sources': 'Sources',
+  'knowledge.sourcesLine': 'Sources: {sources}',
+
+  'embed.start': 'Talk to {name}',
+  'embed.stop': 'End session',
+  'embed.placeholder': 'Type a message',
+  'embed.cameraOn': 'Show your camera',
+  'embed.cameraOff': 'Stop camera',
+  'embed.blocked': 'This site is not allowed to embed the twin.',
+
+  'usage.open': 'Usage and budgets',
+  'usage.title': 'Usage',
+  'usage.hint': 'Counted in this browser against your own daily budgets, which reset at midnight. They do not change the limits of your API key.',
+  'usage.notice': 'Usage',
+  'usage.today': 'Today',
+  'usage.session': 'This session',
+  'usage.recent': 'Last {count} days',
+  'usage.budgets': 'Daily budgets',
+  'usage.budgetHint': 'Leave a field empty for no limit.',
+  'usage.unlimited': 'No limit',
+  'usage.of': '{used} of {budget}',
+  'usage.minutes': '{value} min',
+  'usage.minuteUnit': 'min',
+  'usage.warnAt': 'Warn at {percent} of a budget',
+  'usage.downgradeToText': 'Switch to text chat when voice budgets run low',
+  'usage.disableVision': 'Turn vision off when voice budgets run low',
+  'usage.clear': 'Clear usage data',
+  'usage.metric.liveSeconds': 'Live session time',
+  'usage.metric.audioInSeconds': 'Audio sent',
+  'usage.metric.audioOutSeconds': 'Audio received',
+  'usage.metric.textTurns': 'Text turns',
+  'usage.metric.speechCalls': 'Speech synthesis',
+  'usage.metric.veoGenerations': 'Veo generations',
+  'usage.warning': "{metric}: {percent} of today's budget used",
+  'usage.exceeded': "{metric}: today's budget is used up",
+  'usage.blocked': "{metric}: today's budget is used up. Raise it under Usage or try again tomorrow.",
+  'usage.switchedToText': 'Voice budget running low, switched to text chat',
+  'usage.visionOff': 'Voice budget running low, vision turned off',
+
+  'persona.switch': 'Switch persona',
+  'persona.heading': 'Digital twins',
+  'persona.import': 'Import persona JSON',
+  'persona.imported': 'Imported {name}',
+  'persona.remove': 'Remove persona',
+
+  'common.importFailed': 'Import failed: {message}',
+};
+
+export type MessageKey = keyof typeof en;
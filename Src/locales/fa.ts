@@ -0,0 +1,316 @@
+import { MessageKey } from './en';
+
+export const fa: Record<MessageKey, string> = {
+  'language.label': 'زبان',
+
+  'app.initializing': 'در حال راه‌اندازی پل عصبی...',
+  'app.history': 'تاریخچه گفتگوها',
+  'app.memory': 'حافظه عصبی',
+  'app.resuming': 'ادامه از: {title}',
+  'app.previousSession': 'گفتگوی قبلی',
+  'app.connect': 'باز کردن پل عصبی',
+  'app.disconnect': 'بستن پل عصبی',
+  'app.lens': 'لنز عصبی',
+  'app.switchLens': 'تغییر لنز',
+  'app.animate': 'متحرک‌سازی آواتار',
+  'app.commandPlaceholder': 'چیزی به {name} بگویید...',
+  'app.send': 'ارسال',
+  'app.memorySaved': 'به خاطر سپرده شد: {fact}',
+  'app.tagline': 'همزاد دیجیتال',
+
+  'apiKey.title': 'انتخاب کلید API',
+  'apiKey.body': 'پل عصبی و متحرک‌سازی آواتار به یک کلید Gemini از یک پروژه پولی Google Cloud نیاز دارند.',
+  'apiKey.billing': 'درباره صورتحساب',
+  'apiKey.select': 'انتخاب کلید',
+
+  'error.lensDenied': 'دسترسی به لنز عصبی رد شد. لطفاً مجوز دوربین را بررسی کنید.',
+  'error.lensUnavailable': 'هیچ دوربینی برای لنز عصبی باز نشد.',
+  'error.screenFailed': 'اشتراک صفحه ناموفق بود: {message}',
+  'error.imageFailed': 'خواندن این تصویر ممکن نشد: {message}',
+  'error.micRequired': 'پل عصبی به دسترسی میکروفون نیاز دارد. لطفاً مجوزهای مرورگر را بررسی کنید.',
+  'error.micUnavailable': 'هیچ میکروفونی برای پل عصبی باز نشد.',
+  'error.connectionFailed': 'اتصال پل عصبی برقرار نشد: {message}',
+  'error.offline': 'شما آفلاین هستید. پل عصبی به اتصال شبکه نیاز دارد.',
+  'error.reconnectFailed': 'اتصال پل عصبی قطع شد و بازیابی نشد: {message}',
+  'error.animationOverloaded': 'موتور انیمیشن عصبی موقتاً پرمشغله است. لطفاً چند دقیقه دیگر دوباره تلاش کنید.',
+  'error.animationQuota': 'سهمیه عصبی تمام شد: به سقف استفاده از API رسیده‌اید. به یک کلید API پولی تغییر دهید یا تا بازنشانی سهمیه صبر کنید.',
+  'error.animationFailed': 'انیمیشن عصبی ناموفق بود. مطمئن شوید از یک کلید API پولی استفاده می‌کنید.',
+  'error.kind.auth': 'مشکل ورود',
+  'error.kind.quota': 'سهمیه تمام شد',
+  'error.kind.permission': 'نیاز به مجوز',
+  'error.kind.device': 'دستگاه در دسترس نیست',
+  'error.kind.network': 'مشکل شبکه',
+  'error.kind.unavailable': 'سرویس پرمشغله است',
+  'error.kind.model': 'خطای مدل',
+  'error.action.signIn': 'دوباره وارد شوید یا یک کلید API معتبر انتخاب کنید.',
+  'error.action.switchKey': 'به کلید API دیگری که سهمیه دارد تغییر دهید یا تا بازنشانی سهمیه صبر کنید.',
+  'error.action.grantPermission': 'در تنظیمات سایت مرورگر اجازه دسترسی بدهید و دوباره تلاش کنید.',
+  'error.action.checkDevice': 'دستگاه را وصل کنید یا برنامه‌های دیگری را که از آن استفاده می‌کنند ببندید و دوباره تلاش کنید.',
+  'error.action.checkConnection': 'اتصال شبکه را بررسی کنید. آسترا مدتی خودش دوباره تلاش می‌کند.',
+  'error.action.tryLater': 'سرویس پرمشغله است. چند دقیقه دیگر دوباره تلاش کنید.',
+  'error.action.reportBug': 'اگر این مشکل تکرار شد، گزارش عیب‌یابی را در گزارش باگ کپی کنید.',
+
+  'session.state.closed': 'آفلاین',
+  'session.state.connecting': 'در حال اتصال...',
+  'session.state.listening': 'در حال شنیدن',
+  'session.state.thinking': 'در حال فکر کردن...',
+  'session.state.speaking': 'در حال صحبت',
+  'session.state.interrupted': 'قطع صحبت',
+  'session.state.reconnecting': 'در حال اتصال دوباره...',
+  'session.state.error': 'اتصال قطع شد',
+  'session.attempt': 'تلاش {attempt} از {max}',
+  'session.retry': 'اتصال دوباره',
+  'session.offline': 'پل عصبی در حالت آفلاین در دسترس نیست',
+  'session.waitingForNetwork': 'در انتظار شبکه...',
+
+  'pwa.offline': 'شما آفلاین هستید. تاریخچه و خاطره‌ها همچنان در دسترس‌اند، اما پل عصبی نه.',
+  'pwa.updateReady': 'نسخه‌ی تازه‌ای از آسترا آماده است.',
+  'pwa.reload': 'بارگذاری دوباره',
+  'pwa.install': 'نصب آسترا',
+
+  'voiceInput.title': 'ورودی صدا',
+  'voiceInput.mode.vad': 'میکروفون باز',
+  'voiceInput.mode.ptt': 'فشار برای صحبت',
+  'voiceInput.hint.vad': 'نوبت شما بعد از یک مکث تمام می‌شود. برای قطع صحبت همزاد، وسط حرفش صحبت کنید.',
+  'voiceInput.hint.ptt': 'هنگام صحبت، دکمه یا کلید فاصله را نگه دارید.',
+  'voiceInput.sensitivity': 'حساسیت',
+  'voiceInput.silence': 'مهلت سکوت',
+  'voiceInput.seconds': '{seconds} ثانیه',
+  'ptt.hold': 'برای صحبت نگه دارید',
+  'ptt.release': 'برای ارسال رها کنید',
+
+  'vision.selfLens': 'لنز سلفی',
+  'vision.externalLens': 'لنز بیرونی',
+  'vision.on': 'بینایی روشن',
+  'vision.onWithLens': 'بینایی روشن · {lens}',
+  'vision.off': 'بینایی خاموش',
+  'vision.title': 'بینایی',
+  'vision.camera': 'دوربین',
+  'vision.screen': 'صفحه',
+  'vision.shareScreen': 'اشتراک صفحه یا پنجره',
+  'vision.uploadImage': 'بارگذاری تصویر',
+  'vision.snapshot': 'عکس بگیر و بپرس',
+  'vision.stop': 'توقف اشتراک',
+  'vision.pasteHint': 'می‌توانید تصویر را هر جای صفحه جای‌گذاری هم کنید.',
+  'vision.frameRate': 'نرخ فریم',
+  'vision.fps': '{fps} فریم در ثانیه',
+  'vision.resolution': 'وضوح',
+  'vision.resolution.low': 'کم',
+  'vision.resolution.medium': 'متوسط',
+  'vision.resolution.high': 'زیاد',
+  'vision.pixels': '{width} پیکسل',
+  'vision.sharing': 'اشتراک {source} با همزاد',
+  'vision.previewing': '{source} آماده است و پس از اتصال به اشتراک گذاشته می‌شود',
+  'vision.askTitle': 'درباره‌ی این تصویر بپرسید',
+  'vision.askPlaceholder': 'پرسش درباره‌ی تصویر (اختیاری)',
+  'vision.ask': 'ارسال برای همزاد',
+  'vision.askOffline': 'برای ارسال تصویر به همزاد، یک جلسه را شروع کنید.',
+  'vision.imageShared': 'تصویر به اشتراک گذاشته شد',
+  'vision.imageWithQuestion': 'تصویر به اشتراک گذاشته شد: {question}',
+
+  'animation.title': 'سنتز عصبی',
+  'animation.preparing': 'در حال آماده‌سازی سنتز عصبی...',
+  'animation.progress': '{progress} ({pending} از {total} در صف)',
+  'animation.resumable': 'اگر صفحه را دوباره بارگذاری کنید، ساخت ادامه پیدا می‌کند.',
+  'animation.cancel': 'لغو سنتز',
+
+  'login.title': 'دروازه عصبی',
+  'login.body': 'برای باز کردن یک نشست امن، کد دسترسی این سرور آسترا را وارد کنید.',
+  'login.placeholder': 'کد دسترسی',
+  'login.submit': 'اتصال',
+  'login.failed': 'ورود ناموفق بود',
+
+  'memory.title': 'حافظه عصبی',
+  'memory.search': 'جستجو در خاطره‌ها',
+  'memory.export': 'خروجی',
+  'memory.import': 'ورودی',
+  'memory.imported': '{count} خاطره وارد شد',
+  'memory.empty': 'هنوز خاطره‌ای ثبت نشده است.',
+  'memory.turn': 'نوبت {turn}',
+  'memory.pin': 'سنجاق',
+  'memory.unpin': 'برداشتن سنجاق',
+  'memory.edit': 'ویرایش',
+  'memory.forget': 'فراموش کن',
+  'memory.category.all': 'همه',
+  'memory.category.personal': 'شخصی',
+  'memory.category.preference': 'سلیقه',
+  'memory.category.work': 'کار',
+  'memory.category.relationship': 'روابط',
+  'memory.category.other': 'سایر',
+
+  'history.title': 'تاریخچه گفتگوها',
+  'history.untitled': 'گفتگوی بی‌عنوان',
+  'history.untitledShort': 'بی‌عنوان',
+  'history.search': 'جستجو در همه گفتگوها',
+  'history.noMatches': 'نتیجه‌ای پیدا نشد.',
+  'history.empty': 'هنوز گفتگویی ثبت نشده است.',
+  'history.entries': '{count} پیام',
+  'history.live': 'زنده',
+  'history.resumed': 'ادامه‌یافته',
+  'history.resume': 'ادامه',
+  'history.markdown': 'مارک‌داون',
+  'history.json': 'JSON',
+  'history.delete': 'حذف گفتگو',
+  'history.channel.voice': 'صوتی',
+  'history.channel.text': 'متنی',
+  'history.channel.vision': 'تصویری',
+  'history.channel.tool': 'ابزار',
+  'history.export.title': 'جلسهٔ پل عصبی',
+  'history.export.started': 'آغاز: {date}',
+  'history.export.you': 'شما',
+
+  'tools.title': 'فراخوانی ابزارها',
+  'tools.empty': 'همزاد در این جلسه هنوز از هیچ ابزاری استفاده نکرده است.',
+  'tools.status.awaiting-confirmation': 'در انتظار تأیید',
+  'tools.status.running': 'در حال اجرا',
+  'tools.status.done': 'انجام شد',
+  'tools.status.error': 'ناموفق',
+  'tools.status.declined': 'رد شد',
+  'tools.status.cancelled': 'لغو شد',
+  'tools.confirmTitle': 'اجازه‌ی {tool} داده شود؟',
+  'tools.confirmBody': 'همزاد می‌خواهد این کار را از طرف شما انجام دهد.',
+  'tools.allow': 'اجازه',
+  'tools.deny': 'رد',
+  'tools.arguments': 'ورودی‌ها',
+  'tools.result': 'نتیجه',
+  'tools.calendar': 'تقویم محلی',
+  'tools.importIcs': 'ورود ‎.ics',
+  'tools.exportIcs': 'خروجی ‎.ics',
+  'tools.calendarImported': '{count} رویداد وارد شد',
+  'tools.reminderDue': 'یادآوری',
+  'tools.logCall': '{tool} · {status}',
+
+  'settings.title': 'تنظیمات',
+  'settings.export': 'خروجی',
+  'settings.import': 'ورود',
+  'settings.imported': 'تنظیمات وارد شد',
+  'settings.reset': 'بازنشانی همه',
+  'settings.resetDone': 'تنظیمات به حالت پیش‌فرض برگشت',
+  'settings.language': 'زبان',
+  'settings.voice': 'صدای {name}',
+  'settings.voice.name': 'صدا',
+  'settings.voice.rate': 'سرعت گفتار',
+  'settings.voice.pitch': 'زیر و بمی',
+  'settings.voice.quality.high': 'کیفیت بالا',
+  'settings.voice.quality.standard': 'استاندارد',
+  'settings.voice.preview': 'پیش‌نمایش صدا',
+  'settings.voice.previewBusy': 'برای پیش‌نمایش صدا، جلسه را تمام کنید',
+  'settings.voice.previewFailed': 'پیش‌نمایش صدا ناموفق بود: {message}',
+  'settings.voice.personaDefault': 'صدای پیش‌فرض شخصیت',
+  'settings.voice.sample': 'سلام، من {name} هستم. در جلسه‌ی بعد این‌طور صحبت می‌کنم.',
+  'settings.animation': 'پویانمایی',
+  'settings.animation.intensity': 'شدت حرکت',
+  'settings.animation.stateClips': 'پخش کلیپ‌های ساخته‌شده برای هر حالت',
+  'settings.idle': 'رفتار در حالت بیکار',
+  'settings.idle.actions': 'نگاه‌ها، کج‌شدن‌ها و جابه‌جایی‌ها در حالت بیکار',
+  'settings.idle.blinking': 'پلک‌زدن',
+  'settings.camera': 'دوربین',
+  'settings.camera.startWithVision': 'روشن‌کردن دوربین هنگام شروع جلسه',
+  'settings.chat': 'گفتگوی متنی',
+  'settings.chat.speakReplies': 'خواندن پاسخ‌ها با صدا',
+  'settings.audio': 'دستگاه‌های صوتی',
+  'settings.audio.input': 'میکروفون',
+  'settings.audio.output': 'بلندگو',
+  'settings.audio.default': 'پیش‌فرض سیستم',
+  'settings.audio.unnamed': 'دستگاه {number}',
+  'settings.audio.unplugged': 'دستگاه ذخیره‌شده (متصل نیست)',
+  'settings.audio.outputUnsupported': 'این مرورگر همیشه از بلندگوی پیش‌فرض سیستم پخش می‌کند.',
+  'settings.audio.unlabelled': 'نام دستگاه‌ها پس از اولین اجازه دسترسی به میکروفون نمایش داده می‌شود.',
+  'settings.audio.echoCancellation': 'حذف پژواک',
+  'settings.audio.noiseSuppression': 'کاهش نویز',
+  'settings.audio.autoGain': 'تنظیم خودکار بلندی صدا',
+  'settings.audio.nextSession': 'تغییرات از جلسه بعد اعمال می‌شوند.',
+  'meters.you': 'شما',
+
+  'diagnostics.title': 'عیب‌یابی',
+  'diagnostics.open': 'نمایش عیب‌یابی',
+  'diagnostics.hint': 'فقط رویدادهای همین زبانه. چیزی به جایی ارسال نمی‌شود؛ گزارش را در گزارش باگ کپی کنید.',
+  'diagnostics.copy': 'کپی گزارش',
+  'diagnostics.copied': 'گزارش در کلیپ‌بورد کپی شد',
+  'diagnostics.copyFailed': 'کلیپ‌بورد در دسترس نیست. به جای آن گزارش را دانلود کنید.',
+  'diagnostics.download': 'دانلود',
+  'diagnostics.clear': 'پاک کردن',
+  'diagnostics.empty': 'هنوز رویدادی ثبت نشده',
+  'diagnostics.level.info': 'اطلاعات',
+  'diagnostics.level.warn': 'هشدار',
+  'diagnostics.level.error': 'خطا',
+  'recorder.title': 'ضبط و بازپخش',
+  'recorder.recordSessions': 'ضبط جلسه‌ها',
+  'recorder.hint': 'ضبط‌ها صدای میکروفون شما را هم دارند و تا وقتی دانلودشان نکنید فقط در همین مرورگر می‌مانند.',
+  'recorder.recording': 'در حال ضبط این جلسه…',
+  'recorder.download': 'دانلود آخرین ضبط ({seconds} ثانیه)',
+  'recorder.replayLast': 'بازپخش آخرین ضبط',
+  'recorder.replayFile': 'بازپخش یک فایل ضبط…',
+  'recorder.stopReplay': 'توقف بازپخش',
+  'chat.open': 'گفتگوی متنی',
+  'chat.title': 'گفتگو با {name}',
+  'chat.empty': 'برای شروع پیامی بنویسید. میکروفون لازم نیست.',
+  'chat.thinking': '{name} در حال فکر کردن است…',
+  'chat.placeholder': 'پیامی بنویسید',
+  'chat.connecting': 'در حال اتصال…',
+  'chat.send': 'ارسال',
+  'chat.end': 'پایان گفتگو',
+  'chat.speakOn': 'پاسخ‌ها با صدا خوانده می‌شوند',
+  'chat.speakOff': 'پاسخ‌ها فقط متنی هستند',
+
+  'knowledge.open': 'پایگاه دانش',
+  'knowledge.title': 'پایگاه دانش',
+  'knowledge.hint': 'فایل‌های مارک‌داون، متنی و PDF در همین مرورگر می‌مانند. {name} برای پاسخ‌هایش در آن‌ها جستجو می‌کند و به بخش‌هایی که استفاده کرده ارجاع می‌دهد.',
+  'knowledge.add': 'افزودن سند',
+  'knowledge.added': '{count} سند نمایه شد',
+  'knowledge.empty': 'هنوز سندی اضافه نشده است.',
+  'knowledge.chunks': '{count} بخش',
+  'knowledge.status.indexing': 'در حال نمایه‌سازی…',
+  'knowledge.status.ready': 'آماده',
+  'knowledge.status.failed': 'ناموفق',
+  'knowledge.reindex': 'نمایه‌سازی دوباره',
+  'knowledge.remove': 'حذف',
+  'knowledge.test': 'جستجوی آزمایشی',
+  'knowledge.noResults': 'بخش مرتبطی پیدا نشد.',
+  'knowledge.sources': 'منابع',
+  'knowledge.sourcesLine': 'منابع: {sources}',
+
+  'embed.start': 'گفتگو با {name}',
+  'embed.stop': 'پایان جلسه',
+  'embed.placeholder': 'پیامی بنویسید',
+  'embed.cameraOn': 'نمایش دوربین',
+  'embed.cameraOff': 'خاموش کردن دوربین',
+  'embed.blocked': 'این سایت اجازه جاسازی همزاد را ندارد.',
+
+  'usage.open': 'مصرف و سقف‌ها',
+  'usage.title': 'مصرف',
+  'usage.hint': 'مصرف در همین مرورگر و در برابر سقف‌های روزانه خودتان شمرده می‌شود که نیمه‌شب صفر می‌شوند. این سقف‌ها محدودیت کلید API شما را تغییر نمی‌دهند.',
+  'usage.notice': 'مصرف',
+  'usage.today': 'امروز',
+  'usage.session': 'این جلسه',
+  'usage.recent': '{count} روز اخیر',
+  'usage.budgets': 'سقف‌های روزانه',
+  'usage.budgetHint': 'برای نداشتن سقف، خانه را خالی بگذارید.',
+  'usage.unlimited': 'بدون سقف',
+  'usage.of': '{used} از {budget}',
+  'usage.minutes': '{value} دقیقه',
+  'usage.minuteUnit': 'دقیقه',
+  'usage.warnAt': 'هشدار در {percent} سقف',
+  'usage.downgradeToText': 'رفتن به گفتگوی متنی وقتی سقف صوتی رو به پایان است',
+  'usage.disableVision': 'خاموش کردن بینایی وقتی سقف صوتی رو به پایان است',
+  'usage.clear': 'پاک کردن داده‌های مصرف',
+  'usage.metric.liveSeconds': 'زمان جلسه زنده',
+  'usage.metric.audioInSeconds': 'صدای ارسالی',
+  'usage.metric.audioOutSeconds': 'صدای دریافتی',
+  'usage.metric.textTurns': 'نوبت‌های متنی',
+  'usage.metric.speechCalls': 'تبدیل متن به گفتار',
+  'usage.metric.veoGenerations': 'ساخت ویدیو با Veo',
+  'usage.warning': '{metric}: {percent} از سقف امروز مصرف شده است',
+  'usage.exceeded': '{metric}: سقف امروز تمام شده است',
+  'usage.blocked': '{metric}: سقف امروز تمام شده است. آن را در بخش مصرف بالا ببرید یا فردا دوباره امتحان کنید.',
+  'usage.switchedToText': 'سقف صوتی رو به پایان است؛ به گفتگوی متنی رفتیم',
+  'usage.visionOff': 'سقف صوتی رو به پایان است؛ بینایی خاموش شد',
+
+  'persona.switch': 'تغییر شخصیت',
+  'persona.heading': 'همزادهای دیجیتال',
+  'persona.import': 'وارد کردن فایل JSON شخصیت',
+  'persona.imported': '{name} وارد شد',
+  'persona.remove': 'حذف شخصیت',
+
+  'common.importFailed': 'ورود ناموفق بود: {message}',
+};
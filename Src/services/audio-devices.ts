@@ -0,0 +1,102 @@
+export interface AudioSettings {
+  // Preferred devices; null, or a device that is not plugged in, means the system default
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const AUDIO_DEFAULTS: AudioSettings = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export interface AudioDevice {
+  id: string;
+  label: string;
+}
+
+export interface AudioDeviceState {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+  // Browsers hide device names until microphone access has been granted once
+  labelled: boolean;
+  // Output selection needs AudioContext.setSinkId (Chromium only for now)
+  canSelectOutput: boolean;
+}
+
+// Output routing on an AudioContext; not in the DOM typings yet
+export type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+// Pseudo-devices that only alias a real one
+const ALIASES = new Set(['', 'default', 'communications']);
+
+let state: AudioDeviceState = {
+  inputs: [],
+  outputs: [],
+  labelled: false,
+  canSelectOutput: typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype,
+};
+const listeners = new Set<() => void>();
+
+const refresh = async () => {
+  if (!navigator.mediaDevices?.enumerateDevices) return;
+  const devices = await navigator.mediaDevices.enumerateDevices().catch(() => [] as MediaDeviceInfo[]);
+  const list = (kind: MediaDeviceKind) => devices
+    .filter(device => device.kind === kind && !ALIASES.has(device.deviceId))
+    .map(device => ({ id: device.deviceId, label: device.label }));
+  state = {
+    ...state,
+    inputs: list('audioinput'),
+    outputs: list('audiooutput'),
+    labelled: devices.some(device => device.label),
+  };
+  listeners.forEach(listener => listener());
+};
+
+// Registered at import time so hot-plugged devices show up wherever the list is read
+navigator.mediaDevices?.addEventListener('devicechange', refresh);
+refresh();
+
+/**
+ * The microphones and speakers the browser exposes, kept current as devices
+ * are plugged in and out.
+ */
+export class AudioDeviceService {
+  static getState(): AudioDeviceState {
+    return state;
+  }
+
+  static subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  // Device names only appear after a permission grant, so callers refresh once they have a stream
+  static refresh(): Promise<void> {
+    return refresh();
+  }
+
+  // The preferred device while it is plugged in, otherwise null for the system default.
+  static resolve(kind: 'input' | 'output', preferred: string | null): string | null {
+    const devices = kind === 'input' ? state.inputs : state.outputs;
+    return preferred && devices.some(device => device.id === preferred) ? preferred : null;
+  }
+
+  static captureConstraints(settings: AudioSettings): MediaTrackConstraints {
+    const deviceId = AudioDeviceService.resolve('input', settings.inputDeviceId);
+    return {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      channelCount: 1,
+      echoCancellation: settings.echoCancellation,
+      noiseSuppression: settings.noiseSuppression,
+      autoGainControl: settings.autoGainControl,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AudioPlayback, decodePcm16, encodePcm16, meterLevel, resample } from './audio-pipeline';
+import { AUDIO_DEFAULTS } from './audio-devices';
+import type { AstraError } from './errors';
+
+describe('PCM16 codec', () => {
+  it('round-trips samples within one step and clamps what is out of range', () => {
+    const pcm = new Float32Array([0, 0.5, -0.5, 0.999, -1, 1.5, -1.5]);
+    const decoded = decodePcm16(encodePcm16(pcm));
+
+    expect(decoded).toHaveLength(pcm.length);
+    [0, 0.5, -0.5, 0.999, -1, 1, -1].forEach((expected, i) => expect(decoded[i]).toBeCloseTo(expected, 4));
+  });
+
+  it('writes 16-bit little-endian samples', () => {
+    const bytes = Uint8Array.from(atob(encodePcm16(new Float32Array([1, -1]))), c => c.charCodeAt(0));
+
+    expect([...bytes]).toEqual([0xff, 0x7f, 0x01, 0x80]);
+    expect([...decodePcm16(btoa(String.fromCharCode(0x00, 0x80)))]).toEqual([-1]);
+  });
+
+  it('encodes buffers larger than one argument list', () => {
+    const pcm = new Float32Array(100_000).fill(0.25);
+
+    expect(decodePcm16(encodePcm16(pcm)).every(sample => Math.abs(sample - 0.25) < 1e-4)).toBe(true);
+  });
+});
+
+describe('resample', () => {
+  it('changes the length by the ratio of the rates', () => {
+    expect(resample(new Float32Array(480), 48000, 16000)).toHaveLength(160);
+    expect(resample(new Float32Array(160), 16000, 24000)).toHaveLength(240);
+  });
+
+  it('interpolates between neighbouring samples and holds the last one', () => {
+    expect([...resample(new Float32Array([0, 1, 0, -1]), 1, 2)]).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+    expect([...resample(new Float32Array([0, 0.5, 1, 0.5]), 2, 1)]).toEqual([0, 1]);
+  });
+});
+
+describe('meterLevel', () => {
+  it('reads silence as empty and full scale as full', () => {
+    expect(meterLevel(new Float32Array(128))).toBe(0);
+    expect(meterLevel(new Float32Array(0))).toBe(0);
+    expect(meterLevel(new Float32Array(128).fill(1))).toBe(1);
+  });
+
+  it('maps the RMS level onto 60 dB', () => {
+    expect(meterLevel(new Float32Array(128).fill(0.1))).toBeCloseTo(2 / 3);
+    expect(meterLevel(new Float32Array(128).fill(0.001))).toBeCloseTo(0);
+    expect(meterLevel(new Float32Array(128).fill(0.0001))).toBe(0);
+  });
+});
+
+describe('AudioPlayback', () => {
+  // Stand-ins for the Web Audio classes; the first worklet load fails when `failNext` is set
+  let failNext = false;
+  const posted: unknown[] = [];
+  const contexts: { closed: boolean }[] = [];
+
+  class FakeAudioContext {
+    sampleRate: number;
+    destination = {};
+    closed = false;
+    audioWorklet = {
+      addModule: async () => {
+        if (failNext) {
+          failNext = false;
+          throw new DOMException("Unable to load a worklet's module.", 'AbortError');
+        }
+      },
+    };
+    constructor({ sampleRate }: { sampleRate: number }) {
+      this.sampleRate = sampleRate;
+      contexts.push(this);
+    }
+    async resume() {}
+    async close() {
+      this.closed = true;
+    }
+  }
+
+  class FakeWorkletNode {
+    port = { postMessage: (message: unknown) => posted.push(message) };
+    connect() {}
+  }
+
+  const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    posted.length = 0;
+    contexts.length = 0;
+  });
+
+  it('reports a failed start once and starts over with the next chunk', async () => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('AudioWorkletNode', FakeWorkletNode);
+    const errors: AstraError[] = [];
+    const playback = new AudioPlayback(AUDIO_DEFAULTS, error => errors.push(error));
+
+    failNext = true;
+    playback.push(new Float32Array([0.1]), 24000);
+    playback.push(new Float32Array([0.2]), 24000);
+    await flushPromises();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].kind).toBe('device');
+    expect(contexts[0].closed).toBe(true);
+    expect(posted).toEqual([]);
+
+    playback.push(new Float32Array([0.3]), 24000);
+    await flushPromises();
+
+    expect(errors).toHaveLength(1);
+    expect(posted).toEqual([{ type: 'push', pcm: new Float32Array([0.3]) }]);
+    playback.close();
+  });
+});
@@ -0,0 +1,207 @@
+import { AudioDeviceService, AudioSettings, SinkableAudioContext } from './audio-devices';
+import { AstraError, classifyError } from './errors';
+
+// Served from public/ so the worklet can be loaded as a plain script on the audio thread
+const WORKLET_URL = '/worklets/astra-audio.js';
+// Meters show -60 dBFS as empty and full scale as full
+const METER_FLOOR_DB = -60;
+
+// Maps a frame to 0..1 on a decibel scale, which reads like a hardware meter.
+export const meterLevel = (pcm: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  const rms = Math.sqrt(sum / Math.max(1, pcm.length));
+  if (rms <= 0) return 0;
+  return Math.max(0, Math.min(1, 1 - (20 * Math.log10(rms)) / METER_FLOOR_DB));
+};
+
+// Linear interpolation is plenty for speech and keeps playback on one context rate
+export const resample = (pcm: Float32Array, from: number, to: number): Float32Array => {
+  const out = new Float32Array(Math.round((pcm.length * to) / from));
+  const step = from / to;
+  for (let i = 0; i < out.length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = pcm[Math.min(index + 1, pcm.length - 1)];
+    out[i] = pcm[index] + (next - pcm[index]) * (position - index);
+  }
+  return out;
+};
+
+// Gemini sends and expects 16-bit little-endian mono PCM, base64 encoded
+export const decodePcm16 = (base64: string): Float32Array => {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  const samples = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+  return Float32Array.from(samples, sample => sample / 0x8000);
+};
+
+export const encodePcm16 = (pcm: Float32Array): string => {
+  const samples = Int16Array.from(pcm, sample => Math.max(-1, Math.min(1, sample)) * 0x7fff);
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  // Chunked so String.fromCharCode never gets more arguments than the engine allows
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/**
+ * Microphone capture through an AudioWorklet. Opens the preferred input with
+ * the chosen processing and hands fixed-size frames to `onFrame`. When that
+ * input is unplugged it falls back to the default, and it moves back once
+ * the device returns.
+ */
+export class MicCapture {
+  private context: AudioContext | null = null;
+  private node: AudioWorkletNode | null = null;
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private switching: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(private settings: AudioSettings, private onFrame: (pcm: Float32Array, sampleRate: number) => void) {}
+
+  // Rejects with an AstraError, a PermissionError when the mic is blocked
+  async open() {
+    const context = new AudioContext();
+    this.context = context;
+    try {
+      await context.audioWorklet.addModule(WORKLET_URL);
+      this.node = new AudioWorkletNode(context, 'astra-capture');
+      this.node.port.onmessage = ({ data }) => {
+        if (!this.closed) this.onFrame(data.pcm, context.sampleRate);
+      };
+      // The processor outputs silence; being connected keeps it scheduled
+      this.node.connect(context.destination);
+      await this.connect();
+    } catch (err) {
+      this.close();
+      throw classifyError(err, 'permission');
+    }
+    this.unsubscribe = AudioDeviceService.subscribe(() => this.follow());
+  }
+
+  close() {
+    this.closed = true;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.release();
+    this.node = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+
+  private async connect() {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: AudioDeviceService.captureConstraints(this.settings) });
+    } catch (err) {
+      // The preferred device went away between enumeration and opening; take the default
+      if ((err as Error)?.name !== 'OverconstrainedError') throw err;
+      stream = await navigator.mediaDevices.getUserMedia({ audio: AudioDeviceService.captureConstraints({ ...this.settings, inputDeviceId: null }) });
+    }
+    if (this.closed || !this.context || !this.node) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    this.release();
+    this.stream = stream;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.source.connect(this.node);
+    stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+      if (this.stream === stream) this.reconnect();
+    });
+    // Names and ids become readable once a stream has been granted
+    AudioDeviceService.refresh();
+  }
+
+  private follow() {
+    const wanted = AudioDeviceService.resolve('input', this.settings.inputDeviceId);
+    const current = this.stream?.getAudioTracks()[0]?.getSettings().deviceId;
+    if (wanted && wanted !== current) this.reconnect();
+  }
+
+  private reconnect() {
+    this.switching = this.switching
+      .then(() => (this.closed ? undefined : this.connect()))
+      .catch(err => console.warn("Microphone could not be reopened", err));
+  }
+
+  private release() {
+    this.source?.disconnect();
+    this.source = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+}
+
+/**
+ * Twin audio through an AudioWorklet on the chosen output device. Chunks are
+ * queued on the audio thread and played back to back; flush() drops the rest
+ * of a turn when the user barges in.
+ */
+export class AudioPlayback {
+  private context: SinkableAudioContext | null = null;
+  private node: AudioWorkletNode | null = null;
+  private ready: Promise<void> | null = null;
+  private sinkId: string | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  // `onError` hears when playback cannot start, as an AstraError; the next chunk tries again
+  constructor(private settings: AudioSettings, private onError?: (error: AstraError) => void) {}
+
+  push(pcm: Float32Array, sampleRate: number) {
+    const ready = this.ready ??= this.init(sampleRate);
+    ready
+      .then(() => {
+        if (!this.context || !this.node) return;
+        const chunk = sampleRate === this.context.sampleRate ? pcm.slice() : resample(pcm, sampleRate, this.context.sampleRate);
+        this.node.port.postMessage({ type: 'push', pcm: chunk }, [chunk.buffer]);
+      })
+      .catch(err => {
+        // Chunks queued behind the same failed start are dropped with it; only the first reports
+        if (this.ready !== ready) return;
+        this.close();
+        const error = classifyError(err, 'device');
+        if (this.onError) this.onError(error);
+        else console.warn("Playback unavailable", error);
+      });
+  }
+
+  flush() {
+    this.node?.port.postMessage({ type: 'flush' });
+  }
+
+  close() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.node = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.ready = null;
+    this.sinkId = null;
+  }
+
+  // The first chunk's rate becomes the context rate, so the usual case needs no resampling
+  private async init(sampleRate: number) {
+    const context: SinkableAudioContext = new AudioContext({ sampleRate });
+    this.context = context;
+    await this.route();
+    await context.audioWorklet.addModule(WORKLET_URL);
+    if (this.context !== context) return;
+    this.node = new AudioWorkletNode(context, 'astra-playback', { outputChannelCount: [1] });
+    this.node.connect(context.destination);
+    await context.resume();
+    this.unsubscribe = AudioDeviceService.subscribe(() => this.route());
+  }
+
+  // Follows the preferred speaker; the default output plays while it is unplugged
+  private async route() {
+    const context = this.context;
+    if (!context?.setSinkId) return;
+    const sinkId = AudioDeviceService.resolve('output', this.settings.outputDeviceId) ?? '';
+    if (sinkId === this.sinkId) return;
+    this.sinkId = sinkId;
+    await context.setSinkId(sinkId).catch(err => console.warn("Output device not applied", err));
+  }
+}
@@ -0,0 +1,80 @@
+// Browser side of the API proxy login: exchanges an access code for a
+// short-lived session token and keeps it fresh while the app is open.
+
+import { AuthError, classifyError } from './errors';
+
+export type AuthMode = 'proxy' | 'aistudio';
+
+export const AUTH_MODE: AuthMode = process.env.AUTH_MODE === 'aistudio' ? 'aistudio' : 'proxy';
+export const PROXY_URL = (process.env.PROXY_URL || '').replace(/\/$/, '');
+
+interface StoredSession {
+  token: string;
+  expiresAt: number;
+}
+
+const STORAGE_KEY = 'astra.proxy-session';
+// Refresh this long before expiry so in-flight requests never carry a stale token
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let refreshTimer: number | undefined;
+
+const readSession = (): StoredSession | null => {
+  try {
+    const session: StoredSession | null = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null');
+    return session && session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (session: StoredSession) => {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  clearTimeout(refreshTimer);
+  refreshTimer = window.setTimeout(() => {
+    AuthService.refresh().catch(() => AuthService.logout());
+  }, Math.max(0, session.expiresAt - Date.now() - REFRESH_MARGIN_MS));
+};
+
+export class AuthService {
+  static hasValidSession(): boolean {
+    return readSession() !== null;
+  }
+
+  static getToken(): string {
+    const session = readSession();
+    if (!session) throw new AuthError('API_KEY_EXPIRED');
+    return session.token;
+  }
+
+  static async login(accessCode: string): Promise<void> {
+    const response = await fetch(`${PROXY_URL}/api/session`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ accessCode }),
+    });
+    if (response.status === 401) throw new AuthError('Invalid access code');
+    if (!response.ok) throw classifyError(`Neural gateway unavailable (${response.status})`, 'unavailable');
+    storeSession(await response.json());
+  }
+
+  static async refresh(): Promise<void> {
+    const response = await fetch(`${PROXY_URL}/api/session/refresh`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${AuthService.getToken()}` },
+    });
+    if (!response.ok) throw new AuthError('API_KEY_EXPIRED');
+    storeSession(await response.json());
+  }
+
+  static logout() {
+    clearTimeout(refreshTimer);
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+
+  // Re-arms the refresh timer for a session restored from a previous page load.
+  static resume() {
+    const session = readSession();
+    if (session) storeSession(session);
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRESETS, ExpressionOverrides, detectExpression, resolvePresets } from './avatar-animator';
+
+describe('resolvePresets', () => {
+  it('keeps the bundled presets without overrides', () => {
+    expect(resolvePresets()).toEqual(DEFAULT_PRESETS);
+  });
+
+  it('clamps out-of-range overrides and ignores values that are not numbers', () => {
+    const { happy } = resolvePresets({ happy: { tilt: 45, scale: 0.1, blinkRate: -1, sway: 'lots', brightness: Infinity } } as unknown as ExpressionOverrides);
+
+    expect(happy).toMatchObject({ tilt: 10, scale: 0.8, blinkRate: 0, sway: DEFAULT_PRESETS.happy.sway, brightness: DEFAULT_PRESETS.happy.brightness });
+    expect(resolvePresets({ happy: { tilt: '-3' } } as unknown as ExpressionOverrides).happy.tilt).toBe(-3);
+  });
+
+  it('drops unknown idle actions and words that are not strings', () => {
+    const { thinking } = resolvePresets({
+      thinking: { idleActions: ['glance', 'dance', 'shift'], keywords: { en: ['Ponder', 42, 'HMM'], fa: 'شاید' } },
+    } as unknown as ExpressionOverrides);
+
+    expect(thinking.idleActions).toEqual(['glance', 'shift']);
+    expect(thinking.keywords).toEqual({ en: ['ponder', 'hmm'], fa: [] });
+  });
+
+  it('leaves expressions without overrides and non-object overrides as bundled', () => {
+    const presets = resolvePresets({ happy: null, concerned: { tilt: 1 } } as unknown as ExpressionOverrides);
+
+    expect(presets.happy).toEqual(DEFAULT_PRESETS.happy);
+    expect(presets.surprised).toEqual(DEFAULT_PRESETS.surprised);
+    expect(presets.concerned).toEqual({ ...DEFAULT_PRESETS.concerned, tilt: 1 });
+  });
+});
+
+describe('detectExpression', () => {
+  it('matches the phrases of the transcript language only', () => {
+    expect(detectExpression('Wow, I did not expect that', 'en-US')).toBe('surprised');
+    expect(detectExpression('متأسفم که این را می‌شنوم', 'fa-IR')).toBe('concerned');
+    expect(detectExpression('Wow, I did not expect that', 'fa-IR')).toBeNull();
+    expect(detectExpression('The meeting is at noon', 'en-US')).toBeNull();
+  });
+
+  it('picks the expression with the most phrases', () => {
+    expect(detectExpression('Sorry, wow, unfortunately that is bad news', 'en')).toBe('concerned');
+  });
+
+  it('reads only the end of a long transcript', () => {
+    const early = `Haha, great to see you. ${'We walked through the plan step by step. '.repeat(5)}`;
+
+    expect(early.length).toBeGreaterThan(160);
+    expect(detectExpression(early, 'en')).toBeNull();
+    expect(detectExpression(`${early}Hmm, let me think.`, 'en')).toBe('thinking');
+  });
+
+  it('uses the persona presets it is given', () => {
+    const presets = resolvePresets({ happy: { keywords: { en: ['splendid'] } } });
+
+    expect(detectExpression('Splendid!', 'en', presets)).toBe('happy');
+    expect(detectExpression('Splendid!', 'en')).toBeNull();
+  });
+});
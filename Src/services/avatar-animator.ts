@@ -0,0 +1,304 @@
+import type { LiveStatus } from './live-provider';
+import type { MouthShape } from './viseme-engine';
+import DEFAULT_PRESET_JSON from '../presets/expressions.json';
+
+export type Expression = 'neutral' | 'happy' | 'thinking' | 'concerned' | 'surprised';
+export type IdleAction = 'glance' | 'tilt' | 'shift';
+
+export const EXPRESSIONS: Expression[] = ['neutral', 'happy', 'thinking', 'concerned', 'surprised'];
+const IDLE_ACTIONS: IdleAction[] = ['glance', 'tilt', 'shift'];
+
+/**
+ * How an expression bends the avatar's motion. Offsets are added to the
+ * base pose, factors multiply it; the neutral preset is the base pose itself.
+ */
+export interface ExpressionPreset {
+  // Head tilt in degrees, added to the rotate loop
+  tilt: number;
+  skewX: number;
+  skewY: number;
+  scale: number;
+  brightness: number;
+  saturate: number;
+  // Amplitude of the drift and speaking wobble
+  sway: number;
+  // Blinks relative to the neutral rate; surprise stares, thinking blinks more
+  blinkRate: number;
+  // Idle actions drawn while this expression holds
+  idleActions: IdleAction[];
+  // Phrases per language (first subtag of the BCP-47 tag) that trigger the expression in a transcript
+  keywords: Record<string, string[]>;
+}
+
+export type ExpressionPresets = Record<Expression, ExpressionPreset>;
+
+// Partial presets as they appear in persona JSON
+export type ExpressionOverrides = Partial<Record<Expression, Partial<ExpressionPreset>>>;
+
+// 'still' drives the portrait; 'video' leaves movement and blinking to the Veo clip
+export type AvatarMode = 'still' | 'video';
+
+export interface AvatarState {
+  expression: Expression;
+  // 0..1, how far the expression is blended over neutral
+  intensity: number;
+  isBlinking: boolean;
+  idleAction: IdleAction | 'none';
+}
+
+export interface AnimatorOptions {
+  blinking: boolean;
+  idleActions: boolean;
+  // Idle actions only play while the bridge is closed
+  isIdle: boolean;
+}
+
+export interface AvatarMotionInput {
+  status: LiveStatus;
+  audioLevel: number;
+  mouth: MouthShape;
+  mode: AvatarMode;
+}
+
+// Expressions fade back to neutral unless something re-triggers them
+const DEFAULT_HOLD_MS = 6000;
+// Only the end of a running transcript says anything about the current mood
+const TRANSCRIPT_WINDOW = 160;
+
+const num = (value: unknown, fallback: number, min: number, max: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+// Bundled presets and persona overrides are both untrusted JSON; anything that is not an object counts as empty
+const mergePreset = (base: ExpressionPreset, value: unknown): ExpressionPreset => {
+  const raw: Record<string, unknown> = value && typeof value === 'object' ? { ...value } : {};
+  return {
+    tilt: num(raw.tilt, base.tilt, -10, 10),
+    skewX: num(raw.skewX, base.skewX, -5, 5),
+    skewY: num(raw.skewY, base.skewY, -5, 5),
+    scale: num(raw.scale, base.scale, 0.8, 1.2),
+    brightness: num(raw.brightness, base.brightness, 0.3, 2),
+    saturate: num(raw.saturate, base.saturate, 0, 3),
+    sway: num(raw.sway, base.sway, 0, 3),
+    blinkRate: num(raw.blinkRate, base.blinkRate, 0, 5),
+    idleActions: Array.isArray(raw.idleActions)
+      ? raw.idleActions.filter((action: unknown): action is IdleAction => IDLE_ACTIONS.includes(action as IdleAction))
+      : base.idleActions,
+    keywords: raw.keywords && typeof raw.keywords === 'object'
+      ? Object.fromEntries(Object.entries(raw.keywords)
+        .map(([language, words]) => [language, Array.isArray(words) ? words.filter((w): w is string => typeof w === 'string').map(w => w.toLowerCase()) : []]))
+      : base.keywords,
+  };
+};
+
+const BUNDLED_PRESETS: Record<string, unknown> = DEFAULT_PRESET_JSON;
+
+const NEUTRAL = mergePreset({
+  tilt: 0, skewX: 0, skewY: 0, scale: 1, brightness: 1, saturate: 1, sway: 1, blinkRate: 1, idleActions: IDLE_ACTIONS, keywords: {},
+}, BUNDLED_PRESETS.neutral);
+
+export const DEFAULT_PRESETS = Object.fromEntries(
+  EXPRESSIONS.map(expression => [expression, mergePreset(NEUTRAL, BUNDLED_PRESETS[expression])])
+) as ExpressionPresets;
+
+// Lays persona overrides over the bundled presets; unknown or out-of-range values are dropped or clamped.
+export const resolvePresets = (overrides?: ExpressionOverrides): ExpressionPresets => Object.fromEntries(
+  EXPRESSIONS.map(expression => [expression, mergePreset(DEFAULT_PRESETS[expression], overrides?.[expression])])
+) as ExpressionPresets;
+
+// Picks the expression whose phrases occur most often near the end of the text, if any do.
+export const detectExpression = (text: string, language: string, presets: ExpressionPresets = DEFAULT_PRESETS): Expression | null => {
+  const tail = text.slice(-TRANSCRIPT_WINDOW).toLowerCase();
+  const lang = language.toLowerCase().split('-')[0];
+  let best: Expression | null = null;
+  let bestHits = 0;
+  for (const expression of EXPRESSIONS) {
+    const hits = (presets[expression].keywords[lang] ?? []).filter(word => tail.includes(word)).length;
+    if (hits > bestHits) {
+      best = expression;
+      bestHits = hits;
+    }
+  }
+  return best;
+};
+
+const lerp = (from: number, to: number, k: number) => from + (to - from) * k;
+const random = (min: number, max: number) => min + Math.random() * (max - min);
+
+/**
+ * Owns everything the avatar does on its own: blinking, idle actions and the
+ * current expression. Components read the state through subscribe/getState
+ * and turn it into motion targets with motion().
+ */
+export class AvatarAnimator {
+  private state: AvatarState = { expression: 'neutral', intensity: 0, isBlinking: false, idleAction: 'none' };
+  private listeners = new Set<() => void>();
+  private options: AnimatorOptions = { blinking: false, idleActions: false, isIdle: true };
+  private blinkTimer: number | undefined;
+  private idleTimer: number | undefined;
+  private expressionTimer: number | undefined;
+
+  constructor(private presets: ExpressionPresets = DEFAULT_PRESETS) {}
+
+  getState = () => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setPresets(presets: ExpressionPresets) {
+    this.presets = presets;
+    this.emit({});
+  }
+
+  configure(options: Partial<AnimatorOptions>) {
+    const previous = this.options;
+    this.options = { ...previous, ...options };
+    if (this.options.blinking !== previous.blinking) {
+      clearTimeout(this.blinkTimer);
+      this.emit({ isBlinking: false });
+      if (this.options.blinking) this.scheduleBlink();
+    }
+    const wantsIdle = this.options.idleActions && this.options.isIdle;
+    if (wantsIdle !== (previous.idleActions && previous.isIdle)) {
+      clearTimeout(this.idleTimer);
+      this.emit({ idleAction: 'none' });
+      if (wantsIdle) this.scheduleIdleAction();
+    }
+  }
+
+  setExpression(expression: Expression, intensity = 1, holdMs = DEFAULT_HOLD_MS) {
+    clearTimeout(this.expressionTimer);
+    this.emit({ expression, intensity: expression === 'neutral' ? 0 : Math.min(1, Math.max(0, intensity)) });
+    if (expression !== 'neutral' && holdMs > 0) {
+      this.expressionTimer = window.setTimeout(() => this.emit({ expression: 'neutral', intensity: 0 }), holdMs);
+    }
+  }
+
+  // Called with the twin's running transcript; keeps the current expression when nothing matches.
+  observeTranscript(text: string, language: string) {
+    const expression = detectExpression(text, language, this.presets);
+    if (expression && expression !== 'neutral') this.setExpression(expression, 0.8);
+  }
+
+  reset() {
+    clearTimeout(this.expressionTimer);
+    this.emit({ expression: 'neutral', intensity: 0 });
+  }
+
+  dispose() {
+    clearTimeout(this.blinkTimer);
+    clearTimeout(this.idleTimer);
+    clearTimeout(this.expressionTimer);
+    this.options = { ...this.options, blinking: false, idleActions: false };
+  }
+
+  /**
+   * Motion targets and transitions for the avatar layer, blending the
+   * current expression over the base pose of the live status.
+   */
+  motion({ status, audioLevel, mouth, mode }: AvatarMotionInput) {
+    const { expression, intensity: k, isBlinking, idleAction } = this.state;
+    const preset = this.presets[expression];
+    const speaking = status === 'speaking';
+    // Clips move and blink on their own; synthetic wobble on top of them looks like a glitch
+    const still = mode === 'still';
+    const sway = lerp(1, preset.sway, k) * (still ? 1 : 0);
+    const tilt = preset.tilt * k;
+    const loop = (amplitude: number, offset = 0) => [offset, offset - amplitude * sway, offset + amplitude * sway, offset];
+    const blink = still && isBlinking;
+
+    const animate = {
+      scale: lerp(1, preset.scale, k) * (speaking && still ? 1.1 + (audioLevel > 0.1 ? audioLevel * 0.15 : 0) : 1.1),
+      scaleX: speaking && still ? 1 - (audioLevel * 0.03) : 1,
+      scaleY: speaking && still
+        ? (1 + (audioLevel * 0.12)) * mouth.scale // Lip Sync + Audio
+        : 1,
+      rotate: speaking
+        ? loop(1.5, tilt)
+        : (idleAction === 'tilt' ? loop(-1.5, tilt) : loop(0.4, tilt)),
+      skewX: preset.skewX * k + (speaking && still
+        ? (audioLevel * 5)
+        : (idleAction === 'shift' ? 1.2 : 0)),
+      skewY: preset.skewY * k + (speaking && still
+        ? (audioLevel * 2 + mouth.skew)
+        : (idleAction === 'glance' ? 0.6 : 0)),
+      x: speaking
+        ? loop(2)
+        : (idleAction === 'shift' ? loop(-3) : loop(0.6)),
+      y: speaking ? loop(2.5) : loop(3),
+      filter: `
+        brightness(${(status === 'idle' ? 0.7 : 1.1 + (audioLevel * 0.35)) * lerp(1, preset.brightness, k)})
+        contrast(${1.1 + (audioLevel * 0.2)})
+        saturate(${(1.1 + (audioLevel * 0.25)) * lerp(1, preset.saturate, k)})
+        drop-shadow(0 0 ${audioLevel * 25}px rgba(99, 102, 241, ${audioLevel * 0.6}))
+        ${blink ? 'brightness(0.2)' : 'brightness(1)'}
+      `,
+    };
+
+    const transition = {
+      scale: { type: 'spring' as const, damping: 25, stiffness: 150 },
+      scaleX: speaking
+        ? { type: 'spring' as const, damping: 15, stiffness: 200 }
+        : { duration: 0.3 },
+      scaleY: speaking
+        ? { type: 'spring' as const, damping: 8, stiffness: 250 } // Snappier for lip sync
+        : { duration: 0.3 },
+      rotate: {
+        repeat: Infinity,
+        duration: speaking ? 0.3 : 5,
+        ease: 'easeInOut' as const,
+      },
+      skewX: { type: 'spring' as const, damping: 8, stiffness: 120 },
+      skewY: { type: 'spring' as const, damping: 10, stiffness: 100 },
+      x: {
+        repeat: Infinity,
+        duration: speaking ? 0.4 : 7,
+        ease: 'easeInOut' as const,
+      },
+      y: {
+        repeat: Infinity,
+        duration: speaking ? 0.6 : 4,
+        ease: 'easeInOut' as const,
+      },
+      filter: { duration: blink ? 0.08 : 0.25 },
+    };
+
+    return { animate, transition };
+  }
+
+  private emit(changes: Partial<AvatarState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private scheduleBlink() {
+    // Natural variation: shorter intervals between some blinks, longer between others
+    const isDoubleBlink = Math.random() > 0.8;
+    const rate = Math.max(0.1, lerp(1, this.presets[this.state.expression].blinkRate, this.state.intensity));
+    const delay = isDoubleBlink ? 200 : random(2500, 7500) / rate;
+    this.blinkTimer = window.setTimeout(() => {
+      this.emit({ isBlinking: true });
+      this.blinkTimer = window.setTimeout(() => {
+        this.emit({ isBlinking: false });
+        if (this.options.blinking) this.scheduleBlink();
+      }, random(100, 150));
+    }, delay);
+  }
+
+  private scheduleIdleAction() {
+    this.idleTimer = window.setTimeout(() => {
+      const actions = this.presets[this.state.expression].idleActions;
+      const pool = actions.length > 0 ? actions : IDLE_ACTIONS;
+      this.emit({ idleAction: pool[Math.floor(Math.random() * pool.length)] });
+      this.idleTimer = window.setTimeout(() => {
+        this.emit({ idleAction: 'none' });
+        if (this.options.idleActions && this.options.isIdle) this.scheduleIdleAction();
+      }, random(2000, 3000));
+    }, random(4000, 12000));
+  }
+}
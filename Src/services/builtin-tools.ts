@@ -0,0 +1,229 @@
+import { ToolDefinition, ToolParameters } from './tools';
+import { ToolStore } from './tool-store';
+import { MemoryService } from './memory-store';
+import { KnowledgeService, citation } from './knowledge-store';
+import { AvatarAnimator, EXPRESSIONS, Expression } from './avatar-animator';
+
+const MINUTE_MS = 60 * 1000;
+
+const parseTime = (value: unknown, field: string): number => {
+  const time = Date.parse(String(value));
+  if (Number.isNaN(time)) throw new Error(`"${field}" must be an ISO 8601 date-time, got "${value}"`);
+  return time;
+};
+
+const iso = (time: number) => new Date(time).toISOString();
+
+export interface HttpToolOptions {
+  name: string;
+  description: string;
+  url: string;
+  method?: 'GET' | 'POST';
+  parameters: ToolParameters;
+  sensitive?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Wraps an HTTP endpoint as a tool. GET requests send the arguments as query
+ * parameters, POST requests as a JSON body; the JSON (or text) reply is the result.
+ */
+export const createHttpTool = ({ name, description, url, method = 'POST', parameters, sensitive = true, headers }: HttpToolOptions): ToolDefinition => ({
+  name,
+  description,
+  parameters,
+  sensitive,
+  nonBlocking: true,
+  async execute(args, { signal }) {
+    const target = new URL(url, window.location.origin);
+    if (method === 'GET') {
+      Object.entries(args).forEach(([key, value]) => target.searchParams.set(key, String(value)));
+    }
+    const response = await fetch(target, {
+      method,
+      signal,
+      headers: { ...(method === 'POST' ? { 'content-type': 'application/json' } : {}), ...headers },
+      body: method === 'POST' ? JSON.stringify(args) : undefined,
+    });
+    if (!response.ok) throw new Error(`${name} failed with HTTP ${response.status}`);
+    const type = response.headers.get('content-type') ?? '';
+    return type.includes('json') ? response.json() : response.text();
+  },
+});
+
+export const builtinTools = (): ToolDefinition[] => [
+  {
+    name: 'clock_now',
+    description: 'Returns the current local date, time and time zone. Call this before scheduling anything relative to now.',
+    parameters: { type: 'object', properties: {} },
+    async execute() {
+      return {
+        now: iso(Date.now()),
+        local: new Date().toString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      };
+    },
+  },
+  {
+    name: 'notes_create',
+    description: 'Saves a note for the user.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Content of the note' },
+        title: { type: 'string', description: 'Short title' },
+      },
+      required: ['text'],
+    },
+    async execute(args: { text: string; title?: string }, { namespace }) {
+      const note = await ToolStore.addNote(namespace, args.title ?? '', args.text);
+      return { saved: true, id: note.id };
+    },
+  },
+  {
+    name: 'notes_search',
+    description: "Searches the user's saved notes. An empty query returns the most recent notes.",
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Words that must all appear in the note' } },
+    },
+    async execute(args: { query?: string }, { namespace }) {
+      const notes = await ToolStore.searchNotes(namespace, args.query);
+      return notes.map(n => ({ title: n.title, text: n.text, createdAt: iso(n.createdAt) }));
+    },
+  },
+  {
+    name: 'reminders_create',
+    description: 'Schedules a reminder that pops up in the app. Give either dueAt or inMinutes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'What to remind the user about' },
+        dueAt: { type: 'string', description: 'ISO 8601 date-time' },
+        inMinutes: { type: 'number', description: 'Minutes from now' },
+      },
+      required: ['text'],
+    },
+    async execute(args: { text: string; dueAt?: string; inMinutes?: number }, { namespace }) {
+      if (args.dueAt === undefined && args.inMinutes === undefined) throw new Error('Give either dueAt or inMinutes');
+      const dueAt = args.dueAt !== undefined ? parseTime(args.dueAt, 'dueAt') : Date.now() + args.inMinutes! * MINUTE_MS;
+      const reminder = await ToolStore.addReminder(namespace, args.text, dueAt);
+      return { scheduled: true, dueAt: iso(reminder.dueAt) };
+    },
+  },
+  {
+    name: 'reminders_list',
+    description: 'Lists reminders that have not fired yet.',
+    parameters: { type: 'object', properties: {} },
+    async execute(_args, { namespace }) {
+      return (await ToolStore.listReminders(namespace)).map(r => ({ text: r.text, dueAt: iso(r.dueAt) }));
+    },
+  },
+  {
+    name: 'calendar_list_events',
+    description: "Lists events in the user's local calendar between two dates. Defaults to the next seven days.",
+    parameters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'ISO 8601 start of the range' },
+        to: { type: 'string', description: 'ISO 8601 end of the range' },
+      },
+    },
+    async execute(args: { from?: string; to?: string }, { namespace }) {
+      const from = args.from ? parseTime(args.from, 'from') : Date.now();
+      const to = args.to ? parseTime(args.to, 'to') : from + 7 * 24 * 60 * MINUTE_MS;
+      return (await ToolStore.listEvents(namespace, from, to)).map(e => ({
+        title: e.title,
+        start: iso(e.start),
+        end: iso(e.end),
+        location: e.location || undefined,
+        allDay: e.allDay || undefined,
+      }));
+    },
+  },
+  {
+    name: 'calendar_add_event',
+    description: "Adds an event to the user's local calendar.",
+    sensitive: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Event title' },
+        start: { type: 'string', description: 'ISO 8601 start' },
+        end: { type: 'string', description: 'ISO 8601 end; defaults to one hour after start' },
+        location: { type: 'string', description: 'Where it takes place' },
+      },
+      required: ['title', 'start'],
+    },
+    async execute(args: { title: string; start: string; end?: string; location?: string }, { namespace }) {
+      const start = parseTime(args.start, 'start');
+      const end = args.end ? parseTime(args.end, 'end') : start + 60 * MINUTE_MS;
+      if (end < start) throw new Error('"end" is before "start"');
+      await ToolStore.addEvent({ namespace, title: args.title, start, end, location: args.location ?? '', allDay: false });
+      return { added: true, start: iso(start), end: iso(end) };
+    },
+  },
+  {
+    name: 'memory_lookup',
+    description: 'Looks up what you remember about the user that relates to a topic.',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Topic or question' } },
+      required: ['query'],
+    },
+    async execute(args: { query: string }, { namespace }) {
+      return (await MemoryService.relevant(namespace, args.query, 5)).map(f => f.text);
+    },
+  },
+];
+
+// Lets the model show how it feels instead of relying on transcript keywords alone.
+export const expressionTool = (animator: AvatarAnimator): ToolDefinition => ({
+  name: 'set_expression',
+  description: 'Sets your facial expression while you speak. Call it when the mood of the conversation changes, e.g. happy for a joke or concerned for bad news.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to show', enum: EXPRESSIONS },
+      intensity: { type: 'number', description: 'Strength from 0 to 1, default 1' },
+    },
+    required: ['expression'],
+  },
+  nonBlocking: true,
+  replayable: true,
+  async execute(args: { expression: Expression; intensity?: number }) {
+    animator.setExpression(args.expression, args.intensity ?? 1);
+    return { expression: args.expression };
+  },
+});
+
+// Points at the stand-in tool server by default (npm run server:stand-in-tools).
+export const defaultHttpTools = (baseUrl = process.env.HTTP_TOOL_URL): ToolDefinition[] => baseUrl
+  ? [createHttpTool({
+    name: 'web_lookup',
+    description: 'Looks a topic up on the configured lookup service. Use it for facts you do not know.',
+    url: `${baseUrl.replace(/\/$/, '')}/lookup`,
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'What to look up' } },
+      required: ['query'],
+    },
+  })]
+  : [];
+
+// Grounds answers in the user's documents; `onSources` receives the citations the model was given.
+export const knowledgeTool = (onSources: (sources: string[]) => void): ToolDefinition => ({
+  name: 'knowledge_search',
+  description: "Searches the documents the user added to your knowledge base. Use it before answering questions about their content, and name the source of what you quote.",
+  parameters: {
+    type: 'object',
+    properties: { query: { type: 'string', description: 'Keywords or question to look up' } },
+    required: ['query'],
+  },
+  async execute(args: { query: string }, { namespace }) {
+    const passages = await KnowledgeService.search(namespace, args.query, 4);
+    onSources(passages.map(citation));
+    if (passages.length === 0) return { found: false };
+    return passages.map(p => ({ source: citation(p), text: p.text }));
+  },
+});
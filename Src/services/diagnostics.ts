@@ -0,0 +1,84 @@
+import { AstraError, ErrorKind } from './errors';
+
+export type DiagnosticLevel = 'info' | 'warn' | 'error';
+export type DiagnosticSource = 'app' | 'auth' | 'session' | 'veo' | 'speech' | 'vision' | 'tools';
+
+export interface DiagnosticEvent {
+  id: number;
+  at: number;
+  level: DiagnosticLevel;
+  source: DiagnosticSource;
+  message: string;
+  kind?: ErrorKind;
+}
+
+// Enough for a long session; older events fall off the front
+const MAX_EVENTS = 500;
+
+let events: DiagnosticEvent[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const append = (event: Omit<DiagnosticEvent, 'id' | 'at'>) => {
+  events = [...events.slice(-(MAX_EVENTS - 1)), { ...event, id: nextId++, at: Date.now() }];
+  listeners.forEach(listener => listener());
+};
+
+// Registered at import time so failures during startup are captured too
+window.addEventListener('error', (e) => append({ level: 'error', source: 'app', message: e.message || String(e.error) }));
+window.addEventListener('unhandledrejection', (e) => {
+  const reason = e.reason instanceof Error ? e.reason.message : String(e.reason);
+  append({ level: 'error', source: 'app', message: `Unhandled rejection: ${reason}` });
+});
+
+const formatEvent = (event: DiagnosticEvent) =>
+  `${new Date(event.at).toISOString()} ${event.level.toUpperCase().padEnd(5)} [${event.source}${event.kind ? `/${event.kind}` : ''}] ${event.message}`;
+
+/**
+ * In-memory event log for bug reports. Nothing is persisted or sent anywhere;
+ * the user copies the report out of the diagnostics drawer.
+ */
+export class DiagnosticsService {
+  static log(source: DiagnosticSource, message: string, level: DiagnosticLevel = 'info') {
+    append({ level, source, message });
+  }
+
+  static error(source: DiagnosticSource, error: AstraError) {
+    append({ level: 'error', source, message: `${error.name}: ${error.message}`, kind: error.kind });
+  }
+
+  static getEvents(): DiagnosticEvent[] {
+    return events;
+  }
+
+  static subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static clear() {
+    events = [];
+    listeners.forEach(listener => listener());
+  }
+
+  // Plain-text report: environment first, then the log oldest to newest.
+  static report(context: Record<string, string> = {}): string {
+    const environment: Record<string, string> = {
+      build: process.env.BUILD_ID || 'dev',
+      provider: process.env.LIVE_PROVIDER || 'gemini',
+      userAgent: navigator.userAgent,
+      language: navigator.language,
+      online: String(navigator.onLine),
+      generatedAt: new Date().toISOString(),
+      ...context,
+    };
+    return [
+      'Astra diagnostics',
+      ...Object.entries(environment).map(([key, value]) => `${key}: ${value}`),
+      '',
+      ...events.map(formatEvent),
+    ].join('\n');
+  }
+}
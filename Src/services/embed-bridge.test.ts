@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EmbedCommand, EmbedRequest } from './embed-protocol';
+import { EMBED_PROTOCOL } from './embed-protocol';
+import { EmbedBridge, hostOrigin, isAllowedHost } from './embed-bridge';
+import { QuotaError } from './errors';
+
+const HOST = 'https://host.example';
+
+const request = (id: number, command: EmbedCommand): EmbedRequest => ({ protocol: EMBED_PROTOCOL, id, command });
+
+// Not framed here, so the parent is the window itself and postMessage records what the widget sends up
+const deliver = async (data: unknown, init: { origin?: string; source?: MessageEventSource | null } = {}) => {
+  window.dispatchEvent(new MessageEvent('message', { data, origin: init.origin ?? HOST, source: init.source === undefined ? window.parent : init.source }));
+  await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isAllowedHost', () => {
+  it('allows the app itself, listed origins and everything under the wildcard', () => {
+    expect(isAllowedHost(window.location.origin, [])).toBe(true);
+    expect(isAllowedHost(HOST, [HOST])).toBe(true);
+    expect(isAllowedHost('https://evil.example', [HOST])).toBe(false);
+    expect(isAllowedHost('https://evil.example', ['*'])).toBe(true);
+  });
+});
+
+describe('hostOrigin', () => {
+  it('is null outside a frame and the referrer origin inside one', () => {
+    expect(hostOrigin()).toBeNull();
+
+    vi.spyOn(window, 'parent', 'get').mockReturnValue({} as Window);
+    vi.spyOn(document, 'referrer', 'get').mockReturnValue(`${HOST}/page?x=1`);
+    expect(hostOrigin()).toBe(HOST);
+  });
+});
+
+describe('EmbedBridge', () => {
+  it('runs commands from the parent at the verified origin and answers only there', async () => {
+    const posted = vi.spyOn(window, 'postMessage').mockImplementation(() => {});
+    const handle = vi.fn(async () => {});
+    const bridge = new EmbedBridge(HOST, handle);
+
+    await deliver(request(1, { type: 'send', text: 'Hi' }));
+    bridge.emit({ type: 'memory', fact: 'Likes tea' });
+    bridge.dispose();
+
+    expect(handle).toHaveBeenCalledWith({ type: 'send', text: 'Hi' });
+    expect(posted.mock.calls).toEqual([
+      [{ protocol: EMBED_PROTOCOL, id: 1, ok: true }, HOST],
+      [{ protocol: EMBED_PROTOCOL, event: { type: 'memory', fact: 'Likes tea' } }, HOST],
+    ]);
+  });
+
+  it('drops commands from other origins, other windows and other protocols', async () => {
+    const posted = vi.spyOn(window, 'postMessage').mockImplementation(() => {});
+    const handle = vi.fn(async () => {});
+    const bridge = new EmbedBridge(HOST, handle);
+
+    await deliver(request(1, { type: 'start' }), { origin: 'https://evil.example' });
+    await deliver(request(2, { type: 'start' }), { source: null });
+    await deliver({ protocol: 'other', id: 3, command: { type: 'start' } });
+    bridge.dispose();
+    await deliver(request(4, { type: 'start' }));
+
+    expect(handle).not.toHaveBeenCalled();
+    expect(posted).not.toHaveBeenCalled();
+  });
+
+  it('answers a failed command with its error kind', async () => {
+    const posted = vi.spyOn(window, 'postMessage').mockImplementation(() => {});
+    const bridge = new EmbedBridge(HOST, async () => {
+      throw new QuotaError('Out of quota');
+    });
+
+    await deliver(request(7, { type: 'start' }));
+    bridge.dispose();
+
+    expect(posted).toHaveBeenCalledWith({ protocol: EMBED_PROTOCOL, id: 7, ok: false, kind: 'quota', message: 'Out of quota' }, HOST);
+  });
+});
@@ -0,0 +1,56 @@
+import { EMBED_PROTOCOL, EmbedCommand, EmbedEvent, EmbedNotification, EmbedResponse, isEmbedRequest } from './embed-protocol';
+import { classifyError } from './errors';
+
+const list = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+// Host pages allowed to frame the widget, fixed at build time; the app's own origin always is
+export const EMBED_ALLOWED_ORIGINS = list(process.env.EMBED_ALLOWED_ORIGINS);
+
+// Origin of the page that frames us. Firefox has no ancestorOrigins; the referrer carries it there.
+export const hostOrigin = (): string | null => {
+  if (window.parent === window) return null;
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isAllowedHost = (origin: string, allowed = EMBED_ALLOWED_ORIGINS) =>
+  origin === window.location.origin || allowed.includes('*') || allowed.includes(origin);
+
+/**
+ * The widget's end of the postMessage channel. It only talks to its parent
+ * window at the verified host origin: commands from anywhere else are
+ * dropped, and events are never posted with a wildcard target.
+ */
+export class EmbedBridge {
+  constructor(private origin: string, private handle: (command: EmbedCommand) => Promise<void>) {
+    window.addEventListener('message', this.onMessage);
+  }
+
+  emit(event: EmbedEvent) {
+    window.parent.postMessage({ protocol: EMBED_PROTOCOL, event } satisfies EmbedNotification, this.origin);
+  }
+
+  dispose() {
+    window.removeEventListener('message', this.onMessage);
+  }
+
+  private onMessage = async (message: MessageEvent) => {
+    if (message.source !== window.parent || message.origin !== this.origin || !isEmbedRequest(message.data)) return;
+    const { id, command } = message.data;
+    let response: EmbedResponse;
+    try {
+      await this.handle(command);
+      response = { protocol: EMBED_PROTOCOL, id, ok: true };
+    } catch (err) {
+      const error = classifyError(err);
+      response = { protocol: EMBED_PROTOCOL, id, ok: false, kind: error.kind, message: error.message };
+    }
+    window.parent.postMessage(response, this.origin);
+  };
+}
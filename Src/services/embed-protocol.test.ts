@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { EMBED_PROTOCOL, embedQuery, isEmbedNotification, isEmbedRequest, isEmbedResponse, parseEmbedQuery } from './embed-protocol';
+
+describe('embedQuery', () => {
+  it('round-trips through parseEmbedQuery', () => {
+    const options = { persona: 'astra', theme: { mode: 'light' as const, accent: '#ff0066', background: 'rgb(0, 0, 0)', radius: 0 }, controls: false };
+
+    expect(parseEmbedQuery(new URLSearchParams(embedQuery(options).toString()))).toEqual(options);
+  });
+
+  it('leaves defaults out of the URL and reads them back', () => {
+    expect(embedQuery({}).toString()).toBe('');
+    expect(parseEmbedQuery(new URLSearchParams())).toEqual({ persona: null, theme: {}, controls: true });
+  });
+
+  it('ignores an unknown mode and a radius that is not a number', () => {
+    expect(parseEmbedQuery(new URLSearchParams('mode=neon&radius=wide')).theme).toEqual({});
+  });
+});
+
+describe('message guards', () => {
+  it('only accept messages of the embed protocol with the right shape', () => {
+    expect(isEmbedRequest({ protocol: EMBED_PROTOCOL, id: 1, command: { type: 'start' } })).toBe(true);
+    expect(isEmbedRequest({ protocol: 'other', id: 1, command: { type: 'start' } })).toBe(false);
+    expect(isEmbedRequest({ protocol: EMBED_PROTOCOL, id: '1', command: { type: 'start' } })).toBe(false);
+    expect(isEmbedResponse({ protocol: EMBED_PROTOCOL, id: 1, ok: true })).toBe(true);
+    expect(isEmbedResponse({ protocol: EMBED_PROTOCOL, id: 1 })).toBe(false);
+    expect(isEmbedNotification({ protocol: EMBED_PROTOCOL, event: { type: 'memory', fact: 'x' } })).toBe(true);
+    expect(isEmbedNotification(null)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import type { ErrorKind } from './errors';
+import type { SessionState } from './session-machine';
+
+// Messages between a host page and the embedded twin. Shared by the widget
+// inside the iframe and the host SDK, so both sides agree on every shape.
+
+export const EMBED_PROTOCOL = 'astra-embed';
+export const EMBED_VERSION = 1;
+
+export type EmbedVisionSource = 'camera' | 'screen';
+
+export interface EmbedTheme {
+  mode?: 'dark' | 'light';
+  // CSS colours; anything the browser does not parse as a colour is ignored
+  accent?: string;
+  background?: string;
+  // Corner radius of the widget's panels, in pixels
+  radius?: number;
+}
+
+export type EmbedCommand =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'send'; text: string }
+  | { type: 'setVision'; source: EmbedVisionSource | null }
+  | { type: 'setPersona'; personaId: string }
+  | { type: 'setTheme'; theme: EmbedTheme };
+
+export interface EmbedPersona {
+  id: string;
+  name: string;
+}
+
+export type EmbedEvent =
+  | { type: 'ready'; version: number; personaId: string; personas: EmbedPersona[] }
+  | { type: 'status'; state: SessionState }
+  // Running text of the current turn; `final` marks the last update of a twin reply
+  | { type: 'transcription'; role: 'user' | 'twin'; text: string; final: boolean }
+  | { type: 'memory'; fact: string }
+  | { type: 'error'; kind: ErrorKind; message: string; retryable: boolean }
+  | { type: 'persona'; personaId: string };
+
+// Host to widget: a command the widget answers with an EmbedResponse carrying the same id
+export interface EmbedRequest {
+  protocol: typeof EMBED_PROTOCOL;
+  id: number;
+  command: EmbedCommand;
+}
+
+export type EmbedResponse =
+  | { protocol: typeof EMBED_PROTOCOL; id: number; ok: true }
+  | { protocol: typeof EMBED_PROTOCOL; id: number; ok: false; kind: ErrorKind; message: string };
+
+// Widget to host, unprompted
+export interface EmbedNotification {
+  protocol: typeof EMBED_PROTOCOL;
+  event: EmbedEvent;
+}
+
+const isEnvelope = (data: unknown): data is { protocol: string } =>
+  typeof data === 'object' && data !== null && (data as { protocol?: unknown }).protocol === EMBED_PROTOCOL;
+
+export const isEmbedRequest = (data: unknown): data is EmbedRequest =>
+  isEnvelope(data) && typeof (data as EmbedRequest).id === 'number' && typeof (data as EmbedRequest).command?.type === 'string';
+
+export const isEmbedResponse = (data: unknown): data is EmbedResponse =>
+  isEnvelope(data) && typeof (data as EmbedResponse).id === 'number' && typeof (data as EmbedResponse).ok === 'boolean';
+
+export const isEmbedNotification = (data: unknown): data is EmbedNotification =>
+  isEnvelope(data) && typeof (data as EmbedNotification).event?.type === 'string';
+
+// Query parameters of the widget URL; the host SDK writes them and the widget reads them on load
+export interface EmbedUrlOptions {
+  persona?: string;
+  theme?: EmbedTheme;
+  // Hide the widget's own buttons and input when the host page drives it through the SDK
+  controls?: boolean;
+}
+
+export const embedQuery = ({ persona, theme = {}, controls = true }: EmbedUrlOptions): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (persona) params.set('persona', persona);
+  if (theme.mode) params.set('mode', theme.mode);
+  if (theme.accent) params.set('accent', theme.accent);
+  if (theme.background) params.set('background', theme.background);
+  if (theme.radius !== undefined) params.set('radius', String(theme.radius));
+  if (!controls) params.set('controls', '0');
+  return params;
+};
+
+export const parseEmbedQuery = (params: URLSearchParams): Required<Pick<EmbedUrlOptions, 'theme' | 'controls'>> & { persona: string | null } => {
+  const mode = params.get('mode');
+  const radius = Number(params.get('radius'));
+  return {
+    persona: params.get('persona'),
+    theme: {
+      mode: mode === 'light' || mode === 'dark' ? mode : undefined,
+      accent: params.get('accent') ?? undefined,
+      background: params.get('background') ?? undefined,
+      radius: params.has('radius') && Number.isFinite(radius) ? radius : undefined,
+    },
+    controls: params.get('controls') !== '0',
+  };
+};
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthError,
+  DeviceError,
+  NetworkError,
+  PermissionError,
+  RETRY_POLICIES,
+  classifyError,
+  retryDelay,
+  shouldRetry,
+  withRetry,
+} from './errors';
+
+const mediaError = (name: string, message = '') => new DOMException(message, name);
+
+describe('classifyError', () => {
+  it('passes typed errors through untouched', () => {
+    const error = new AuthError('expired');
+
+    expect(classifyError(error, 'network')).toBe(error);
+  });
+
+  it('tells refused media access apart from a missing or busy device', () => {
+    expect(classifyError(mediaError('NotAllowedError', 'Permission denied'))).toBeInstanceOf(PermissionError);
+    expect(classifyError(mediaError('SecurityError'))).toBeInstanceOf(PermissionError);
+    expect(classifyError(mediaError('NotFoundError', 'Requested device not found'))).toBeInstanceOf(DeviceError);
+    expect(classifyError(mediaError('NotReadableError', 'Could not start audio source'))).toBeInstanceOf(DeviceError);
+    expect(classifyError(mediaError('NotFoundError')).message).toBe('NotFoundError');
+  });
+
+  it('does not take a message for a permission problem just because it mentions a device', () => {
+    expect(classifyError('Microphone level meter crashed').kind).toBe('model');
+    expect(classifyError(new Error('camera frame upload timed out')).kind).toBe('network');
+    expect(classifyError('Could not start video source', 'network').kind).toBe('device');
+  });
+
+  it('matches plain messages in order, so quota wins over the status code of auth', () => {
+    expect(classifyError('quota exceeded (403)').kind).toBe('quota');
+    expect(classifyError({ message: 'API_KEY_INVALID' }).kind).toBe('auth');
+    expect(classifyError('Model is overloaded (503)').kind).toBe('unavailable');
+    expect(classifyError(new Error('Failed to fetch')).kind).toBe('network');
+    expect(classifyError('something odd', 'network')).toBeInstanceOf(NetworkError);
+  });
+
+  it('keeps what was thrown as the cause', () => {
+    const original = new TypeError('Failed to fetch');
+
+    expect(classifyError(original).cause).toBe(original);
+  });
+});
+
+describe('shouldRetry', () => {
+  it('retries each kind up to its policy and never retries what the user must fix', () => {
+    expect([0, 4, 5].map(attempt => shouldRetry(new NetworkError('down'), attempt))).toEqual([true, true, false]);
+    expect(shouldRetry(classifyError('overloaded'), 2)).toBe(true);
+    expect(shouldRetry(classifyError('overloaded'), 3)).toBe(false);
+    expect(shouldRetry(classifyError('bad turn'), 0)).toBe(true);
+    expect(shouldRetry(classifyError('bad turn'), 1)).toBe(false);
+    for (const error of [new AuthError('expired'), classifyError('quota'), new PermissionError('denied'), new DeviceError('busy')]) {
+      expect(shouldRetry(error, 0)).toBe(false);
+    }
+  });
+});
+
+describe('retryDelay', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles from the base delay and caps at the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect([0, 1, 2, 3, 6, 10].map(attempt => retryDelay(RETRY_POLICIES.network, attempt))).toEqual([1000, 1000, 2000, 4000, 30000, 30000]);
+  });
+
+  it('jitters by 20 percent either way', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.999999);
+
+    expect(retryDelay(RETRY_POLICIES.unavailable, 1)).toBe(4000);
+    expect(retryDelay(RETRY_POLICIES.unavailable, 1)).toBe(6000);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('retries network failures with backoff and gives up on the rest at once', async () => {
+    vi.useFakeTimers();
+    const onRetry = vi.fn();
+    const task = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce('ok');
+
+    const result = withRetry(task, onRetry);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.any(NetworkError), 1, expect.any(Number));
+    await expect(withRetry(() => Promise.reject(new AuthError('expired')))).rejects.toBeInstanceOf(AuthError);
+  });
+});
@@ -0,0 +1,182 @@
+export type ErrorKind = 'auth' | 'quota' | 'permission' | 'device' | 'network' | 'unavailable' | 'model';
+
+// What the user can do about a failure; each maps to an `error.action.*` message
+export type ErrorAction = 'signIn' | 'switchKey' | 'grantPermission' | 'checkDevice' | 'checkConnection' | 'tryLater' | 'reportBug';
+
+export interface RetryPolicy {
+  retryable: boolean;
+  // Retries after the first failure before giving up
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const NO_RETRY: RetryPolicy = { retryable: false, maxAttempts: 0, baseDelayMs: 0, maxDelayMs: 0 };
+
+export const RETRY_POLICIES: Record<ErrorKind, RetryPolicy> = {
+  auth: NO_RETRY,
+  quota: NO_RETRY,
+  permission: NO_RETRY,
+  // Plugging a device in or closing the app that holds it needs the user first
+  device: NO_RETRY,
+  // Dropped sockets and flaky Wi-Fi usually recover within seconds
+  network: { retryable: true, maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 30000 },
+  // An overloaded backend needs longer to recover, and hammering it does not help
+  unavailable: { retryable: true, maxAttempts: 3, baseDelayMs: 5000, maxDelayMs: 60000 },
+  // A bad turn may not repeat, but a second failure points at a real bug
+  model: { retryable: true, maxAttempts: 1, baseDelayMs: 2000, maxDelayMs: 2000 },
+};
+
+const ACTIONS: Record<ErrorKind, ErrorAction> = {
+  auth: 'signIn',
+  quota: 'switchKey',
+  permission: 'grantPermission',
+  device: 'checkDevice',
+  network: 'checkConnection',
+  unavailable: 'tryLater',
+  model: 'reportBug',
+};
+
+/**
+ * Base of every failure the live session, Veo and speech services report.
+ * The kind decides how the app retries and what it asks the user to do.
+ */
+export abstract class AstraError extends Error {
+  abstract readonly kind: ErrorKind;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+
+  get policy(): RetryPolicy {
+    return RETRY_POLICIES[this.kind];
+  }
+
+  get action(): ErrorAction {
+    return ACTIONS[this.kind];
+  }
+}
+
+// Missing, expired or rejected credentials, including keys without model access
+export class AuthError extends AstraError {
+  readonly kind = 'auth';
+}
+
+export class QuotaError extends AstraError {
+  readonly kind = 'quota';
+}
+
+// The browser refused the microphone, camera or screen
+export class PermissionError extends AstraError {
+  readonly kind = 'permission';
+}
+
+// Access was allowed, but there is no such device or another app is holding it
+export class DeviceError extends AstraError {
+  readonly kind = 'device';
+}
+
+export class NetworkError extends AstraError {
+  readonly kind = 'network';
+}
+
+// The backend is up but overloaded or temporarily down
+export class UnavailableError extends AstraError {
+  readonly kind = 'unavailable';
+}
+
+// The model or the service wrapping it failed in a way not covered above
+export class ModelError extends AstraError {
+  readonly kind = 'model';
+}
+
+// The user cancelled; not a failure, so it is neither retried nor reported
+export class CancelledError extends Error {
+  constructor() {
+    super('CANCELLED');
+    this.name = 'CancelledError';
+  }
+}
+
+const CLASSES: Record<ErrorKind, new (message: string, options?: { cause?: unknown }) => AstraError> = {
+  auth: AuthError,
+  quota: QuotaError,
+  permission: PermissionError,
+  device: DeviceError,
+  network: NetworkError,
+  unavailable: UnavailableError,
+  model: ModelError,
+};
+
+export const createError = (kind: ErrorKind, message: string, cause?: unknown): AstraError =>
+  new CLASSES[kind](message, { cause });
+
+// For kinds read from files, which may name one this build does not know
+export const isErrorKind = (value: unknown): value is ErrorKind =>
+  typeof value === 'string' && Object.hasOwn(CLASSES, value);
+
+// Browser media errors are DOMExceptions and carry their meaning in the name
+const MEDIA_ERROR_KINDS: Record<string, ErrorKind> = {
+  NotAllowedError: 'permission',
+  SecurityError: 'permission',
+  NotFoundError: 'device',
+  NotReadableError: 'device',
+  OverconstrainedError: 'device',
+};
+
+// Checked in order: "quota exceeded (403)" is a quota problem, not an auth one
+const PATTERNS: [ErrorKind, RegExp][] = [
+  ['quota', /RESOURCE_EXHAUSTED|quota|\b429\b/i],
+  ['auth', /API_KEY|UNAUTHENTICATED|PERMISSION_DENIED|model access denied|expired|invalid access code|\b40[13]\b/i],
+  ['permission', /NotAllowedError|permission denied|permission dismissed/i],
+  ['device', /NotFoundError|NotReadableError|requested device not found|could not start (audio|video) source|device in use/i],
+  ['unavailable', /UNAVAILABLE|overloaded|\b50[234]\b/i],
+  ['network', /network|failed to fetch|websocket|socket|timed? ?out|offline|\b1006\b/i],
+];
+
+/**
+ * Turns whatever a service threw or reported into an AstraError. Services
+ * that already throw AstraErrors pass through untouched; strings and plain
+ * errors from older code paths are matched on their message.
+ */
+export const classifyError = (err: unknown, fallback: ErrorKind = 'model'): AstraError => {
+  if (err instanceof AstraError) return err;
+  const name = (err as { name?: unknown })?.name;
+  const message = err instanceof Error ? err.message : String((err as { message?: unknown })?.message ?? err);
+  if (typeof name === 'string' && Object.hasOwn(MEDIA_ERROR_KINDS, name)) return createError(MEDIA_ERROR_KINDS[name], message || name, err);
+  const match = PATTERNS.find(([, pattern]) => pattern.test(message));
+  return createError(match?.[0] ?? fallback, message, err);
+};
+
+export const isCancelled = (err: unknown) => err instanceof CancelledError || (err as Error)?.message === 'CANCELLED';
+
+// Whether another attempt is worth making after `attempt` failed retries.
+export const shouldRetry = (error: AstraError, attempt: number) => error.policy.retryable && attempt < error.policy.maxAttempts;
+
+// Exponential backoff with jitter from the error's policy: base, 2 × base, 4 × base, ... capped.
+export const retryDelay = (policy: RetryPolicy, attempt: number) => {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  return Math.round(Math.min(policy.maxDelayMs, exponential * (0.8 + Math.random() * 0.4)));
+};
+
+/**
+ * Runs an idempotent task, retrying failures whose policy allows it. Do not
+ * wrap calls that start billable work; a retry would start it twice.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  onRetry?: (error: AstraError, attempt: number, delayMs: number) => void,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      const error = classifyError(err, 'network');
+      if (!shouldRetry(error, attempt)) throw error;
+      const delayMs = retryDelay(error.policy, attempt + 1);
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+};
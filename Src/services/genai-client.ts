@@ -0,0 +1,29 @@
+import { GoogleGenAI } from '@google/genai';
+import { AUTH_MODE, AuthService, PROXY_URL } from './auth';
+
+const GEMINI_HOST = 'https://generativelanguage.googleapis.com';
+
+/**
+ * Builds a Gemini client for the current auth mode. Behind the proxy the SDK
+ * is pointed at our relay and given the session token in place of an API key;
+ * the relay swaps it for the real key on every HTTP request and live socket.
+ */
+export const createGenAI = (): GoogleGenAI => {
+  if (AUTH_MODE === 'proxy') {
+    return new GoogleGenAI({
+      apiKey: AuthService.getToken(),
+      httpOptions: { baseUrl: `${PROXY_URL || window.location.origin}/api/gemini` },
+    });
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Generated media (e.g. Veo clips) is served from Gemini file URIs that need a key to download.
+// Behind the proxy the session token goes in a header, where access logs and Referer headers never see it.
+export const fetchMedia = (uri: string): Promise<Response> => {
+  if (AUTH_MODE === 'proxy') {
+    const proxied = uri.replace(GEMINI_HOST, `${PROXY_URL || window.location.origin}/api/gemini`);
+    return fetch(proxied, { headers: { 'x-goog-api-key': AuthService.getToken() } });
+  }
+  return fetch(`${uri}${uri.includes('?') ? '&' : '?'}key=${process.env.API_KEY}`);
+};
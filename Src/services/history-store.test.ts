@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HistoryService } from './history-store';
+
+describe('HistoryService', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('keeps entries logged in the same millisecond in the order they were logged', async () => {
+    const session = await HistoryService.startSession('history-order', 'Astra');
+    vi.spyOn(Date, 'now').mockReturnValue(1_000);
+    // Logged together at turn complete, as the app does
+    await Promise.all([
+      HistoryService.append(session.id, 'user', 'voice', 'What is the weather?'),
+      HistoryService.append(session.id, 'twin', 'voice', 'Sunny all day.'),
+      HistoryService.append(session.id, 'system', 'tool', 'weather: done'),
+    ]);
+
+    const entries = await HistoryService.getEntries(session.id);
+    expect(entries.map(entry => [entry.role, entry.seq])).toEqual([['user', 0], ['twin', 1], ['system', 2]]);
+
+    const hits = await HistoryService.search('history-order', 'weather');
+    expect(hits.map(hit => hit.entry.role)).toEqual(['system', 'user']);
+  });
+
+  it('exports Markdown with labels in the requested language', async () => {
+    const session = await HistoryService.startSession('history-export', 'Astra');
+    await HistoryService.append(session.id, 'user', 'text', 'سلام');
+    await HistoryService.append(session.id, 'twin', 'text', 'درود!');
+
+    const persian = await HistoryService.exportMarkdown(session.id, 'fa');
+    expect(persian).toContain('**شما**');
+    expect(persian).toContain('متنی');
+
+    const english = await HistoryService.exportMarkdown(session.id, 'en');
+    expect(english).toMatch(/\*\*You\*\* \(.+, text\): سلام/);
+    expect(english).toMatch(/\*\*Astra\*\* \(.+, text\): درود!/);
+  });
+
+  it('builds a resume transcript from the most recent exchanges that fit', async () => {
+    const session = await HistoryService.startSession('history-resume', 'Astra');
+    await HistoryService.append(session.id, 'user', 'text', 'first question');
+    await HistoryService.append(session.id, 'twin', 'text', 'first answer');
+    await HistoryService.append(session.id, 'system', 'vision', 'camera on');
+    await HistoryService.append(session.id, 'user', 'text', 'second question');
+
+    expect(await HistoryService.buildResumeContext(session.id, 40)).toBe('Astra: first answer\nYou: second question');
+  });
+});
@@ -0,0 +1,201 @@
+import { openDatabase, promisify, transactionDone } from './idb';
+import { DEFAULT_NAMESPACE } from './personas';
+import { I18nService, Locale, TranslateParams } from './i18n';
+import type { MessageKey } from '../locales/en';
+
+export type HistoryRole = 'user' | 'twin' | 'system';
+export type HistoryChannel = 'voice' | 'text' | 'vision' | 'tool';
+
+export interface HistoryEntry {
+  id: string;
+  sessionId: string;
+  at: number;
+  // Position in the session; orders entries logged in the same millisecond. Absent on entries from before it was added.
+  seq?: number;
+  role: HistoryRole;
+  channel: HistoryChannel;
+  text: string;
+}
+
+export interface HistorySession {
+  id: string;
+  namespace: string;
+  // Display name of the persona the user was talking to
+  twinName: string;
+  title: string;
+  startedAt: number;
+  endedAt: number | null;
+  entryCount: number;
+  resumedFrom: string | null;
+}
+
+export interface HistorySearchHit {
+  session: HistorySession;
+  entry: HistoryEntry;
+}
+
+const DB_NAME = 'astra-history';
+const SESSIONS = 'sessions';
+const ENTRIES = 'entries';
+const TITLE_LENGTH = 60;
+
+const db = () => openDatabase(DB_NAME, 2, (database, oldVersion, tx) => {
+  if (oldVersion < 1) {
+    database.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+    database.createObjectStore(ENTRIES, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+  }
+  if (oldVersion < 2) {
+    // Sessions recorded before personas existed belong to the default twin
+    const sessions = tx.objectStore(SESSIONS);
+    sessions.createIndex('namespace', 'namespace');
+    sessions.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      if (!cursor.value.namespace) cursor.update({ ...cursor.value, namespace: DEFAULT_NAMESPACE });
+      cursor.continue();
+    };
+  }
+});
+
+// System entries are never attributed to a speaker
+const speaker = (entry: HistoryEntry, twinName = 'Astra', you = 'You') => (entry.role === 'user' ? you : twinName);
+
+const chronological = (a: HistoryEntry, b: HistoryEntry) => a.at - b.at || (a.seq ?? 0) - (b.seq ?? 0);
+
+/**
+ * Session log for the Neural Bridge: user utterances (voice and typed), twin
+ * responses and vision markers, grouped per live session.
+ */
+export class HistoryService {
+  static async startSession(namespace: string, twinName: string, resumedFrom: string | null = null): Promise<HistorySession> {
+    const session: HistorySession = {
+      id: crypto.randomUUID(),
+      namespace,
+      twinName,
+      title: '',
+      startedAt: Date.now(),
+      endedAt: null,
+      entryCount: 0,
+      resumedFrom,
+    };
+    const tx = (await db()).transaction(SESSIONS, 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    await transactionDone(tx);
+    return session;
+  }
+
+  static async endSession(sessionId: string): Promise<void> {
+    const tx = (await db()).transaction(SESSIONS, 'readwrite');
+    const store = tx.objectStore(SESSIONS);
+    const session = await promisify<HistorySession | undefined>(store.get(sessionId));
+    if (session) store.put({ ...session, endedAt: Date.now() });
+    await transactionDone(tx);
+  }
+
+  static async append(sessionId: string, role: HistoryRole, channel: HistoryChannel, text: string): Promise<HistoryEntry | null> {
+    const trimmed = text.trim();
+    if (!sessionId || !trimmed) return null;
+
+    const at = Date.now();
+    // Write transactions on the session run one after another in call order, so the count read here is this entry's position
+    const tx = (await db()).transaction([SESSIONS, ENTRIES], 'readwrite');
+    const sessions = tx.objectStore(SESSIONS);
+    const session = await promisify<HistorySession | undefined>(sessions.get(sessionId));
+    const entry: HistoryEntry = { id: crypto.randomUUID(), sessionId, at, seq: session?.entryCount ?? 0, role, channel, text: trimmed };
+    if (session) {
+      sessions.put({
+        ...session,
+        title: session.title || (role !== 'system' ? trimmed.slice(0, TITLE_LENGTH) : ''),
+        entryCount: session.entryCount + 1,
+      });
+    }
+    tx.objectStore(ENTRIES).put(entry);
+    await transactionDone(tx);
+    return entry;
+  }
+
+  static async listSessions(namespace: string): Promise<HistorySession[]> {
+    const tx = (await db()).transaction(SESSIONS, 'readonly');
+    const sessions = await promisify<HistorySession[]>(tx.objectStore(SESSIONS).index('namespace').getAll(namespace));
+    return sessions.filter(s => s.entryCount > 0).sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  static async getEntries(sessionId: string): Promise<HistoryEntry[]> {
+    const tx = (await db()).transaction(ENTRIES, 'readonly');
+    const entries = await promisify<HistoryEntry[]>(tx.objectStore(ENTRIES).index('sessionId').getAll(sessionId));
+    return entries.sort(chronological);
+  }
+
+  static async deleteSession(sessionId: string): Promise<void> {
+    const entries = await HistoryService.getEntries(sessionId);
+    const tx = (await db()).transaction([SESSIONS, ENTRIES], 'readwrite');
+    tx.objectStore(SESSIONS).delete(sessionId);
+    entries.forEach(e => tx.objectStore(ENTRIES).delete(e.id));
+    await transactionDone(tx);
+  }
+
+  // Every query term must appear in the entry; matches are returned newest first.
+  static async search(namespace: string, query: string, limit = 100): Promise<HistorySearchHit[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const tx = (await db()).transaction([SESSIONS, ENTRIES], 'readonly');
+    const [sessions, entries] = await Promise.all([
+      promisify<HistorySession[]>(tx.objectStore(SESSIONS).index('namespace').getAll(namespace)),
+      promisify<HistoryEntry[]>(tx.objectStore(ENTRIES).getAll()),
+    ]);
+    const byId = new Map(sessions.map(s => [s.id, s]));
+    return entries
+      .filter(e => byId.has(e.sessionId) && terms.every(t => e.text.toLowerCase().includes(t)))
+      .sort((a, b) => chronological(b, a))
+      .slice(0, limit)
+      .flatMap(entry => {
+        const session = byId.get(entry.sessionId);
+        return session ? [{ session, entry }] : [];
+      });
+  }
+
+  static async getSession(sessionId: string): Promise<HistorySession | undefined> {
+    const tx = (await db()).transaction(SESSIONS, 'readonly');
+    return promisify<HistorySession | undefined>(tx.objectStore(SESSIONS).get(sessionId));
+  }
+
+  static async exportMarkdown(sessionId: string, locale: Locale = I18nService.getLocale()): Promise<string> {
+    const session = await HistoryService.getSession(sessionId);
+    const entries = await HistoryService.getEntries(sessionId);
+    const t = (key: MessageKey, params?: TranslateParams) => I18nService.translate(locale, key, params);
+    const clock = (at: number) => I18nService.formatDate(locale, at, { timeStyle: 'medium' });
+    const started = session ? I18nService.formatDate(locale, session.startedAt, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+    const lines = [`# ${session?.title || t('history.export.title')}`, '', `_${t('history.export.started', { date: started })}_`, ''];
+    for (const entry of entries) {
+      lines.push(entry.role === 'system'
+        ? `> ${clock(entry.at)} — ${entry.text}`
+        : `**${speaker(entry, session?.twinName, t('history.export.you'))}** (${clock(entry.at)}, ${t(`history.channel.${entry.channel}`)}): ${entry.text}`);
+      lines.push('');
+    }
+    return lines.join('\n');
+  }
+
+  static async exportJson(sessionId: string): Promise<string> {
+    const session = await HistoryService.getSession(sessionId);
+    return JSON.stringify({ version: 1, session, entries: await HistoryService.getEntries(sessionId) }, null, 2);
+  }
+
+  /**
+   * Condenses a past session into a transcript the twin can pick up from.
+   * Keeps the most recent exchanges that fit within `maxChars`.
+   */
+  static async buildResumeContext(sessionId: string, maxChars = 4000): Promise<string> {
+    const session = await HistoryService.getSession(sessionId);
+    const entries = (await HistoryService.getEntries(sessionId)).filter(e => e.role !== 'system');
+    const lines: string[] = [];
+    let used = 0;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const line = `${speaker(entries[i], session?.twinName)}: ${entries[i].text}`;
+      if (used + line.length > maxChars) break;
+      lines.unshift(line);
+      used += line.length + 1;
+    }
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,79 @@
+import { en, MessageKey } from '../locales/en';
+import { fa } from '../locales/fa';
+import { SettingsService } from './settings';
+
+export type Locale = 'en' | 'fa';
+export type TranslateParams = Record<string, string | number>;
+
+interface LocaleInfo {
+  label: string;
+  dir: 'ltr' | 'rtl';
+  // BCP-47 tag used for Intl formatting and as the default speech language
+  tag: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', dir: 'ltr', tag: 'en-US' },
+  fa: { label: 'فارسی', dir: 'rtl', tag: 'fa-IR' },
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, fa };
+
+const applyToDocument = () => {
+  const locale = SettingsService.get().language;
+  document.documentElement.lang = locale;
+  document.documentElement.dir = LOCALES[locale].dir;
+};
+
+applyToDocument();
+// Also follows languages changed by a settings import or reset
+SettingsService.subscribe(applyToDocument);
+
+/**
+ * UI language for the Neural Bridge. The choice is persisted with the other
+ * settings, mirrors the document direction and decides which language the
+ * twin listens and answers in.
+ */
+export class I18nService {
+  static getLocale(): Locale {
+    return SettingsService.get().language;
+  }
+
+  static setLocale(locale: Locale) {
+    if (locale === I18nService.getLocale()) return;
+    SettingsService.update('language', locale);
+  }
+
+  // Fires on any settings change; useSyncExternalStore only re-renders when the locale differs
+  static subscribe(listener: () => void) {
+    return SettingsService.subscribe(listener);
+  }
+
+  // Numeric placeholders are formatted too, so Persian text gets Persian digits.
+  static translate(locale: Locale, key: MessageKey, params: TranslateParams = {}): string {
+    const template = CATALOGS[locale][key] ?? en[key] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? I18nService.formatNumber(locale, value) : value;
+    });
+  }
+
+  static formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+    return new Intl.NumberFormat(LOCALES[locale].tag, options).format(value);
+  }
+
+  // fa-IR formats in the Solar Hijri calendar with Persian digits.
+  static formatDate(locale: Locale, value: number | Date, options?: Intl.DateTimeFormatOptions): string {
+    return new Intl.DateTimeFormat(LOCALES[locale].tag, options).format(value);
+  }
+
+  /**
+   * Language the twin should speak and transcribe. A persona keeps its own
+   * regional tag when it already speaks the chosen language.
+   */
+  static speechLanguage(locale: Locale, personaLanguage?: string): string {
+    if (personaLanguage?.toLowerCase().split('-')[0] === locale) return personaLanguage;
+    return LOCALES[locale].tag;
+  }
+}
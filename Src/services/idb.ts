@@ -0,0 +1,35 @@
+// Minimal promise wrappers around IndexedDB, shared by the local persistence services.
+
+export type UpgradeFn = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void;
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const openDatabase = (name: string, version: number, upgrade: UpgradeFn): Promise<IDBDatabase> => {
+  const key = `${name}@${version}`;
+  const existing = connections.get(key);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Local database "${name}" is blocked by another tab`));
+  });
+  connections.set(key, opening);
+  opening.catch(() => connections.delete(key));
+  return opening;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeService, citation } from './knowledge-store';
+
+// The fake IndexedDB lives for the whole file, so every test works in its own namespace
+let namespaceCount = 0;
+const freshNamespace = () => `test-${++namespaceCount}`;
+
+const markdown = (name: string, text: string) => new File([text], name, { type: 'text/markdown' });
+
+const cited = async (namespace: string, query: string) =>
+  (await KnowledgeService.search(namespace, query)).map(citation);
+
+describe('KnowledgeService', () => {
+  it('indexes Markdown per heading and cites the document title with the heading', async () => {
+    const namespace = freshNamespace();
+    const document = await KnowledgeService.add(namespace, markdown('cv.md', [
+      '# Curriculum vitae',
+      '## Education',
+      'Studied electrical engineering in Tehran.',
+      '## Projects',
+      'Built Astra, a digital twin with a live avatar.',
+    ].join('\n\n')));
+
+    expect(document).toMatchObject({ status: 'ready', title: 'Curriculum vitae', chunkCount: 2 });
+    expect(await cited(namespace, 'Which projects did you build?')).toEqual(['Curriculum vitae › Projects']);
+  });
+
+  it('ranks rare terms above common ones and shorter passages above padded ones', async () => {
+    const namespace = freshNamespace();
+    await KnowledgeService.add(namespace, markdown('notes.md', [
+      '## Short', 'The twin speaks Persian.',
+      '## Padded', `The twin speaks Persian. ${'The twin listens and the twin answers. '.repeat(8)}`,
+      '## Common', 'The twin is a twin of the twin.',
+    ].join('\n\n')));
+
+    expect(await cited(namespace, 'Persian')).toEqual(['notes › Short', 'notes › Padded']);
+    expect((await cited(namespace, 'twin Persian'))[0]).toBe('notes › Short');
+    expect(await cited(namespace, 'quantum')).toEqual([]);
+  });
+
+  it('matches Arabic and Persian spellings of the same word', async () => {
+    const namespace = freshNamespace();
+    await KnowledgeService.add(namespace, new File(['کتاب‌های یادگیری ماشین'], 'books.txt', { type: 'text/plain' }));
+
+    expect(await cited(namespace, 'كتاب')).toEqual(['books']);
+    expect(await cited(namespace, 'يادگيري')).toEqual(['books']);
+  });
+
+  it('keeps namespaces apart and forgets removed documents', async () => {
+    const namespace = freshNamespace();
+    const document = await KnowledgeService.add(namespace, markdown('astra.md', 'Astra runs in the browser.'));
+    expect(await cited(freshNamespace(), 'browser')).toEqual([]);
+    expect(await cited(namespace, 'browser')).toEqual(['astra']);
+
+    await KnowledgeService.remove(document.id);
+    expect(await cited(namespace, 'browser')).toEqual([]);
+  });
+
+  it('refuses unsupported files and marks empty ones as failed', async () => {
+    const namespace = freshNamespace();
+
+    await expect(KnowledgeService.add(namespace, new File(['x'], 'photo.png', { type: 'image/png' }))).rejects.toThrow('only Markdown, text and PDF');
+    expect(await KnowledgeService.add(namespace, markdown('empty.md', '  \n\n'))).toMatchObject({ status: 'failed', error: 'The file is empty' });
+  });
+});
@@ -0,0 +1,333 @@
+import { openDatabase, promisify, transactionDone } from './idb';
+import { extractPdfText } from '../utils/pdf-text';
+
+export type KnowledgeFormat = 'markdown' | 'text' | 'pdf';
+export type KnowledgeStatus = 'indexing' | 'ready' | 'failed';
+
+export interface KnowledgeDocument {
+  id: string;
+  // Persona memory namespace the document grounds
+  namespace: string;
+  title: string;
+  fileName: string;
+  format: KnowledgeFormat;
+  size: number;
+  addedAt: number;
+  indexedAt: number | null;
+  chunkCount: number;
+  status: KnowledgeStatus;
+  error: string | null;
+  // The original upload, kept so the document can be re-indexed
+  file: Blob;
+}
+
+interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  namespace: string;
+  ordinal: number;
+  // Nearest Markdown heading above the passage, if any
+  heading: string;
+  text: string;
+  terms: string[];
+}
+
+export interface KnowledgePassage {
+  documentId: string;
+  title: string;
+  heading: string;
+  text: string;
+  score: number;
+}
+
+const DB_NAME = 'astra-knowledge';
+const DOCUMENTS = 'documents';
+const CHUNKS = 'chunks';
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+// Passages of a few paragraphs: small enough to quote, large enough to keep their context
+const CHUNK_CHARS = 900;
+// BM25 term saturation and length normalisation, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const db = () => openDatabase(DB_NAME, 1, (database) => {
+  database.createObjectStore(DOCUMENTS, { keyPath: 'id' }).createIndex('namespace', 'namespace');
+  const chunks = database.createObjectStore(CHUNKS, { keyPath: 'id' });
+  chunks.createIndex('documentId', 'documentId');
+  chunks.createIndex('namespace', 'namespace');
+});
+
+// Arabic and Persian keyboards produce different yeh and kaf for the same word
+const tokenize = (text: string) => text
+  .toLowerCase()
+  .replace(/[يى]/g, 'ی')
+  .replace(/ك/g, 'ک')
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(token => token.length > 1);
+
+// Knowledge base lookup for a user turn; text chat and live sessions ground every turn, not only when asked to
+export type Retrieve = (query: string) => Promise<KnowledgePassage[]>;
+
+export const citation = (passage: Pick<KnowledgePassage, 'title' | 'heading'>) =>
+  passage.heading && passage.heading !== passage.title ? `${passage.title} › ${passage.heading}` : passage.title;
+
+// Passages as they are quoted to the model, each under the name it should cite
+export const groundingText = (passages: KnowledgePassage[]) => [
+  "Passages from the user's documents:",
+  ...passages.map(p => `[${citation(p)}]\n${p.text}`),
+  'Base your answer on these passages where they are relevant and cite each one you use by its name in square brackets.',
+].join('\n\n');
+
+const formatOf = (file: File): KnowledgeFormat | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (/\.(md|markdown|mdx)$/.test(name) || file.type === 'text/markdown') return 'markdown';
+  if (name.endsWith('.txt') || file.type.startsWith('text/')) return 'text';
+  return null;
+};
+
+const readText = async (file: Blob, format: KnowledgeFormat) =>
+  format === 'pdf' ? extractPdfText(await file.arrayBuffer()) : file.text();
+
+const titleOf = (fileName: string, format: KnowledgeFormat, text: string) => {
+  const heading = format === 'markdown' ? text.match(/^#\s+(.+)$/m)?.[1].trim() : undefined;
+  return heading || fileName.replace(/\.[^.]+$/, '');
+};
+
+// Hard-wraps a paragraph that is longer than a chunk, at sentence ends where possible
+const splitLong = (paragraph: string): string[] => {
+  if (paragraph.length <= CHUNK_CHARS) return [paragraph];
+  const parts: string[] = [];
+  let rest = paragraph;
+  while (rest.length > CHUNK_CHARS) {
+    const window = rest.slice(0, CHUNK_CHARS);
+    const cut = Math.max(window.lastIndexOf('. '), window.lastIndexOf('。'), window.lastIndexOf('؟ '), window.lastIndexOf('\n'));
+    const at = cut > CHUNK_CHARS / 2 ? cut + 1 : (window.lastIndexOf(' ') > 0 ? window.lastIndexOf(' ') : CHUNK_CHARS);
+    parts.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+};
+
+/**
+ * Splits a document into passages. Markdown headings start a new passage and
+ * label the ones below them; paragraphs are packed up to CHUNK_CHARS.
+ */
+const chunk = (text: string, format: KnowledgeFormat): { heading: string; text: string }[] => {
+  const passages: { heading: string; text: string }[] = [];
+  let heading = '';
+  let buffer: string[] = [];
+  const flush = () => {
+    const body = buffer.join('\n\n').trim();
+    if (body) passages.push({ heading, text: body });
+    buffer = [];
+  };
+
+  for (const block of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (!trimmed) continue;
+    const title = format === 'markdown' ? trimmed.match(/^#{1,6}\s+(.+)/) : null;
+    if (title) {
+      flush();
+      heading = title[1].trim();
+      const rest = trimmed.slice(title[0].length).trim();
+      if (rest) buffer.push(rest);
+      continue;
+    }
+    for (const part of splitLong(trimmed)) {
+      if (buffer.length > 0 && buffer.join('\n\n').length + part.length > CHUNK_CHARS) flush();
+      buffer.push(part);
+    }
+  }
+  flush();
+  return passages;
+};
+
+interface NamespaceIndex {
+  chunks: KnowledgeChunk[];
+  titles: Map<string, string>;
+  frequencies: Map<string, number>[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Built on the first search of a namespace and dropped whenever its documents change
+const indexes = new Map<string, Promise<NamespaceIndex>>();
+const listeners = new Set<() => void>();
+
+const changed = (namespace: string) => {
+  indexes.delete(namespace);
+  listeners.forEach(listener => listener());
+};
+
+const buildIndex = async (namespace: string): Promise<NamespaceIndex> => {
+  const tx = (await db()).transaction([DOCUMENTS, CHUNKS], 'readonly');
+  const [documents, chunks] = await Promise.all([
+    promisify<KnowledgeDocument[]>(tx.objectStore(DOCUMENTS).index('namespace').getAll(namespace)),
+    promisify<KnowledgeChunk[]>(tx.objectStore(CHUNKS).index('namespace').getAll(namespace)),
+  ]);
+  const documentFrequency = new Map<string, number>();
+  const frequencies = chunks.map(c => {
+    const counts = new Map<string, number>();
+    c.terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    return counts;
+  });
+  return {
+    chunks,
+    titles: new Map(documents.map(d => [d.id, d.title])),
+    frequencies,
+    documentFrequency,
+    averageLength: chunks.reduce((sum, c) => sum + c.terms.length, 0) / Math.max(1, chunks.length),
+  };
+};
+
+const getDocument = async (id: string) => {
+  const tx = (await db()).transaction(DOCUMENTS, 'readonly');
+  return promisify<KnowledgeDocument | undefined>(tx.objectStore(DOCUMENTS).get(id));
+};
+
+const putDocument = async (document: KnowledgeDocument) => {
+  const tx = (await db()).transaction(DOCUMENTS, 'readwrite');
+  tx.objectStore(DOCUMENTS).put(document);
+  await transactionDone(tx);
+};
+
+// Replaces the document's passages; a failure is stored on the document instead of thrown
+const indexDocument = async (document: KnowledgeDocument): Promise<KnowledgeDocument> => {
+  await putDocument({ ...document, status: 'indexing', error: null });
+  changed(document.namespace);
+  let result: KnowledgeDocument;
+  try {
+    const text = await readText(document.file, document.format);
+    const passages = chunk(text, document.format);
+    if (passages.length === 0) {
+      throw new Error(document.format === 'pdf' ? 'No text found; scanned PDFs are not supported' : 'The file is empty');
+    }
+    const tx = (await db()).transaction([DOCUMENTS, CHUNKS], 'readwrite');
+    const chunks = tx.objectStore(CHUNKS);
+    const stale = await promisify<IDBValidKey[]>(chunks.index('documentId').getAllKeys(document.id));
+    stale.forEach(key => chunks.delete(key));
+    passages.forEach((passage, ordinal) => chunks.put({
+      id: `${document.id}:${ordinal}`,
+      documentId: document.id,
+      namespace: document.namespace,
+      ordinal,
+      heading: passage.heading,
+      text: passage.text,
+      terms: tokenize(`${passage.heading} ${passage.text}`),
+    } satisfies KnowledgeChunk));
+    result = {
+      ...document,
+      title: titleOf(document.fileName, document.format, text),
+      status: 'ready',
+      error: null,
+      indexedAt: Date.now(),
+      chunkCount: passages.length,
+    };
+    tx.objectStore(DOCUMENTS).put(result);
+    await transactionDone(tx);
+  } catch (err: any) {
+    result = { ...document, status: 'failed', error: err?.message || String(err) };
+    await putDocument(result);
+  }
+  changed(document.namespace);
+  return result;
+};
+
+/**
+ * Documents the twin can draw on, indexed locally in IndexedDB. Uploads are
+ * split into passages and ranked with BM25, so nothing leaves the device
+ * until a passage is quoted into a conversation.
+ */
+export class KnowledgeService {
+  static readonly accept = '.md,.markdown,.txt,.pdf,text/markdown,text/plain,application/pdf';
+
+  static subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static async list(namespace: string): Promise<KnowledgeDocument[]> {
+    const tx = (await db()).transaction(DOCUMENTS, 'readonly');
+    const documents = await promisify<KnowledgeDocument[]>(tx.objectStore(DOCUMENTS).index('namespace').getAll(namespace));
+    return documents.sort((a, b) => b.addedAt - a.addedAt);
+  }
+
+  // Resolves once the file is indexed; check `status` for extraction failures.
+  static async add(namespace: string, file: File): Promise<KnowledgeDocument> {
+    const format = formatOf(file);
+    if (!format) throw new Error(`${file.name}: only Markdown, text and PDF files can be added`);
+    if (file.size > MAX_FILE_BYTES) throw new Error(`${file.name} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB`);
+    return indexDocument({
+      id: crypto.randomUUID(),
+      namespace,
+      title: file.name.replace(/\.[^.]+$/, ''),
+      fileName: file.name,
+      format,
+      size: file.size,
+      addedAt: Date.now(),
+      indexedAt: null,
+      chunkCount: 0,
+      status: 'indexing',
+      error: null,
+      file,
+    });
+  }
+
+  static async reindex(id: string): Promise<KnowledgeDocument | null> {
+    const document = await getDocument(id);
+    return document ? indexDocument(document) : null;
+  }
+
+  static async remove(id: string): Promise<void> {
+    const document = await getDocument(id);
+    if (!document) return;
+    const tx = (await db()).transaction([DOCUMENTS, CHUNKS], 'readwrite');
+    const chunks = tx.objectStore(CHUNKS);
+    (await promisify<IDBValidKey[]>(chunks.index('documentId').getAllKeys(id))).forEach(key => chunks.delete(key));
+    tx.objectStore(DOCUMENTS).delete(id);
+    await transactionDone(tx);
+    changed(document.namespace);
+  }
+
+  // The passages that best match `query`, best first; empty when nothing shares a term with it.
+  static async search(namespace: string, query: string, limit = 4): Promise<KnowledgePassage[]> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+    let index = indexes.get(namespace);
+    if (!index) {
+      index = buildIndex(namespace);
+      indexes.set(namespace, index);
+      index.catch(() => indexes.delete(namespace));
+    }
+    const { chunks, titles, frequencies, documentFrequency, averageLength } = await index;
+
+    const idf = new Map(terms.map(term => {
+      const df = documentFrequency.get(term) ?? 0;
+      return [term, Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5))];
+    }));
+    return chunks
+      .map((c, i) => {
+        const lengthNorm = K1 * (1 - B + B * c.terms.length / Math.max(1, averageLength));
+        const score = terms.reduce((sum, term) => {
+          const tf = frequencies[i].get(term) ?? 0;
+          return tf ? sum + idf.get(term)! * (tf * (K1 + 1)) / (tf + lengthNorm) : sum;
+        }, 0);
+        return { chunk: c, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk: c, score }) => ({
+        documentId: c.documentId,
+        title: titles.get(c.documentId) ?? '',
+        heading: c.heading,
+        text: c.text,
+        score,
+      }));
+  }
+}
@@ -0,0 +1,180 @@
+import type { FunctionDeclaration } from '@google/genai';
+import { LiveAvatarService } from './live-session';
+import { SpeechOptions } from '../gemini';
+import { MockLiveProvider } from './mock-live-provider';
+import { AstraError, classifyError } from './errors';
+import type { AudioSettings } from './audio-devices';
+import type { Retrieve } from './knowledge-store';
+
+export type LiveStatus = 'idle' | 'listening' | 'speaking';
+export type ActivitySignal = 'start' | 'end';
+
+export interface LiveToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Mirrors Gemini's FunctionResponse: `response` carries either `output` or `error`
+export interface LiveToolResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+  scheduling?: 'INTERRUPT' | 'WHEN_IDLE' | 'SILENT';
+}
+
+// How often and how large the frames of a shared video are sent upstream
+export interface VisionFrameOptions {
+  fps: number;
+  maxWidth: number;
+}
+
+// A still image sent once with a question, base64 without the data: prefix
+export interface LiveImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface LiveCallbacks {
+  onAudioLevel: (level: number) => void;
+  onStatusChange: (status: LiveStatus) => void;
+  onTranscription: (text: string) => void;
+  // Running transcript of what the user is saying in the current turn
+  onInputTranscription?: (text: string) => void;
+  // Decoded twin audio, delivered in playback order as each chunk is queued
+  onOutputAudio?: (pcm: Float32Array, sampleRate: number) => void;
+  // Raw mic frames from the capture pipeline, delivered whether or not they are streamed upstream
+  onInputAudio?: (pcm: Float32Array, sampleRate: number) => void;
+  onMemoryUpdate: (fact: string) => void;
+  // Knowledge base passages the current reply is grounded in, as citations
+  onSources?: (sources: string[]) => void;
+  onTurnComplete: () => void;
+  // The kind of the error decides whether the app reconnects and how often
+  onError: (error: AstraError) => void;
+  // The user barged in and the twin stopped talking mid-turn
+  onInterrupted?: () => void;
+  // The connection ended without stop() being called, e.g. a dropped socket
+  onClose?: (reason: string) => void;
+  // The model wants declared tools run; answer each call with sendToolResponses()
+  onToolCall?: (calls: LiveToolCall[]) => void;
+  onToolCallCancellation?: (ids: string[]) => void;
+}
+
+export type LiveStartOptions = SpeechOptions & {
+  disableNativeAudio?: boolean;
+  // Long-term memories selected for this session, most relevant first
+  memories?: string[];
+  // Transcript of a previous session the twin should continue from
+  context?: string;
+  // Persona definition: who the twin is, which language it speaks and how it opens
+  systemInstruction?: string;
+  language?: string;
+  greeting?: string;
+  // Reconnect of a session that dropped: continue from `context` without greeting again
+  resuming?: boolean;
+  // Turns are delimited by signalActivity() instead of the server's own voice detection
+  manualActivity?: boolean;
+  // Functions the model may call during the session
+  tools?: FunctionDeclaration[];
+  // Frame rate and size for the video passed to start()
+  vision?: VisionFrameOptions;
+  // Mic and speaker devices and mic processing; capture and playback go through audio-pipeline
+  audio?: AudioSettings;
+};
+
+export type LiveProviderId = 'gemini' | 'mock' | 'replay' | 'text';
+
+/**
+ * Everything the Neural Bridge needs from a live backend. The UI only talks
+ * to this interface, so Gemini Live and the scripted mock are interchangeable.
+ */
+export interface LiveProvider {
+  readonly id: LiveProviderId;
+  readonly requiresApiKey: boolean;
+  // Rejects with an AstraError; so do send() and sendImage()
+  start(callbacks: LiveCallbacks, video?: HTMLVideoElement, options?: LiveStartOptions): Promise<void>;
+  send(text: string): Promise<void>;
+  // Sends one image as part of a user turn, optionally with a question about it
+  sendImage(image: LiveImage, prompt?: string): Promise<void>;
+  setVision(video: HTMLVideoElement | null, options?: VisionFrameOptions): void;
+  // Stops twin playback at once and cancels the turn it was answering
+  interrupt(): void;
+  // A closed mic keeps capturing for onInputAudio but streams nothing upstream
+  setMicrophoneEnabled(enabled: boolean): void;
+  signalActivity(signal: ActivitySignal): void;
+  sendToolResponses(responses: LiveToolResponse[]): void;
+  stop(): void;
+  getStoredMemory(): string[];
+}
+
+export class GeminiLiveProvider implements LiveProvider {
+  readonly id = 'gemini';
+  readonly requiresApiKey = true;
+  private service: LiveAvatarService;
+
+  // `retrieve` grounds each user turn in the knowledge base
+  constructor(retrieve?: Retrieve) {
+    this.service = new LiveAvatarService(retrieve);
+  }
+
+  // LiveAvatarService may still report plain errors or strings; classify them at the boundary
+  async start(callbacks: LiveCallbacks, video?: HTMLVideoElement, options?: LiveStartOptions) {
+    const onError = (error: unknown) => callbacks.onError(classifyError(error, 'network'));
+    try {
+      await this.service.start({ ...callbacks, onError }, video, options);
+    } catch (err) {
+      throw classifyError(err, 'network');
+    }
+  }
+
+  async send(text: string) {
+    try {
+      await this.service.send(text);
+    } catch (err) {
+      throw classifyError(err);
+    }
+  }
+
+  async sendImage(image: LiveImage, prompt?: string) {
+    try {
+      await this.service.sendImage(image, prompt);
+    } catch (err) {
+      throw classifyError(err);
+    }
+  }
+
+  setVision(video: HTMLVideoElement | null, options?: VisionFrameOptions) {
+    this.service.setVision(video, options);
+  }
+
+  interrupt() {
+    this.service.interrupt();
+  }
+
+  setMicrophoneEnabled(enabled: boolean) {
+    this.service.setMicrophoneEnabled(enabled);
+  }
+
+  signalActivity(signal: ActivitySignal) {
+    this.service.signalActivity(signal);
+  }
+
+  sendToolResponses(responses: LiveToolResponse[]) {
+    this.service.sendToolResponses(responses);
+  }
+
+  stop() {
+    this.service.stop();
+  }
+
+  getStoredMemory(): string[] {
+    return this.service.getStoredMemory();
+  }
+}
+
+export const createLiveProvider = (retrieve?: Retrieve, id: string | undefined = process.env.LIVE_PROVIDER): LiveProvider => {
+  if (id === 'mock') {
+    return new MockLiveProvider(process.env.MOCK_SCRIPT_URL || '/mock/neural-bridge.json');
+  }
+  return new GeminiLiveProvider(retrieve);
+};
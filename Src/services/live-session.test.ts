@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import type { LiveCallbacks } from './live-provider';
+import type { KnowledgePassage } from './knowledge-store';
+
+// A connected session that records what the service sends; `server` delivers messages to it
+const sendClientContent = vi.fn();
+let server: (message: Pick<LiveServerMessage, 'serverContent'>) => void = () => {};
+
+vi.mock('./genai-client', () => ({
+  createGenAI: () => ({
+    live: {
+      connect: async ({ callbacks }: LiveConnectParameters) => {
+        server = message => callbacks.onmessage(message as LiveServerMessage);
+        return { sendClientContent, sendRealtimeInput: vi.fn(), sendToolResponse: vi.fn(), close: vi.fn() };
+      },
+    },
+  }),
+}));
+
+// No audio devices here: the mic opens silently and playback goes nowhere
+vi.mock('./audio-pipeline', async importOriginal => ({
+  ...(await importOriginal<typeof import('./audio-pipeline')>()),
+  MicCapture: class {
+    async open() {}
+    close() {}
+  },
+  AudioPlayback: class {
+    push() {}
+    flush() {}
+    close() {}
+  },
+}));
+
+const { LiveAvatarService } = await import('./live-session');
+
+const passage: KnowledgePassage = { documentId: 'cv', title: 'CV', heading: 'Projects', text: 'Built Astra.', score: 1 };
+
+const callbacks = (changes: Partial<LiveCallbacks> = {}): LiveCallbacks => ({
+  onAudioLevel: () => {},
+  onStatusChange: () => {},
+  onTranscription: () => {},
+  onMemoryUpdate: () => {},
+  onTurnComplete: () => {},
+  onError: () => {},
+  ...changes,
+});
+
+const sentTexts = () => sendClientContent.mock.calls.map(([{ turns, turnComplete }]) => ({
+  texts: turns[0].parts.map((part: { text: string }) => part.text),
+  turnComplete,
+}));
+
+describe('LiveAvatarService knowledge grounding', () => {
+  afterEach(() => {
+    sendClientContent.mockClear();
+    vi.useRealTimers();
+  });
+
+  it('quotes matching passages before a typed turn, once per connection', async () => {
+    const onSources = vi.fn();
+    const service = new LiveAvatarService(async () => [passage]);
+    await service.start(callbacks({ onSources }));
+
+    await service.send('What did you build?');
+    await service.send('Tell me more about it');
+    service.stop();
+
+    const [first, second] = sentTexts();
+    expect(first.texts).toHaveLength(2);
+    expect(first.texts[0]).toContain('[CV › Projects]\nBuilt Astra.');
+    expect(first.texts[1]).toBe('What did you build?');
+    expect(second.texts).toEqual(['Tell me more about it']);
+    expect(onSources.mock.calls).toEqual([[['CV › Projects']], [['CV › Projects']]]);
+  });
+
+  it('looks up a spoken turn once the user pauses, without ending their turn', async () => {
+    vi.useFakeTimers();
+    const retrieve = vi.fn(async () => [passage]);
+    const service = new LiveAvatarService(retrieve);
+    await service.start(callbacks());
+
+    server({ serverContent: { inputTranscription: { text: 'What did ' } } });
+    await vi.advanceTimersByTimeAsync(300);
+    server({ serverContent: { inputTranscription: { text: 'you build?' } } });
+    await vi.advanceTimersByTimeAsync(600);
+    service.stop();
+
+    expect(retrieve.mock.calls).toEqual([['What did you build?']]);
+    expect(sentTexts()).toEqual([{ texts: [expect.stringContaining('Built Astra.')], turnComplete: false }]);
+  });
+
+  it('sends the turn ungrounded when the knowledge base cannot be read', async () => {
+    const service = new LiveAvatarService(async () => {
+      throw new Error('blocked');
+    });
+    await service.start(callbacks());
+
+    await service.send('Hello');
+    service.stop();
+
+    expect(sentTexts()).toEqual([{ texts: ['Hello'], turnComplete: true }]);
+  });
+});
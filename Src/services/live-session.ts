@@ -0,0 +1,352 @@
+import { FunctionResponseScheduling, LiveServerMessage, Modality, Session } from '@google/genai';
+import type { ActivitySignal, LiveCallbacks, LiveImage, LiveToolCall, LiveStartOptions, LiveToolResponse, VisionFrameOptions } from './live-provider';
+import { createGenAI } from './genai-client';
+import { NetworkError, classifyError } from './errors';
+import { AUDIO_DEFAULTS, AudioSettings } from './audio-devices';
+import { AudioPlayback, MicCapture, decodePcm16, encodePcm16, meterLevel, resample } from './audio-pipeline';
+import { VISION_DEFAULTS, VisionService, frameOptions } from './vision';
+import { REMEMBER_TOOL, rememberedFact } from './memory-store';
+import { KnowledgePassage, Retrieve, citation, groundingText } from './knowledge-store';
+
+const NATIVE_AUDIO_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const CASCADED_MODEL = 'gemini-live-2.5-flash-preview';
+// Gemini Live takes 16 kHz input and answers at 24 kHz
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+// Facts the service kept in localStorage before memory moved to IndexedDB; read once to seed the store
+const LEGACY_MEMORY_KEY = 'astra.memory';
+// Pause in the user's speech after which their words so far are looked up in the knowledge base
+const LOOKUP_DELAY_MS = 600;
+
+// Identifies a passage across lookups, so one already in the conversation is not quoted again
+const passageKey = (passage: KnowledgePassage) => `${passage.documentId}\u0000${passage.text}`;
+
+/**
+ * Gemini Live session for the Neural Bridge. The client comes from
+ * createGenAI(), so behind the proxy the socket is relayed by our server and
+ * no API key reaches the browser. Mic audio streams up as 16 kHz PCM and the
+ * twin's audio is played back as it arrives. With a knowledge base, every
+ * user turn is looked up and the matching passages are added before it.
+ */
+export class LiveAvatarService {
+  private session: Session | null = null;
+  private callbacks: LiveCallbacks | null = null;
+  private mic: MicCapture | null = null;
+  private playback: AudioPlayback | null = null;
+  private transcript = '';
+  private userTranscript = '';
+  private speaking = false;
+  // The app owns this across reconnects; a closed mic still captures for onInputAudio
+  private micEnabled = true;
+  private manualActivity = false;
+  // Set by interrupt(): audio still arriving for the cancelled turn is dropped until it ends
+  private discarding = false;
+  private visionTimer: number | null = null;
+  private lookUpTimer: number | null = null;
+  // Passages quoted into this connection so far
+  private grounded = new Set<string>();
+
+  constructor(private retrieve?: Retrieve) {}
+
+  async start(callbacks: LiveCallbacks, video?: HTMLVideoElement, options?: LiveStartOptions) {
+    this.stop();
+    this.callbacks = callbacks;
+    this.manualActivity = !!options?.manualActivity;
+    const audio = options?.audio ?? AUDIO_DEFAULTS;
+    this.playback = new AudioPlayback(audio, error => this.callbacks?.onError(error));
+
+    const session = await createGenAI().live.connect({
+      model: options?.disableNativeAudio ? CASCADED_MODEL : NATIVE_AUDIO_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: options?.voiceName ? { prebuiltVoiceConfig: { voiceName: options.voiceName } } : undefined,
+          // Native audio picks its language from the conversation; the cascaded model has to be told
+          languageCode: options?.disableNativeAudio ? options.language : undefined,
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction: this.instruction(options) || undefined,
+        tools: [{ functionDeclarations: [REMEMBER_TOOL, ...(options?.tools ?? [])] }],
+        // With manual activity the app's own voice detection or talk key opens and closes turns
+        realtimeInputConfig: this.manualActivity ? { automaticActivityDetection: { disabled: true } } : undefined,
+      },
+      callbacks: {
+        onmessage: (message) => {
+          if (this.callbacks === callbacks) this.handleMessage(message);
+        },
+        onerror: (event) => {
+          if (this.callbacks === callbacks) callbacks.onError(classifyError(event.message || 'Live connection error', 'network'));
+        },
+        onclose: (event) => {
+          // stop() clears the callbacks first, so only drops the app did not ask for get here
+          if (this.callbacks !== callbacks) return;
+          this.release();
+          callbacks.onClose?.(event.reason || `Live connection closed (${event.code})`);
+        },
+      },
+    }).catch(err => {
+      throw classifyError(err, 'network');
+    });
+
+    if (this.callbacks !== callbacks) {
+      session.close();
+      return;
+    }
+    this.session = session;
+    await this.openMic(callbacks, audio);
+    if (this.callbacks !== callbacks) return;
+    if (video) this.setVision(video, options?.vision);
+    callbacks.onStatusChange('listening');
+    // Live models wait for the user; a scripted turn makes the twin open with the persona's greeting
+    if (options?.greeting && !options.resuming) {
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `(The user just connected. Greet them with: "${options.greeting}")` }] }],
+        turnComplete: true,
+      });
+    }
+  }
+
+  async send(text: string) {
+    if (!this.session) {
+      throw new NetworkError('Neural Bridge is not connected');
+    }
+    const session = this.session;
+    const context = this.ground(await this.lookUp(text));
+    if (this.session !== session) return;
+    session.sendClientContent({ turns: [{ role: 'user', parts: [...(context ? [{ text: context }] : []), { text }] }], turnComplete: true });
+  }
+
+  async sendImage(image: LiveImage, prompt?: string) {
+    if (!this.session) {
+      throw new NetworkError('Neural Bridge is not connected');
+    }
+    const parts = [{ inlineData: { mimeType: image.mimeType, data: image.data } }, ...(prompt ? [{ text: prompt }] : [])];
+    this.session.sendClientContent({ turns: [{ role: 'user', parts }], turnComplete: true });
+  }
+
+  // Streams frames of `video` as realtime input until called again or with null
+  setVision(video: HTMLVideoElement | null, options: VisionFrameOptions = frameOptions(VISION_DEFAULTS)) {
+    this.stopVision();
+    if (!video) return;
+    this.visionTimer = window.setInterval(() => {
+      // Frames are skipped while the element has nothing decoded, e.g. right after switching lens
+      if (!this.session || !video.videoWidth) return;
+      this.session.sendRealtimeInput({ video: VisionService.captureFrame(video, options.maxWidth) });
+    }, 1000 / options.fps);
+  }
+
+  interrupt() {
+    if (!this.session) return;
+    this.playback?.flush();
+    this.transcript = '';
+    this.speaking = false;
+    this.discarding = true;
+    this.callbacks?.onAudioLevel(0);
+  }
+
+  setMicrophoneEnabled(enabled: boolean) {
+    if (this.micEnabled === enabled) return;
+    this.micEnabled = enabled;
+    // Server-side voice detection would otherwise wait for the end of a turn that was cut off
+    if (!enabled && !this.manualActivity) this.session?.sendRealtimeInput({ audioStreamEnd: true });
+  }
+
+  // Only meaningful with manualActivity; the server rejects activity signals while it detects voice itself
+  signalActivity(signal: ActivitySignal) {
+    if (!this.session || !this.manualActivity) return;
+    // A new activity start also makes the server cancel the reply in progress
+    this.session.sendRealtimeInput(signal === 'start' ? { activityStart: {} } : { activityEnd: {} });
+  }
+
+  sendToolResponses(responses: LiveToolResponse[]) {
+    if (!this.session || responses.length === 0) return;
+    this.session.sendToolResponse({
+      functionResponses: responses.map(({ id, name, response, scheduling }) => ({
+        id,
+        name,
+        response,
+        scheduling: scheduling && FunctionResponseScheduling[scheduling],
+      })),
+    });
+  }
+
+  stop() {
+    const session = this.session;
+    this.callbacks = null;
+    this.release();
+    session?.close();
+  }
+
+  getStoredMemory(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(LEGACY_MEMORY_KEY) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((fact): fact is string => typeof fact === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Mirrors the text chat's instruction, minus the Markdown; passages are added per turn instead
+  private instruction(options?: LiveStartOptions) {
+    return [
+      options?.systemInstruction,
+      options?.language && `Reply in the language with the BCP 47 tag ${options.language}.`,
+      options?.memories?.length && `What you know about the user:\n${options.memories.map(m => `- ${m}`).join('\n')}`,
+      `When the user shares a lasting fact about themselves, save it with ${REMEMBER_TOOL.name}.`,
+      options?.context && `Earlier conversation:\n${options.context}`,
+      options?.resuming && 'The connection dropped and is now back. Continue where the conversation left off without greeting the user again.',
+    ].filter(Boolean).join('\n\n');
+  }
+
+  // Reports the citations of every match, as the reply draws on them, and returns the passages not yet quoted
+  private async lookUp(query: string): Promise<KnowledgePassage[]> {
+    const callbacks = this.callbacks;
+    if (!this.retrieve || !query.trim()) return [];
+    // A knowledge base that cannot be read leaves the turn ungrounded rather than failing it
+    const passages = await this.retrieve(query).catch(() => []);
+    if (passages.length === 0 || this.callbacks !== callbacks) return [];
+    callbacks?.onSources?.([...new Set(passages.map(citation))]);
+    return passages.filter(passage => !this.grounded.has(passageKey(passage)));
+  }
+
+  private ground(passages: KnowledgePassage[]): string | null {
+    if (passages.length === 0) return null;
+    passages.forEach(passage => this.grounded.add(passageKey(passage)));
+    return groundingText(passages);
+  }
+
+  // Spoken turns are looked up while the user talks, so the passages are in the conversation before the reply starts
+  private scheduleLookUp() {
+    if (!this.retrieve) return;
+    this.cancelLookUp();
+    this.lookUpTimer = window.setTimeout(async () => {
+      this.lookUpTimer = null;
+      const session = this.session;
+      const passages = await this.lookUp(this.userTranscript);
+      // Client content cuts off a reply in progress, so passages that arrive too late are left for a later turn
+      if (!session || this.session !== session || this.speaking) return;
+      const context = this.ground(passages);
+      if (context) session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: context }] }], turnComplete: false });
+    }, LOOKUP_DELAY_MS);
+  }
+
+  private cancelLookUp() {
+    if (this.lookUpTimer !== null) clearTimeout(this.lookUpTimer);
+    this.lookUpTimer = null;
+  }
+
+  private stopVision() {
+    if (this.visionTimer !== null) clearInterval(this.visionTimer);
+    this.visionTimer = null;
+  }
+
+  private release() {
+    this.session = null;
+    this.stopVision();
+    this.cancelLookUp();
+    this.grounded.clear();
+    this.mic?.close();
+    this.mic = null;
+    this.playback?.close();
+    this.playback = null;
+    this.transcript = '';
+    this.userTranscript = '';
+    this.speaking = false;
+    this.discarding = false;
+  }
+
+  // Rejects with a PermissionError when the mic is blocked; the session is closed again
+  private async openMic(callbacks: LiveCallbacks, audio: AudioSettings) {
+    const mic = new MicCapture(audio, (pcm, sampleRate) => this.streamAudio(pcm, sampleRate));
+    try {
+      await mic.open();
+    } catch (err) {
+      this.stop();
+      throw err;
+    }
+    if (this.callbacks !== callbacks) {
+      mic.close();
+      return;
+    }
+    this.mic = mic;
+  }
+
+  private streamAudio(pcm: Float32Array, sampleRate: number) {
+    this.callbacks?.onInputAudio?.(pcm, sampleRate);
+    if (!this.session || !this.micEnabled) return;
+    const data = encodePcm16(sampleRate === INPUT_SAMPLE_RATE ? pcm : resample(pcm, sampleRate, INPUT_SAMPLE_RATE));
+    this.session.sendRealtimeInput({ audio: { data, mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}` } });
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const cb = this.callbacks!;
+    const content = message.serverContent;
+
+    // remember_fact is answered here; every other call goes to the app, which answers with sendToolResponses()
+    const calls: LiveToolCall[] = [];
+    for (const call of message.toolCall?.functionCalls ?? []) {
+      if (call.name === REMEMBER_TOOL.name) {
+        this.remember(call.id ?? '', call.args);
+      } else if (call.name) {
+        calls.push({ id: call.id ?? '', name: call.name, args: call.args ?? {} });
+      }
+    }
+    if (calls.length > 0) cb.onToolCall?.(calls);
+    const cancelled = message.toolCallCancellation?.ids ?? [];
+    if (cancelled.length > 0) cb.onToolCallCancellation?.(cancelled);
+
+    if (content?.interrupted) {
+      this.playback?.flush();
+      this.transcript = '';
+      this.speaking = false;
+      this.discarding = false;
+      cb.onAudioLevel(0);
+      cb.onInterrupted?.();
+    }
+
+    for (const part of content?.modelTurn?.parts ?? []) {
+      const data = part.inlineData?.data;
+      if (!data || !part.inlineData?.mimeType?.startsWith('audio/') || this.discarding) continue;
+      const pcm = decodePcm16(data);
+      if (!this.speaking) {
+        this.speaking = true;
+        cb.onStatusChange('speaking');
+      }
+      this.playback?.push(pcm, OUTPUT_SAMPLE_RATE);
+      // Lip sync reads the same samples that are queued for playback
+      cb.onOutputAudio?.(pcm, OUTPUT_SAMPLE_RATE);
+      cb.onAudioLevel(meterLevel(pcm));
+    }
+
+    if (content?.inputTranscription?.text) {
+      this.userTranscript += content.inputTranscription.text;
+      cb.onInputTranscription?.(this.userTranscript);
+      this.scheduleLookUp();
+    }
+    if (content?.outputTranscription?.text && !this.discarding) {
+      this.transcript += content.outputTranscription.text;
+      cb.onTranscription(this.transcript);
+    }
+
+    if (content?.turnComplete) {
+      this.cancelLookUp();
+      this.discarding = false;
+      this.transcript = '';
+      this.userTranscript = '';
+      this.speaking = false;
+      cb.onAudioLevel(0);
+      cb.onTurnComplete();
+      cb.onStatusChange('listening');
+    }
+  }
+
+  // The app stores the fact through onMemoryUpdate
+  private remember(id: string, args: Record<string, unknown> | undefined) {
+    const fact = rememberedFact(args);
+    if (fact) this.callbacks?.onMemoryUpdate(fact);
+    this.session?.sendToolResponse({
+      functionResponses: [{ id, name: REMEMBER_TOOL.name, response: fact ? { output: 'saved' } : { error: 'fact must be a non-empty string' } }],
+    });
+  }
+}
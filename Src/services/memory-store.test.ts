@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { MemoryService, categorize, rememberedFact } from './memory-store';
+
+// The fake IndexedDB lives for the whole file, so every test works in its own namespace
+let namespaceCount = 0;
+const freshNamespace = () => `test-${++namespaceCount}`;
+
+const texts = async (namespace: string) => (await MemoryService.list(namespace)).map(fact => fact.text);
+
+describe('MemoryService', () => {
+  afterEach(() => localStorage.clear());
+
+  it('merges a fact it hears again and raises its confidence', async () => {
+    const namespace = freshNamespace();
+    const first = await MemoryService.remember(namespace, 'Works at Acme', null, 0.5);
+    const again = await MemoryService.remember(namespace, ' works at acme ', null, 0.5);
+
+    expect(again.id).toBe(first.id);
+    expect(again.confidence).toBeCloseTo(0.6);
+    expect(first.category).toBe('work');
+    expect(await texts(namespace)).toEqual(['Works at Acme']);
+  });
+
+  it('seeds legacy facts once, so forgotten facts stay forgotten', async () => {
+    const namespace = freshNamespace();
+    await MemoryService.seedFromLegacy(namespace, ['Likes tea', 'Lives in Tehran']);
+    expect((await texts(namespace)).sort()).toEqual(['Likes tea', 'Lives in Tehran']);
+
+    await MemoryService.remove((await MemoryService.list(namespace)).map(fact => fact.id));
+    await MemoryService.seedFromLegacy(namespace, ['Likes tea', 'Lives in Tehran']);
+    expect(await texts(namespace)).toEqual([]);
+  });
+
+  it('leaves a namespace that already has facts alone when seeding', async () => {
+    const namespace = freshNamespace();
+    await MemoryService.remember(namespace, 'Plays chess', null);
+    await MemoryService.seedFromLegacy(namespace, ['Likes tea']);
+
+    expect(await texts(namespace)).toEqual(['Plays chess']);
+  });
+
+  it('imports strings and exported facts into the target namespace and skips the rest', async () => {
+    const source = freshNamespace();
+    const target = freshNamespace();
+    const fact = await MemoryService.remember(source, 'Prefers dark mode', { sessionId: 's1', turn: 2 });
+    await MemoryService.update(fact.id, { pinned: true });
+    const exported = JSON.parse(await MemoryService.exportJson(source));
+
+    const json = JSON.stringify({ ...exported, facts: [...exported.facts, 'Has a cat', '', 42, { id: 'x', text: 3 }] });
+    expect(await MemoryService.importJson(target, json)).toBe(2);
+
+    const imported = await MemoryService.list(target);
+    expect(imported.map(f => f.text)).toEqual(['Prefers dark mode', 'Has a cat']);
+    expect(imported[0]).toMatchObject({ namespace: target, pinned: true, category: 'preference', source: { sessionId: 's1', turn: 2 } });
+    // Ids are global, so a fact from another namespace gets a new one
+    expect(imported[0].id).not.toBe(fact.id);
+
+    // A second import finds nothing new
+    expect(await MemoryService.importJson(target, json)).toBe(0);
+  });
+
+  it('imports a fact the file repeats once', async () => {
+    const namespace = freshNamespace();
+
+    expect(await MemoryService.importJson(namespace, JSON.stringify(['Has a cat', ' has a CAT ', { text: 'Has a cat' }]))).toBe(1);
+    expect(await texts(namespace)).toEqual(['Has a cat']);
+  });
+
+  it('fills in fields of an imported fact that have the wrong type', async () => {
+    const namespace = freshNamespace();
+    const json = JSON.stringify([{ id: 'a', text: 'Born in May', category: 'nonsense', confidence: 'high', pinned: 'yes', source: 'chat' }]);
+    await MemoryService.importJson(namespace, json);
+
+    expect((await MemoryService.list(namespace))[0]).toMatchObject({ category: 'personal', confidence: 1, pinned: false, source: null });
+  });
+
+  it('rejects an import that holds no facts', async () => {
+    await expect(MemoryService.importJson(freshNamespace(), '{"notes": []}')).rejects.toThrow('Memory import');
+  });
+
+  it('ranks pinned facts first, then facts that match the context', async () => {
+    const namespace = freshNamespace();
+    await MemoryService.remember(namespace, 'Enjoys hiking trips', null);
+    await MemoryService.remember(namespace, 'Builds robots at work', null);
+    const pinned = await MemoryService.remember(namespace, 'Has two daughters', null);
+    await MemoryService.update(pinned.id, { pinned: true });
+
+    const ranked = await MemoryService.relevant(namespace, 'tell me about robots', 2);
+    expect(ranked.map(fact => fact.text)).toEqual(['Has two daughters', 'Builds robots at work']);
+  });
+});
+
+describe('helpers', () => {
+  it('sorts facts into categories by their wording', () => {
+    expect(categorize('My favourite colour is green')).toBe('preference');
+    expect(categorize('My sister is a doctor')).toBe('relationship');
+    expect(categorize('Owns a bicycle')).toBe('other');
+  });
+
+  it('reads the fact of a remember_fact call', () => {
+    expect(rememberedFact({ fact: '  Likes jazz ' })).toBe('Likes jazz');
+    expect(rememberedFact({ fact: ' ' })).toBeNull();
+    expect(rememberedFact(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,248 @@
+import type { FunctionDeclaration } from '@google/genai';
+import { openDatabase, promisify, transactionDone } from './idb';
+import { DEFAULT_NAMESPACE } from './personas';
+
+export type MemoryCategory = 'personal' | 'preference' | 'work' | 'relationship' | 'other';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['personal', 'preference', 'work', 'relationship', 'other'];
+
+export interface MemorySource {
+  sessionId: string;
+  turn: number;
+}
+
+export interface MemoryFact {
+  id: string;
+  // Persona memory namespace the fact belongs to
+  namespace: string;
+  text: string;
+  category: MemoryCategory;
+  confidence: number;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+  source: MemorySource | null;
+}
+
+export interface MemoryExport {
+  version: 1;
+  exportedAt: string;
+  facts: MemoryFact[];
+}
+
+// Declared to the model by every provider that talks to Gemini; the provider answers it and reports the fact through onMemoryUpdate
+export const REMEMBER_TOOL: FunctionDeclaration = {
+  name: 'remember_fact',
+  description: 'Saves a lasting fact about the user, such as their name, preferences or projects. Call it once per new fact.',
+  parametersJsonSchema: {
+    type: 'object',
+    properties: { fact: { type: 'string', description: 'The fact, as one short sentence' } },
+    required: ['fact'],
+  },
+};
+
+// The fact a remember_fact call carries, or null when the model sent none
+export const rememberedFact = (args: Record<string, unknown> | undefined): string | null =>
+  typeof args?.fact === 'string' && args.fact.trim().length > 0 ? args.fact.trim() : null;
+
+const DB_NAME = 'astra-memory';
+const STORE = 'facts';
+// Set once the pre-IndexedDB facts are imported, so facts the user forgets later stay forgotten
+const LEGACY_SEEDED_KEY = 'astra.memory.seeded';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const db = () => openDatabase(DB_NAME, 2, (database, oldVersion, tx) => {
+  if (oldVersion < 1) {
+    database.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 2) {
+    // Facts recorded before personas existed belong to the default twin
+    const store = tx.objectStore(STORE);
+    store.createIndex('namespace', 'namespace');
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      if (!cursor.value.namespace) cursor.update({ ...cursor.value, namespace: DEFAULT_NAMESPACE });
+      cursor.continue();
+    };
+  }
+});
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 2);
+
+const CATEGORY_HINTS: [MemoryCategory, RegExp][] = [
+  ['preference', /\b(prefer|prefers|like|likes|love|loves|hate|hates|favou?rite|enjoy|enjoys|dislike)\b|دوست دار/i],
+  ['relationship', /\b(wife|husband|partner|friend|mother|father|brother|sister|son|daughter|colleague)\b|همسر|دوست|مادر|پدر/i],
+  ['work', /\b(work|works|job|project|company|team|career|client|startup|code)\b|کار|پروژه|شرکت/i],
+  ['personal', /\b(name|born|lives?|age|birthday|from|hometown)\b|اسم|متولد|زندگی/i],
+];
+
+export const categorize = (text: string): MemoryCategory =>
+  CATEGORY_HINTS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'other';
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// A fact from an import file; fields that are missing or of the wrong type are filled in on import
+type ImportedFact = Pick<MemoryFact, 'id' | 'text'> & Partial<Omit<MemoryFact, 'id' | 'text' | 'namespace'>>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const finite = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const isMemorySource = (value: unknown): value is MemorySource =>
+  isRecord(value) && typeof value.sessionId === 'string' && typeof value.turn === 'number';
+
+// Accepts a bare string or an exported fact; null for anything without text
+const importedFact = (value: unknown): ImportedFact | null => {
+  if (typeof value === 'string') return value.trim() ? { id: crypto.randomUUID(), text: value } : null;
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.text !== 'string' || !value.text.trim()) return null;
+  return {
+    id: value.id,
+    text: value.text,
+    category: MEMORY_CATEGORIES.find(category => category === value.category),
+    confidence: finite(value.confidence),
+    pinned: value.pinned === true,
+    createdAt: finite(value.createdAt),
+    updatedAt: finite(value.updatedAt),
+    source: isMemorySource(value.source) ? value.source : null,
+  };
+};
+
+/**
+ * Long-term memory for the twin, persisted in IndexedDB. Facts arrive from
+ * `onMemoryUpdate`, can be curated in the memory panel, and the most relevant
+ * ones are handed to each new live session.
+ */
+export class MemoryService {
+  static async list(namespace: string): Promise<MemoryFact[]> {
+    const tx = (await db()).transaction(STORE, 'readonly');
+    const facts = await promisify<MemoryFact[]>(tx.objectStore(STORE).index('namespace').getAll(namespace));
+    return facts.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+  }
+
+  static async save(fact: MemoryFact): Promise<MemoryFact> {
+    const tx = (await db()).transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(fact);
+    await transactionDone(tx);
+    return fact;
+  }
+
+  static async remember(namespace: string, text: string, source: MemorySource | null, confidence = 0.7): Promise<MemoryFact> {
+    const normalized = text.trim();
+    const existing = (await MemoryService.list(namespace)).find(f => f.text.toLowerCase() === normalized.toLowerCase());
+    const now = Date.now();
+    if (existing) {
+      // Hearing the same fact again makes it more trustworthy
+      return MemoryService.save({
+        ...existing,
+        confidence: clamp01(Math.max(existing.confidence, confidence) + 0.1),
+        updatedAt: now,
+      });
+    }
+    return MemoryService.save({
+      id: crypto.randomUUID(),
+      namespace,
+      text: normalized,
+      category: categorize(normalized),
+      confidence: clamp01(confidence),
+      pinned: false,
+      createdAt: now,
+      updatedAt: now,
+      source,
+    });
+  }
+
+  static async update(id: string, changes: Partial<Omit<MemoryFact, 'id' | 'namespace' | 'createdAt'>>): Promise<MemoryFact | null> {
+    const tx = (await db()).transaction(STORE, 'readonly');
+    const current = await promisify<MemoryFact | undefined>(tx.objectStore(STORE).get(id));
+    if (!current) return null;
+    return MemoryService.save({ ...current, ...changes, updatedAt: Date.now() });
+  }
+
+  static async remove(ids: string[]): Promise<void> {
+    const tx = (await db()).transaction(STORE, 'readwrite');
+    ids.forEach(id => tx.objectStore(STORE).delete(id));
+    await transactionDone(tx);
+  }
+
+  // Imports facts stored by the pre-IndexedDB service, once; a namespace that already has facts is left alone.
+  static async seedFromLegacy(namespace: string, legacy: string[]): Promise<void> {
+    if (legacy.length === 0 || localStorage.getItem(LEGACY_SEEDED_KEY)) return;
+    if ((await MemoryService.list(namespace)).length === 0) {
+      for (const text of legacy) {
+        await MemoryService.remember(namespace, text, null, 0.6);
+      }
+    }
+    localStorage.setItem(LEGACY_SEEDED_KEY, new Date().toISOString());
+  }
+
+  static async exportJson(namespace: string): Promise<string> {
+    const payload: MemoryExport = {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      facts: await MemoryService.list(namespace),
+    };
+    return JSON.stringify(payload, null, 2);
+  }
+
+  // Imported facts always land in `namespace`, whatever persona they were exported from.
+  static async importJson(namespace: string, json: string): Promise<number> {
+    const parsed: unknown = JSON.parse(json);
+    const incoming = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.facts : null;
+    if (!Array.isArray(incoming)) {
+      throw new Error('Memory import must be a memory export or an array of facts');
+    }
+
+    const existing = await MemoryService.list(namespace);
+    const current = new Map(existing.map(f => [f.id, f]));
+    const texts = new Set(existing.map(f => f.text.toLowerCase()));
+    const tx = (await db()).transaction(STORE, 'readwrite');
+    let imported = 0;
+    for (const item of incoming) {
+      const fact = importedFact(item);
+      if (!fact) continue;
+
+      const known = current.get(fact.id);
+      if (known ? known.updatedAt >= (fact.updatedAt ?? 0) : texts.has(fact.text.trim().toLowerCase())) continue;
+      const now = Date.now();
+      const text = fact.text.trim();
+      tx.objectStore(STORE).put({
+        // Ids are global across namespaces, so only an update of our own fact may reuse one
+        id: known ? fact.id : crypto.randomUUID(),
+        namespace,
+        text,
+        category: fact.category ?? categorize(fact.text),
+        confidence: clamp01(fact.confidence ?? 1),
+        pinned: fact.pinned ?? false,
+        createdAt: fact.createdAt ?? now,
+        updatedAt: fact.updatedAt ?? now,
+        source: fact.source ?? null,
+      } satisfies MemoryFact);
+      // A file that repeats a fact imports it once
+      texts.add(text.toLowerCase());
+      imported++;
+    }
+    await transactionDone(tx);
+    return imported;
+  }
+
+  /**
+   * Ranks facts for a new session: pinned facts always win, then term overlap
+   * with the given context, confidence and recency.
+   */
+  static async relevant(namespace: string, context = '', limit = 12): Promise<MemoryFact[]> {
+    const contextTerms = new Set(tokenize(context));
+    const now = Date.now();
+    const score = (fact: MemoryFact) => {
+      const overlap = tokenize(fact.text).filter(t => contextTerms.has(t)).length;
+      const recency = Math.exp(-(now - fact.updatedAt) / (30 * DAY_MS));
+      return (fact.pinned ? 100 : 0) + overlap * 3 + fact.confidence * 2 + recency;
+    };
+    return (await MemoryService.list(namespace))
+      .map(fact => ({ fact, score: score(fact) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ fact }) => fact);
+  }
+}
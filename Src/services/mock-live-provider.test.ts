@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LiveCallbacks } from './live-provider';
+import type { MockScript } from './mock-live-provider';
+import { ModelError, NetworkError, QuotaError } from './errors';
+import bundled from '../../public/mock/neural-bridge.json';
+
+const openMic = vi.fn(async () => {});
+
+// No audio devices here: the mic opens without frames and audio is played nowhere
+vi.mock('./audio-pipeline', async importOriginal => ({
+  ...(await importOriginal<typeof import('./audio-pipeline')>()),
+  MicCapture: class {
+    open = openMic;
+    close() {}
+  },
+  AudioPlayback: class {
+    push() {}
+    flush() {}
+    close() {}
+  },
+}));
+
+const { MockLiveProvider, parseMockScript } = await import('./mock-live-provider');
+
+const callbacks = (changes: Partial<LiveCallbacks> = {}): LiveCallbacks => ({
+  onAudioLevel: vi.fn(),
+  onStatusChange: vi.fn(),
+  onTranscription: vi.fn(),
+  onMemoryUpdate: vi.fn(),
+  onTurnComplete: vi.fn(),
+  onError: vi.fn(),
+  ...changes,
+});
+
+const SCRIPT: MockScript = {
+  memory: ['Likes tea'],
+  turns: [
+    { trigger: 'start', events: [{ at: 100, type: 'transcription', text: 'Hello.' }, { at: 200, type: 'turnComplete' }] },
+    { trigger: 'send', match: 'weather', events: [{ at: 100, type: 'transcription', text: 'Sunny.' }] },
+    { trigger: 'send', events: [{ at: 100, type: 'transcription', text: 'First fallback.' }] },
+    { trigger: 'send', events: [{ at: 100, type: 'transcription', text: 'Second fallback.' }] },
+  ],
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  openMic.mockClear();
+});
+
+describe('MockLiveProvider', () => {
+  it('plays the start turns when the session opens', async () => {
+    const cb = callbacks();
+    await new MockLiveProvider(SCRIPT).start(cb);
+
+    expect(cb.onStatusChange).toHaveBeenCalledWith('listening');
+    await vi.advanceTimersByTimeAsync(200);
+    expect(cb.onTranscription).toHaveBeenCalledWith('Hello.');
+    expect(cb.onTurnComplete).toHaveBeenCalledOnce();
+  });
+
+  it('skips the greeting when resuming', async () => {
+    const cb = callbacks();
+    await new MockLiveProvider(SCRIPT).start(cb, undefined, { voiceName: 'Kore', speakingRate: 1, pitch: 1, quality: 'high', resuming: true });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(cb.onStatusChange).toHaveBeenCalledWith('listening');
+    expect(cb.onTranscription).not.toHaveBeenCalled();
+  });
+
+  it('answers with the matching send turn, and otherwise cycles through the fallbacks', async () => {
+    const cb = callbacks();
+    const provider = new MockLiveProvider(SCRIPT);
+    await provider.start(cb, undefined, { voiceName: 'Kore', speakingRate: 1, pitch: 1, quality: 'high', resuming: true });
+
+    for (const text of ['How is the WEATHER?', 'Hi', 'Hi', 'Hi']) {
+      await provider.send(text);
+      await vi.advanceTimersByTimeAsync(100);
+    }
+
+    // Without a turnComplete the transcript keeps growing, so only the newest line is compared
+    const lines = vi.mocked(cb.onTranscription).mock.calls.map(([text]) => text);
+    expect(lines.map((line, i) => line.slice(lines[i - 1]?.length ?? 0))).toEqual(['Sunny.', 'First fallback.', 'Second fallback.', 'First fallback.']);
+  });
+
+  it('fails to start or send with the classified script error', async () => {
+    const starting = new MockLiveProvider({ ...SCRIPT, failOnStart: '429 RESOURCE_EXHAUSTED' });
+    await expect(starting.start(callbacks())).rejects.toBeInstanceOf(QuotaError);
+
+    const sending = new MockLiveProvider({ ...SCRIPT, failOnSend: 'Failed to fetch' });
+    await sending.start(callbacks());
+    await expect(sending.send('Hi')).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('does not open the mic when stopped while the script loads', async () => {
+    let respond = (_response: Response) => {};
+    vi.stubGlobal('fetch', vi.fn(() => new Promise<Response>(resolve => (respond = resolve))));
+    const cb = callbacks();
+    const provider = new MockLiveProvider('/mock/script.json');
+
+    const starting = provider.start(cb);
+    provider.stop();
+    respond(new Response(JSON.stringify(SCRIPT)));
+    await starting;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(openMic).not.toHaveBeenCalled();
+    expect(cb.onStatusChange).not.toHaveBeenCalled();
+    expect(cb.onTranscription).not.toHaveBeenCalled();
+  });
+
+  it('rejects a fetched script without turns', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ memory: ['Likes tea'] }))));
+
+    await expect(new MockLiveProvider('/mock/script.json').start(callbacks())).rejects.toBeInstanceOf(ModelError);
+  });
+});
+
+describe('parseMockScript', () => {
+  it('drops turns and events the mock cannot play', () => {
+    const script = parseMockScript({
+      memory: ['Likes tea', 42],
+      turns: [
+        { trigger: 'sometimes', events: [] },
+        { trigger: 'send', match: '(', events: [] },
+        { trigger: 'send' },
+        {
+          trigger: 'start',
+          events: [
+            { at: 0, type: 'status', status: 'singing' },
+            { at: 0, type: 'transcription' },
+            { type: 'turnComplete' },
+            { at: 10, type: 'error', message: 'Nope', kind: 'mystery' },
+            { at: 20, type: 'turnComplete' },
+          ],
+        },
+      ],
+    });
+
+    expect(script.memory).toEqual(['Likes tea']);
+    expect(script.turns).toEqual([{
+      trigger: 'start',
+      match: undefined,
+      events: [{ at: 10, type: 'error', message: 'Nope', kind: undefined }, { at: 20, type: 'turnComplete' }],
+    }]);
+  });
+
+  it('rejects anything without a turns list', () => {
+    expect(() => parseMockScript(null)).toThrow('Mock script has no turns');
+    expect(() => parseMockScript({ turns: {} })).toThrow('Mock script has no turns');
+  });
+
+  it('keeps every turn of the bundled script', () => {
+    expect(parseMockScript(bundled)).toEqual(bundled);
+  });
+});
@@ -0,0 +1,418 @@
+import type { ActivitySignal, LiveCallbacks, LiveImage, LiveProvider, LiveStartOptions, LiveStatus, LiveToolResponse } from './live-provider';
+import { ErrorKind, ModelError, NetworkError, classifyError, createError, isErrorKind } from './errors';
+import { AUDIO_DEFAULTS, AudioSettings } from './audio-devices';
+import { AudioPlayback, MicCapture } from './audio-pipeline';
+
+export type MockEvent =
+  | { at: number; type: 'status'; status: LiveStatus }
+  | { at: number; type: 'transcription'; text: string }
+  | { at: number; type: 'userTranscription'; text: string }
+  | { at: number; type: 'audio'; durationMs: number; amplitude?: number; frequency?: number; play?: boolean }
+  | { at: number; type: 'memory'; fact: string }
+  // Without a kind the message is classified the way a real service error would be
+  | { at: number; type: 'error'; message: string; kind?: ErrorKind }
+  | { at: number; type: 'interrupted' }
+  // Asks the app to run tools; the mock answers with a canned turn once responses arrive
+  | { at: number; type: 'toolCall'; calls: { name: string; args?: Record<string, unknown> }[] }
+  // Simulates a dropped connection: remaining events are discarded
+  | { at: number; type: 'close'; reason?: string }
+  | { at: number; type: 'turnComplete' };
+
+export interface MockTurn {
+  // 'start' turns play as soon as the session opens, 'send' turns answer text commands,
+  // 'voice' turns answer a spoken turn ended with signalActivity('end'),
+  // 'image' turns answer sendImage() and fall back to 'send' turns when absent
+  trigger: 'start' | 'send' | 'voice' | 'image';
+  // Optional case-insensitive pattern the sent text (or image prompt) must match
+  match?: string;
+  events: MockEvent[];
+}
+
+export interface MockScript {
+  memory?: string[];
+  failOnStart?: string;
+  failOnSend?: string;
+  turns: MockTurn[];
+}
+
+const TRIGGERS: readonly MockTurn['trigger'][] = ['start', 'send', 'voice', 'image'];
+const STATUSES: readonly LiveStatus[] = ['idle', 'listening', 'speaking'];
+
+const record = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? { ...value } : undefined;
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const finite = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const compiles = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// One scripted event, or undefined when its type or payload is not one the mock can play
+const parseEvent = (value: unknown): MockEvent | undefined => {
+  const raw = record(value);
+  const at = finite(raw?.at);
+  if (!raw || at === undefined || at < 0) return undefined;
+  switch (raw.type) {
+    case 'status': {
+      const status = STATUSES.find(candidate => candidate === raw.status);
+      return status && { at, type: 'status', status };
+    }
+    case 'transcription':
+    case 'userTranscription': {
+      const said = text(raw.text);
+      return said === undefined ? undefined : { at, type: raw.type, text: said };
+    }
+    case 'audio': {
+      const durationMs = finite(raw.durationMs);
+      if (durationMs === undefined) return undefined;
+      return { at, type: 'audio', durationMs, amplitude: finite(raw.amplitude), frequency: finite(raw.frequency), play: typeof raw.play === 'boolean' ? raw.play : undefined };
+    }
+    case 'memory': {
+      const fact = text(raw.fact);
+      return fact === undefined ? undefined : { at, type: 'memory', fact };
+    }
+    case 'error': {
+      const message = text(raw.message);
+      // An unknown kind is left to classification, like an error without one
+      return message === undefined ? undefined : { at, type: 'error', message, kind: isErrorKind(raw.kind) ? raw.kind : undefined };
+    }
+    case 'toolCall': {
+      if (!Array.isArray(raw.calls)) return undefined;
+      const calls = raw.calls.flatMap(entry => {
+        const call = record(entry);
+        const name = text(call?.name);
+        return name ? [{ name, args: record(call?.args) }] : [];
+      });
+      return { at, type: 'toolCall', calls };
+    }
+    case 'close':
+      return { at, type: 'close', reason: text(raw.reason) };
+    case 'interrupted':
+    case 'turnComplete':
+      return { at, type: raw.type };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Reads a mock script from parsed JSON. A script without a turns list is rejected;
+ * turns and events the mock cannot play are dropped so the rest still runs.
+ */
+export const parseMockScript = (value: unknown): MockScript => {
+  const raw = record(value);
+  if (!raw || !Array.isArray(raw.turns)) {
+    throw new ModelError('Mock script has no turns');
+  }
+  const turns = raw.turns.flatMap((entry): MockTurn[] => {
+    const turn = record(entry);
+    const trigger = TRIGGERS.find(candidate => candidate === turn?.trigger);
+    const match = text(turn?.match);
+    if (!turn || !trigger || !Array.isArray(turn.events) || (match !== undefined && !compiles(match))) return [];
+    return [{ trigger, match, events: turn.events.map(parseEvent).filter(event => event !== undefined) }];
+  });
+  return {
+    memory: Array.isArray(raw.memory) ? raw.memory.filter(fact => typeof fact === 'string') : undefined,
+    failOnStart: text(raw.failOnStart),
+    failOnSend: text(raw.failOnSend),
+    turns,
+  };
+};
+
+const AUDIO_TICK_MS = 50;
+const SAMPLE_RATE = 24000;
+const SYLLABLE_MS = 220;
+// Rough (F1, F2) pairs for a, e, i, o, u so the synthetic voice exercises every viseme
+const VOWEL_FORMANTS: [number, number][] = [[750, 1200], [500, 1800], [300, 2200], [500, 900], [320, 800]];
+
+/**
+ * Offline stand-in for Gemini Live. Replays a JSON script through the same
+ * callbacks the real service uses, so the Neural Bridge UI can be developed,
+ * demoed and exercised in CI without an API key.
+ */
+export class MockLiveProvider implements LiveProvider {
+  readonly id = 'mock';
+  readonly requiresApiKey = false;
+
+  private script: MockScript | null = null;
+  private callbacks: LiveCallbacks | null = null;
+  private memory: string[] = [];
+  private timers: number[] = [];
+  private transcript = '';
+  private userTranscript = '';
+  private sendCursor = 0;
+  private voiceCursor = 0;
+  private toolCallCount = 0;
+  private audio: AudioSettings = AUDIO_DEFAULTS;
+  private mic: MicCapture | null = null;
+  private playback: AudioPlayback | null = null;
+  private sampleClock = 0;
+  private tonePhase = 0;
+  private noiseSeed = 1;
+
+  constructor(private scriptSource: string | MockScript) {
+    if (typeof scriptSource !== 'string') {
+      this.useScript(scriptSource);
+    }
+  }
+
+  async start(callbacks: LiveCallbacks, _video?: HTMLVideoElement, options?: LiveStartOptions) {
+    this.stop();
+    this.callbacks = callbacks;
+    const script = await this.loadScript();
+    // stop() clears the callbacks, so a session torn down during the first fetch ends here
+    if (this.callbacks !== callbacks) return;
+    if (script.failOnStart) {
+      this.callbacks = null;
+      throw classifyError(script.failOnStart);
+    }
+    if (options?.memories?.length) {
+      this.memory = [...options.memories];
+    }
+
+    this.audio = options?.audio ?? AUDIO_DEFAULTS;
+    this.sendCursor = 0;
+    this.voiceCursor = 0;
+    this.openMic(callbacks);
+    callbacks.onStatusChange('listening');
+    if (options?.resuming) return;
+    script.turns
+      .filter(turn => turn.trigger === 'start')
+      .forEach(turn => this.playTurn(turn));
+  }
+
+  async send(text: string) {
+    if (!this.callbacks || !this.script) {
+      throw new NetworkError('Mock Neural Bridge is not connected');
+    }
+    if (this.script.failOnSend) {
+      throw classifyError(this.script.failOnSend);
+    }
+
+    const replies = this.script.turns.filter(turn => turn.trigger === 'send');
+    const fallbacks = replies.filter(turn => !turn.match);
+    const turn = replies.find(t => t.match && new RegExp(t.match, 'i').test(text))
+      ?? fallbacks[this.sendCursor++ % Math.max(1, fallbacks.length)];
+    if (turn) this.playTurn(turn);
+  }
+
+  async sendImage(_image: LiveImage, prompt = '') {
+    if (!this.callbacks || !this.script) {
+      throw new NetworkError('Mock Neural Bridge is not connected');
+    }
+    const replies = this.script.turns.filter(turn => turn.trigger === 'image');
+    const turn = replies.find(t => t.match && new RegExp(t.match, 'i').test(prompt)) ?? replies.find(t => !t.match);
+    if (turn) {
+      this.playTurn(turn);
+    } else {
+      await this.send(prompt);
+    }
+  }
+
+  setVision(_video: HTMLVideoElement | null) {
+    // Vision frames are ignored by the mock; scripts describe the replies directly.
+  }
+
+  interrupt() {
+    this.cancelPlayback();
+    this.callbacks?.onInterrupted?.();
+  }
+
+  setMicrophoneEnabled(_enabled: boolean) {
+    // Nothing is streamed upstream by the mock; mic frames only feed onInputAudio.
+  }
+
+  signalActivity(signal: ActivitySignal) {
+    if (signal !== 'end' || !this.callbacks || !this.script) return;
+    const voiceTurns = this.script.turns.filter(turn => turn.trigger === 'voice');
+    const turn = voiceTurns[this.voiceCursor++ % Math.max(1, voiceTurns.length)];
+    if (turn) this.playTurn(turn);
+  }
+
+  sendToolResponses(responses: LiveToolResponse[]) {
+    if (!this.callbacks || responses.length === 0) return;
+    const summary = responses
+      .map(r => `${r.name} → ${JSON.stringify(r.response.output ?? r.response.error)}`)
+      .join('; ')
+      .slice(0, 200);
+    this.playTurn({
+      trigger: 'send',
+      events: [
+        { at: 200, type: 'status', status: 'speaking' },
+        { at: 200, type: 'audio', durationMs: 1600 },
+        { at: 300, type: 'transcription', text: `Tool result received: ${summary}` },
+        { at: 1900, type: 'turnComplete' },
+        { at: 1950, type: 'status', status: 'listening' },
+      ],
+    });
+  }
+
+  stop() {
+    this.cancelPlayback();
+    this.callbacks = null;
+    this.closeMic();
+    this.playback?.close();
+    this.playback = null;
+  }
+
+  getStoredMemory(): string[] {
+    return [...this.memory];
+  }
+
+  private async loadScript(): Promise<MockScript> {
+    if (this.script) return this.script;
+    const response = await fetch(this.scriptSource as string);
+    if (!response.ok) {
+      throw new NetworkError(`Mock script unavailable (${response.status})`);
+    }
+    return this.useScript(parseMockScript(await response.json()));
+  }
+
+  private useScript(script: MockScript): MockScript {
+    this.script = script;
+    this.memory = [...(script.memory ?? [])];
+    return script;
+  }
+
+  private cancelPlayback() {
+    this.timers.forEach(id => clearTimeout(id));
+    this.timers = [];
+    this.transcript = '';
+    this.userTranscript = '';
+    this.playback?.flush();
+  }
+
+  // Real mic capture, so voice detection and push-to-talk can be tried offline.
+  private async openMic(callbacks: LiveCallbacks) {
+    const mic = new MicCapture(this.audio, (pcm, sampleRate) => this.callbacks?.onInputAudio?.(pcm, sampleRate));
+    try {
+      await mic.open();
+    } catch {
+      return; // The mock works without a microphone; spoken turns simply never happen
+    }
+    if (this.callbacks !== callbacks) {
+      mic.close();
+      return;
+    }
+    this.mic = mic;
+  }
+
+  private closeMic() {
+    this.mic?.close();
+    this.mic = null;
+  }
+
+  private schedule(delay: number, fn: () => void) {
+    this.timers.push(window.setTimeout(fn, delay));
+  }
+
+  private playTurn(turn: MockTurn) {
+    turn.events.forEach(event => this.schedule(event.at, () => this.emit(event)));
+  }
+
+  private emit(event: MockEvent) {
+    const cb = this.callbacks;
+    if (!cb) return;
+
+    switch (event.type) {
+      case 'status':
+        cb.onStatusChange(event.status);
+        break;
+      case 'transcription':
+        this.transcript += event.text;
+        cb.onTranscription(this.transcript);
+        break;
+      case 'userTranscription':
+        this.userTranscript += event.text;
+        cb.onInputTranscription?.(this.userTranscript);
+        break;
+      case 'audio':
+        this.playAudio(event);
+        break;
+      case 'memory':
+        this.memory.push(event.fact);
+        cb.onMemoryUpdate(event.fact);
+        break;
+      case 'error':
+        cb.onError(event.kind ? createError(event.kind, event.message) : classifyError(event.message));
+        break;
+      case 'interrupted':
+        this.transcript = '';
+        cb.onInterrupted?.();
+        break;
+      case 'toolCall':
+        cb.onToolCall?.(event.calls.map(call => ({
+          id: `mock-call-${++this.toolCallCount}`,
+          name: call.name,
+          args: call.args ?? {},
+        })));
+        break;
+      case 'close':
+        this.stop();
+        cb.onClose?.(event.reason ?? 'Mock connection dropped');
+        break;
+      case 'turnComplete':
+        this.transcript = '';
+        this.userTranscript = '';
+        cb.onTurnComplete();
+        break;
+    }
+  }
+
+  // Synthetic speech: a syllable-rate envelope drives onAudioLevel and, optionally, an audible tone.
+  private playAudio(event: Extract<MockEvent, { type: 'audio' }>) {
+    const amplitude = event.amplitude ?? 0.6;
+    const ticks = Math.max(1, Math.round(event.durationMs / AUDIO_TICK_MS));
+    const envelope = (i: number) => {
+      const t = i / ticks;
+      const fade = Math.min(1, t * 8, (1 - t) * 8);
+      return amplitude * fade * (0.55 + 0.45 * Math.abs(Math.sin(i * AUDIO_TICK_MS / 1000 * Math.PI * 4)));
+    };
+
+    for (let i = 0; i <= ticks; i++) {
+      this.schedule(i * AUDIO_TICK_MS, () => {
+        const level = i === ticks ? 0 : envelope(i);
+        if (event.play && i < ticks) {
+          this.playback ??= new AudioPlayback(this.audio, error => this.callbacks?.onError(error));
+          this.playback.push(this.tone(level * 0.2, event.frequency ?? 180), SAMPLE_RATE);
+        }
+        this.callbacks?.onAudioLevel(level);
+        if (i < ticks) this.callbacks?.onOutputAudio?.(this.synthesize(level, i * AUDIO_TICK_MS), SAMPLE_RATE);
+      });
+    }
+  }
+
+  // One tick of the audible test tone, phase-continuous across ticks.
+  private tone(gain: number, frequency: number): Float32Array {
+    const pcm = new Float32Array((SAMPLE_RATE * AUDIO_TICK_MS) / 1000);
+    for (let i = 0; i < pcm.length; i++) {
+      this.tonePhase = (this.tonePhase + (2 * Math.PI * frequency) / SAMPLE_RATE) % (2 * Math.PI);
+      pcm[i] = gain * Math.sin(this.tonePhase);
+    }
+    return pcm;
+  }
+
+  // Formant-like vowels with an occasional noise burst standing in for fricatives.
+  private synthesize(level: number, offsetMs: number): Float32Array {
+    const pcm = new Float32Array((SAMPLE_RATE * AUDIO_TICK_MS) / 1000);
+    const syllable = Math.floor(offsetMs / SYLLABLE_MS);
+    const [f1, f2] = VOWEL_FORMANTS[syllable % VOWEL_FORMANTS.length];
+    const fricative = syllable % 4 === 3 && offsetMs % SYLLABLE_MS < SYLLABLE_MS * 0.4;
+
+    for (let i = 0; i < pcm.length; i++) {
+      const t = this.sampleClock++ / SAMPLE_RATE;
+      if (fricative) {
+        this.noiseSeed = (this.noiseSeed * 1103515245 + 12345) & 0x7fffffff;
+        pcm[i] = level * 0.5 * (this.noiseSeed / 0x3fffffff - 1);
+      } else {
+        pcm[i] = level * (0.6 * Math.sin(2 * Math.PI * f1 * t) + 0.3 * Math.sin(2 * Math.PI * f2 * t) + 0.1 * Math.sin(2 * Math.PI * 140 * t));
+      }
+    }
+    return pcm;
+  }
+}
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parsePersona, PersonaService } from './personas';
+
+const persona = {
+  id: 'ada',
+  name: 'Ada',
+  avatarUrl: '/avatars/ada.png',
+  systemInstruction: 'You are Ada.',
+  language: 'en-GB',
+  greeting: 'Hello.',
+};
+
+describe('parsePersona', () => {
+  it('fills in the voice and namespace a file leaves out', () => {
+    expect(parsePersona(persona)).toMatchObject({
+      voice: { voiceName: 'Kore', speakingRate: 1, pitch: 1, quality: 'high' },
+      memoryNamespace: 'ada',
+      veoClipUrl: undefined,
+    });
+  });
+
+  it('replaces an unknown quality and rates that are not numbers', () => {
+    const parsed = parsePersona({ ...persona, voice: { voiceName: 'Puck', speakingRate: 'fast', pitch: '1.2', quality: 'ultra' } });
+
+    expect(parsed.voice).toEqual({ voiceName: 'Puck', speakingRate: 1, pitch: 1.2, quality: 'high' });
+  });
+
+  it('names every missing field and refuses ids outside the allowed characters', () => {
+    expect(() => parsePersona(null)).toThrow('Persona is missing id, name, avatarUrl, systemInstruction, language, greeting');
+    expect(() => parsePersona({ ...persona, name: ' ', greeting: 3 })).toThrow('Persona is missing name, greeting');
+    expect(() => parsePersona({ ...persona, id: '../ada' })).toThrow('letters, digits and dashes');
+  });
+});
+
+describe('PersonaService', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('skips an invalid custom persona without dropping the others', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('astra.personas.custom', JSON.stringify([{ id: 'broken' }, persona]));
+
+    expect(PersonaService.list().map(p => p.id)).toContain('ada');
+    expect(PersonaService.list().map(p => p.id)).not.toContain('broken');
+  });
+});
@@ -0,0 +1,139 @@
+import { SpeechOptions } from '../gemini';
+import type { ExpressionOverrides } from './avatar-animator';
+
+/**
+ * Everything that makes a twin a particular person. Bundled personas live in
+ * Src/personas/*.json; more can be imported from JSON files at runtime.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  // The real person the twin represents, if different from its display name
+  subject?: string;
+  avatarUrl: string;
+  veoClipUrl?: string;
+  voice: SpeechOptions;
+  systemInstruction: string;
+  // BCP-47 tag, e.g. 'en-US' or 'fa-IR'
+  language: string;
+  greeting: string;
+  memoryNamespace: string;
+  // Tweaks to the bundled expression presets, validated when the animator loads them
+  expressions?: ExpressionOverrides;
+}
+
+export const DEFAULT_NAMESPACE = 'astra';
+// Bundled and precached, shown when a persona's own avatar cannot be loaded (e.g. offline)
+export const FALLBACK_AVATAR_URL = '/avatars/astra.svg';
+
+// <img> error handler that swaps in the bundled avatar once
+export const showFallbackAvatar = (event: { currentTarget: HTMLImageElement }) => {
+  if (!event.currentTarget.src.endsWith(FALLBACK_AVATAR_URL)) event.currentTarget.src = FALLBACK_AVATAR_URL;
+};
+
+const CUSTOM_KEY = 'astra.personas.custom';
+const ACTIVE_KEY = 'astra.personas.active';
+
+const bundled = Object.values(
+  import.meta.glob<Persona>('../personas/*.json', { eager: true, import: 'default' })
+);
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value : undefined);
+
+// Unset or unparsable numbers take the fallback so a persona file can never send NaN to the speech model
+const finite = (value: unknown, fallback: number) => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : fallback;
+};
+
+const QUALITIES: readonly SpeechOptions['quality'][] = ['high', 'standard'];
+
+export const parsePersona = (value: unknown): Persona => {
+  const raw: Record<string, unknown> = value && typeof value === 'object' ? { ...value } : {};
+  const missing = ['id', 'name', 'avatarUrl', 'systemInstruction', 'language', 'greeting']
+    .filter(field => !text(raw[field]));
+  if (missing.length > 0) {
+    throw new Error(`Persona is missing ${missing.join(', ')}`);
+  }
+  const id = raw.id as string;
+  if (!/^[a-z0-9-]+$/i.test(id)) {
+    throw new Error('Persona id may only contain letters, digits and dashes');
+  }
+  const voice: Record<string, unknown> = raw.voice && typeof raw.voice === 'object' ? { ...raw.voice } : {};
+  return {
+    id,
+    name: raw.name as string,
+    subject: text(raw.subject),
+    avatarUrl: raw.avatarUrl as string,
+    veoClipUrl: text(raw.veoClipUrl),
+    voice: {
+      voiceName: text(voice.voiceName) ?? 'Kore',
+      speakingRate: finite(voice.speakingRate, 1),
+      pitch: finite(voice.pitch, 1),
+      quality: QUALITIES.find(quality => quality === voice.quality) ?? 'high',
+    },
+    systemInstruction: raw.systemInstruction as string,
+    language: raw.language as string,
+    greeting: raw.greeting as string,
+    // Namespaces default to the persona id so imported twins never share memories by accident
+    memoryNamespace: text(raw.memoryNamespace) ?? id,
+    expressions: raw.expressions && typeof raw.expressions === 'object' ? raw.expressions as ExpressionOverrides : undefined,
+  };
+};
+
+// One unreadable entry (e.g. written by an older version) is skipped; the others stay available
+const readCustom = (): Persona[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(CUSTOM_KEY) || '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(entry => {
+    try {
+      return [parsePersona(entry)];
+    } catch (e) {
+      console.warn('Skipping invalid custom persona', e);
+      return [];
+    }
+  });
+};
+
+export class PersonaService {
+  static list(): Persona[] {
+    const custom = readCustom();
+    const bundledIds = new Set(bundled.map(p => p.id));
+    return [...bundled.map(parsePersona), ...custom.filter(p => !bundledIds.has(p.id))];
+  }
+
+  static isBundled(id: string): boolean {
+    return bundled.some(p => p.id === id);
+  }
+
+  static get(id: string | null): Persona {
+    const personas = PersonaService.list();
+    return personas.find(p => p.id === id) ?? personas.find(p => p.id === DEFAULT_NAMESPACE) ?? personas[0];
+  }
+
+  static getActive(): Persona {
+    return PersonaService.get(localStorage.getItem(ACTIVE_KEY));
+  }
+
+  static setActive(id: string) {
+    localStorage.setItem(ACTIVE_KEY, id);
+  }
+
+  static async importFile(file: File): Promise<Persona> {
+    const persona = parsePersona(JSON.parse(await file.text()));
+    if (PersonaService.isBundled(persona.id)) {
+      throw new Error(`"${persona.id}" is a built-in persona; choose another id`);
+    }
+    localStorage.setItem(CUSTOM_KEY, JSON.stringify([...readCustom().filter(p => p.id !== persona.id), persona]));
+    return persona;
+  }
+
+  static remove(id: string) {
+    localStorage.setItem(CUSTOM_KEY, JSON.stringify(readCustom().filter(p => p.id !== id)));
+  }
+}
@@ -0,0 +1,93 @@
+// Chrome's install prompt; not in the DOM typings
+interface BeforeInstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+export interface PwaState {
+  online: boolean;
+  // The browser offered to install the app and the prompt has not been used yet
+  installable: boolean;
+  // A newer deploy is installed and waiting for the page to reload into it
+  updateReady: boolean;
+}
+
+let state: PwaState = { online: navigator.onLine, installable: false, updateReady: false };
+let installPrompt: BeforeInstallPromptEvent | null = null;
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+const update = (changes: Partial<PwaState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+// Registered at import time: the install prompt can fire before React mounts
+window.addEventListener('online', () => update({ online: true }));
+window.addEventListener('offline', () => update({ online: false }));
+window.addEventListener('beforeinstallprompt', (event) => {
+  event.preventDefault();
+  installPrompt = event as BeforeInstallPromptEvent;
+  update({ installable: true });
+});
+window.addEventListener('appinstalled', () => {
+  installPrompt = null;
+  update({ installable: false });
+});
+
+const trackWaiting = (worker: ServiceWorker | null) => {
+  // Without a controller this is the first install, not an update
+  if (!worker || !navigator.serviceWorker.controller) return;
+  waitingWorker = worker;
+  update({ updateReady: true });
+};
+
+/**
+ * Installability, connectivity and updates for the app shell. The service
+ * worker in public/sw.js is only registered in production builds, where the
+ * hashed bundles it precaches exist.
+ */
+export class PwaService {
+  static async register() {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    try {
+      const registration = await navigator.serviceWorker.register(`/sw.js?v=${encodeURIComponent(process.env.BUILD_ID ?? '')}`);
+      trackWaiting(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed') trackWaiting(installing);
+        });
+      });
+    } catch (e) {
+      console.error("Service worker registration failed", e);
+    }
+  }
+
+  static getState(): PwaState {
+    return state;
+  }
+
+  static subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static async install(): Promise<boolean> {
+    if (!installPrompt) return false;
+    const prompt = installPrompt;
+    installPrompt = null;
+    update({ installable: false });
+    await prompt.prompt();
+    return (await prompt.userChoice).outcome === 'accepted';
+  }
+
+  // Activates the waiting worker and reloads once it controls the page.
+  static applyUpdate() {
+    if (!waitingWorker) return;
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SESSION, SessionEvent, SessionSnapshot, dropEndsSession, isSessionOpen, reconnectPolicy, toLiveStatus, transition } from './session-machine';
+import { RETRY_POLICIES } from './errors';
+
+const run = (events: SessionEvent[], from: SessionSnapshot = INITIAL_SESSION) => events.reduce(transition, from);
+
+const dropped = (kind: 'network' | 'unavailable' | 'auth' = 'network'): SessionEvent => ({ type: 'dropped', reason: 'socket closed', kind });
+const retryFailed: SessionEvent = { type: 'retryFailed', reason: 'still down', kind: 'network' };
+
+describe('transition', () => {
+  it('connects and follows the turn cycle', () => {
+    const connected = run([{ type: 'connect' }, { type: 'connected' }]);
+    expect(connected.state).toBe('listening');
+
+    expect(run([{ type: 'thinking' }], connected).state).toBe('thinking');
+    expect(run([{ type: 'speaking' }, { type: 'interrupted' }], connected).state).toBe('interrupted');
+    expect(run([{ type: 'speaking' }, { type: 'turnComplete' }], connected).state).toBe('listening');
+  });
+
+  it('accepts a first status that arrives before connected', () => {
+    expect(run([{ type: 'connect' }, { type: 'speaking' }]).state).toBe('speaking');
+  });
+
+  it('ignores turn events while closed', () => {
+    expect(run([{ type: 'speaking' }, { type: 'connected' }, dropped()])).toBe(INITIAL_SESSION);
+  });
+
+  it('reconnects a dropped session and resets once connected', () => {
+    const reconnecting = run([{ type: 'connect' }, { type: 'connected' }, dropped()]);
+    expect(reconnecting).toMatchObject({ state: 'reconnecting', attempt: 1, error: 'socket closed', errorKind: 'network' });
+
+    expect(run([{ type: 'connected' }], reconnecting)).toMatchObject({ state: 'listening', attempt: 0, error: null, errorKind: null });
+  });
+
+  it('reconnects a session that drops while connecting', () => {
+    expect(run([{ type: 'connect' }, dropped()])).toMatchObject({ state: 'reconnecting', attempt: 1, errorKind: 'network' });
+  });
+
+  it('fails a session that drops while connecting with a failure that is not retried', () => {
+    expect(run([{ type: 'connect' }, dropped('auth')])).toMatchObject({ state: 'error', attempt: 0, errorKind: 'auth' });
+  });
+
+  it('counts drops during a reconnect as failed attempts', () => {
+    const reconnecting = run([{ type: 'connect' }, { type: 'connected' }, dropped()]);
+
+    expect(run([dropped()], reconnecting)).toMatchObject({ state: 'reconnecting', attempt: 2 });
+    expect(run([retryFailed, dropped()], reconnecting)).toMatchObject({ state: 'reconnecting', attempt: 3 });
+  });
+
+  it('gives up once the retry budget of the failure is spent', () => {
+    const { maxAttempts } = RETRY_POLICIES.unavailable;
+    let snapshot = run([{ type: 'connect' }, dropped('unavailable')]);
+    for (let i = 1; i < maxAttempts; i++) snapshot = transition(snapshot, dropped('unavailable'));
+    expect(snapshot).toMatchObject({ state: 'reconnecting', attempt: maxAttempts });
+
+    expect(transition(snapshot, dropped('unavailable'))).toMatchObject({ state: 'error', attempt: 0, error: 'socket closed', errorKind: 'unavailable' });
+    expect(transition(snapshot, { ...retryFailed, kind: 'unavailable' })).toMatchObject({ state: 'error', errorKind: 'unavailable' });
+  });
+
+  it('fails and closes from any open state', () => {
+    const reconnecting = run([{ type: 'connect' }, dropped()]);
+
+    expect(run([{ type: 'failed', error: 'denied', kind: 'permission' }], reconnecting))
+      .toMatchObject({ state: 'error', attempt: 0, error: 'denied', errorKind: 'permission' });
+    expect(run([{ type: 'close' }], reconnecting)).toMatchObject({ state: 'closed', attempt: 0, error: null });
+    expect(run([{ type: 'failed', error: 'late', kind: null }])).toBe(INITIAL_SESSION);
+  });
+
+  it('opens again from the error state', () => {
+    const failed = run([{ type: 'connect' }, { type: 'failed', error: 'boom', kind: 'model' }]);
+
+    expect(run([{ type: 'connect' }], failed)).toMatchObject({ state: 'connecting', error: null, errorKind: null });
+  });
+
+  it('keeps the entry time while the state does not change', () => {
+    const listening = { ...run([{ type: 'connect' }, { type: 'connected' }]), since: 1 };
+
+    expect(transition(listening, { type: 'turnComplete' }).since).toBe(1);
+    expect(transition(listening, { type: 'speaking' }).since).not.toBe(1);
+  });
+});
+
+describe('helpers', () => {
+  it('maps states onto the avatar looks', () => {
+    expect(toLiveStatus('speaking')).toBe('speaking');
+    expect(toLiveStatus('thinking')).toBe('listening');
+    expect(toLiveStatus('reconnecting')).toBe('idle');
+  });
+
+  it('treats everything short of closed or error as open', () => {
+    expect(isSessionOpen('reconnecting')).toBe(true);
+    expect(isSessionOpen('error')).toBe(false);
+  });
+
+  it('tells the app which drops end the session', () => {
+    const connecting = run([{ type: 'connect' }]);
+    const connected = run([{ type: 'connected' }], connecting);
+    expect(dropEndsSession(connecting, 'network')).toBe(false);
+    expect(dropEndsSession(connecting, 'auth')).toBe(true);
+    expect(dropEndsSession(connected, 'auth')).toBe(false);
+    expect(dropEndsSession(INITIAL_SESSION, 'auth')).toBe(false);
+
+    const { maxAttempts } = RETRY_POLICIES.network;
+    const spent = run(Array.from({ length: maxAttempts }, () => dropped()), connected);
+    expect(spent).toMatchObject({ state: 'reconnecting', attempt: maxAttempts });
+    expect(dropEndsSession(spent, 'network')).toBe(true);
+  });
+
+  it('reconnects an unexplained drop with the network policy', () => {
+    expect(reconnectPolicy(INITIAL_SESSION)).toBe(RETRY_POLICIES.network);
+  });
+});
@@ -0,0 +1,122 @@
+import type { LiveStatus } from './live-provider';
+import { ErrorKind, RETRY_POLICIES, RetryPolicy } from './errors';
+
+export type SessionState =
+  | 'closed'
+  | 'connecting'
+  | 'listening'
+  | 'thinking'
+  | 'speaking'
+  | 'interrupted'
+  | 'reconnecting'
+  | 'error';
+
+export type SessionEvent =
+  | { type: 'connect' }
+  | { type: 'connected' }
+  | { type: 'listening' }
+  | { type: 'thinking' }
+  | { type: 'speaking' }
+  | { type: 'interrupted' }
+  | { type: 'turnComplete' }
+  // The link went away without the user closing it
+  | { type: 'dropped'; reason: string; kind: ErrorKind }
+  | { type: 'retryFailed'; reason: string; kind: ErrorKind }
+  | { type: 'failed'; error: string; kind: ErrorKind | null }
+  | { type: 'close' };
+
+export interface SessionSnapshot {
+  state: SessionState;
+  // Reconnect attempt in progress, 0 while the link is healthy
+  attempt: number;
+  error: string | null;
+  // Kind of the last failure, which picks the reconnect policy
+  errorKind: ErrorKind | null;
+  since: number;
+}
+
+const CONNECTED_STATES: SessionState[] = ['listening', 'thinking', 'speaking', 'interrupted'];
+
+export const INITIAL_SESSION: SessionSnapshot = { state: 'closed', attempt: 0, error: null, errorKind: null, since: 0 };
+
+export const isConnectedState = (state: SessionState) => CONNECTED_STATES.includes(state);
+
+// Anything short of closed or failed still owns a provider connection or a pending retry.
+export const isSessionOpen = (state: SessionState) => state !== 'closed' && state !== 'error';
+
+// Collapses the machine onto the three looks the avatar knows how to render.
+export const toLiveStatus = (state: SessionState): LiveStatus =>
+  state === 'speaking' ? 'speaking' : isConnectedState(state) ? 'listening' : 'idle';
+
+// Retry budget and backoff for the failure that is being reconnected from; an unexplained drop counts as network.
+export const reconnectPolicy = (snapshot: SessionSnapshot): RetryPolicy => RETRY_POLICIES[snapshot.errorKind ?? 'network'];
+
+const enter = (snapshot: SessionSnapshot, state: SessionState, changes: Partial<SessionSnapshot> = {}): SessionSnapshot => ({
+  ...snapshot,
+  ...changes,
+  state,
+  since: snapshot.state === state ? snapshot.since : Date.now(),
+});
+
+// Another reconnect attempt, or the error state once the failure's retry budget is spent.
+const retryOrFail = (snapshot: SessionSnapshot, reason: string, kind: ErrorKind): SessionSnapshot =>
+  snapshot.attempt >= RETRY_POLICIES[kind].maxAttempts
+    ? enter(snapshot, 'error', { attempt: 0, error: reason, errorKind: kind })
+    : enter(snapshot, 'reconnecting', { attempt: snapshot.attempt + 1, error: reason, errorKind: kind });
+
+/**
+ * Pure transition function for the Neural Bridge session. Events that make no
+ * sense in the current state are ignored, so late callbacks from a dropped
+ * connection cannot resurrect it.
+ */
+export const transition = (snapshot: SessionSnapshot, event: SessionEvent): SessionSnapshot => {
+  const { state } = snapshot;
+
+  if (event.type === 'close') return enter(snapshot, 'closed', { attempt: 0, error: null, errorKind: null });
+  if (event.type === 'failed') {
+    return state === 'closed' ? snapshot : enter(snapshot, 'error', { attempt: 0, error: event.error, errorKind: event.kind });
+  }
+
+  switch (state) {
+    case 'closed':
+    case 'error':
+      return event.type === 'connect' ? enter(snapshot, 'connecting', { attempt: 0, error: null, errorKind: null }) : snapshot;
+
+    case 'connecting':
+      // Providers may report their first status before start() resolves
+      if (event.type === 'connected' || event.type === 'listening') return enter(snapshot, 'listening');
+      if (event.type === 'dropped') return retryOrFail(snapshot, event.reason, event.kind);
+      return event.type === 'speaking' ? enter(snapshot, 'speaking') : snapshot;
+
+    case 'reconnecting':
+      if (event.type === 'connected') return enter(snapshot, 'listening', { attempt: 0, error: null, errorKind: null });
+      // A socket that opens and drops again before the reconnect settles uses up an attempt like a failed one
+      if (event.type === 'retryFailed' || event.type === 'dropped') return retryOrFail(snapshot, event.reason, event.kind);
+      return snapshot;
+
+    default:
+      switch (event.type) {
+        case 'listening':
+        case 'turnComplete':
+          return enter(snapshot, 'listening');
+        case 'thinking':
+          return enter(snapshot, 'thinking');
+        case 'speaking':
+          return enter(snapshot, 'speaking');
+        case 'interrupted':
+          return enter(snapshot, 'interrupted');
+        case 'dropped':
+          return enter(snapshot, 'reconnecting', { attempt: 1, error: event.reason, errorKind: event.kind });
+        default:
+          return snapshot;
+      }
+  }
+};
+
+/**
+ * Whether a drop in this snapshot moves the session to error instead of
+ * scheduling a reconnect. The app fails such sessions itself so they get
+ * the same cleanup as any other failure.
+ */
+export const dropEndsSession = (snapshot: SessionSnapshot, kind: ErrorKind) =>
+  transition(snapshot, { type: 'dropped', reason: '', kind }).state === 'error';
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LiveCallbacks } from './live-provider';
+import { NetworkError } from './errors';
+import { decodePcm16, encodePcm16 } from './audio-pipeline';
+import type { RecordedEvent, SessionRecording } from './session-recorder';
+
+// No audio devices here: replayed audio is queued nowhere
+vi.mock('./audio-pipeline', async importOriginal => ({
+  ...(await importOriginal<typeof import('./audio-pipeline')>()),
+  AudioPlayback: class {
+    push() {}
+    flush() {}
+    close() {}
+  },
+}));
+
+const { ReplayLiveProvider, SessionRecorder, parseRecording } = await import('./session-recorder');
+
+const INFO = { personaId: 'astra', provider: 'gemini', language: 'en-US' };
+
+const callbacks = (changes: Partial<LiveCallbacks> = {}): LiveCallbacks => ({
+  onAudioLevel: vi.fn(),
+  onStatusChange: vi.fn(),
+  onTranscription: vi.fn(),
+  onMemoryUpdate: vi.fn(),
+  onTurnComplete: vi.fn(),
+  onError: vi.fn(),
+  ...changes,
+});
+
+const recording = (...segments: SessionRecording['segments'][number]['events'][]): SessionRecording => ({
+  format: 'astra-session',
+  version: 1,
+  recordedAt: '2026-03-14T09:30:00.000Z',
+  ...INFO,
+  segments: segments.map(events => ({ startedAt: 0, resuming: false, events })),
+  audioTruncated: false,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance', 'Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('SessionRecorder', () => {
+  it('records each callback on the connection timeline and passes it on', () => {
+    const recorder = new SessionRecorder(INFO);
+    const target = callbacks({ onSources: vi.fn() });
+    const wrapped = recorder.wrap(target, false);
+
+    wrapped.onStatusChange('speaking');
+    vi.advanceTimersByTime(250);
+    wrapped.onSources?.(['CV › Projects']);
+    wrapped.onError(new NetworkError('socket closed'));
+
+    expect(target.onStatusChange).toHaveBeenCalledWith('speaking');
+    expect(target.onSources).toHaveBeenCalledWith(['CV › Projects']);
+    expect(recorder.finish().segments[0].events).toEqual([
+      { type: 'status', status: 'speaking', t: 0 },
+      { type: 'sources', sources: ['CV › Projects'], t: 250 },
+      { type: 'error', kind: 'network', message: 'socket closed', t: 250 },
+    ]);
+  });
+
+  it('stores audio with the shared PCM16 codec and stops after ten minutes per direction', () => {
+    const recorder = new SessionRecorder(INFO);
+    const wrapped = recorder.wrap(callbacks(), false);
+    const pcm = new Float32Array([0, 0.5, -0.5, 1]);
+
+    wrapped.onOutputAudio?.(pcm, 4);
+    const [event] = recorder.finish().segments[0].events;
+    expect(event).toMatchObject({ type: 'outputAudio', sampleRate: 4, pcm: encodePcm16(pcm) });
+
+    wrapped.onOutputAudio?.(new Float32Array(600 * 4), 4);
+    wrapped.onInputAudio?.(pcm, 4);
+    const finished = recorder.finish();
+    expect(finished.audioTruncated).toBe(true);
+    expect(finished.segments[0].events.map(e => e.type)).toEqual(['outputAudio', 'inputAudio']);
+  });
+
+  it('round-trips through JSON and refuses other files', () => {
+    const recorder = new SessionRecorder(INFO);
+    recorder.wrap(callbacks(), false).onTurnComplete();
+    recorder.wrap(callbacks(), true).onTurnComplete();
+    const parsed = parseRecording(JSON.stringify(recorder.finish()));
+
+    expect(parsed.segments.map(segment => segment.resuming)).toEqual([false, true]);
+    expect(() => parseRecording('{"format": "other"}')).toThrow('Not an Astra session recording');
+    expect(() => parseRecording(JSON.stringify({ ...parsed, version: 2 }))).toThrow('Recording version 2 is not supported');
+  });
+
+  it('drops events it cannot replay and rejects connections without events', async () => {
+    const pcm = encodePcm16(new Float32Array([0.25]));
+    const file = JSON.stringify(recording([
+      { type: 'status', status: 'speaking', t: 0 },
+      { type: 'error', kind: 'cosmic', message: 'Unknown kind', t: 10 },
+      { type: 'outputAudio', sampleRate: 24000, t: 20 },
+      { type: 'inputAudio', sampleRate: 24000, pcm: 'not base64!', t: 20 },
+      { type: 'transcription', t: 30 },
+      { type: 'teleport', t: 40 },
+      { type: 'turnComplete' },
+      { type: 'outputAudio', sampleRate: 24000, pcm, t: 50 },
+      { type: 'error', kind: 'quota', message: 'Out of quota', t: 60 },
+    ] as unknown as RecordedEvent[]));
+
+    const parsed = parseRecording(file);
+    expect(parsed.segments[0].events.map(event => event.type)).toEqual(['status', 'outputAudio', 'error']);
+
+    const target = callbacks();
+    await new ReplayLiveProvider(parsed).start(target);
+    vi.advanceTimersByTime(100);
+    expect(target.onError).toHaveBeenCalledOnce();
+    expect(vi.mocked(target.onError).mock.calls[0][0].kind).toBe('quota');
+
+    expect(() => parseRecording(JSON.stringify({ ...parsed, segments: [{ startedAt: 0, resuming: false }] })))
+      .toThrow('a connection has no events');
+  });
+});
+
+describe('ReplayLiveProvider', () => {
+  it('replays events on their timeline with one timer pending at a time', async () => {
+    const target = callbacks({ onSources: vi.fn(), onOutputAudio: vi.fn() });
+    const pcm = encodePcm16(new Float32Array([0.25, -0.25]));
+    const replay = new ReplayLiveProvider(recording([
+      { type: 'status', status: 'speaking', t: 0 },
+      { type: 'outputAudio', sampleRate: 24000, pcm, t: 0 },
+      { type: 'transcription', text: 'Hello', t: 1000 },
+      { type: 'sources', sources: ['CV'], t: 1000 },
+      { type: 'turnComplete', t: 3000 },
+    ]));
+
+    await replay.start(target);
+    expect(vi.getTimerCount()).toBe(1);
+    vi.advanceTimersByTime(0);
+    expect(target.onStatusChange).toHaveBeenCalledWith('speaking');
+    expect(target.onOutputAudio).toHaveBeenCalledWith(decodePcm16(pcm), 24000);
+    expect(target.onTranscription).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(target.onTranscription).toHaveBeenCalledWith('Hello');
+    expect(target.onSources).toHaveBeenCalledWith(['CV']);
+    expect(target.onTurnComplete).not.toHaveBeenCalled();
+
+    replay.stop();
+    vi.advanceTimersByTime(5000);
+    expect(target.onTurnComplete).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('finishes after the last connection unless it ended in a drop', async () => {
+    const onFinished = vi.fn();
+    const replay = new ReplayLiveProvider(recording(
+      [{ type: 'close', reason: 'dropped', t: 100 }],
+      [{ type: 'turnComplete', t: 200 }],
+    ), onFinished);
+    const onClose = vi.fn();
+
+    await replay.start(callbacks({ onClose }));
+    vi.advanceTimersByTime(5000);
+    expect(onClose).toHaveBeenCalledWith('dropped');
+    expect(onFinished).not.toHaveBeenCalled();
+
+    await replay.start(callbacks());
+    vi.advanceTimersByTime(699);
+    expect(onFinished).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onFinished).toHaveBeenCalledTimes(1);
+    await expect(replay.start(callbacks())).rejects.toThrow('no more connections');
+  });
+
+  it('stops dispatching when a callback ends the replay', async () => {
+    const onTurnComplete = vi.fn();
+    const replay = new ReplayLiveProvider(recording([
+      { type: 'close', reason: 'dropped', t: 0 },
+      { type: 'turnComplete', t: 0 },
+    ]));
+
+    await replay.start(callbacks({ onClose: () => replay.stop(), onTurnComplete }));
+    vi.advanceTimersByTime(1000);
+
+    expect(onTurnComplete).not.toHaveBeenCalled();
+  });
+});
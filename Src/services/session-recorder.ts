@@ -0,0 +1,420 @@
+import type { ActivitySignal, LiveCallbacks, LiveImage, LiveProvider, LiveStartOptions, LiveStatus, LiveToolCall, LiveToolResponse } from './live-provider';
+import { ErrorKind, ModelError, createError, isErrorKind } from './errors';
+import { AUDIO_DEFAULTS } from './audio-devices';
+import { AudioPlayback, decodePcm16, encodePcm16 } from './audio-pipeline';
+
+// Everything a provider can report through LiveCallbacks, in the order it happened.
+// Audio is 16-bit little-endian PCM, base64 encoded.
+export type RecordedPayload =
+  | { type: 'audioLevel'; level: number }
+  | { type: 'status'; status: LiveStatus }
+  | { type: 'transcription'; text: string }
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputAudio'; sampleRate: number; pcm: string }
+  | { type: 'inputAudio'; sampleRate: number; pcm: string }
+  | { type: 'memory'; fact: string }
+  | { type: 'sources'; sources: string[] }
+  | { type: 'turnComplete' }
+  | { type: 'error'; kind: ErrorKind; message: string }
+  | { type: 'interrupted' }
+  | { type: 'close'; reason: string }
+  | { type: 'toolCall'; calls: LiveToolCall[] }
+  | { type: 'toolCallCancellation'; ids: string[] };
+
+// `t` is milliseconds since the connection started
+export type RecordedEvent = RecordedPayload & { t: number };
+
+// One provider connection; a session that reconnected has several
+export interface RecordedSegment {
+  startedAt: number;
+  resuming: boolean;
+  events: RecordedEvent[];
+}
+
+export interface SessionRecording {
+  format: 'astra-session';
+  version: 1;
+  recordedAt: string;
+  personaId: string;
+  provider: string;
+  language: string;
+  segments: RecordedSegment[];
+  // Audio stopped being kept after MAX_AUDIO_SECONDS; events after that replay silently
+  audioTruncated: boolean;
+}
+
+export interface RecordingInfo {
+  personaId: string;
+  provider: string;
+  language: string;
+}
+
+// Per direction; ten minutes of mic plus twin audio is roughly 100 MB of JSON
+const MAX_AUDIO_SECONDS = 600;
+
+const STATUSES: readonly LiveStatus[] = ['idle', 'listening', 'speaking'];
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+const record = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? { ...value } : undefined;
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const finite = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const texts = (value: unknown) => (Array.isArray(value) && value.every(item => typeof item === 'string') ? value as string[] : undefined);
+
+const toolCalls = (value: unknown): LiveToolCall[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const calls = value.flatMap(entry => {
+    const call = record(entry);
+    const id = text(call?.id);
+    const name = text(call?.name);
+    return id && name ? [{ id, name, args: record(call?.args) ?? {} }] : [];
+  });
+  return calls.length === value.length ? calls : undefined;
+};
+
+// The payload of one recorded event, or undefined when its type or fields cannot be replayed
+const parsePayload = (raw: Record<string, unknown>): RecordedPayload | undefined => {
+  switch (raw.type) {
+    case 'audioLevel': {
+      const level = finite(raw.level);
+      return level === undefined ? undefined : { type: 'audioLevel', level };
+    }
+    case 'status': {
+      const status = STATUSES.find(candidate => candidate === raw.status);
+      return status && { type: 'status', status };
+    }
+    case 'transcription':
+    case 'inputTranscription': {
+      const said = text(raw.text);
+      return said === undefined ? undefined : { type: raw.type, text: said };
+    }
+    case 'outputAudio':
+    case 'inputAudio': {
+      const sampleRate = finite(raw.sampleRate);
+      const pcm = text(raw.pcm);
+      if (!sampleRate || sampleRate <= 0 || pcm === undefined || !BASE64.test(pcm)) return undefined;
+      return { type: raw.type, sampleRate, pcm };
+    }
+    case 'memory': {
+      const fact = text(raw.fact);
+      return fact === undefined ? undefined : { type: 'memory', fact };
+    }
+    case 'sources': {
+      const sources = texts(raw.sources);
+      return sources && { type: 'sources', sources };
+    }
+    case 'error': {
+      const message = text(raw.message);
+      return isErrorKind(raw.kind) && message !== undefined ? { type: 'error', kind: raw.kind, message } : undefined;
+    }
+    case 'close': {
+      const reason = text(raw.reason);
+      return reason === undefined ? undefined : { type: 'close', reason };
+    }
+    case 'toolCall': {
+      const calls = toolCalls(raw.calls);
+      return calls && { type: 'toolCall', calls };
+    }
+    case 'toolCallCancellation': {
+      const ids = texts(raw.ids);
+      return ids && { type: 'toolCallCancellation', ids };
+    }
+    case 'turnComplete':
+    case 'interrupted':
+      return { type: raw.type };
+    default:
+      return undefined;
+  }
+};
+
+const parseEvent = (value: unknown): RecordedEvent | undefined => {
+  const raw = record(value);
+  const t = finite(raw?.t);
+  if (!raw || t === undefined || t < 0) return undefined;
+  const payload = parsePayload(raw);
+  return payload && { ...payload, t };
+};
+
+/**
+ * Reads a recording file. A file that is not a recording, or whose connections
+ * have no event list, is rejected; single events that cannot be replayed
+ * (an unknown type or error kind, missing fields, broken audio) are dropped.
+ */
+export const parseRecording = (json: string): SessionRecording => {
+  const value = record(JSON.parse(json));
+  if (value?.format !== 'astra-session' || !Array.isArray(value.segments)) {
+    throw new Error('Not an Astra session recording');
+  }
+  if (value.version !== 1) {
+    throw new Error(`Recording version ${value.version} is not supported`);
+  }
+  const segments = value.segments.map((entry): RecordedSegment => {
+    const segment = record(entry);
+    if (!segment || !Array.isArray(segment.events)) {
+      throw new Error('The recording is damaged: a connection has no events');
+    }
+    return {
+      startedAt: finite(segment.startedAt) ?? 0,
+      resuming: segment.resuming === true,
+      events: segment.events.map(parseEvent).filter(event => event !== undefined),
+    };
+  });
+  return {
+    format: 'astra-session',
+    version: 1,
+    recordedAt: text(value.recordedAt) ?? '',
+    personaId: text(value.personaId) ?? '',
+    provider: text(value.provider) ?? '',
+    language: text(value.language) ?? '',
+    segments,
+    audioTruncated: value.audioTruncated === true,
+  };
+};
+
+export const recordingDuration = (recording: SessionRecording) =>
+  recording.segments.reduce((total, segment) => total + (segment.events.at(-1)?.t ?? 0), 0);
+
+/**
+ * Captures everything a live provider reports during one Neural Bridge
+ * session. wrap() is called for every connection, including reconnects,
+ * and returns callbacks that record before passing each call on.
+ */
+export class SessionRecorder {
+  private segments: RecordedSegment[] = [];
+  private audioSeconds = { input: 0, output: 0 };
+  private audioTruncated = false;
+  private readonly recordedAt = new Date().toISOString();
+
+  constructor(private info: RecordingInfo) {}
+
+  get eventCount() {
+    return this.segments.reduce((count, segment) => count + segment.events.length, 0);
+  }
+
+  wrap(callbacks: LiveCallbacks, resuming: boolean): LiveCallbacks {
+    const segment: RecordedSegment = { startedAt: Date.now(), resuming, events: [] };
+    this.segments.push(segment);
+    const origin = performance.now();
+    const record = (payload: RecordedPayload) => segment.events.push({ ...payload, t: Math.round(performance.now() - origin) });
+    const recordAudio = (direction: 'input' | 'output', pcm: Float32Array, sampleRate: number) => {
+      this.audioSeconds[direction] += pcm.length / sampleRate;
+      if (this.audioSeconds[direction] > MAX_AUDIO_SECONDS) {
+        this.audioTruncated = true;
+        return;
+      }
+      record({ type: direction === 'input' ? 'inputAudio' : 'outputAudio', sampleRate, pcm: encodePcm16(pcm) });
+    };
+
+    return {
+      ...callbacks,
+      onAudioLevel: (level) => {
+        record({ type: 'audioLevel', level });
+        callbacks.onAudioLevel(level);
+      },
+      onStatusChange: (status) => {
+        record({ type: 'status', status });
+        callbacks.onStatusChange(status);
+      },
+      onTranscription: (text) => {
+        record({ type: 'transcription', text });
+        callbacks.onTranscription(text);
+      },
+      onInputTranscription: (text) => {
+        record({ type: 'inputTranscription', text });
+        callbacks.onInputTranscription?.(text);
+      },
+      onOutputAudio: (pcm, sampleRate) => {
+        recordAudio('output', pcm, sampleRate);
+        callbacks.onOutputAudio?.(pcm, sampleRate);
+      },
+      onInputAudio: (pcm, sampleRate) => {
+        recordAudio('input', pcm, sampleRate);
+        callbacks.onInputAudio?.(pcm, sampleRate);
+      },
+      onMemoryUpdate: (fact) => {
+        record({ type: 'memory', fact });
+        callbacks.onMemoryUpdate(fact);
+      },
+      onSources: (sources) => {
+        record({ type: 'sources', sources });
+        callbacks.onSources?.(sources);
+      },
+      onTurnComplete: () => {
+        record({ type: 'turnComplete' });
+        callbacks.onTurnComplete();
+      },
+      onError: (error) => {
+        record({ type: 'error', kind: error.kind, message: error.message });
+        callbacks.onError(error);
+      },
+      onInterrupted: () => {
+        record({ type: 'interrupted' });
+        callbacks.onInterrupted?.();
+      },
+      onClose: (reason) => {
+        record({ type: 'close', reason });
+        callbacks.onClose?.(reason);
+      },
+      onToolCall: (calls) => {
+        record({ type: 'toolCall', calls });
+        callbacks.onToolCall?.(calls);
+      },
+      onToolCallCancellation: (ids) => {
+        record({ type: 'toolCallCancellation', ids });
+        callbacks.onToolCallCancellation?.(ids);
+      },
+    };
+  }
+
+  finish(): SessionRecording {
+    return {
+      format: 'astra-session',
+      version: 1,
+      recordedAt: this.recordedAt,
+      ...this.info,
+      segments: this.segments,
+      audioTruncated: this.audioTruncated,
+    };
+  }
+}
+
+/**
+ * Plays a recording back through the provider interface. Each start() call
+ * replays the next recorded connection on its original timeline, so drops
+ * and reconnects happen where they did. Nothing the user sends reaches it.
+ */
+export class ReplayLiveProvider implements LiveProvider {
+  readonly id = 'replay';
+  readonly requiresApiKey = false;
+
+  private callbacks: LiveCallbacks | null = null;
+  private cursor = 0;
+  // The connection being replayed, the index of its next event and when it started
+  private events: RecordedEvent[] = [];
+  private next = 0;
+  private startedAt = 0;
+  private finishes = false;
+  private timer: number | null = null;
+  private playback: AudioPlayback | null = null;
+
+  // onFinished fires once the last connection has played out without dropping
+  constructor(private recording: SessionRecording, private onFinished?: () => void) {}
+
+  async start(callbacks: LiveCallbacks, _video?: HTMLVideoElement, options?: LiveStartOptions) {
+    this.stop();
+    const segment = this.recording.segments[this.cursor++];
+    if (!segment) throw new ModelError('The recording has no more connections to replay');
+    this.callbacks = callbacks;
+    this.playback = new AudioPlayback(options?.audio ?? AUDIO_DEFAULTS, error => this.callbacks?.onError(error));
+    this.events = segment.events;
+    this.next = 0;
+    this.startedAt = performance.now();
+
+    const last = segment.events.at(-1);
+    const isFinal = this.cursor >= this.recording.segments.length;
+    this.finishes = isFinal && last?.type !== 'close' && last?.type !== 'error';
+    this.timer = window.setTimeout(() => this.advance(), segment.events[0]?.t ?? 0);
+  }
+
+  async send(_text: string) {
+    // The recording already contains the twin's answers.
+  }
+
+  async sendImage(_image: LiveImage, _prompt?: string) {}
+
+  setVision() {}
+
+  interrupt() {}
+
+  setMicrophoneEnabled(_enabled: boolean) {}
+
+  signalActivity(_signal: ActivitySignal) {}
+
+  sendToolResponses(_responses: LiveToolResponse[]) {}
+
+  stop() {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.events = [];
+    this.finishes = false;
+    this.callbacks = null;
+    this.playback?.close();
+    this.playback = null;
+  }
+
+  getStoredMemory(): string[] {
+    return [];
+  }
+
+  // Dispatches every event that is due, then waits for the next one: one timer at a time, however long the recording
+  private advance() {
+    this.timer = null;
+    const callbacks = this.callbacks;
+    const elapsed = performance.now() - this.startedAt;
+    while (this.next < this.events.length && this.events[this.next].t <= elapsed) {
+      this.dispatch(this.events[this.next++]);
+      // The app may stop or restart the replay from inside a callback, e.g. on a recorded drop
+      if (this.callbacks !== callbacks) return;
+    }
+    const upcoming = this.events[this.next];
+    if (upcoming) {
+      this.timer = window.setTimeout(() => this.advance(), upcoming.t - elapsed);
+    } else if (this.finishes) {
+      this.finishes = false;
+      this.timer = window.setTimeout(() => this.onFinished?.(), 500);
+    }
+  }
+
+  private dispatch(event: RecordedEvent) {
+    const cb = this.callbacks;
+    if (!cb) return;
+    switch (event.type) {
+      case 'audioLevel':
+        cb.onAudioLevel(event.level);
+        break;
+      case 'status':
+        cb.onStatusChange(event.status);
+        break;
+      case 'transcription':
+        cb.onTranscription(event.text);
+        break;
+      case 'inputTranscription':
+        cb.onInputTranscription?.(event.text);
+        break;
+      case 'outputAudio': {
+        const pcm = decodePcm16(event.pcm);
+        this.playback?.push(pcm, event.sampleRate);
+        cb.onOutputAudio?.(pcm, event.sampleRate);
+        break;
+      }
+      case 'inputAudio':
+        cb.onInputAudio?.(decodePcm16(event.pcm), event.sampleRate);
+        break;
+      case 'memory':
+        cb.onMemoryUpdate(event.fact);
+        break;
+      case 'sources':
+        cb.onSources?.(event.sources);
+        break;
+      case 'turnComplete':
+        cb.onTurnComplete();
+        break;
+      case 'error':
+        cb.onError(createError(event.kind, event.message));
+        break;
+      case 'interrupted':
+        this.playback?.flush();
+        cb.onInterrupted?.();
+        break;
+      case 'close':
+        cb.onClose?.(event.reason);
+        break;
+      case 'toolCall':
+        cb.onToolCall?.(event.calls);
+        break;
+      case 'toolCallCancellation':
+        cb.onToolCallCancellation?.(event.ids);
+        break;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Settings load once at import, so each test gets a fresh module over the storage it prepared
+const loadService = async () => {
+  vi.resetModules();
+  return (await import('./settings')).SettingsService;
+};
+
+describe('SettingsService', () => {
+  afterEach(() => localStorage.clear());
+
+  it('migrates the per-feature keys of version 0 into one versioned entry', async () => {
+    localStorage.setItem('astra.locale', 'fa');
+    localStorage.setItem('astra.voice-input', JSON.stringify({ mode: 'ptt', sensitivity: 0.3, silenceMs: 1200 }));
+    localStorage.setItem('astra.vision', JSON.stringify({ fps: 2, resolution: 'high' }));
+
+    const settings = (await loadService()).get();
+
+    expect(settings).toMatchObject({
+      version: 1,
+      language: 'fa',
+      voiceInput: { mode: 'ptt', sensitivity: 0.3, silenceMs: 1200 },
+      camera: { facingMode: 'user', vision: { fps: 2, resolution: 'high' } },
+    });
+    expect(JSON.parse(localStorage.getItem('astra.settings') ?? '{}')).toEqual(settings);
+    expect(['astra.locale', 'astra.voice-input', 'astra.vision'].map(key => localStorage.getItem(key))).toEqual([null, null, null]);
+  });
+
+  it('imports a version 0 file through the same migration', async () => {
+    const service = await loadService();
+    const settings = service.importJson(JSON.stringify({ version: 0, locale: 'en', voiceInput: { mode: 'ptt' } }));
+
+    expect(settings).toMatchObject({ version: 1, language: 'en', voiceInput: { mode: 'ptt', silenceMs: 900 } });
+  });
+
+  it('refuses files from a newer version and files that are not settings', async () => {
+    const service = await loadService();
+    const before = service.get();
+
+    expect(() => service.importJson(JSON.stringify({ version: 2 }))).toThrow('newer than this app supports');
+    expect(() => service.importJson('[1, 2]')).toThrow('Not an Astra settings file');
+    expect(() => service.importJson('{"language": "fa"}')).toThrow('Not an Astra settings file');
+    expect(service.get()).toBe(before);
+  });
+
+  it('replaces values of the wrong type and clamps numbers out of range', async () => {
+    const service = await loadService();
+    const settings = service.importJson(JSON.stringify({
+      version: 1,
+      language: 'de',
+      voices: { astra: { voiceName: 'Puck', speakingRate: 9, pitch: 'low', quality: 'ultra' }, broken: 'Kore' },
+      animation: { intensity: -1, stateClips: 'false' },
+      idle: { actions: 0, blinking: false },
+      chat: { speakReplies: 'false' },
+      camera: { facingMode: 'sideways', startWithVision: 'yes', vision: { fps: 60 } },
+      audio: { inputDeviceId: 7, echoCancellation: null },
+      usage: { budgets: { textTurns: '40', speechCalls: -3 }, warnAt: 2, downgradeToText: 'no' },
+    }));
+
+    expect(settings.language).toBe(navigator.language.toLowerCase().startsWith('fa') ? 'fa' : 'en');
+    expect(settings.voices).toEqual({ astra: { voiceName: 'Puck', speakingRate: 2, pitch: 1, quality: 'high' } });
+    expect(settings.animation).toEqual({ intensity: 0, stateClips: true });
+    expect(settings.idle).toEqual({ actions: true, blinking: false });
+    expect(settings.chat.speakReplies).toBe(false);
+    expect(settings.camera).toEqual({ facingMode: 'user', startWithVision: false, vision: { fps: 5, resolution: 'medium' } });
+    expect(settings.audio).toMatchObject({ inputDeviceId: null, echoCancellation: true });
+    expect(settings.usage).toMatchObject({ warnAt: 0.95, downgradeToText: true });
+    expect(settings.usage.budgets).toMatchObject({ textTurns: 40, speechCalls: null, liveSeconds: null });
+  });
+
+  it('falls back to defaults when the stored entry is not an object', async () => {
+    localStorage.setItem('astra.settings', '"corrupt"');
+
+    expect((await loadService()).get()).toMatchObject({ version: 1, chat: { speakReplies: false } });
+  });
+
+  it('exports what it imports', async () => {
+    const service = await loadService();
+    service.update('chat', { speakReplies: true });
+    const exported = service.exportJson();
+
+    service.reset();
+    expect(service.get().chat.speakReplies).toBe(false);
+    expect(service.importJson(exported).chat.speakReplies).toBe(true);
+  });
+});
@@ -0,0 +1,282 @@
+import type { SpeechOptions } from '../gemini';
+import type { Locale } from './i18n';
+import { VOICE_INPUT_DEFAULTS, VoiceInputSettings } from './vad';
+import { VISION_DEFAULTS, VISION_RESOLUTIONS, VisionSettings } from './vision';
+import { AUDIO_DEFAULTS, AudioSettings } from './audio-devices';
+// Types only: the usage service reads its budgets from here
+import type { UsageMetric, UsageSettings } from './usage';
+
+export interface AnimationSettings {
+  // Scales how strongly the avatar reacts to the twin's voice; 0 keeps it still
+  intensity: number;
+  // Play generated Veo state clips instead of the still portrait
+  stateClips: boolean;
+}
+
+export interface IdleSettings {
+  actions: boolean;
+  blinking: boolean;
+}
+
+export interface CameraSettings {
+  facingMode: 'user' | 'environment';
+  // Turn the camera on automatically when a session starts
+  startWithVision: boolean;
+  vision: VisionSettings;
+}
+
+export interface ChatSettings {
+  // Read text chat replies aloud with the persona's voice
+  speakReplies: boolean;
+}
+
+// Prebuilt Gemini voices offered in the settings panel
+export const VOICE_NAMES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const SETTINGS_VERSION = 1;
+
+export interface Settings {
+  version: typeof SETTINGS_VERSION;
+  language: Locale;
+  // Per-persona overrides of the voice a persona ships with, keyed by persona id
+  voices: Record<string, SpeechOptions>;
+  voiceInput: VoiceInputSettings;
+  animation: AnimationSettings;
+  idle: IdleSettings;
+  camera: CameraSettings;
+  chat: ChatSettings;
+  audio: AudioSettings;
+  usage: UsageSettings;
+}
+
+export type SettingsSection = Exclude<keyof Settings, 'version'>;
+
+const STORAGE_KEY = 'astra.settings';
+// Keys each feature kept on its own before settings were versioned
+const LEGACY_KEYS = { locale: 'astra.locale', voiceInput: 'astra.voice-input', vision: 'astra.vision' };
+
+const detectLanguage = (): Locale => (navigator.language?.toLowerCase().startsWith('fa') ? 'fa' : 'en');
+
+const defaults = (): Settings => ({
+  version: SETTINGS_VERSION,
+  language: detectLanguage(),
+  voices: {},
+  voiceInput: { ...VOICE_INPUT_DEFAULTS },
+  animation: { intensity: 1, stateClips: true },
+  idle: { actions: true, blinking: true },
+  camera: { facingMode: 'user', startWithVision: false, vision: { ...VISION_DEFAULTS } },
+  chat: { speakReplies: false },
+  audio: { ...AUDIO_DEFAULTS },
+  usage: {
+    budgets: { liveSeconds: null, audioInSeconds: null, audioOutSeconds: null, textTurns: null, speechCalls: null, veoGenerations: null },
+    warnAt: 0.8,
+    downgradeToText: true,
+    disableVision: true,
+  },
+});
+
+// Parsed JSON from storage or an import; nothing about its shape is trusted
+type RawSettings = Record<string, unknown>;
+
+const readJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+// Anything that is not a plain object reads as an empty section
+const section = (value: unknown): RawSettings => (value && typeof value === 'object' && !Array.isArray(value) ? { ...value } : {});
+
+const versionOf = (settings: RawSettings) => (typeof settings.version === 'number' ? settings.version : 0);
+
+// MIGRATIONS[n] turns a version-n object into version n + 1. Version 0 is the
+// scattered per-feature keys, gathered by readLegacy().
+const MIGRATIONS: Record<number, (settings: RawSettings) => RawSettings> = {
+  0: (legacy) => ({
+    version: 1,
+    language: legacy.locale,
+    voiceInput: legacy.voiceInput,
+    camera: { vision: legacy.vision },
+  }),
+};
+
+const readLegacy = (): RawSettings => ({
+  version: 0,
+  locale: localStorage.getItem(LEGACY_KEYS.locale) ?? undefined,
+  voiceInput: readJson(LEGACY_KEYS.voiceInput) ?? undefined,
+  vision: readJson(LEGACY_KEYS.vision) ?? undefined,
+});
+
+const migrate = (settings: RawSettings): RawSettings => {
+  let current = settings;
+  while (versionOf(current) < SETTINGS_VERSION) {
+    const step = MIGRATIONS[versionOf(current)];
+    if (!step) throw new Error(`No migration from settings version ${versionOf(current)}`);
+    current = step(current);
+  }
+  return current;
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+// Only real booleans count; a hand-edited "false" would otherwise read as true
+const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+// A non-negative limit, or null for none
+const budget = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+const pick = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.find(option => option === value) ?? fallback;
+
+// Fills gaps with defaults and clamps values, so partial or hand-edited files are safe to load.
+const normalize = (raw: RawSettings): Settings => {
+  const base = defaults();
+  const voices: Record<string, SpeechOptions> = {};
+  for (const [id, value] of Object.entries(section(raw.voices))) {
+    const voice = section(value);
+    if (typeof voice.voiceName !== 'string') continue;
+    voices[id] = {
+      voiceName: voice.voiceName,
+      speakingRate: clamp(voice.speakingRate, 0.5, 2, 1),
+      pitch: clamp(voice.pitch, 0.5, 1.5, 1),
+      quality: voice.quality === 'standard' ? 'standard' : 'high',
+    };
+  }
+  const voiceInput = section(raw.voiceInput);
+  const animation = section(raw.animation);
+  const idle = section(raw.idle);
+  const camera = section(raw.camera);
+  const vision = section(camera.vision);
+  const chat = section(raw.chat);
+  const audio = section(raw.audio);
+  const usage = section(raw.usage);
+  const budgets = section(usage.budgets);
+  return {
+    version: SETTINGS_VERSION,
+    language: pick(raw.language, ['en', 'fa'] as const, base.language),
+    voices,
+    voiceInput: {
+      mode: pick(voiceInput.mode, ['vad', 'ptt'] as const, base.voiceInput.mode),
+      sensitivity: clamp(voiceInput.sensitivity, 0, 1, base.voiceInput.sensitivity),
+      silenceMs: clamp(voiceInput.silenceMs, 300, 3000, base.voiceInput.silenceMs),
+    },
+    animation: {
+      intensity: clamp(animation.intensity, 0, 1.5, base.animation.intensity),
+      stateClips: flag(animation.stateClips, base.animation.stateClips),
+    },
+    idle: {
+      actions: flag(idle.actions, base.idle.actions),
+      blinking: flag(idle.blinking, base.idle.blinking),
+    },
+    camera: {
+      facingMode: pick(camera.facingMode, ['user', 'environment'] as const, base.camera.facingMode),
+      startWithVision: flag(camera.startWithVision, base.camera.startWithVision),
+      vision: {
+        fps: clamp(vision.fps, 0.5, 5, base.camera.vision.fps),
+        resolution: pick(vision.resolution, Object.keys(VISION_RESOLUTIONS) as (keyof typeof VISION_RESOLUTIONS)[], base.camera.vision.resolution),
+      },
+    },
+    chat: {
+      speakReplies: flag(chat.speakReplies, base.chat.speakReplies),
+    },
+    audio: {
+      inputDeviceId: typeof audio.inputDeviceId === 'string' ? audio.inputDeviceId : null,
+      outputDeviceId: typeof audio.outputDeviceId === 'string' ? audio.outputDeviceId : null,
+      echoCancellation: flag(audio.echoCancellation, base.audio.echoCancellation),
+      noiseSuppression: flag(audio.noiseSuppression, base.audio.noiseSuppression),
+      autoGainControl: flag(audio.autoGainControl, base.audio.autoGainControl),
+    },
+    usage: {
+      budgets: Object.fromEntries(
+        Object.keys(base.usage.budgets).map(metric => [metric, budget(budgets[metric])])
+      ) as Record<UsageMetric, number | null>,
+      warnAt: clamp(usage.warnAt, 0.5, 0.95, base.usage.warnAt),
+      downgradeToText: flag(usage.downgradeToText, base.usage.downgradeToText),
+      disableVision: flag(usage.disableVision, base.usage.disableVision),
+    },
+  };
+};
+
+const load = (): Settings => {
+  const stored = readJson(STORAGE_KEY);
+  try {
+    if (stored) return normalize(migrate(section(stored)));
+    const migrated = normalize(migrate(readLegacy()));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    return migrated;
+  } catch (e) {
+    console.error("Settings could not be loaded, using defaults", e);
+    return defaults();
+  }
+};
+
+let current = load();
+const listeners = new Set<() => void>();
+
+const commit = (next: Settings) => {
+  current = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Versioned user settings in one localStorage entry. Older stored or
+ * exported versions are migrated step by step on load and import.
+ */
+export class SettingsService {
+  static get(): Settings {
+    return current;
+  }
+
+  static subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static update<K extends SettingsSection>(section: K, value: Settings[K]) {
+    commit({ ...current, [section]: value });
+  }
+
+  static voiceFor(personaId: string, personaVoice: SpeechOptions): SpeechOptions {
+    return current.voices[personaId] ?? personaVoice;
+  }
+
+  // Passing null drops the override and goes back to the persona's own voice.
+  static setVoice(personaId: string, voice: SpeechOptions | null) {
+    const { [personaId]: _previous, ...others } = current.voices;
+    commit({ ...current, voices: voice ? { ...others, [personaId]: voice } : others });
+  }
+
+  static reset() {
+    commit(defaults());
+  }
+
+  static exportJson(): string {
+    return JSON.stringify({ ...current, exportedAt: new Date().toISOString() }, null, 2);
+  }
+
+  static importJson(json: string): Settings {
+    const parsed = section(JSON.parse(json));
+    if (typeof parsed.version !== 'number') {
+      throw new Error('Not an Astra settings file');
+    }
+    if (parsed.version > SETTINGS_VERSION) {
+      throw new Error(`Settings version ${parsed.version} is newer than this app supports`);
+    }
+    const { exportedAt: _exportedAt, ...settings } = parsed;
+    commit(normalize(migrate(settings)));
+    return current;
+  }
+}
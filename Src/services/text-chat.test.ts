@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GenerateContentParameters, Part } from '@google/genai';
+import type { LiveCallbacks } from './live-provider';
+import type { TextChunk, TextModel, TextModelRequest } from './text-chat';
+
+// Each call to the model streams the next scripted list of parts as one chunk
+const rounds: Part[][] = [];
+const generateContentStream = vi.fn(async (_params: GenerateContentParameters) => {
+  const parts = rounds.shift() ?? [];
+  return (async function* () {
+    yield { candidates: [{ content: { parts } }] };
+  })();
+});
+
+vi.mock('./genai-client', () => ({
+  createGenAI: () => ({ models: { generateContentStream } }),
+  fetchMedia: (uri: string) => fetch(uri),
+}));
+
+const { GeminiTextModel, TextChatProvider, plainText } = await import('./text-chat');
+const { SpeechService } = await import('../gemini');
+const { DiagnosticsService } = await import('./diagnostics');
+
+const request = (changes: Partial<TextModelRequest> = {}): TextModelRequest => ({
+  history: [],
+  message: 'Book lunch with Sara',
+  systemInstruction: '',
+  signal: new AbortController().signal,
+  tools: [{ name: 'create_event' }],
+  callTool: async () => ({ output: 'booked' }),
+  ...changes,
+});
+
+const collect = async (stream: AsyncIterable<TextChunk>) => {
+  const chunks: TextChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe('GeminiTextModel', () => {
+  afterEach(() => {
+    generateContentStream.mockClear();
+    rounds.length = 0;
+  });
+
+  it('answers tool calls and continues the reply', async () => {
+    rounds.push(
+      [
+        { functionCall: { id: 'a', name: 'remember_fact', args: { fact: ' Likes sushi ' } } },
+        { functionCall: { id: 'b', name: 'create_event', args: { title: 'Lunch' } } },
+      ],
+      [{ text: 'Booked.' }],
+    );
+    const callTool = vi.fn(async () => ({ output: 'booked' }));
+
+    const chunks = await collect(new GeminiTextModel().stream(request({ callTool })));
+
+    expect(chunks).toEqual([{ type: 'memory', fact: 'Likes sushi' }, { type: 'text', text: 'Booked.' }]);
+    expect(callTool).toHaveBeenCalledWith({ id: 'b', name: 'create_event', args: { title: 'Lunch' } });
+    const [, second] = generateContentStream.mock.calls.map(([params]) => params);
+    expect(second.contents).toHaveLength(3);
+    expect((second.contents as unknown[])[2]).toEqual({
+      role: 'user',
+      parts: [
+        { functionResponse: { id: 'a', name: 'remember_fact', response: { output: 'saved' } } },
+        { functionResponse: { id: 'b', name: 'create_event', response: { output: 'booked' } } },
+      ],
+    });
+  });
+
+  it('stops offering tools after the last round', async () => {
+    for (let i = 0; i < 10; i++) rounds.push([{ functionCall: { id: `${i}`, name: 'create_event', args: {} } }]);
+
+    await collect(new GeminiTextModel().stream(request()));
+
+    const calls = generateContentStream.mock.calls.map(([params]) => params);
+    expect(calls).toHaveLength(6);
+    expect(calls[5].config?.toolConfig).toEqual({ functionCallingConfig: { mode: 'NONE' } });
+  });
+});
+
+describe('plainText', () => {
+  it('keeps the words of Markdown only', () => {
+    expect(plainText('# Hi\n- **bold** [link](https://x)\n```js\ncode\n```')).toBe('Hi\nbold link');
+  });
+});
+
+describe('TextChatProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    DiagnosticsService.clear();
+  });
+
+  it('completes the turn when the reply cannot be read aloud', async () => {
+    vi.spyOn(SpeechService, 'synthesize').mockRejectedValue(new Error('429 RESOURCE_EXHAUSTED'));
+    const model: TextModel = {
+      requiresApiKey: false,
+      async *stream() {
+        yield { type: 'text', text: 'Hello there' };
+      },
+    };
+    const callbacks: LiveCallbacks = {
+      onAudioLevel: vi.fn(),
+      onStatusChange: vi.fn(),
+      onTranscription: vi.fn(),
+      onMemoryUpdate: vi.fn(),
+      onTurnComplete: vi.fn(),
+      onError: vi.fn(),
+    };
+    const chat = new TextChatProvider(model, () => true);
+    await chat.start(callbacks, undefined, { voiceName: 'Kore', speakingRate: 1, pitch: 1, quality: 'high' });
+
+    await chat.send('Hi');
+    await vi.waitFor(() => expect(callbacks.onTurnComplete).toHaveBeenCalledOnce());
+
+    expect(callbacks.onError).not.toHaveBeenCalled();
+    expect(callbacks.onTranscription).toHaveBeenLastCalledWith('Hello there');
+    expect(DiagnosticsService.getEvents()).toMatchObject([{ source: 'speech', kind: 'quota' }]);
+  });
+});
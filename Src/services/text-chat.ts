@@ -0,0 +1,366 @@
+import { Content, FunctionCallingConfigMode, FunctionDeclaration, FunctionResponse, Part } from '@google/genai';
+import type { ActivitySignal, LiveCallbacks, LiveImage, LiveProvider, LiveStartOptions, LiveToolCall, LiveToolResponse } from './live-provider';
+import { MockScript, parseMockScript } from './mock-live-provider';
+import { SpeechService } from '../gemini';
+import { createGenAI } from './genai-client';
+import { ModelError, NetworkError, classifyError } from './errors';
+import { KnowledgePassage, Retrieve, citation, groundingText } from './knowledge-store';
+import { REMEMBER_TOOL, rememberedFact } from './memory-store';
+import { AUDIO_DEFAULTS } from './audio-devices';
+import { AudioPlayback, meterLevel } from './audio-pipeline';
+import { UsageService } from './usage';
+import { DiagnosticsService } from './diagnostics';
+
+export interface ChatTurn {
+  role: 'user' | 'twin';
+  text: string;
+  // Knowledge base citations of a twin reply
+  sources?: string[];
+}
+
+// A streamed reply is text deltas, interleaved with facts the model asked to keep
+// and preceded by the knowledge base passages it was given
+export type TextChunk =
+  | { type: 'text'; text: string }
+  | { type: 'memory'; fact: string }
+  | { type: 'sources'; sources: string[] };
+
+export interface TextModelRequest {
+  history: ChatTurn[];
+  message: string;
+  systemInstruction: string;
+  signal: AbortSignal;
+  // The app's tools; the reply continues once callTool has answered each call
+  tools: FunctionDeclaration[];
+  callTool: (call: LiveToolCall) => Promise<Record<string, unknown>>;
+}
+
+export interface TextModel {
+  readonly requiresApiKey: boolean;
+  stream(request: TextModelRequest): AsyncIterable<TextChunk>;
+}
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const LEVEL_TICK_MS = 50;
+// Tool calls answered per reply before the model is made to answer in text
+const MAX_TOOL_ROUNDS = 5;
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Speech engines read Markdown symbols out loud; keep the words only
+export const plainText = (markdown: string) => markdown
+  .replace(/```[\s\S]*?```/g, ' ')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+  .replace(/[*_`~]/g, '')
+  .trim();
+
+export class GeminiTextModel implements TextModel {
+  readonly requiresApiKey = true;
+
+  async *stream({ history, message, systemInstruction, signal, tools, callTool }: TextModelRequest): AsyncIterable<TextChunk> {
+    const contents: Content[] = [...history, { role: 'user', text: message }].map(turn => ({
+      role: turn.role === 'user' ? 'user' : 'model',
+      parts: [{ text: turn.text }],
+    }));
+
+    for (let round = 0; ; round++) {
+      const stream = await createGenAI().models.generateContentStream({
+        model: TEXT_MODEL,
+        contents,
+        config: {
+          systemInstruction,
+          tools: [{ functionDeclarations: [REMEMBER_TOOL, ...tools] }],
+          // The last round must answer with what it has
+          toolConfig: round === MAX_TOOL_ROUNDS ? { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } : undefined,
+          abortSignal: signal,
+        },
+      });
+      // The model's turn goes back verbatim with the responses, function calls included
+      const parts: Part[] = [];
+      for await (const chunk of stream) {
+        parts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+        const text = chunk.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('');
+        if (text) yield { type: 'text', text };
+      }
+
+      const calls = parts.flatMap(part => (part.functionCall?.name ? [part.functionCall] : []));
+      if (calls.length === 0 || signal.aborted || round === MAX_TOOL_ROUNDS) return;
+      const responses: FunctionResponse[] = [];
+      for (const call of calls.filter(call => call.name === REMEMBER_TOOL.name)) {
+        const fact = rememberedFact(call.args);
+        if (fact) yield { type: 'memory', fact };
+        responses.push({ id: call.id, name: call.name, response: fact ? { output: 'saved' } : { error: 'fact must be a non-empty string' } });
+      }
+      responses.push(...await Promise.all(calls
+        .filter(call => call.name !== REMEMBER_TOOL.name)
+        .map(async ({ id, name = '', args = {} }) => ({
+          id,
+          name,
+          response: await callTool({ id: id ?? crypto.randomUUID(), name, args }),
+        }))));
+      contents.push({ role: 'model', parts }, { role: 'user', parts: responses.map(functionResponse => ({ functionResponse })) });
+    }
+  }
+}
+
+/**
+ * Answers from the 'send' turns of the mock Neural Bridge script, streamed on
+ * the script's own timing, so text chat works offline too.
+ */
+export class ScriptTextModel implements TextModel {
+  readonly requiresApiKey = false;
+  private script: Promise<MockScript> | null = null;
+  private cursor = 0;
+
+  constructor(private scriptUrl: string) {}
+
+  async *stream({ message, signal }: TextModelRequest): AsyncIterable<TextChunk> {
+    const script = await this.load();
+    const replies = script.turns.filter(turn => turn.trigger === 'send');
+    const fallbacks = replies.filter(turn => !turn.match);
+    const turn = replies.find(t => t.match && new RegExp(t.match, 'i').test(message))
+      ?? fallbacks[this.cursor++ % Math.max(1, fallbacks.length)];
+
+    let clock = 0;
+    for (const event of turn?.events ?? []) {
+      if (event.type !== 'transcription' && event.type !== 'memory') continue;
+      await sleep(event.at - clock, signal);
+      clock = event.at;
+      if (signal.aborted) return;
+      yield event.type === 'memory' ? { type: 'memory', fact: event.fact } : { type: 'text', text: event.text };
+    }
+  }
+
+  private load() {
+    this.script ??= fetch(this.scriptUrl).then(response => {
+      if (!response.ok) throw new NetworkError(`Mock script unavailable (${response.status})`);
+      return response.json().then(parseMockScript);
+    });
+    // A failed fetch is retried on the next message
+    this.script.catch(() => { this.script = null; });
+    return this.script;
+  }
+}
+
+/**
+ * Text chat behind the live provider interface, so typed conversations reuse
+ * the session machine, history, memory and avatar states of the Neural Bridge
+ * without opening the microphone. Replies stream in as transcription and are
+ * optionally read aloud with the persona's voice.
+ */
+export class TextChatProvider implements LiveProvider {
+  readonly id = 'text';
+
+  private callbacks: LiveCallbacks | null = null;
+  private options: LiveStartOptions | undefined;
+  private history: ChatTurn[] = [];
+  private turn: AbortController | null = null;
+  private levelTimer: number | null = null;
+  private playback: AudioPlayback | null = null;
+  // App tool calls of the current turn, answered through sendToolResponses()
+  private pendingTools = new Map<string, (response: Record<string, unknown>) => void>();
+
+  constructor(private model: TextModel, private shouldSpeak: () => boolean, private retrieve?: Retrieve) {}
+
+  get requiresApiKey() {
+    return this.model.requiresApiKey;
+  }
+
+  async start(callbacks: LiveCallbacks, _video?: HTMLVideoElement, options?: LiveStartOptions) {
+    this.stop();
+    this.callbacks = callbacks;
+    this.options = options;
+    // A reconnect keeps the conversation; a new session starts from the persona and context alone
+    if (!options?.resuming) this.history = [];
+    callbacks.onStatusChange('listening');
+    if (options?.greeting && !options.resuming) {
+      const greeting = options.greeting;
+      this.runTurn(null, async function* () { yield { type: 'text', text: greeting } as TextChunk; });
+    }
+  }
+
+  async send(text: string) {
+    if (!this.callbacks) {
+      throw new NetworkError('Text chat is not open');
+    }
+    if (this.turn) this.interrupt();
+    const history = [...this.history];
+    this.runTurn(text, signal => this.answer(history, text, signal));
+  }
+
+  async sendImage(_image: LiveImage, _prompt?: string) {
+    throw new ModelError('Images need a live session');
+  }
+
+  setVision() {}
+
+  interrupt() {
+    if (!this.turn) return;
+    this.turn.abort();
+    this.turn = null;
+    this.stopAudio();
+    this.callbacks?.onInterrupted?.();
+  }
+
+  setMicrophoneEnabled(_enabled: boolean) {}
+
+  signalActivity(_signal: ActivitySignal) {}
+
+  sendToolResponses(responses: LiveToolResponse[]) {
+    for (const { id, response } of responses) {
+      const resolve = this.pendingTools.get(id);
+      this.pendingTools.delete(id);
+      resolve?.(response);
+    }
+  }
+
+  stop() {
+    this.turn?.abort();
+    this.turn = null;
+    this.stopAudio();
+    this.callbacks = null;
+  }
+
+  getStoredMemory(): string[] {
+    return [];
+  }
+
+  private async *answer(history: ChatTurn[], message: string, signal: AbortSignal): AsyncIterable<TextChunk> {
+    // A knowledge base that cannot be read leaves the reply ungrounded rather than failing it
+    const passages = this.retrieve ? await this.retrieve(message).catch(() => []) : [];
+    if (passages.length > 0) yield { type: 'sources', sources: [...new Set(passages.map(citation))] };
+    yield* this.model.stream({
+      history,
+      message,
+      systemInstruction: this.instruction(passages),
+      signal,
+      tools: this.options?.tools ?? [],
+      callTool: call => this.callTool(call, signal),
+    });
+  }
+
+  // Hands a call to the app like a live session would; a turn that ends first cancels it
+  private callTool(call: LiveToolCall, signal: AbortSignal) {
+    return new Promise<Record<string, unknown>>(resolve => {
+      const cb = this.callbacks;
+      if (!cb?.onToolCall || signal.aborted) {
+        resolve({ error: 'The tool is not available' });
+        return;
+      }
+      this.pendingTools.set(call.id, resolve);
+      signal.addEventListener('abort', () => {
+        if (!this.pendingTools.delete(call.id)) return;
+        cb.onToolCallCancellation?.([call.id]);
+        resolve({ error: 'cancelled' });
+      }, { once: true });
+      cb.onToolCall([call]);
+    });
+  }
+
+  private instruction(passages: KnowledgePassage[] = []) {
+    const options = this.options;
+    return [
+      options?.systemInstruction,
+      options?.language && `Reply in the language with the BCP 47 tag ${options.language}.`,
+      'This is a typed chat. Use Markdown where it helps: lists, emphasis, code blocks.',
+      options?.memories?.length && `What you know about the user:\n${options.memories.map(m => `- ${m}`).join('\n')}`,
+      options?.context && `Earlier conversation:\n${options.context}`,
+      passages.length && groundingText(passages),
+    ].filter(Boolean).join('\n\n');
+  }
+
+  private async runTurn(message: string | null, source: (signal: AbortSignal) => AsyncIterable<TextChunk>) {
+    const cb = this.callbacks;
+    if (!cb) return;
+    const controller = new AbortController();
+    this.turn = controller;
+    const live = () => this.turn === controller && !controller.signal.aborted;
+    let reply = '';
+
+    try {
+      for await (const chunk of source(controller.signal)) {
+        if (!live()) return;
+        if (chunk.type === 'memory') {
+          cb.onMemoryUpdate(chunk.fact);
+          continue;
+        }
+        if (chunk.type === 'sources') {
+          cb.onSources?.(chunk.sources);
+          continue;
+        }
+        if (!reply) cb.onStatusChange('speaking');
+        reply += chunk.text;
+        cb.onTranscription(reply);
+      }
+      if (reply && this.shouldSpeak()) {
+        // Reading aloud is optional, so a reply that cannot be spoken is logged and still completes the turn
+        try {
+          await this.speak(reply, controller.signal);
+        } catch (err) {
+          if (live()) DiagnosticsService.error('speech', classifyError(err, 'network'));
+        }
+      }
+    } catch (err) {
+      if (live()) {
+        this.turn = null;
+        this.stopAudio();
+        cb.onError(classifyError(err, 'network'));
+      }
+      return;
+    }
+    if (!live()) return;
+
+    this.turn = null;
+    this.stopAudio();
+    // The greeting stays out of the history sent back to the model, which must open with a user turn
+    if (message !== null) this.history.push({ role: 'user', text: message }, { role: 'twin', text: reply });
+    cb.onTurnComplete();
+    cb.onStatusChange('listening');
+  }
+
+  // Reads the reply aloud. The samples go to onOutputAudio as a live session's do, so lip sync follows the speech.
+  private async speak(reply: string, signal: AbortSignal) {
+    const options = this.options;
+    if (!options) return;
+    UsageService.record('speechCalls');
+    const { pcm, sampleRate } = await SpeechService.synthesize(plainText(reply), options, options.language);
+    if (signal.aborted || pcm.length === 0) return;
+
+    this.stopAudio();
+    const playback = new AudioPlayback(options.audio ?? AUDIO_DEFAULTS, error => DiagnosticsService.error('speech', error));
+    this.playback = playback;
+    playback.push(pcm, sampleRate);
+    this.callbacks?.onOutputAudio?.(pcm, sampleRate);
+    // The meter reads the part of the clip that is playing now
+    const startedAt = performance.now();
+    const tick = Math.round((sampleRate * LEVEL_TICK_MS) / 1000);
+    this.levelTimer = window.setInterval(() => {
+      const offset = Math.round(((performance.now() - startedAt) / 1000) * sampleRate);
+      this.callbacks?.onAudioLevel(meterLevel(pcm.subarray(offset, offset + tick)));
+    }, LEVEL_TICK_MS);
+    await sleep((pcm.length / sampleRate) * 1000, signal);
+  }
+
+  private stopAudio() {
+    this.playback?.close();
+    this.playback = null;
+    if (this.levelTimer === null) return;
+    clearInterval(this.levelTimer);
+    this.levelTimer = null;
+    this.callbacks?.onAudioLevel(0);
+  }
+}
+
+export const createTextChat = (shouldSpeak: () => boolean, retrieve?: Retrieve, id: string | undefined = process.env.LIVE_PROVIDER): TextChatProvider => {
+  const model = id === 'mock'
+    ? new ScriptTextModel(process.env.MOCK_SCRIPT_URL || '/mock/neural-bridge.json')
+    : new GeminiTextModel();
+  return new TextChatProvider(model, shouldSpeak, retrieve);
+};
@@ -0,0 +1,110 @@
+import { openDatabase, promisify, transactionDone } from './idb';
+
+export interface Note {
+  id: string;
+  namespace: string;
+  title: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface Reminder {
+  id: string;
+  namespace: string;
+  text: string;
+  dueAt: number;
+  firedAt: number | null;
+  createdAt: number;
+}
+
+export interface CalendarEvent {
+  id: string;
+  namespace: string;
+  title: string;
+  start: number;
+  end: number;
+  location: string;
+  allDay: boolean;
+}
+
+const DB_NAME = 'astra-tools';
+const NOTES = 'notes';
+const REMINDERS = 'reminders';
+const EVENTS = 'events';
+
+type StoreName = typeof NOTES | typeof REMINDERS | typeof EVENTS;
+
+const db = () => openDatabase(DB_NAME, 1, (database) => {
+  for (const name of [NOTES, REMINDERS, EVENTS]) {
+    database.createObjectStore(name, { keyPath: 'id' }).createIndex('namespace', 'namespace');
+  }
+});
+
+const all = async <T>(store: StoreName, namespace: string): Promise<T[]> => {
+  const tx = (await db()).transaction(store, 'readonly');
+  return promisify<T[]>(tx.objectStore(store).index('namespace').getAll(namespace));
+};
+
+const put = async <T>(store: StoreName, items: T[]): Promise<void> => {
+  const tx = (await db()).transaction(store, 'readwrite');
+  items.forEach(item => tx.objectStore(store).put(item));
+  await transactionDone(tx);
+};
+
+/** Local data behind the built-in tools: notes, reminders and the twin's calendar. */
+export class ToolStore {
+  static async addNote(namespace: string, title: string, text: string): Promise<Note> {
+    const note: Note = { id: crypto.randomUUID(), namespace, title: title.trim(), text: text.trim(), createdAt: Date.now() };
+    await put(NOTES, [note]);
+    return note;
+  }
+
+  static async searchNotes(namespace: string, query = '', limit = 10): Promise<Note[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return (await all<Note>(NOTES, namespace))
+      .filter(note => terms.every(t => `${note.title} ${note.text}`.toLowerCase().includes(t)))
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+
+  static async addReminder(namespace: string, text: string, dueAt: number): Promise<Reminder> {
+    const reminder: Reminder = { id: crypto.randomUUID(), namespace, text: text.trim(), dueAt, firedAt: null, createdAt: Date.now() };
+    await put(REMINDERS, [reminder]);
+    return reminder;
+  }
+
+  static async listReminders(namespace: string, includeFired = false): Promise<Reminder[]> {
+    return (await all<Reminder>(REMINDERS, namespace))
+      .filter(r => includeFired || r.firedAt === null)
+      .sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  // Marks due reminders as fired and returns them, so each one surfaces once.
+  static async takeDueReminders(namespace: string, now = Date.now()): Promise<Reminder[]> {
+    const due = (await ToolStore.listReminders(namespace)).filter(r => r.dueAt <= now);
+    if (due.length > 0) await put(REMINDERS, due.map(r => ({ ...r, firedAt: now })));
+    return due;
+  }
+
+  static async addEvent(event: Omit<CalendarEvent, 'id'>): Promise<CalendarEvent> {
+    const saved = { ...event, id: crypto.randomUUID() };
+    await put(EVENTS, [saved]);
+    return saved;
+  }
+
+  // Events overlapping [from, to], earliest first.
+  static async listEvents(namespace: string, from = -Infinity, to = Infinity): Promise<CalendarEvent[]> {
+    return (await all<CalendarEvent>(EVENTS, namespace))
+      .filter(e => e.end >= from && e.start <= to)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  static async replaceEvents(namespace: string, events: Omit<CalendarEvent, 'id' | 'namespace'>[]): Promise<number> {
+    const existing = await all<CalendarEvent>(EVENTS, namespace);
+    const tx = (await db()).transaction(EVENTS, 'readwrite');
+    existing.forEach(e => tx.objectStore(EVENTS).delete(e.id));
+    events.forEach(e => tx.objectStore(EVENTS).put({ ...e, id: crypto.randomUUID(), namespace }));
+    await transactionDone(tx);
+    return events.length;
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Behavior } from '@google/genai';
+import { ToolDefinition, ToolRegistry, ToolRunner, validateArgs } from './tools';
+import type { LiveToolResponse } from './live-provider';
+
+const CONTEXT = { namespace: 'astra', sessionId: 'session-1' };
+
+const echo: ToolDefinition = {
+  name: 'echo',
+  description: 'Echoes its input',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'Text' },
+      times: { type: 'integer', description: 'Repeats' },
+      tone: { type: 'string', description: 'Tone', enum: ['calm', 'loud'] },
+    },
+    required: ['text'],
+  },
+  execute: async (args: { text: string }) => args.text,
+};
+
+// Runs one call and resolves with the response the runner sends back
+const respond = (runner: ToolRunner, name: string, args: Record<string, unknown>, id = 'call-1') =>
+  new Promise<LiveToolResponse>(resolve => runner.handle([{ id, name, args }], CONTEXT, resolve));
+
+describe('validateArgs', () => {
+  it('accepts arguments matching the schema', () => {
+    expect(validateArgs(echo.parameters, { text: 'hi', times: 2, tone: 'calm' })).toBeNull();
+  });
+
+  it('reports missing, unknown and mistyped arguments', () => {
+    expect(validateArgs(echo.parameters, {})).toBe('Missing required argument "text"');
+    expect(validateArgs(echo.parameters, { text: 'hi', volume: 3 })).toBe('Unknown argument "volume"');
+    expect(validateArgs(echo.parameters, { text: 'hi', times: 1.5 })).toBe('Argument "times" must be a integer');
+    expect(validateArgs(echo.parameters, { text: 'hi', tone: 'angry' })).toBe('Argument "tone" must be one of calm, loud');
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('rejects names Gemini would refuse', () => {
+    expect(() => new ToolRegistry([{ ...echo, name: '1 bad name' }])).toThrow('Invalid tool name');
+  });
+
+  it('declares non-blocking tools with their behavior', () => {
+    const registry = new ToolRegistry([echo, { ...echo, name: 'later', nonBlocking: true }]);
+
+    expect(registry.declarations()).toEqual([
+      { name: 'echo', description: echo.description, parametersJsonSchema: echo.parameters },
+      { name: 'later', description: echo.description, parametersJsonSchema: echo.parameters, behavior: Behavior.NON_BLOCKING },
+    ]);
+  });
+});
+
+describe('ToolRunner', () => {
+  it('answers with the tool output and logs the call', async () => {
+    const runner = new ToolRunner(new ToolRegistry([echo]));
+    const listener = vi.fn();
+    runner.subscribe(listener);
+
+    expect(await respond(runner, 'echo', { text: 'hello' })).toEqual({ id: 'call-1', name: 'echo', response: { output: 'hello' } });
+    expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ id: 'call-1', status: 'done', result: 'hello' })]);
+  });
+
+  it('answers unknown tools and invalid arguments with an error', async () => {
+    const runner = new ToolRunner(new ToolRegistry([echo]));
+
+    expect((await respond(runner, 'missing', {})).response).toEqual({ error: 'Unknown tool "missing"' });
+    expect((await respond(runner, 'echo', {}, 'call-2')).response).toEqual({ error: 'Missing required argument "text"' });
+  });
+
+  it('asks before running sensitive tools', async () => {
+    const execute = vi.fn(async () => 'sent');
+    const runner = new ToolRunner(new ToolRegistry([{ ...echo, name: 'send', sensitive: true, execute }]));
+    let status = '';
+    runner.subscribe(records => { status = records.at(-1)?.status ?? ''; });
+
+    const declined = respond(runner, 'send', { text: 'a' });
+    await vi.waitFor(() => expect(status).toBe('awaiting-confirmation'));
+    runner.decide('call-1', false);
+    expect((await declined).response).toEqual({ error: 'The user declined this action.' });
+    expect(execute).not.toHaveBeenCalled();
+
+    const approved = respond(runner, 'send', { text: 'b' }, 'call-2');
+    await vi.waitFor(() => expect(status).toBe('awaiting-confirmation'));
+    runner.decide('call-2', true);
+    expect((await approved).response).toEqual({ output: 'sent' });
+  });
+
+  it('schedules non-blocking results for when the twin is idle', async () => {
+    const runner = new ToolRunner(new ToolRegistry([{ ...echo, nonBlocking: true }]));
+
+    expect((await respond(runner, 'echo', { text: 'x' })).scheduling).toBe('WHEN_IDLE');
+  });
+
+  it('sends nothing for cancelled calls', async () => {
+    let finish: (value: string) => void = () => {};
+    const slow: ToolDefinition = { ...echo, execute: () => new Promise(resolve => { finish = resolve; }) };
+    const runner = new ToolRunner(new ToolRegistry([slow]));
+    const responses = vi.fn();
+
+    runner.handle([{ id: 'call-1', name: 'echo', args: { text: 'x' } }], CONTEXT, responses);
+    runner.cancel(['call-1']);
+    finish('late');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(responses).not.toHaveBeenCalled();
+  });
+
+  it('fails calls that run past their timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const stuck: ToolDefinition = {
+        ...echo,
+        timeoutMs: 1000,
+        execute: (_args, { signal }) => new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))),
+      };
+      const response = respond(new ToolRunner(new ToolRegistry([stuck])), 'echo', { text: 'x' });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await response).response).toEqual({ error: 'Tool timed out' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,241 @@
+import { Behavior, FunctionDeclaration } from '@google/genai';
+import type { LiveToolCall, LiveToolResponse } from './live-provider';
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ToolParameter {
+  type: JsonType;
+  description: string;
+  enum?: string[];
+}
+
+export interface ToolParameters {
+  type: 'object';
+  properties: Record<string, ToolParameter>;
+  required?: string[];
+}
+
+export interface ToolContext {
+  // Persona memory namespace; tools keep their data per twin like memory and history do
+  namespace: string;
+  sessionId: string;
+  signal: AbortSignal;
+}
+
+export interface ToolDefinition<Args extends Record<string, unknown> = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  // Sensitive tools wait for the user to approve each call
+  sensitive?: boolean;
+  // The twin keeps talking while a non-blocking tool runs and hears the result when idle
+  nonBlocking?: boolean;
+  // Only changes what is on screen, so replaying a recording runs it again
+  replayable?: boolean;
+  timeoutMs?: number;
+  execute(args: Args, context: ToolContext): Promise<unknown>;
+}
+
+export type ToolCallStatus = 'awaiting-confirmation' | 'running' | 'done' | 'error' | 'declined' | 'cancelled';
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  sensitive: boolean;
+  status: ToolCallStatus;
+  result: unknown;
+  error: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+
+// Checks what the model sent against the declared schema before anything runs.
+export const validateArgs = (parameters: ToolParameters, args: Record<string, unknown>): string | null => {
+  for (const name of parameters.required ?? []) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') return `Missing required argument "${name}"`;
+  }
+  for (const [name, value] of Object.entries(args)) {
+    const spec = parameters.properties[name];
+    if (!spec) return `Unknown argument "${name}"`;
+    if (value === undefined || value === null) continue;
+    const ok = spec.type === 'integer' ? Number.isInteger(value) : typeof value === spec.type;
+    if (!ok) return `Argument "${name}" must be a ${spec.type}`;
+    if (spec.enum && !spec.enum.includes(String(value))) return `Argument "${name}" must be one of ${spec.enum.join(', ')}`;
+  }
+  return null;
+};
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[] = []) {
+    tools.forEach(tool => this.register(tool));
+  }
+
+  register(tool: ToolDefinition) {
+    if (!/^[a-zA-Z_][\w.-]{0,63}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}"`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string) {
+    this.tools.delete(name);
+  }
+
+  get(name: string) {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  declarations(): FunctionDeclaration[] {
+    return this.list().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: tool.parameters,
+      ...(tool.nonBlocking ? { behavior: Behavior.NON_BLOCKING } : {}),
+    }));
+  }
+}
+
+type Listener = (records: ToolCallRecord[]) => void;
+
+/**
+ * Executes the twin's tool calls for one live session. Every call is logged;
+ * sensitive ones wait for a decision from the UI, and each response is sent
+ * back as soon as its call settles rather than once the whole batch is done.
+ */
+export class ToolRunner {
+  private records: ToolCallRecord[] = [];
+  private listeners = new Set<Listener>();
+  private decisions = new Map<string, (approved: boolean) => void>();
+  private controllers = new Map<string, AbortController>();
+
+  constructor(private registry: ToolRegistry) {}
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener([...this.records]);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  handle(
+    calls: LiveToolCall[],
+    context: Omit<ToolContext, 'signal'>,
+    respond: (response: LiveToolResponse, record: ToolCallRecord) => void
+  ) {
+    calls.forEach(call => {
+      this.run(call, context).then(response => {
+        const record = this.find(call.id);
+        if (response && record) respond(response, record);
+      });
+    });
+  }
+
+  // The model withdrew these calls (usually because the user interrupted); they get no response.
+  cancel(ids: string[]) {
+    ids.forEach(id => {
+      this.controllers.get(id)?.abort();
+      this.decisions.get(id)?.(false);
+      this.update(id, { status: 'cancelled', finishedAt: Date.now() });
+    });
+  }
+
+  decide(id: string, approved: boolean) {
+    this.decisions.get(id)?.(approved);
+  }
+
+  cancelAll() {
+    this.cancel(this.records.filter(r => r.finishedAt === null).map(r => r.id));
+  }
+
+  // Starts a fresh log for a new session, cancelling anything still in flight.
+  reset() {
+    this.cancelAll();
+    this.records = [];
+    this.emit();
+  }
+
+  private async run(call: LiveToolCall, context: Omit<ToolContext, 'signal'>): Promise<LiveToolResponse | null> {
+    const tool = this.registry.get(call.name);
+    const args = call.args ?? {};
+    this.records = [...this.records, {
+      id: call.id,
+      name: call.name,
+      args,
+      sensitive: Boolean(tool?.sensitive),
+      status: 'running',
+      result: null,
+      error: null,
+      startedAt: Date.now(),
+      finishedAt: null,
+    }];
+    this.emit();
+
+    const fail = (error: string) => {
+      this.update(call.id, { status: 'error', error, finishedAt: Date.now() });
+      return { id: call.id, name: call.name, response: { error } };
+    };
+
+    if (!tool) return fail(`Unknown tool "${call.name}"`);
+    const invalid = validateArgs(tool.parameters, args);
+    if (invalid) return fail(invalid);
+
+    if (tool.sensitive) {
+      this.update(call.id, { status: 'awaiting-confirmation' });
+      const approved = await new Promise<boolean>(resolve => this.decisions.set(call.id, resolve));
+      this.decisions.delete(call.id);
+      if (this.find(call.id)?.status === 'cancelled') return null;
+      if (!approved) {
+        this.update(call.id, { status: 'declined', finishedAt: Date.now() });
+        return { id: call.id, name: call.name, response: { error: 'The user declined this action.' } };
+      }
+      this.update(call.id, { status: 'running' });
+    }
+
+    const controller = new AbortController();
+    this.controllers.set(call.id, controller);
+    const timeout = window.setTimeout(() => controller.abort(), tool.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      const result = await tool.execute(args, { ...context, signal: controller.signal });
+      if (this.find(call.id)?.status === 'cancelled') return null;
+      this.update(call.id, { status: 'done', result, finishedAt: Date.now() });
+      return {
+        id: call.id,
+        name: call.name,
+        response: { output: result },
+        ...(tool.nonBlocking ? { scheduling: 'WHEN_IDLE' as const } : {}),
+      };
+    } catch (err: any) {
+      if (this.find(call.id)?.status === 'cancelled') return null;
+      return fail(controller.signal.aborted ? 'Tool timed out' : err?.message || String(err));
+    } finally {
+      clearTimeout(timeout);
+      this.controllers.delete(call.id);
+    }
+  }
+
+  private find(id: string) {
+    return this.records.find(r => r.id === id);
+  }
+
+  private update(id: string, changes: Partial<ToolCallRecord>) {
+    const current = this.find(id);
+    if (!current || (current.finishedAt !== null && changes.status !== undefined)) return;
+    this.records = this.records.map(r => (r.id === id ? { ...r, ...changes } : r));
+    this.emit();
+  }
+
+  private emit() {
+    const records = [...this.records];
+    this.listeners.forEach(listener => listener(records));
+  }
+}
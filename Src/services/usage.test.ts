@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { BudgetError, UsageService, budgetLevel, budgetLevels, dayKey, emptyTotals, worstLevel } from './usage';
+import { SettingsService } from './settings';
+
+const setBudgets = (budgets: Partial<Record<string, number | null>>, warnAt = 0.8) => {
+  const usage = SettingsService.get().usage;
+  SettingsService.update('usage', { ...usage, warnAt, budgets: { ...usage.budgets, ...budgets } });
+};
+
+describe('budget levels', () => {
+  it('warns from the threshold and is exceeded at the budget', () => {
+    expect(budgetLevel(79, 100, 0.8)).toBe('ok');
+    expect(budgetLevel(80, 100, 0.8)).toBe('warning');
+    expect(budgetLevel(100, 100, 0.8)).toBe('exceeded');
+    expect(budgetLevel(1e9, null, 0.8)).toBe('ok');
+  });
+
+  it('rates every metric against its own budget', () => {
+    const totals = { ...emptyTotals(), textTurns: 9, speechCalls: 3 };
+    const budgets = { ...SettingsService.get().usage.budgets, textTurns: 10, speechCalls: 3 };
+    const levels = budgetLevels(totals, { ...SettingsService.get().usage, budgets, warnAt: 0.8 });
+
+    expect(levels.textTurns).toBe('warning');
+    expect(levels.speechCalls).toBe('exceeded');
+    expect(worstLevel(Object.values(levels))).toBe('exceeded');
+    expect(worstLevel(['ok', 'warning'])).toBe('warning');
+  });
+
+  it('keys days by local calendar date', () => {
+    expect(dayKey(new Date(2026, 0, 9, 23, 59))).toBe('2026-01-09');
+  });
+
+  it('asks the user to wait rather than switch keys', () => {
+    const error = new BudgetError('veoGenerations');
+
+    expect(error.kind).toBe('quota');
+    expect(error.action).toBe('tryLater');
+  });
+});
+
+describe('UsageService', () => {
+  afterEach(async () => {
+    UsageService.endSession();
+    await UsageService.clear();
+    SettingsService.reset();
+  });
+
+  it('counts into today and the open session', () => {
+    UsageService.beginSession('s1', { personaId: 'astra', provider: 'mock' });
+    UsageService.record('textTurns');
+    UsageService.record('audioInSeconds', 2.5);
+    // Zero, negative and NaN amounts are ignored
+    UsageService.record('textTurns', 0);
+    UsageService.record('textTurns', NaN);
+
+    const { today, session } = UsageService.getState();
+    expect(today.totals.textTurns).toBe(1);
+    expect(today.totals.audioInSeconds).toBe(2.5);
+    expect(session?.totals.textTurns).toBe(1);
+  });
+
+  it('refuses once a daily budget is used up', () => {
+    setBudgets({ speechCalls: 2 });
+    UsageService.record('speechCalls');
+    expect(UsageService.level('speechCalls')).toBe('ok');
+    expect(UsageService.allows('speechCalls')).toBe(true);
+
+    UsageService.record('speechCalls');
+    expect(UsageService.level('speechCalls')).toBe('exceeded');
+    expect(UsageService.allows('speechCalls')).toBe(false);
+  });
+
+  it('persists days and closed sessions', async () => {
+    UsageService.beginSession('s2', { personaId: 'astra', provider: 'gemini' });
+    UsageService.record('veoGenerations');
+    UsageService.endSession();
+
+    const history = await UsageService.history(3);
+    expect(history.map(day => day.day)).toHaveLength(3);
+    expect(history[2].totals.veoGenerations).toBe(1);
+
+    const [session] = await UsageService.sessions();
+    expect(session).toMatchObject({ id: 's2', provider: 'gemini', totals: expect.objectContaining({ veoGenerations: 1 }) });
+    expect(session.endedAt).not.toBeNull();
+  });
+
+  it('starts from zero after clear()', async () => {
+    UsageService.record('textTurns', 3);
+    await UsageService.clear();
+
+    expect(UsageService.getState().today.totals.textTurns).toBe(0);
+    expect((await UsageService.history(1))[0].totals.textTurns).toBe(0);
+  });
+});
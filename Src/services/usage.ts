@@ -0,0 +1,290 @@
+import { openDatabase, promisify, transactionDone } from './idb';
+import { ErrorAction, QuotaError } from './errors';
+import { SettingsService } from './settings';
+
+// Local metering of everything that costs API quota. Totals are kept per
+// calendar day and per session in IndexedDB and checked against the user's
+// budgets, so the app can warn and downgrade before the API starts refusing.
+
+export type UsageMetric = 'liveSeconds' | 'audioInSeconds' | 'audioOutSeconds' | 'textTurns' | 'speechCalls' | 'veoGenerations';
+export type UsageTotals = Record<UsageMetric, number>;
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export const USAGE_METRICS: UsageMetric[] = ['liveSeconds', 'audioInSeconds', 'audioOutSeconds', 'textTurns', 'speechCalls', 'veoGenerations'];
+
+// What a voice session uses up; running low on any of them triggers the downgrades
+export const VOICE_METRICS: UsageMetric[] = ['liveSeconds', 'audioInSeconds', 'audioOutSeconds'];
+
+// Measured in seconds, shown and budgeted in minutes
+export const isTimeMetric = (metric: UsageMetric) => metric.endsWith('Seconds');
+
+export interface UsageSettings {
+  // Daily limits in each metric's own unit (seconds for the time metrics); null is unlimited
+  budgets: Record<UsageMetric, number | null>;
+  // Share of a budget at which the app warns and applies the downgrades below
+  warnAt: number;
+  // Close a voice session in favour of the text chat when live or audio budgets run low
+  downgradeToText: boolean;
+  // Stop sending camera or screen frames when live or audio budgets run low
+  disableVision: boolean;
+}
+
+export interface UsageDay {
+  // Local calendar day, YYYY-MM-DD
+  day: string;
+  totals: UsageTotals;
+}
+
+export interface UsageSession {
+  id: string;
+  day: string;
+  personaId: string;
+  provider: string;
+  startedAt: number;
+  endedAt: number | null;
+  totals: UsageTotals;
+}
+
+export interface UsageState {
+  today: UsageDay;
+  // The open session, if any
+  session: UsageSession | null;
+}
+
+const DB_NAME = 'astra-usage';
+const DAYS = 'days';
+const SESSIONS = 'sessions';
+// Writes are batched; audio frames arrive dozens of times a second
+const FLUSH_MS = 5000;
+const NOTIFY_MS = 1000;
+// The live clock books elapsed time in steps this long
+const CLOCK_MS = 5000;
+
+const db = () => openDatabase(DB_NAME, 1, (database) => {
+  database.createObjectStore(DAYS, { keyPath: 'day' });
+  database.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('day', 'day');
+});
+
+export const emptyTotals = (): UsageTotals =>
+  Object.fromEntries(USAGE_METRICS.map(metric => [metric, 0])) as UsageTotals;
+
+const add = (totals: UsageTotals, metric: UsageMetric, amount: number): UsageTotals =>
+  ({ ...totals, [metric]: totals[metric] + amount });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dayKey = (date = new Date()) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const budgetLevel = (used: number, budget: number | null, warnAt: number): BudgetLevel => {
+  if (budget === null) return 'ok';
+  if (used >= budget) return 'exceeded';
+  return used >= budget * warnAt ? 'warning' : 'ok';
+};
+
+export const budgetLevels = (totals: UsageTotals, usage: UsageSettings): Record<UsageMetric, BudgetLevel> =>
+  Object.fromEntries(USAGE_METRICS.map(metric =>
+    [metric, budgetLevel(totals[metric], usage.budgets[metric], usage.warnAt)]
+  )) as Record<UsageMetric, BudgetLevel>;
+
+export const worstLevel = (levels: BudgetLevel[]): BudgetLevel =>
+  levels.includes('exceeded') ? 'exceeded' : levels.includes('warning') ? 'warning' : 'ok';
+
+// Refused locally because a daily budget is used up. Not a key problem, so the user is told to wait, not to switch keys.
+export class BudgetError extends QuotaError {
+  constructor(readonly metric: UsageMetric) {
+    super(`Daily ${metric} budget reached`);
+  }
+
+  get action(): ErrorAction {
+    return 'tryLater';
+  }
+}
+
+let state: UsageState = { today: { day: dayKey(), totals: emptyTotals() }, session: null };
+let dirty = false;
+let flushTimer: number | null = null;
+let notifyTimer: number | null = null;
+let clockStartedAt: number | null = null;
+let clockTimer: number | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  if (notifyTimer !== null) clearTimeout(notifyTimer);
+  notifyTimer = null;
+  listeners.forEach(listener => listener());
+};
+
+const scheduleNotify = () => {
+  if (notifyTimer === null) notifyTimer = window.setTimeout(notify, NOTIFY_MS);
+};
+
+const put = async (day: UsageDay, session: UsageSession | null) => {
+  try {
+    const tx = (await db()).transaction([DAYS, SESSIONS], 'readwrite');
+    tx.objectStore(DAYS).put(day);
+    if (session) tx.objectStore(SESSIONS).put(session);
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Usage could not be saved", e);
+  }
+};
+
+// Waits for the stored totals first, or today's record would be overwritten with a partial count
+const flush = async () => {
+  if (flushTimer !== null) clearTimeout(flushTimer);
+  flushTimer = null;
+  await ready;
+  if (!dirty) return;
+  dirty = false;
+  await put(state.today, state.session);
+};
+
+const scheduleFlush = () => {
+  dirty = true;
+  if (flushTimer === null) flushTimer = window.setTimeout(flush, FLUSH_MS);
+};
+
+// Past midnight the old day is written out and counting starts again from zero
+const rollOver = () => {
+  const day = dayKey();
+  if (day === state.today.day) return;
+  const previous = state.today;
+  ready.then(() => put(previous, null));
+  state = { ...state, today: { day, totals: emptyTotals() } };
+};
+
+const tickClock = () => {
+  if (clockStartedAt === null) return;
+  const now = performance.now();
+  const seconds = (now - clockStartedAt) / 1000;
+  clockStartedAt = now;
+  UsageService.record('liveSeconds', seconds);
+};
+
+// Whatever was counted before the stored totals loaded is added on top of them
+const ready = db()
+  .then(async (database) => {
+    const stored = await promisify<UsageDay | undefined>(database.transaction(DAYS, 'readonly').objectStore(DAYS).get(state.today.day));
+    if (!stored) return;
+    const totals = { ...state.today.totals };
+    USAGE_METRICS.forEach(metric => { totals[metric] += stored.totals[metric] ?? 0; });
+    state = { ...state, today: { ...state.today, totals } };
+    notify();
+  })
+  .catch(e => console.error("Usage store unavailable", e));
+
+// Counts since the last write would be lost with the tab
+window.addEventListener('pagehide', () => {
+  tickClock();
+  flush();
+});
+
+/**
+ * Meters live minutes, audio, text turns, speech synthesis and Veo
+ * generations. Listeners are notified at most once a second; the budgets
+ * themselves live in the `usage` settings section.
+ */
+export class UsageService {
+  static getState(): UsageState {
+    return state;
+  }
+
+  static subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  static record(metric: UsageMetric, amount = 1) {
+    if (!(amount > 0)) return;
+    rollOver();
+    const { today, session } = state;
+    state = {
+      today: { ...today, totals: add(today.totals, metric, amount) },
+      session: session && { ...session, totals: add(session.totals, metric, amount) },
+    };
+    scheduleFlush();
+    scheduleNotify();
+  }
+
+  static level(metric: UsageMetric): BudgetLevel {
+    rollOver();
+    const { usage } = SettingsService.get();
+    return budgetLevel(state.today.totals[metric], usage.budgets[metric], usage.warnAt);
+  }
+
+  // Whether today's budget for `metric` still has room
+  static allows(metric: UsageMetric) {
+    return UsageService.level(metric) !== 'exceeded';
+  }
+
+  static beginSession(id: string, info: { personaId: string; provider: string }) {
+    UsageService.endSession();
+    rollOver();
+    state = {
+      ...state,
+      session: { id, day: state.today.day, ...info, startedAt: Date.now(), endedAt: null, totals: emptyTotals() },
+    };
+    scheduleFlush();
+    notify();
+  }
+
+  static endSession() {
+    UsageService.stopClock();
+    if (!state.session) return;
+    const ended = { ...state.session, endedAt: Date.now() };
+    state = { ...state, session: null };
+    dirty = false;
+    ready.then(() => put(state.today, ended));
+    notify();
+  }
+
+  // Counts live connection time until stopped; reconnect gaps and replays are left out by the caller
+  static startClock() {
+    if (clockStartedAt !== null) return;
+    clockStartedAt = performance.now();
+    clockTimer = window.setInterval(tickClock, CLOCK_MS);
+  }
+
+  static stopClock() {
+    tickClock();
+    clockStartedAt = null;
+    if (clockTimer !== null) clearInterval(clockTimer);
+    clockTimer = null;
+  }
+
+  // The last `count` days up to today, oldest first; days without usage are filled in
+  static async history(count = 14): Promise<UsageDay[]> {
+    await ready;
+    await flush();
+    const stored = await promisify<UsageDay[]>((await db()).transaction(DAYS, 'readonly').objectStore(DAYS).getAll());
+    const byDay = new Map(stored.map(day => [day.day, day]));
+    byDay.set(state.today.day, state.today);
+    return Array.from({ length: count }, (_, i) => {
+      const date = new Date();
+      date.setDate(date.getDate() - (count - 1 - i));
+      const day = dayKey(date);
+      return byDay.get(day) ?? { day, totals: emptyTotals() };
+    });
+  }
+
+  static async sessions(limit = 20): Promise<UsageSession[]> {
+    await flush();
+    const all = await promisify<UsageSession[]>((await db()).transaction(SESSIONS, 'readonly').objectStore(SESSIONS).getAll());
+    return all.sort((a, b) => b.startedAt - a.startedAt).slice(0, limit);
+  }
+
+  static async clear() {
+    const tx = (await db()).transaction([DAYS, SESSIONS], 'readwrite');
+    tx.objectStore(DAYS).clear();
+    tx.objectStore(SESSIONS).clear();
+    await transactionDone(tx);
+    dirty = false;
+    state = {
+      today: { day: state.today.day, totals: emptyTotals() },
+      session: state.session && { ...state.session, totals: emptyTotals() },
+    };
+    notify();
+  }
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VOICE_INPUT_DEFAULTS, VadEvent, VoiceActivityDetector } from './vad';
+
+const FRAME_MS = 20;
+const QUIET_DB = -60;
+const SPEECH_DB = -20;
+
+// A constant frame has an RMS level equal to its sample value
+const frame = (db: number) => new Float32Array(480).fill(10 ** (db / 20));
+
+// Feeds frames at the given level for `ms`, advancing the clock the detector reads
+const feed = (vad: VoiceActivityDetector, db: number, ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += FRAME_MS) {
+    vad.process(frame(db), 24000);
+    vi.advanceTimersByTime(FRAME_MS);
+  }
+};
+
+const detector = (settings = VOICE_INPUT_DEFAULTS) => {
+  const vad = new VoiceActivityDetector(settings);
+  const events: VadEvent[] = [];
+  vad.subscribe(event => events.push(event));
+  return { vad, events };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['performance'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('VoiceActivityDetector', () => {
+  it('only calibrates during the first half second', () => {
+    const { vad, events } = detector();
+
+    feed(vad, SPEECH_DB, 500);
+    expect(events).toEqual([]);
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('opens a turn once speech has lasted long enough', () => {
+    const { vad, events } = detector();
+    feed(vad, QUIET_DB, 600);
+
+    // A click shorter than the onset is ignored
+    feed(vad, SPEECH_DB, 60);
+    feed(vad, QUIET_DB, 200);
+    expect(events).toEqual([]);
+
+    feed(vad, SPEECH_DB, 100);
+    expect(events).toEqual([]);
+    feed(vad, SPEECH_DB, 60);
+    expect(events).toEqual(['speechStart']);
+    expect(vad.isSpeaking).toBe(true);
+  });
+
+  it('ends the turn only after the configured silence', () => {
+    const { vad, events } = detector({ ...VOICE_INPUT_DEFAULTS, silenceMs: 400 });
+    feed(vad, QUIET_DB, 600);
+    feed(vad, SPEECH_DB, 200);
+
+    // A pause shorter than the hangover keeps the turn open
+    feed(vad, QUIET_DB, 300);
+    feed(vad, SPEECH_DB, 100);
+    expect(events).toEqual(['speechStart']);
+
+    feed(vad, QUIET_DB, 380);
+    expect(events).toEqual(['speechStart']);
+    feed(vad, QUIET_DB, 60);
+    expect(events).toEqual(['speechStart', 'speechEnd']);
+    expect(vad.isSpeaking).toBe(false);
+  });
+
+  it('maps sensitivity to the margin over the noise floor', () => {
+    // 12 dB over the floor: enough at full sensitivity (6 dB), not at none (24 dB)
+    const soft = QUIET_DB + 12;
+    const sensitive = detector({ ...VOICE_INPUT_DEFAULTS, sensitivity: 1 });
+    const deaf = detector({ ...VOICE_INPUT_DEFAULTS, sensitivity: 0 });
+
+    for (const { vad } of [sensitive, deaf]) {
+      feed(vad, QUIET_DB, 600);
+      feed(vad, soft, 300);
+    }
+
+    expect(sensitive.events).toEqual(['speechStart']);
+    expect(deaf.events).toEqual([]);
+  });
+
+  it('calibrates again after a reset', () => {
+    const { vad, events } = detector();
+    feed(vad, QUIET_DB, 600);
+    feed(vad, SPEECH_DB, 200);
+    vad.reset();
+
+    feed(vad, SPEECH_DB, 400);
+    expect(events).toEqual(['speechStart']);
+    expect(vad.isSpeaking).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+export type VoiceInputMode = 'vad' | 'ptt';
+
+export interface VoiceInputSettings {
+  // 'vad' keeps the mic open and detects turns locally, 'ptt' only listens while held
+  mode: VoiceInputMode;
+  // 0..1, higher picks up quieter speech
+  sensitivity: number;
+  // How long the user must be quiet before their turn ends
+  silenceMs: number;
+}
+
+export type VadEvent = 'speechStart' | 'speechEnd';
+
+export const VOICE_INPUT_DEFAULTS: VoiceInputSettings = { mode: 'vad', sensitivity: 0.6, silenceMs: 900 };
+
+// Speech has to persist this long before it counts, so clicks and taps don't open a turn
+const MIN_SPEECH_MS = 120;
+const HANGOVER_DB = 3;
+const FLOOR_DB = -70;
+const NOISE_ADAPT = 0.05;
+// Frames in this window after a reset only calibrate the noise floor
+const CALIBRATION_MS = 500;
+
+const toDb = (rms: number) => (rms > 0 ? 20 * Math.log10(rms) : FLOOR_DB);
+
+/**
+ * Energy-based voice activity detector fed with mic frames from the live
+ * provider. It tracks the room's noise floor and reports speech that rises a
+ * sensitivity-dependent margin above it.
+ */
+export class VoiceActivityDetector {
+  private settings: VoiceInputSettings;
+  private listeners = new Set<(event: VadEvent) => void>();
+  private noiseDb = -55;
+  private speaking = false;
+  private aboveSince: number | null = null;
+  private belowSince: number | null = null;
+  private calibrateUntil: number | null = null;
+
+  constructor(settings: VoiceInputSettings = VOICE_INPUT_DEFAULTS) {
+    this.settings = settings;
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  configure(settings: VoiceInputSettings) {
+    this.settings = settings;
+  }
+
+  subscribe(listener: (event: VadEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  process(pcm: Float32Array, _sampleRate: number, now = performance.now()) {
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+    const db = toDb(Math.sqrt(sum / Math.max(1, pcm.length)));
+
+    this.calibrateUntil ??= now + CALIBRATION_MS;
+    if (now < this.calibrateUntil) {
+      this.noiseDb = Math.max(FLOOR_DB, this.noiseDb + (db - this.noiseDb) * 0.3);
+      return;
+    }
+
+    // Sensitivity 1 triggers 6 dB over the noise floor, sensitivity 0 needs 24 dB
+    const margin = 6 + (1 - Math.min(1, Math.max(0, this.settings.sensitivity))) * 18;
+    const threshold = this.noiseDb + margin;
+
+    if (!this.speaking) {
+      if (db > threshold) {
+        this.aboveSince ??= now;
+        if (now - this.aboveSince >= MIN_SPEECH_MS) {
+          this.speaking = true;
+          this.belowSince = null;
+          this.emit('speechStart');
+        }
+      } else {
+        this.aboveSince = null;
+        // Only learn the noise floor from non-speech frames
+        this.noiseDb = Math.max(FLOOR_DB, this.noiseDb + (db - this.noiseDb) * NOISE_ADAPT);
+      }
+      return;
+    }
+
+    if (db < threshold - HANGOVER_DB) {
+      this.belowSince ??= now;
+      if (now - this.belowSince >= this.settings.silenceMs) {
+        this.speaking = false;
+        this.aboveSince = null;
+        this.emit('speechEnd');
+      }
+    } else {
+      this.belowSince = null;
+    }
+  }
+
+  reset() {
+    this.speaking = false;
+    this.aboveSince = null;
+    this.belowSince = null;
+    this.calibrateUntil = null;
+  }
+
+  private emit(event: VadEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
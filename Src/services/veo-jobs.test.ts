@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CancelledError } from './errors';
+
+// Each submission stays open until the test settles it
+const submissions: { prompt: string; finish: () => void }[] = [];
+const generateVideos = vi.fn(({ prompt }: { prompt: string }) => new Promise(resolve => {
+  submissions.push({
+    prompt,
+    finish: () => resolve({ name: `operations/${prompt}`, done: true, response: { generatedVideos: [{ video: { uri: `https://clips/${prompt}` } }] } }),
+  });
+}));
+
+vi.mock('./genai-client', () => ({
+  createGenAI: () => ({ models: { generateVideos }, operations: { getVideosOperation: vi.fn() } }),
+  fetchMedia: (uri: string) => fetch(uri),
+}));
+
+const { veoJobs } = await import('./veo-jobs');
+
+const request = (prompt: string) => ({
+  namespace: 'astra',
+  clipState: 'idle' as const,
+  imageBase64: 'aW1hZ2U=',
+  mimeType: 'image/png',
+  aspectRatio: '9:16',
+  prompt,
+});
+
+describe('veoJobs', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Blob(['clip'], { type: 'video/mp4' }))));
+    URL.createObjectURL = vi.fn(() => 'blob:clip');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    generateVideos.mockClear();
+    submissions.length = 0;
+  });
+
+  it('runs queued jobs one at a time', async () => {
+    const first = veoJobs.generate(request('one'));
+    const second = veoJobs.generate(request('two'));
+    await vi.waitFor(() => expect(submissions).toHaveLength(1));
+
+    submissions[0].finish();
+    await expect(first).resolves.toMatchObject({ status: 'done', prompt: 'one' });
+    await vi.waitFor(() => expect(submissions).toHaveLength(2));
+    submissions[1].finish();
+    await expect(second).resolves.toMatchObject({ status: 'done', prompt: 'two' });
+    expect(await veoJobs.getClipUrl((await second).cacheKey)).toBe('blob:clip');
+  });
+
+  it('still runs the next job when the running one is cancelled', async () => {
+    const running = veoJobs.generate(request('running'));
+    const next = veoJobs.generate(request('next'));
+    await vi.waitFor(() => expect(submissions).toHaveLength(1));
+
+    const job = veoJobs.list('astra').find(j => j.prompt === 'running')!;
+    await veoJobs.cancel(job.id);
+    await expect(running).rejects.toBeInstanceOf(CancelledError);
+    submissions[0].finish();
+
+    await vi.waitFor(() => expect(submissions.map(s => s.prompt)).toEqual(['running', 'next']));
+    submissions[1].finish();
+    await expect(next).resolves.toMatchObject({ status: 'done', prompt: 'next' });
+    expect(veoJobs.list('astra').find(j => j.id === job.id)?.status).toBe('cancelled');
+  });
+
+  it('skips a queued job cancelled before its turn', async () => {
+    const first = veoJobs.generate(request('first'));
+    const skipped = veoJobs.generate(request('skipped'));
+    const last = veoJobs.generate(request('last'));
+    await vi.waitFor(() => expect(submissions).toHaveLength(1));
+
+    await veoJobs.cancel(veoJobs.list('astra').find(j => j.prompt === 'skipped')!.id);
+    await expect(skipped).rejects.toBeInstanceOf(CancelledError);
+    submissions[0].finish();
+    await first;
+
+    await vi.waitFor(() => expect(submissions.map(s => s.prompt)).toEqual(['first', 'last']));
+    submissions[1].finish();
+    await expect(last).resolves.toMatchObject({ status: 'done' });
+  });
+
+  it('reuses a cached clip instead of generating again', async () => {
+    const done = veoJobs.generate(request('cached'));
+    await vi.waitFor(() => expect(submissions).toHaveLength(1));
+    submissions[0].finish();
+    const job = await done;
+
+    await expect(veoJobs.generate(request('cached'))).resolves.toMatchObject({ id: job.id, status: 'done' });
+    expect(generateVideos).toHaveBeenCalledTimes(1);
+  });
+});
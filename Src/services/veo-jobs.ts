@@ -0,0 +1,296 @@
+import { GenerateVideosOperation } from '@google/genai';
+import { openDatabase, promisify, transactionDone } from './idb';
+import { createGenAI, fetchMedia } from './genai-client';
+import { AstraError, CancelledError, ModelError, classifyError, withRetry } from './errors';
+import { DiagnosticsService } from './diagnostics';
+import { BudgetError, UsageService } from './usage';
+
+// Veo generations are slow and expensive, so every job is persisted: pending
+// operations resume polling after a reload, and finished clips are cached in
+// IndexedDB under a hash of everything that went into them.
+
+export type ClipState = 'idle' | 'listening' | 'speaking';
+export type VeoJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export const CLIP_STATES: ClipState[] = ['idle', 'listening', 'speaking'];
+
+export const CLIP_PROMPTS: Record<ClipState, string> = {
+  idle: 'Seamless idle loop: the person breathes gently, blinks now and then and looks calmly at the camera. Minimal movement, static camera.',
+  listening: 'Seamless loop: the person listens attentively with small nods, steady eye contact and a slight head tilt. Static camera.',
+  speaking: 'Seamless loop: the person talks naturally to the camera with expressive mouth and facial movement and slight head motion. Static camera.',
+};
+
+export interface VeoJob {
+  id: string;
+  cacheKey: string;
+  namespace: string;
+  clipState: ClipState;
+  prompt: string;
+  aspectRatio: string;
+  status: VeoJobStatus;
+  operationName: string | null;
+  progress: string;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+  // Source image, kept only until the operation has been accepted
+  image: { base64: string; mimeType: string } | null;
+}
+
+interface CachedClip {
+  key: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+export interface VeoRequest {
+  namespace: string;
+  clipState: ClipState;
+  imageBase64: string;
+  mimeType: string;
+  aspectRatio: string;
+  prompt?: string;
+}
+
+const DB_NAME = 'astra-veo';
+const JOBS = 'jobs';
+const CLIPS = 'clips';
+const VEO_MODEL = 'veo-3.1-fast-generate-preview';
+const POLL_INTERVAL_MS = 10000;
+
+const db = () => openDatabase(DB_NAME, 1, (database) => {
+  database.createObjectStore(JOBS, { keyPath: 'id' }).createIndex('namespace', 'namespace');
+  database.createObjectStore(CLIPS, { keyPath: 'key' });
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const clipCacheKey = async (imageBase64: string, prompt: string, aspectRatio: string) => {
+  const bytes = new TextEncoder().encode(`${imageBase64}\u0000${prompt}\u0000${aspectRatio}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+type Listener = (jobs: VeoJob[]) => void;
+
+class VeoJobManager {
+  private jobs = new Map<string, VeoJob>();
+  private listeners = new Set<Listener>();
+  private waiters = new Map<string, { resolve: (job: VeoJob) => void; reject: (err: Error) => void }[]>();
+  private clipUrls = new Map<string, string>();
+  private queue: string[] = [];
+  private isProcessing = false;
+  private ready: Promise<void> | null = null;
+
+  // Loads persisted jobs and re-queues anything that was still in flight.
+  init(): Promise<void> {
+    this.ready ??= (async () => {
+      const tx = (await db()).transaction(JOBS, 'readonly');
+      const stored = await promisify<VeoJob[]>(tx.objectStore(JOBS).getAll());
+      stored.forEach(job => this.jobs.set(job.id, job));
+      stored
+        .filter(job => job.status === 'pending' || job.status === 'running')
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .forEach(job => this.queue.push(job.id));
+      this.emit();
+      this.process();
+    })();
+    return this.ready;
+  }
+
+  subscribe(listener: Listener) {
+    this.listeners.add(listener);
+    listener(this.list().map(job => ({ ...job })));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  list(namespace?: string): VeoJob[] {
+    return [...this.jobs.values()]
+      .filter(job => !namespace || job.namespace === namespace)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /** Resolves with the finished job; a cached clip or an identical in-flight job is reused. */
+  async generate(request: VeoRequest): Promise<VeoJob> {
+    await this.init();
+    const prompt = request.prompt ?? CLIP_PROMPTS[request.clipState];
+    const cacheKey = await clipCacheKey(request.imageBase64, prompt, request.aspectRatio);
+
+    const existing = this.list(request.namespace).find(job =>
+      job.cacheKey === cacheKey && job.clipState === request.clipState && job.status !== 'failed' && job.status !== 'cancelled'
+    );
+    if (existing?.status === 'done' && await this.getClipUrl(cacheKey)) return existing;
+    if (existing && existing.status !== 'done') return this.waitFor(existing.id);
+
+    const now = Date.now();
+    const job: VeoJob = {
+      id: crypto.randomUUID(),
+      cacheKey,
+      namespace: request.namespace,
+      clipState: request.clipState,
+      prompt,
+      aspectRatio: request.aspectRatio,
+      status: (await this.getClipUrl(cacheKey)) ? 'done' : 'pending',
+      operationName: null,
+      progress: 'Queued',
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      image: { base64: request.imageBase64, mimeType: request.mimeType },
+    };
+    if (job.status === 'done') job.image = null;
+    await this.save(job);
+    if (job.status === 'done') return job;
+
+    this.queue.push(job.id);
+    this.process();
+    return this.waitFor(job.id);
+  }
+
+  async cancel(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status === 'done' || job.status === 'failed') return;
+    // Gemini offers no server-side cancel for Veo; we stop polling and drop the result
+    this.queue = this.queue.filter(id => id !== jobId);
+    await this.update(job, { status: 'cancelled', progress: 'Cancelled', image: null });
+    this.settle(jobId, new CancelledError());
+  }
+
+  async getClipUrl(cacheKey: string): Promise<string | null> {
+    const known = this.clipUrls.get(cacheKey);
+    if (known) return known;
+    const tx = (await db()).transaction(CLIPS, 'readonly');
+    const clip = await promisify<CachedClip | undefined>(tx.objectStore(CLIPS).get(cacheKey));
+    if (!clip) return null;
+    const url = URL.createObjectURL(clip.blob);
+    this.clipUrls.set(cacheKey, url);
+    return url;
+  }
+
+  // Latest finished clip per avatar state for a persona.
+  async clipSet(namespace: string): Promise<Partial<Record<ClipState, string>>> {
+    await this.init();
+    const clips: Partial<Record<ClipState, string>> = {};
+    for (const job of this.list(namespace).filter(j => j.status === 'done')) {
+      if (clips[job.clipState]) continue;
+      const url = await this.getClipUrl(job.cacheKey);
+      if (url) clips[job.clipState] = url;
+    }
+    return clips;
+  }
+
+  private async process() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    try {
+      // One generation at a time keeps us well inside Veo's concurrency quota.
+      // A job leaves the queue before it runs, so cancel() during the run cannot shift the wrong one off.
+      while (this.queue.length > 0) {
+        const job = this.jobs.get(this.queue.shift()!);
+        if (job && (job.status === 'pending' || job.status === 'running')) {
+          await this.run(job);
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private async run(job: VeoJob) {
+    try {
+      const ai = createGenAI();
+      let operation: GenerateVideosOperation;
+      if (job.operationName) {
+        operation = new GenerateVideosOperation();
+        operation.name = job.operationName;
+        await this.update(job, { status: 'running', progress: 'Resuming neural synthesis...' });
+      } else {
+        if (!job.image) throw new ModelError('Source image missing for pending Veo job');
+        // Checked per submission: a queue of clips can run past the budget halfway through
+        if (!UsageService.allows('veoGenerations')) throw new BudgetError('veoGenerations');
+        await this.update(job, { status: 'running', progress: 'Submitting to Veo...' });
+        operation = await ai.models.generateVideos({
+          model: VEO_MODEL,
+          prompt: job.prompt,
+          image: { imageBytes: job.image.base64.replace(/^data:[^,]+,/, ''), mimeType: job.image.mimeType },
+          config: { numberOfVideos: 1, aspectRatio: job.aspectRatio },
+        });
+        UsageService.record('veoGenerations');
+        await this.update(job, { operationName: operation.name ?? null, image: null });
+      }
+
+      let polls = 0;
+      while (!operation.done) {
+        await sleep(POLL_INTERVAL_MS);
+        if (this.jobs.get(job.id)?.status === 'cancelled') return;
+        const current = operation;
+        // Polling is safe to repeat, unlike the submission above
+        operation = await withRetry(() => ai.operations.getVideosOperation({ operation: current }), this.logRetry(job));
+        polls++;
+        await this.update(job, { progress: `Rendering ${job.clipState} loop (${polls * POLL_INTERVAL_MS / 1000}s)...` });
+      }
+      if (this.jobs.get(job.id)?.status === 'cancelled') return;
+      if (operation.error) throw classifyError(String(operation.error.message ?? JSON.stringify(operation.error)));
+
+      const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+      if (!uri) throw new ModelError('Veo returned no video');
+      await this.update(job, { progress: 'Downloading clip...' });
+      const blob = await withRetry(async () => {
+        const response = await fetchMedia(uri);
+        if (!response.ok) throw classifyError(`Video download failed (${response.status})`, 'network');
+        return response.blob();
+      }, this.logRetry(job));
+
+      const tx = (await db()).transaction(CLIPS, 'readwrite');
+      tx.objectStore(CLIPS).put({ key: job.cacheKey, blob, createdAt: Date.now() } satisfies CachedClip);
+      await transactionDone(tx);
+
+      await this.update(job, { status: 'done', progress: 'Ready' });
+      this.settle(job.id);
+    } catch (err) {
+      const error = classifyError(err);
+      DiagnosticsService.error('veo', error);
+      await this.update(job, { status: 'failed', error: error.message, progress: 'Failed' });
+      this.settle(job.id, error);
+    }
+  }
+
+  private logRetry(job: VeoJob) {
+    return (error: AstraError, attempt: number, delayMs: number) =>
+      DiagnosticsService.log('veo', `${job.clipState} clip: retry ${attempt} in ${delayMs}ms after ${error.name}: ${error.message}`, 'warn');
+  }
+
+  private waitFor(jobId: string): Promise<VeoJob> {
+    return new Promise((resolve, reject) => {
+      this.waiters.set(jobId, [...(this.waiters.get(jobId) ?? []), { resolve, reject }]);
+    });
+  }
+
+  private settle(jobId: string, error?: Error) {
+    const job = this.jobs.get(jobId)!;
+    (this.waiters.get(jobId) ?? []).forEach(w => (error ? w.reject(error) : w.resolve(job)));
+    this.waiters.delete(jobId);
+  }
+
+  private async update(job: VeoJob, changes: Partial<VeoJob>) {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    await this.save(job);
+  }
+
+  private async save(job: VeoJob) {
+    this.jobs.set(job.id, job);
+    const tx = (await db()).transaction(JOBS, 'readwrite');
+    tx.objectStore(JOBS).put(job);
+    await transactionDone(tx);
+    this.emit();
+  }
+
+  private emit() {
+    const jobs = this.list().map(job => ({ ...job }));
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
+
+export const veoJobs = new VeoJobManager();
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { FrameFeatures, VISEME_SETS, VisemeEngine, VisemeEvent, analyseFrame, classifyFrame } from './viseme-engine';
+
+const RATE = 24000;
+const FRAME = 512;
+
+// Sum of sines, one per [frequency, amplitude] pair
+const tone = (partials: [number, number][], length = FRAME) =>
+  Float32Array.from({ length }, (_, i) => partials.reduce((sum, [hz, amplitude]) => sum + amplitude * Math.sin((2 * Math.PI * hz * i) / RATE), 0));
+
+const features = (changes: Partial<FrameFeatures>): FrameFeatures =>
+  ({ rms: 0.2, zcr: 0.05, centroid: 1200, highBandRatio: 0.05, f1: 500, f2: 1500, ...changes });
+
+// One spectrum bin at 24 kHz with 512-sample frames
+const BIN = RATE / FRAME;
+
+describe('analyseFrame', () => {
+  it('measures level and zero crossings of a tone', () => {
+    const result = analyseFrame(tone([[600, 0.5]]), RATE);
+
+    expect(result.rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+    expect(result.zcr).toBeCloseTo((2 * 600) / RATE, 2);
+    expect(result.highBandRatio).toBeLessThan(0.01);
+  });
+
+  it('finds the first two formants of a vowel-like frame', () => {
+    const result = analyseFrame(tone([[750, 0.4], [1250, 0.3]]), RATE);
+
+    expect(Math.abs(result.f1 - 750)).toBeLessThanOrEqual(BIN);
+    expect(Math.abs(result.f2 - 1250)).toBeLessThanOrEqual(BIN);
+    expect(result.centroid).toBeGreaterThan(750);
+    expect(result.centroid).toBeLessThan(1250);
+  });
+
+  it('puts the energy of a hiss above 3 kHz', () => {
+    const result = analyseFrame(tone([[6000, 0.3], [7000, 0.3]]), RATE);
+
+    expect(result.highBandRatio).toBeGreaterThan(0.95);
+    expect(result.centroid).toBeGreaterThan(5500);
+    expect(result.zcr).toBeGreaterThan(0.2);
+  });
+
+  it('reads silence as all zeros', () => {
+    expect(analyseFrame(new Float32Array(FRAME), RATE)).toMatchObject({ rms: 0, zcr: 0, centroid: 0, highBandRatio: 0 });
+  });
+});
+
+describe('classifyFrame', () => {
+  it('rests below the silence threshold whatever the spectrum', () => {
+    expect(classifyFrame(features({ rms: 0.005, zcr: 0.5, highBandRatio: 0.9 }), 1, 0.01)).toBe('rest');
+  });
+
+  it('sorts noisy frames into fricatives by energy and brightness', () => {
+    const hiss = { zcr: 0.4, highBandRatio: 0.7 };
+
+    expect(classifyFrame(features({ ...hiss, centroid: 6000 }), 0.8, 0.01)).toBe('sibilant');
+    expect(classifyFrame(features({ ...hiss, centroid: 3500 }), 0.8, 0.01)).toBe('postalveolar');
+    expect(classifyFrame(features({ ...hiss, centroid: 6000 }), 0.2, 0.01)).toBe('labiodental');
+  });
+
+  it('closes the lips on quiet voiced frames', () => {
+    expect(classifyFrame(features({}), 0.2, 0.01)).toBe('closed');
+  });
+
+  it('maps formants onto vowel height and backness', () => {
+    const vowel = (f1: number, f2: number) => classifyFrame(features({ f1, f2 }), 1, 0.01);
+
+    expect(vowel(800, 1100)).toBe('openBack');
+    expect(vowel(800, 1800)).toBe('openFront');
+    expect(vowel(500, 1900)).toBe('midFront');
+    expect(vowel(500, 1000)).toBe('midBack');
+    expect(vowel(300, 2300)).toBe('closeFront');
+    expect(vowel(300, 900)).toBe('closeBack');
+  });
+
+  it('classifies synthesized frames end to end', () => {
+    const classify = (frame: Float32Array) => classifyFrame(analyseFrame(frame, RATE), 1, 0.01);
+
+    expect(classify(tone([[750, 0.4], [1100, 0.3]]))).toBe('openBack');
+    expect(classify(tone([[300, 0.4], [2300, 0.3]]))).toBe('closeFront');
+    expect(classify(tone([[6000, 0.3], [7000, 0.3]]))).toBe('sibilant');
+    expect(classify(new Float32Array(FRAME))).toBe('rest');
+  });
+});
+
+describe('VisemeEngine', () => {
+  it('schedules visemes at their playback time and rests once the audio has played', () => {
+    const engine = new VisemeEngine({ latencyMs: 100 });
+    engine.push(tone([[750, 0.4], [1100, 0.3]], RATE / 5), RATE, 0);
+
+    expect(engine.sample(50).viseme).toBe('sil');
+    const speaking = engine.sample(150);
+    expect(speaking.viseme).toBe('aa');
+    expect(speaking.scale).toBeGreaterThan(1);
+    expect(engine.sample(400).viseme).toBe('sil');
+  });
+
+  it('queues chunks back to back and drops them on reset', () => {
+    const engine = new VisemeEngine();
+    engine.push(tone([[750, 0.4], [1100, 0.3]], RATE / 10), RATE, 0);
+    engine.push(tone([[300, 0.4], [2300, 0.3]], RATE / 10), RATE, 0);
+
+    expect(engine.sample(150).viseme).toBe('I');
+    engine.reset();
+    expect(engine.sample(160).viseme).toBe('sil');
+  });
+
+  it('reports each run of one viseme as an event and speaks the chosen language', () => {
+    const engine = new VisemeEngine({ language: 'fa' });
+    const events: VisemeEvent[] = [];
+    engine.subscribe(event => events.push(event));
+
+    engine.push(tone([[750, 0.4], [1100, 0.3]], RATE / 10), RATE, 0);
+    engine.push(new Float32Array(RATE / 10), RATE, 0);
+    engine.reset();
+
+    expect(events.map(event => event.viseme.id)).toContain(VISEME_SETS.fa.openBack.id);
+    expect(events.at(-1)?.viseme.id).toBe(VISEME_SETS.fa.rest.id);
+    expect(events.every((event, i) => i === 0 || event.start >= events[i - 1].start)).toBe(true);
+  });
+});
@@ -0,0 +1,290 @@
+// Real-time viseme extraction from the twin's output PCM.
+// Frames are analysed as they arrive, queued against their playback time and
+// sampled by the avatar renderer, so the mouth follows what is actually heard.
+
+export type VisemeLanguage = 'en' | 'fa';
+
+// Acoustic classes the analyser can tell apart; each language maps them to its own visemes.
+export type VisemeClass =
+  | 'rest' | 'closed' | 'labiodental' | 'sibilant' | 'postalveolar'
+  | 'openBack' | 'openFront' | 'midFront' | 'midBack' | 'closeFront' | 'closeBack';
+
+export interface MouthShape {
+  scale: number;
+  skew: number;
+}
+
+export interface VisemeDefinition extends MouthShape {
+  id: string;
+  label: string;
+}
+
+export interface VisemeFrame {
+  at: number;
+  viseme: VisemeDefinition;
+  weight: number;
+}
+
+export interface VisemeEvent {
+  viseme: VisemeDefinition;
+  start: number;
+  end: number;
+  weight: number;
+}
+
+export interface VisemeEngineOptions {
+  language?: VisemeLanguage;
+  // Extra delay between receiving a chunk and hearing it (output device latency)
+  latencyMs?: number;
+  silenceThreshold?: number;
+}
+
+const REST: MouthShape = { scale: 1, skew: 0 };
+
+const v = (id: string, label: string, scale: number, skew: number): VisemeDefinition => ({ id, label, scale, skew });
+
+export const VISEME_SETS: Record<VisemeLanguage, Record<VisemeClass, VisemeDefinition>> = {
+  en: {
+    rest: v('sil', 'silence', 1, 0),
+    closed: v('PP', 'p b m', 0.85, -0.5),
+    labiodental: v('FF', 'f v', 1.02, 0.6),
+    sibilant: v('SS', 's z', 1.05, 0.8),
+    postalveolar: v('CH', 'ch j sh', 1.08, 1.0),
+    openBack: v('aa', 'father', 1.3, 1.5),
+    openFront: v('aa', 'cat', 1.25, 1.6),
+    midFront: v('E', 'bed', 1.15, 1.2),
+    midBack: v('O', 'go', 1.18, 0.4),
+    closeFront: v('I', 'see', 1.06, 1.8),
+    closeBack: v('U', 'blue', 1.04, 0.2),
+  },
+  fa: {
+    rest: v('sil', 'سکوت', 1, 0),
+    closed: v('P', 'ب پ م', 0.85, -0.5),
+    labiodental: v('F', 'ف و', 1.02, 0.6),
+    sibilant: v('S', 'س ز ص ث ذ ض ظ', 1.05, 0.8),
+    postalveolar: v('SH', 'ش ژ چ ج', 1.1, 0.9),
+    openBack: v('AA', 'آ', 1.3, 1.2),
+    openFront: v('A', 'اَ', 1.22, 1.6),
+    midFront: v('E', 'اِ', 1.14, 1.3),
+    midBack: v('O', 'اُ', 1.16, 0.4),
+    closeFront: v('I', 'ای', 1.06, 1.8),
+    closeBack: v('U', 'او', 1.04, 0.1),
+  },
+};
+
+const FRAME_SIZE = 512;
+const HOP_MS = 10;
+
+// In-place iterative radix-2 FFT; returns magnitudes of the first half of the spectrum.
+const magnitudeSpectrum = (samples: Float32Array): Float32Array => {
+  const n = samples.length;
+  const re = new Float32Array(n);
+  const im = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    // Hann window
+    re[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+  const mags = new Float32Array(n / 2);
+  for (let i = 0; i < n / 2; i++) mags[i] = Math.hypot(re[i], im[i]);
+  return mags;
+};
+
+export interface FrameFeatures {
+  rms: number;
+  zcr: number;
+  centroid: number;
+  highBandRatio: number;
+  f1: number;
+  f2: number;
+}
+
+export const analyseFrame = (frame: Float32Array, sampleRate: number): FrameFeatures => {
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumSquares += frame[i] * frame[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+  }
+
+  const mags = magnitudeSpectrum(frame);
+  const binHz = sampleRate / frame.length;
+  let total = 0;
+  let weighted = 0;
+  let high = 0;
+  for (let i = 1; i < mags.length; i++) {
+    const power = mags[i] * mags[i];
+    total += power;
+    weighted += power * i * binHz;
+    if (i * binHz > 3000) high += power;
+  }
+
+  const peakIn = (fromHz: number, toHz: number) => {
+    let best = fromHz;
+    let bestMag = -1;
+    const end = Math.min(mags.length - 1, Math.floor(toHz / binHz));
+    for (let i = Math.ceil(fromHz / binHz); i <= end; i++) {
+      if (mags[i] > bestMag) {
+        bestMag = mags[i];
+        best = i * binHz;
+      }
+    }
+    return best;
+  };
+  const f1 = peakIn(250, 1000);
+  const f2 = peakIn(Math.max(900, f1 + 300), 2800);
+
+  return {
+    rms: Math.sqrt(sumSquares / frame.length),
+    zcr: crossings / frame.length,
+    centroid: total > 0 ? weighted / total : 0,
+    highBandRatio: total > 0 ? high / total : 0,
+    f1,
+    f2,
+  };
+};
+
+export const classifyFrame = (features: FrameFeatures, relativeEnergy: number, silenceThreshold: number): VisemeClass => {
+  if (features.rms < silenceThreshold) return 'rest';
+
+  const noisy = features.zcr > 0.2 && features.highBandRatio > 0.4;
+  if (noisy) {
+    if (relativeEnergy < 0.3) return 'labiodental';
+    return features.centroid > 4500 ? 'sibilant' : 'postalveolar';
+  }
+  // Voiced but quiet compared to the recent peak: lips closing around p/b/m
+  if (relativeEnergy < 0.25) return 'closed';
+
+  if (features.f1 > 650) return features.f2 < 1300 ? 'openBack' : 'openFront';
+  if (features.f1 > 400) return features.f2 > 1600 ? 'midFront' : 'midBack';
+  return features.f2 > 1800 ? 'closeFront' : 'closeBack';
+};
+
+/**
+ * Turns a stream of output PCM chunks into a timed viseme stream. Chunks are
+ * assumed to play back-to-back, the way the live services queue them.
+ */
+export class VisemeEngine {
+  private language: VisemeLanguage;
+  private latencyMs: number;
+  private silenceThreshold: number;
+  private residual = new Float32Array(0);
+  private frames: VisemeFrame[] = [];
+  private playhead = 0;
+  private envelope = 0;
+  private peak = 0.05;
+  private openEvent: VisemeEvent | null = null;
+  private listeners = new Set<(event: VisemeEvent) => void>();
+
+  constructor(options: VisemeEngineOptions = {}) {
+    this.language = options.language ?? 'en';
+    this.latencyMs = options.latencyMs ?? 0;
+    this.silenceThreshold = options.silenceThreshold ?? 0.01;
+  }
+
+  setLanguage(language: VisemeLanguage) {
+    this.language = language;
+  }
+
+  subscribe(listener: (event: VisemeEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  push(pcm: Float32Array, sampleRate: number, now = performance.now()) {
+    const hop = Math.round((sampleRate * HOP_MS) / 1000);
+    const chunkStart = Math.max(now + this.latencyMs, this.playhead);
+    const residualMs = (this.residual.length / sampleRate) * 1000;
+
+    const buffer = new Float32Array(this.residual.length + pcm.length);
+    buffer.set(this.residual);
+    buffer.set(pcm, this.residual.length);
+
+    let offset = 0;
+    for (; offset + FRAME_SIZE <= buffer.length; offset += hop) {
+      const features = analyseFrame(buffer.subarray(offset, offset + FRAME_SIZE), sampleRate);
+      // Fast attack, slow release keeps the jaw from chattering between frames
+      const coefficient = features.rms > this.envelope ? 0.6 : 0.15;
+      this.envelope += (features.rms - this.envelope) * coefficient;
+      this.peak = Math.max(this.envelope, this.peak * 0.995);
+
+      const relative = Math.min(1, this.envelope / this.peak);
+      const visemeClass = classifyFrame(features, relative, this.silenceThreshold);
+      const at = chunkStart - residualMs + ((offset + FRAME_SIZE / 2) / sampleRate) * 1000;
+      this.addFrame({ at, viseme: VISEME_SETS[this.language][visemeClass], weight: visemeClass === 'rest' ? 0 : relative });
+    }
+    this.residual = buffer.slice(offset);
+    this.playhead = chunkStart + (pcm.length / sampleRate) * 1000;
+  }
+
+  // Shape to render at `now`; frames that have already played are discarded.
+  sample(now = performance.now()): MouthShape & { viseme: string } {
+    while (this.frames.length > 1 && this.frames[1].at <= now) {
+      this.frames.shift();
+    }
+    const current = this.frames[0];
+    if (!current || current.at > now || now - current.at > HOP_MS * 4) {
+      return { ...REST, viseme: VISEME_SETS[this.language].rest.id };
+    }
+    return {
+      scale: REST.scale + (current.viseme.scale - REST.scale) * current.weight,
+      skew: REST.skew + (current.viseme.skew - REST.skew) * current.weight,
+      viseme: current.viseme.id,
+    };
+  }
+
+  // Drops queued audio, e.g. when the twin is interrupted or the session ends.
+  reset() {
+    this.frames = [];
+    this.residual = new Float32Array(0);
+    this.playhead = 0;
+    this.envelope = 0;
+    this.closeEvent();
+  }
+
+  private addFrame(frame: VisemeFrame) {
+    this.frames.push(frame);
+    const open = this.openEvent;
+    if (open && open.viseme.id === frame.viseme.id) {
+      open.end = frame.at + HOP_MS;
+      open.weight = Math.max(open.weight, frame.weight);
+      return;
+    }
+    this.closeEvent();
+    this.openEvent = { viseme: frame.viseme, start: frame.at, end: frame.at + HOP_MS, weight: frame.weight };
+  }
+
+  private closeEvent() {
+    if (!this.openEvent) return;
+    const event = this.openEvent;
+    this.openEvent = null;
+    this.listeners.forEach(listener => listener(event));
+  }
+}
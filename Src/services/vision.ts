@@ -0,0 +1,89 @@
+import type { LiveImage, VisionFrameOptions } from './live-provider';
+
+export type VisionSource = 'camera' | 'screen';
+export type VisionResolution = 'low' | 'medium' | 'high';
+
+export interface VisionSettings {
+  // Frames per second sent to the model; the on-screen preview stays smooth either way
+  fps: number;
+  resolution: VisionResolution;
+}
+
+export const VISION_DEFAULTS: VisionSettings = { fps: 1, resolution: 'medium' };
+
+// Longest edge of the frames sent upstream; screens usually need more pixels than faces
+export const VISION_RESOLUTIONS: Record<VisionResolution, number> = { low: 480, medium: 768, high: 1280 };
+
+const FRAME_WAIT_MS = 3000;
+const JPEG_QUALITY = 0.85;
+
+export const frameOptions = (settings: VisionSettings): VisionFrameOptions => ({
+  fps: settings.fps,
+  maxWidth: VISION_RESOLUTIONS[settings.resolution],
+});
+
+export const imageDataUrl = (image: LiveImage) => `data:${image.mimeType};base64,${image.data}`;
+
+// Draws the source scaled down to maxWidth and encodes it as JPEG.
+const encodeFrame = (source: CanvasImageSource, width: number, height: number, maxWidth: number): LiveImage => {
+  const scale = Math.min(1, maxWidth / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { mimeType: 'image/jpeg', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
+
+/** Capture and encoding for everything the twin can be shown: cameras, screens and stills. */
+export class VisionService {
+  static openCamera(facingMode: 'user' | 'environment', settings: VisionSettings): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+      video: { facingMode, width: { ideal: VISION_RESOLUTIONS[settings.resolution] } },
+    });
+  }
+
+  // Must be called from a user gesture; rejects with NotAllowedError when the picker is dismissed
+  static openScreen(settings: VisionSettings): Promise<MediaStream> {
+    return navigator.mediaDevices.getDisplayMedia({
+      video: { width: { ideal: VISION_RESOLUTIONS[settings.resolution] }, frameRate: { ideal: Math.max(5, settings.fps) } },
+      audio: false,
+    });
+  }
+
+  static async applySettings(stream: MediaStream | null, settings: VisionSettings) {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    await track.applyConstraints({ width: { ideal: VISION_RESOLUTIONS[settings.resolution] } })
+      .catch(e => console.warn("Capture constraints not applied", e));
+  }
+
+  // Resolves once the element has a decoded frame to send, instead of guessing with a fixed delay.
+  static waitForFrame(video: HTMLVideoElement): Promise<void> {
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return Promise.resolve();
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        video.removeEventListener('loadeddata', done);
+        resolve();
+      };
+      const timer = window.setTimeout(done, FRAME_WAIT_MS);
+      video.addEventListener('loadeddata', done);
+    });
+  }
+
+  static captureFrame(video: HTMLVideoElement, maxWidth: number): LiveImage {
+    if (!video.videoWidth) throw new Error('No video frame to capture');
+    return encodeFrame(video, video.videoWidth, video.videoHeight, maxWidth);
+  }
+
+  static async readImage(file: Blob, maxWidth: number): Promise<LiveImage> {
+    if (!file.type.startsWith('image/')) throw new Error(`Unsupported file type "${file.type || 'unknown'}"`);
+    const bitmap = await createImageBitmap(file);
+    try {
+      return encodeFrame(bitmap, bitmap.width, bitmap.height, maxWidth);
+    } finally {
+      bitmap.close();
+    }
+  }
+}
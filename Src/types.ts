@@ -0,0 +1,5 @@
+// Aspect ratios Veo accepts for generated clips
+export enum AspectRatio {
+  PORTRAIT = '9:16',
+  LANDSCAPE = '16:9',
+}
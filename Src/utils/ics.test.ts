@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcs, toIcs } from './ics';
+
+describe('toIcs', () => {
+  it('writes timed events in UTC and escapes text', () => {
+    const ics = toIcs([{
+      title: 'Review; notes, draft',
+      location: 'Room 4',
+      start: Date.UTC(2026, 2, 14, 9, 30),
+      end: Date.UTC(2026, 2, 14, 10, 0),
+      allDay: false,
+    }], 'Saman');
+
+    expect(ics.split('\r\n')).toEqual(expect.arrayContaining([
+      'BEGIN:VCALENDAR',
+      'X-WR-CALNAME:Saman',
+      'DTSTART:20260314T093000Z',
+      'DTEND:20260314T100000Z',
+      'SUMMARY:Review\\; notes\\, draft',
+      'LOCATION:Room 4',
+      'END:VCALENDAR',
+    ]));
+  });
+
+  it('writes all-day events as local dates', () => {
+    const start = new Date(2026, 4, 1).getTime();
+    const ics = toIcs([{ title: 'Holiday', location: '', start, end: new Date(2026, 4, 2).getTime(), allDay: true }]);
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260501');
+    expect(ics).toContain('DTEND;VALUE=DATE:20260502');
+    expect(ics).not.toContain('LOCATION');
+  });
+});
+
+describe('parseIcs', () => {
+  it('round-trips what toIcs writes', () => {
+    const events = [
+      { title: 'Line one\nline two', location: 'a, b', start: Date.UTC(2026, 0, 5, 8), end: Date.UTC(2026, 0, 5, 9), allDay: false },
+      { title: 'Trip', location: '', start: new Date(2026, 6, 1).getTime(), end: new Date(2026, 6, 3).getTime(), allDay: true },
+    ];
+
+    expect(parseIcs(toIcs(events))).toEqual(events);
+  });
+
+  it('unfolds continuation lines and ignores parameters', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=Europe/Berlin:20260210T140000',
+      'SUMMARY:A very long',
+      '  title',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcs(ics)).toEqual([{
+      title: 'A very long title',
+      location: '',
+      start: new Date(2026, 1, 10, 14).getTime(),
+      end: new Date(2026, 1, 10, 14).getTime(),
+      allDay: false,
+    }]);
+  });
+
+  it('gives all-day events without an end one day', () => {
+    const ics = 'BEGIN:VEVENT\nDTSTART;VALUE=DATE:20260301\nSUMMARY:Day off\nEND:VEVENT';
+    const [event] = parseIcs(ics);
+
+    expect(event.allDay).toBe(true);
+    expect(event.end - event.start).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it('skips events without a readable start', () => {
+    expect(parseIcs('BEGIN:VEVENT\nDTSTART:tomorrow\nSUMMARY:Nope\nEND:VEVENT')).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { CalendarEvent } from '../services/tool-store';
+
+export type IcsEvent = Omit<CalendarEvent, 'id' | 'namespace'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+  text.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+const utcStamp = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const dateStamp = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// DATE values are local midnight; DATE-TIME values are UTC with a Z suffix, local time otherwise.
+// TZID parameters are not resolved and fall back to local time.
+const parseStamp = (value: string): { time: number; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) return { time: new Date(+y, +mo - 1, +d).getTime(), allDay: true };
+  const time = utc
+    ? Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime();
+  return { time, allDay: false };
+};
+
+/** Serialises events as an iCalendar (RFC 5545) file. */
+export const toIcs = (events: IcsEvent[], calendarName = 'Astra'): string => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Astra 5.0//Neural Bridge//EN', `X-WR-CALNAME:${escapeText(calendarName)}`];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${crypto.randomUUID()}@astra`,
+      `DTSTAMP:${utcStamp(Date.now())}`,
+      event.allDay ? `DTSTART;VALUE=DATE:${dateStamp(event.start)}` : `DTSTART:${utcStamp(event.start)}`,
+      event.allDay ? `DTEND;VALUE=DATE:${dateStamp(event.end)}` : `DTEND:${utcStamp(event.end)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n');
+};
+
+/** Reads the VEVENTs of an iCalendar file; recurrence rules are ignored. */
+export const parseIcs = (text: string): IcsEvent[] => {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+    } else if (line === 'END:VEVENT' && current) {
+      const start = parseStamp(current.DTSTART ?? '');
+      if (start) {
+        const end = parseStamp(current.DTEND ?? '');
+        events.push({
+          title: unescapeText(current.SUMMARY ?? ''),
+          location: unescapeText(current.LOCATION ?? ''),
+          start: start.time,
+          end: end?.time ?? start.time + (start.allDay ? DAY_MS : 0),
+          allDay: start.allDay,
+        });
+      }
+      current = null;
+    } else if (current) {
+      const colon = line.indexOf(':');
+      if (colon > 0) current[line.slice(0, colon).split(';')[0].toUpperCase()] = line.slice(colon + 1);
+    }
+  }
+  return events;
+};
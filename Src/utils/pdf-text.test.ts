@@ -0,0 +1,63 @@
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { extractPdfText } from './pdf-text';
+
+// Minimal PDFs: only the parts the extractor reads, not a valid cross-reference table
+const stream = (dictionary: string, body: string | Uint8Array) => {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  return [new TextEncoder().encode(`<< ${dictionary} /Length ${bytes.length} >>\nstream\n`), bytes, new TextEncoder().encode('\nendstream\nendobj\n')];
+};
+
+const pdf = (...streams: Uint8Array[][]) =>
+  new Blob([new TextEncoder().encode('%PDF-1.7\n'), ...streams.flat(), new TextEncoder().encode('%%EOF\n')]).arrayBuffer();
+
+describe('extractPdfText', () => {
+  it('reads literal strings, escapes and word spacing from kerned arrays', async () => {
+    const content = 'BT /F1 12 Tf 72 712 Td (Hello \\(PDF\\)) Tj T* [(Second)-400(line)] TJ ET';
+
+    expect(await extractPdfText(await pdf(stream('', content)))).toBe('Hello (PDF)\nSecond line');
+  });
+
+  it('inflates Flate streams and maps glyph codes through ToUnicode tables', async () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+      '1 beginbfrange <0001> <0002> <0048> endbfrange',
+      '1 beginbfchar <0003> <0021> endbfchar',
+      'endcmap end end',
+    ].join('\n');
+    const content = 'BT /F1 12 Tf <000100020003> Tj ET';
+
+    const text = await extractPdfText(await pdf(
+      stream('/Filter /FlateDecode', deflateSync(cmap)),
+      stream('/Filter /FlateDecode', deflateSync(content)),
+    ));
+
+    expect(text).toBe('HI!');
+  });
+
+  it('skips images, other filters and damaged streams', async () => {
+    const text = await extractPdfText(await pdf(
+      stream('/Subtype /Image /Filter /FlateDecode', deflateSync('BT (image) Tj ET')),
+      stream('/Filter /DCTDecode', 'BT (jpeg) Tj ET'),
+      stream('/Filter /FlateDecode', 'BT (not deflated) Tj ET'),
+      stream('', 'BT (kept) Tj ET'),
+    ));
+
+    expect(text).toBe('kept');
+  });
+
+  it('finds no text in a file without text operators', async () => {
+    expect(await extractPdfText(await pdf(stream('', '0 0 612 792 re f')))).toBe('');
+  });
+
+  it('refuses files that are not PDFs', async () => {
+    await expect(extractPdfText(new TextEncoder().encode('<html></html>').buffer)).rejects.toThrow('Not a PDF file');
+  });
+
+  // Regressions in the stream pattern show up here as a timeout
+  it('scans megabytes of nested dictionaries without streams', async () => {
+    const objects = new TextEncoder().encode(`<< /Type /Page /Resources << /Font << /F1 4 0 R >> >> /Contents <a1b2> >>\n`.repeat(40_000));
+
+    expect(await extractPdfText(await pdf([objects], stream('', 'BT (end) Tj ET')))).toBe('end');
+  });
+});
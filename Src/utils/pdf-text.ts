@@ -0,0 +1,147 @@
+// Best-effort text extraction from PDFs without a PDF engine. It reads the
+// text operators of (Flate-compressed) content streams and maps glyph codes
+// through any ToUnicode tables in the file. Scanned PDFs have no text to find.
+
+const STREAM = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+
+const latin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null; // Damaged or truncated stream; skip it
+  }
+};
+
+// Decoded streams, in file order; only Flate and unfiltered streams are readable here
+const readStreams = async (raw: string, bytes: Uint8Array): Promise<string[]> => {
+  const streams: string[] = [];
+  for (const match of raw.matchAll(STREAM)) {
+    const dictionary = match[1];
+    const start = match.index! + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    if (/\/Subtype\s*\/Image|\/FontFile/.test(dictionary)) continue;
+    const body = bytes.subarray(start, end);
+    if (/\/FlateDecode/.test(dictionary)) {
+      const inflated = await inflate(body);
+      if (inflated) streams.push(latin1(inflated));
+    } else if (!/\/Filter/.test(dictionary)) {
+      streams.push(latin1(body));
+    }
+  }
+  return streams;
+};
+
+const hexToCodes = (hex: string) => {
+  const clean = hex.replace(/\s+/g, '');
+  return clean.length % 2 ? `${clean}0` : clean;
+};
+
+const utf16 = (hex: string) => {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  return text;
+};
+
+// Merges every ToUnicode CMap in the file; per-font tables are not told apart
+const readCMaps = (streams: string[]) => {
+  const map = new Map<string, string>();
+  for (const cmap of streams.filter(stream => stream.includes('begincmap'))) {
+    for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const [, code, unicode] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+        map.set(code.toLowerCase(), utf16(unicode));
+      }
+    }
+    for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const [, from, to, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g)) {
+        const first = parseInt(from, 16);
+        const last = Math.min(parseInt(to, 16), first + 0xffff);
+        const targets = target.startsWith('[') ? [...target.matchAll(/<([0-9a-fA-F]+)>/g)].map(m => m[1]) : null;
+        const base = targets ? 0 : parseInt(target.slice(1, -1), 16);
+        for (let code = first; code <= last; code++) {
+          const key = code.toString(16).padStart(from.length, '0');
+          map.set(key, targets ? utf16(targets[code - first] ?? '') : String.fromCharCode(base + code - first));
+        }
+      }
+    }
+  }
+  return map;
+};
+
+const unescapeLiteral = (literal: string) => literal.replace(/\\(\d{1,3}|.)/gs, (_, escape: string) => {
+  if (/^\d/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+  return ({ n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? (escape === '\n' ? '' : escape);
+});
+
+const decodeString = (token: string, cmap: Map<string, string>) => {
+  if (token.startsWith('(')) {
+    const text = unescapeLiteral(token.slice(1, -1));
+    if (cmap.size === 0) return text;
+    return [...text].map(char => cmap.get(char.charCodeAt(0).toString(16).padStart(2, '0')) ?? char).join('');
+  }
+  const hex = hexToCodes(token.slice(1, -1)).toLowerCase();
+  // Two-byte codes are the norm for embedded CID fonts, which is what ToUnicode maps serve
+  const width = cmap.size > 0 && [...cmap.keys()][0].length === 4 ? 4 : 2;
+  let text = '';
+  for (let i = 0; i < hex.length; i += width) {
+    const code = hex.slice(i, i + width);
+    text += cmap.get(code) ?? (width === 2 ? String.fromCharCode(parseInt(code, 16)) : '');
+  }
+  return text;
+};
+
+// Strings, arrays and the operators that place text, in content-stream order
+const TOKEN = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9a-fA-F\s]*>|\[|\]|-?\d*\.?\d+|\/[^\s/[\]()<>]+|[A-Za-z'"*]+/g;
+
+const readText = (content: string, cmap: Map<string, string>) => {
+  let text = '';
+  let inArray = false;
+  let pending = '';
+  for (const [token] of content.matchAll(TOKEN)) {
+    if (token.startsWith('(') || (token.startsWith('<') && token !== '<')) {
+      pending += decodeString(token, cmap);
+    } else if (token === '[') {
+      inArray = true;
+    } else if (token === ']') {
+      inArray = false;
+    } else if (inArray && /^-?\d/.test(token)) {
+      // Large negative kerning inside TJ is how PDFs space words
+      if (Number(token) < -200) pending += ' ';
+    } else if (token === 'Tj' || token === 'TJ') {
+      text += pending;
+      pending = '';
+    } else if (token === "'" || token === '"') {
+      text += `\n${pending}`;
+      pending = '';
+    } else if (token === 'Td' || token === 'TD' || token === 'T*' || token === 'Tm') {
+      if (text && !/\s$/.test(text)) text += '\n';
+    } else if (token === 'ET') {
+      text += '\n';
+    } else if (!inArray && /^[A-Za-z]/.test(token)) {
+      pending = '';
+    }
+  }
+  return text;
+};
+
+export const extractPdfText = async (buffer: ArrayBuffer): Promise<string> => {
+  const bytes = new Uint8Array(buffer);
+  const raw = latin1(bytes);
+  if (!raw.startsWith('%PDF')) throw new Error('Not a PDF file');
+  const streams = await readStreams(raw, bytes);
+  const cmap = readCMaps(streams);
+  return streams
+    .filter(stream => /\bBT\b/.test(stream) && !stream.includes('begincmap'))
+    .map(stream => readText(stream, cmap))
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+// Injected by AI Studio when the app runs there; AUTH_MODE=aistudio builds rely on it
+interface AIStudio {
+  hasSelectedApiKey(): Promise<boolean>;
+  openSelectKey(): Promise<void>;
+}
+
+interface Window {
+  aistudio: AIStudio;
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EMBED_PROTOCOL } from '../Src/services/embed-protocol';
+import { AstraEmbed, AstraEmbedError } from './astra-embed';
+
+const ORIGIN = 'https://twin.example';
+
+// The container stays detached so the iframe never loads; its window is a stand-in that records requests
+const mount = (timeoutMs = 1000) => {
+  const embed = new AstraEmbed(document.createElement('div'), { origin: `${ORIGIN}/app`, persona: 'astra', timeoutMs });
+  const widget = { postMessage: vi.fn() };
+  Object.defineProperty(embed.iframe, 'contentWindow', { value: widget });
+  const reply = async (data: unknown, origin = ORIGIN) => {
+    window.dispatchEvent(new MessageEvent('message', { data, origin, source: widget as unknown as Window }));
+    await vi.advanceTimersByTimeAsync(0);
+  };
+  return { embed, widget, reply };
+};
+
+const ready = { protocol: EMBED_PROTOCOL, event: { type: 'ready', version: 1, personaId: 'astra', personas: [{ id: 'astra', name: 'Astra' }] } };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('AstraEmbed', () => {
+  it('points the iframe at the widget with the options in its query', () => {
+    const { embed } = mount();
+
+    expect(embed.iframe.src).toBe(`${ORIGIN}/embed.html?persona=astra`);
+    embed.destroy();
+  });
+
+  it('holds commands until the widget is ready and settles them from its answers', async () => {
+    const { embed, widget, reply } = mount();
+    const sending = embed.send('Hi');
+    const starting = embed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(widget.postMessage).not.toHaveBeenCalled();
+
+    await reply(ready);
+    expect(await embed.ready).toEqual([{ id: 'astra', name: 'Astra' }]);
+    expect(widget.postMessage.mock.calls).toEqual([
+      [{ protocol: EMBED_PROTOCOL, id: 1, command: { type: 'send', text: 'Hi' } }, ORIGIN],
+      [{ protocol: EMBED_PROTOCOL, id: 2, command: { type: 'start' } }, ORIGIN],
+    ]);
+
+    const refused = expect(starting).rejects.toMatchObject({ kind: 'permission', message: 'Microphone blocked' });
+    await reply({ protocol: EMBED_PROTOCOL, id: 1, ok: true });
+    await reply({ protocol: EMBED_PROTOCOL, id: 2, ok: false, kind: 'permission', message: 'Microphone blocked' });
+    await expect(sending).resolves.toBeUndefined();
+    await refused;
+    embed.destroy();
+  });
+
+  it('ignores messages from other origins', async () => {
+    const { embed, reply } = mount();
+    const onMemory = vi.fn();
+    embed.on('memory', onMemory);
+
+    await reply({ protocol: EMBED_PROTOCOL, event: { type: 'memory', fact: 'Forged' } }, 'https://evil.example');
+    await reply({ protocol: EMBED_PROTOCOL, event: { type: 'memory', fact: 'Likes tea' } });
+
+    expect(onMemory.mock.calls).toEqual([[{ type: 'memory', fact: 'Likes tea' }]]);
+    embed.destroy();
+  });
+
+  it('times out commands the widget never answers', async () => {
+    const { embed } = mount(500);
+    const starting = embed.start();
+    const settled = expect(starting).rejects.toMatchObject({ kind: 'timeout' });
+
+    await vi.advanceTimersByTimeAsync(500);
+    await settled;
+    embed.destroy();
+  });
+
+  it('rejects pending and later commands once destroyed', async () => {
+    const { embed, reply } = mount();
+    await reply(ready);
+    const starting = embed.start();
+
+    embed.destroy();
+
+    await expect(starting).rejects.toBeInstanceOf(AstraEmbedError);
+    await expect(starting).rejects.toMatchObject({ kind: 'network' });
+    await expect(embed.send('Hi')).rejects.toMatchObject({ kind: 'network' });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
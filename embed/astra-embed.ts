@@ -0,0 +1,178 @@
+import {
+  EMBED_PROTOCOL,
+  EmbedCommand,
+  EmbedEvent,
+  EmbedPersona,
+  EmbedRequest,
+  EmbedTheme,
+  EmbedVisionSource,
+  embedQuery,
+  isEmbedNotification,
+  isEmbedResponse,
+} from '../Src/services/embed-protocol';
+import type { ErrorKind } from '../Src/services/errors';
+
+// Host-side SDK for the embedded twin. Built to /astra-embed.js next to the
+// app, with no dependencies, so any page can load it with a script tag or an import.
+
+export type { EmbedEvent, EmbedPersona, EmbedTheme, EmbedVisionSource };
+
+export interface AstraEmbedOptions {
+  // Where the Astra app is served, e.g. https://twin.example.com
+  origin: string;
+  persona?: string;
+  theme?: EmbedTheme;
+  controls?: boolean;
+  // Attributes of the iframe; the widget fills its container by default
+  width?: string;
+  height?: string;
+  title?: string;
+  // Rejects commands that get no answer in time, e.g. when the host is not allow-listed
+  timeoutMs?: number;
+}
+
+type EventMap = { [E in EmbedEvent as E['type']]: E };
+type Handler<K extends keyof EventMap> = (event: EventMap[K]) => void;
+// Handlers per event type, each typed for its own event
+type HandlerMap = { [K in keyof EventMap]: Set<Handler<K>> };
+
+// A failed command; `kind` is the same error kind the widget reports in 'error' events
+export class AstraEmbedError extends Error {
+  constructor(readonly kind: ErrorKind | 'timeout', message: string) {
+    super(message);
+    this.name = 'AstraEmbedError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * Mounts the twin in an iframe and talks to it over postMessage. Commands
+ * sent before the widget is ready are queued; each resolves once the widget
+ * has carried it out and rejects with an AstraEmbedError otherwise.
+ */
+export class AstraEmbed {
+  readonly iframe: HTMLIFrameElement;
+  // Resolves with the widget's personas once it has loaded
+  readonly ready: Promise<EmbedPersona[]>;
+
+  private origin: string;
+  private timeoutMs: number;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: () => void; reject: (error: Error) => void; timer: number }>();
+  // Every event type has its set from the start, so a new event type fails to compile until it is listed here
+  private handlers: HandlerMap = {
+    ready: new Set(),
+    status: new Set(),
+    transcription: new Set(),
+    memory: new Set(),
+    error: new Set(),
+    persona: new Set(),
+  };
+  private markReady!: (personas: EmbedPersona[]) => void;
+  private destroyed = false;
+
+  constructor(container: HTMLElement, options: AstraEmbedOptions) {
+    this.origin = new URL(options.origin).origin;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.ready = new Promise(resolve => { this.markReady = resolve; });
+
+    const src = new URL('/embed.html', this.origin);
+    src.search = embedQuery(options).toString();
+    this.iframe = document.createElement('iframe');
+    this.iframe.src = src.toString();
+    this.iframe.title = options.title ?? 'Digital twin';
+    this.iframe.allow = 'microphone; camera; display-capture; autoplay';
+    this.iframe.style.border = '0';
+    this.iframe.style.width = options.width ?? '100%';
+    this.iframe.style.height = options.height ?? '100%';
+    window.addEventListener('message', this.onMessage);
+    container.appendChild(this.iframe);
+  }
+
+  start() {
+    return this.command({ type: 'start' });
+  }
+
+  stop() {
+    return this.command({ type: 'stop' });
+  }
+
+  send(text: string) {
+    return this.command({ type: 'send', text });
+  }
+
+  // null turns vision off; the screen option needs a user gesture in most browsers
+  setVision(source: EmbedVisionSource | null) {
+    return this.command({ type: 'setVision', source });
+  }
+
+  setPersona(personaId: string) {
+    return this.command({ type: 'setPersona', personaId });
+  }
+
+  setTheme(theme: EmbedTheme) {
+    return this.command({ type: 'setTheme', theme });
+  }
+
+  on<K extends keyof EventMap>(type: K, handler: Handler<K>): () => void {
+    const handlers: Set<Handler<K>> = this.handlers[type];
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    window.removeEventListener('message', this.onMessage);
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new AstraEmbedError('network', 'The embed was destroyed'));
+    });
+    this.pending.clear();
+    Object.values(this.handlers).forEach(handlers => handlers.clear());
+    this.iframe.remove();
+  }
+
+  // The timeout runs from the call, so it also covers a widget that never loads
+  private command(command: EmbedCommand): Promise<void> {
+    if (this.destroyed) return Promise.reject(new AstraEmbedError('network', 'The embed was destroyed'));
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pending.delete(id);
+        reject(new AstraEmbedError('timeout', `No answer to "${command.type}" within ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.ready.then(() => {
+        if (!this.pending.has(id)) return;
+        const request: EmbedRequest = { protocol: EMBED_PROTOCOL, id, command };
+        this.iframe.contentWindow?.postMessage(request, this.origin);
+      });
+    });
+  }
+
+  private emit<K extends keyof EventMap>(type: K, event: EventMap[K]) {
+    this.handlers[type].forEach(handler => handler(event));
+  }
+
+  private onMessage = (message: MessageEvent) => {
+    if (message.source !== this.iframe.contentWindow || message.origin !== this.origin) return;
+    const { data } = message;
+    if (isEmbedResponse(data)) {
+      const entry = this.pending.get(data.id);
+      if (!entry) return;
+      clearTimeout(entry.timer);
+      this.pending.delete(data.id);
+      if (data.ok) entry.resolve();
+      else entry.reject(new AstraEmbedError(data.kind, data.message));
+    } else if (isEmbedNotification(data)) {
+      if (data.event.type === 'ready') this.markReady(data.event.personas);
+      this.emit(data.event.type, data.event);
+    }
+  };
+}
+
+export const mountAstra = (container: HTMLElement, options: AstraEmbedOptions) => new AstraEmbed(container, options);
@@ -0,0 +1,115 @@
+// Service worker for the installable app. The page registers it as /sw.js?v=<build id>,
+// so every deploy installs a new worker with its own shell cache and the page can
+// offer to reload into it.
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const SHELL_CACHE = `astra-shell-${VERSION}`;
+// Avatars and persona clips outlive deploys, so they get a cache of their own
+const MEDIA_CACHE = 'astra-media';
+
+const SHELL_FILES = [
+  '/manifest.json',
+  '/icons/icon.svg',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/icon-maskable-512.png',
+  '/icons/apple-touch-icon.png',
+  '/avatars/astra.svg',
+  '/mock/neural-bridge.json',
+  '/worklets/astra-audio.js',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const page = await fetch('/', { cache: 'no-store' });
+    // Hashed bundles are read off the built page so the shell works offline before first use
+    const html = await page.clone().text();
+    const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+    await cache.put('/', page);
+    await cache.addAll([...SHELL_FILES, ...new Set(assets)]);
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('astra-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const isMedia = (request) => request.destination === 'image' || request.destination === 'video';
+
+// Video elements ask for byte ranges, which the Cache API cannot store, so ranges are cut from the full clip.
+const sliceRange = async (request, response) => {
+  const blob = await response.blob();
+  const [, start, end] = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') || '') || [];
+  const from = Number(start || 0);
+  const to = end ? Math.min(Number(end), blob.size - 1) : blob.size - 1;
+  return new Response(blob.slice(from, to + 1), {
+    status: 206,
+    headers: {
+      'content-type': response.headers.get('content-type') || 'application/octet-stream',
+      'content-range': `bytes ${from}-${to}/${blob.size}`,
+      'content-length': String(to - from + 1),
+    },
+  });
+};
+
+const fromMediaCache = async (request) => {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  // Opaque entries can only answer no-cors requests such as <img>
+  if (cached && (cached.type !== 'opaque' || request.mode === 'no-cors')) {
+    if (!request.headers.has('range')) return cached;
+    if (cached.type !== 'opaque') return sliceRange(request, cached);
+  }
+  if (request.headers.has('range')) {
+    // Fetch the whole clip in the background so the next play works offline
+    fetch(request.url, { mode: 'cors' })
+      .then(full => full.ok && cache.put(request.url, full))
+      .catch(() => {});
+    return fetch(request);
+  }
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') cache.put(request.url, response.clone());
+  return response;
+};
+
+const fromShell = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+// Pages always try the network first so a deploy is picked up, and fall back to the cached shell.
+const navigate = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match('/', { cacheName: SHELL_CACHE })) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    // The API relay and its websockets are live by nature
+    if (url.pathname.startsWith('/api')) return;
+    event.respondWith(request.mode === 'navigate' ? navigate(request) : fromShell(request));
+  } else if (isMedia(request)) {
+    event.respondWith(fromMediaCache(request));
+  }
+});
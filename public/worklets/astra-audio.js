@@ -0,0 +1,73 @@
+// AudioWorklet processors for the Neural Bridge audio path. They run on the
+// audio rendering thread, so capture and playback keep time while the page is busy.
+
+// About 43 ms at 48 kHz; large enough to keep port traffic low, small enough for voice detection
+const FRAME_SIZE = 2048;
+
+// Collects mic input into fixed-size frames and posts each one with its RMS level.
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.frame = new Float32Array(FRAME_SIZE);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, FRAME_SIZE - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === FRAME_SIZE) {
+        let sum = 0;
+        for (let i = 0; i < FRAME_SIZE; i++) sum += this.frame[i] * this.frame[i];
+        const pcm = this.frame;
+        this.port.postMessage({ pcm, level: Math.sqrt(sum / FRAME_SIZE) }, [pcm.buffer]);
+        this.frame = new Float32Array(FRAME_SIZE);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+// Plays queued PCM chunks back to back; 'flush' drops whatever has not been heard yet.
+class PlaybackProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.queue = [];
+    this.offset = 0;
+    this.port.onmessage = ({ data }) => {
+      if (data.type === 'push') {
+        this.queue.push(data.pcm);
+      } else if (data.type === 'flush') {
+        this.queue = [];
+        this.offset = 0;
+      }
+    };
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0][0];
+    let written = 0;
+    while (written < output.length && this.queue.length > 0) {
+      const chunk = this.queue[0];
+      const count = Math.min(output.length - written, chunk.length - this.offset);
+      output.set(chunk.subarray(this.offset, this.offset + count), written);
+      written += count;
+      this.offset += count;
+      if (this.offset === chunk.length) {
+        this.queue.shift();
+        this.offset = 0;
+      }
+    }
+    output.fill(0, written);
+    return true;
+  }
+}
+
+registerProcessor('astra-capture', CaptureProcessor);
+registerProcessor('astra-playback', PlaybackProcessor);
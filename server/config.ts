@@ -0,0 +1,39 @@
+import { randomBytes } from 'node:crypto';
+import { loadEnv } from 'vite';
+
+// Reads the same .env / .env.local files as the Vite build, plus the real environment.
+const env = loadEnv(process.env.NODE_ENV ?? 'development', process.cwd(), '');
+
+const list = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+export interface ProxyConfig {
+  port: number;
+  apiKey: string;
+  accessCode: string;
+  tokenSecret: string;
+  tokenTtlSeconds: number;
+  allowedOrigins: string[];
+  upstreamUrl: string;
+}
+
+export const loadConfig = (): ProxyConfig => {
+  const apiKey = env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY must be set for the API proxy');
+  }
+  if (!env.PROXY_ACCESS_CODE) {
+    throw new Error('PROXY_ACCESS_CODE must be set so browsers can log in to the API proxy');
+  }
+
+  return {
+    port: Number(env.PROXY_PORT || 8787),
+    apiKey,
+    accessCode: env.PROXY_ACCESS_CODE,
+    // Without a fixed secret, tokens are invalidated whenever the proxy restarts
+    tokenSecret: env.PROXY_TOKEN_SECRET || randomBytes(32).toString('hex'),
+    tokenTtlSeconds: Number(env.PROXY_TOKEN_TTL_SECONDS || 900),
+    allowedOrigins: list(env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000'),
+    upstreamUrl: (env.GEMINI_UPSTREAM_URL || 'https://generativelanguage.googleapis.com').replace(/\/$/, ''),
+  };
+};
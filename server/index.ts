@@ -0,0 +1,8 @@
+import { loadConfig } from './config';
+import { createProxyServer } from './proxy';
+
+const config = loadConfig();
+
+createProxyServer(config).listen(config.port, () => {
+  console.log(`[proxy] listening on http://localhost:${config.port}, relaying to ${config.upstreamUrl}`);
+});
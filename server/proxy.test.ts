@@ -0,0 +1,165 @@
+// @vitest-environment node
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { createProxyServer } from './proxy';
+import { mintToken, verifyToken } from './tokens';
+
+const SECRET = 'test-secret';
+const API_KEY = 'real-key';
+const ACCESS_CODE = 'open-sesame';
+
+// Stand-in upstream: records what reached it and answers every request with 200
+const seen: { url: string; headers: http.IncomingHttpHeaders }[] = [];
+const upstream = http.createServer((req, res) => {
+  seen.push({ url: req.url ?? '', headers: req.headers });
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({ ok: true }));
+});
+new WebSocketServer({ server: upstream }).on('connection', (socket, req) => {
+  seen.push({ url: req.url ?? '', headers: req.headers });
+  socket.on('message', data => socket.send(`echo:${data}`));
+});
+
+let proxy: http.Server;
+let proxyPort = 0;
+
+const listen = (server: http.Server) => new Promise<number>(resolve => {
+  server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+});
+
+// Raw requests, so paths reach the proxy exactly as written
+const request = (path: string, { method = 'GET', headers = {}, body }: { method?: string; headers?: http.OutgoingHttpHeaders; body?: string } = {}) =>
+  new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port: proxyPort, path, method, headers }, res => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => (data += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: data }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+
+const login = (body: string) => request('/api/session', { method: 'POST', headers: { 'content-type': 'application/json' }, body });
+
+const token = () => mintToken(SECRET, 60).token;
+
+beforeAll(async () => {
+  const upstreamPort = await listen(upstream);
+  proxy = createProxyServer({
+    port: 0,
+    apiKey: API_KEY,
+    accessCode: ACCESS_CODE,
+    tokenSecret: SECRET,
+    tokenTtlSeconds: 60,
+    allowedOrigins: ['http://app.test'],
+    upstreamUrl: `http://127.0.0.1:${upstreamPort}`,
+  });
+  proxyPort = await listen(proxy);
+});
+
+afterAll(async () => {
+  proxy.closeAllConnections();
+  upstream.closeAllConnections();
+  await Promise.all([proxy, upstream].map(server => new Promise(resolve => server.close(resolve))));
+});
+
+beforeEach(() => {
+  seen.length = 0;
+});
+
+describe('login', () => {
+  it('exchanges the access code for a session token', async () => {
+    const response = await login(JSON.stringify({ accessCode: ACCESS_CODE }));
+
+    expect(response.status).toBe(200);
+    expect(verifyToken(JSON.parse(response.body).token, SECRET)).not.toBeNull();
+  });
+
+  it('refuses a wrong access code', async () => {
+    expect((await login(JSON.stringify({ accessCode: 'guess' }))).status).toBe(401);
+  });
+
+  it('answers malformed JSON with a 400', async () => {
+    expect(await login('{"accessCode": ')).toEqual({ status: 400, body: JSON.stringify({ error: 'Request body is not valid JSON' }) });
+  });
+
+  it('refreshes a valid session', async () => {
+    const response = await request('/api/session/refresh', { method: 'POST', headers: { authorization: `Bearer ${token()}` } });
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe('HTTP relay', () => {
+  it('swaps the session token for the API key and strips tokens from the query', async () => {
+    const response = await request('/api/gemini/v1beta/models/m:generateContent?alt=sse&key=leaked', {
+      method: 'POST',
+      headers: { 'x-goog-api-key': token(), 'content-type': 'application/json', origin: 'http://app.test' },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(200);
+    expect(seen).toHaveLength(1);
+    expect(seen[0].url).toBe('/v1beta/models/m:generateContent?alt=sse');
+    expect(seen[0].headers['x-goog-api-key']).toBe(API_KEY);
+    expect(seen[0].headers.origin).toBeUndefined();
+  });
+
+  it('refuses missing, expired and tampered tokens without contacting the upstream', async () => {
+    const expired = mintToken(SECRET, -1).token;
+    const [prefix, payload, signature] = token().split('.');
+    const tampered = `${prefix}.${payload}.${signature.endsWith('A') ? `${signature.slice(0, -1)}B` : `${signature.slice(0, -1)}A`}`;
+
+    for (const headers of [{}, { 'x-goog-api-key': expired }, { authorization: `Bearer ${tampered}` }]) {
+      expect((await request('/api/gemini/v1beta/models', { headers })).status).toBe(401);
+    }
+    expect(seen).toHaveLength(0);
+  });
+
+  it('takes no token from the query string of an HTTP request', async () => {
+    expect((await request(`/api/gemini/v1beta/models?key=${token()}`)).status).toBe(401);
+  });
+
+  it('keeps requests on the configured upstream host', async () => {
+    const headers = { 'x-goog-api-key': token() };
+
+    expect((await request('/api/gemini//evil.example/steal', { headers })).status).toBe(400);
+    expect((await request('/api/geminievil', { headers })).status).toBe(404);
+    expect(seen).toHaveLength(0);
+  });
+
+  it('refuses origins that are not allowed', async () => {
+    expect((await request('/api/health', { headers: { origin: 'http://evil.test' } })).status).toBe(403);
+  });
+});
+
+describe('live relay', () => {
+  const connect = (path: string) => new WebSocket(`ws://127.0.0.1:${proxyPort}${path}`);
+
+  it('opens the upstream socket with the API key and relays frames both ways', async () => {
+    const socket = connect(`/api/gemini/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=${token()}`);
+    socket.on('open', () => socket.send('hello'));
+    const reply = await new Promise<string>(resolve => socket.on('message', data => resolve(String(data))));
+    socket.close();
+
+    expect(reply).toBe('echo:hello');
+    const target = new URL(seen[0].url, 'http://upstream');
+    expect(target.pathname).toBe('/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent');
+    expect(target.searchParams.getAll('key')).toEqual([API_KEY]);
+  });
+
+  it('refuses a socket without a valid token', async () => {
+    const socket = connect('/api/gemini/ws/live?key=nope');
+    socket.on('error', () => {});
+    const status = await new Promise<number | undefined>(resolve => socket.on('unexpected-response', (req, res) => {
+      resolve(res.statusCode);
+      req.destroy();
+    }));
+
+    expect(status).toBe(401);
+    expect(seen).toHaveLength(0);
+  });
+});
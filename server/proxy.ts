@@ -0,0 +1,220 @@
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { timingSafeEqual } from 'node:crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import type { ProxyConfig } from './config';
+import { mintToken, verifyToken } from './tokens';
+
+const GEMINI_PREFIX = '/api/gemini';
+const MAX_LOGIN_BODY = 4 * 1024;
+// Request headers the upstream never needs to see from the browser
+const DROPPED_REQUEST_HEADERS = ['host', 'origin', 'referer', 'cookie', 'authorization', 'x-goog-api-key', 'connection', 'content-length'];
+const DROPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'set-cookie'];
+
+// A request the proxy refuses before contacting the upstream; answered with its own status instead of a 502
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req: http.IncomingMessage): Promise<unknown> => {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_LOGIN_BODY) throw new RequestError(413, 'Request body too large');
+  }
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    throw new RequestError(400, 'Request body is not valid JSON');
+  }
+};
+
+// HTTP callers send the token in a header. Only the live socket may carry it in the query, as browsers cannot set headers on a WebSocket.
+const tokenFrom = (req: http.IncomingMessage, url: URL | null) => {
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  const header = req.headers['x-goog-api-key'];
+  return bearer || (typeof header === 'string' ? header : undefined) || url?.searchParams.get('key') || url?.searchParams.get('access_token');
+};
+
+/**
+ * Self-hosted relay between the browser and Gemini. The API key lives only
+ * here; browsers log in with an access code and receive short-lived tokens
+ * they present instead of a key, over HTTP (Veo, speech) and WebSocket (live).
+ */
+export const createProxyServer = (config: ProxyConfig): http.Server => {
+  const upstreamBase = new URL(config.upstreamUrl);
+
+  const isAllowedOrigin = (origin: string | undefined) =>
+    !origin || config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin);
+
+  const applyCors = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && isAllowedOrigin(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Headers', 'authorization, content-type, x-goog-api-key, x-goog-api-client, x-goog-upload-protocol, x-goog-upload-command, x-goog-upload-offset');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    }
+  };
+
+  const accessCodeMatches = (candidate: unknown) => {
+    const expected = Buffer.from(config.accessCode);
+    const actual = Buffer.from(typeof candidate === 'string' ? candidate : '');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  };
+
+  // The request path is appended to the fixed upstream, never resolved against it: resolving
+  // "//evil.example/steal" would send the real key to a host of the caller's choosing.
+  const upstreamUrl = (url: URL, protocol: 'http' | 'ws'): URL | null => {
+    const path = url.pathname.slice(GEMINI_PREFIX.length);
+    if (!path.startsWith('/') || path.startsWith('//')) return null;
+    const target = new URL(upstreamBase.href);
+    target.pathname = `${upstreamBase.pathname.replace(/\/$/, '')}${path}`;
+    target.search = url.search;
+    if (target.origin !== upstreamBase.origin) return null;
+    target.searchParams.delete('key');
+    target.searchParams.delete('access_token');
+    if (protocol === 'ws') {
+      target.protocol = target.protocol === 'http:' ? 'ws:' : 'wss:';
+      target.searchParams.set('key', config.apiKey);
+    }
+    return target;
+  };
+
+  const handleLogin = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const body = await readJson(req);
+    const accessCode = body && typeof body === 'object' && 'accessCode' in body ? body.accessCode : undefined;
+    if (!accessCodeMatches(accessCode)) {
+      // Slow down guessing without keeping any per-client state
+      await new Promise(resolve => setTimeout(resolve, 750));
+      return sendJson(res, 401, { error: 'Invalid access code' });
+    }
+    sendJson(res, 200, mintToken(config.tokenSecret, config.tokenTtlSeconds));
+  };
+
+  const handleRefresh = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const session = verifyToken(tokenFrom(req, null), config.tokenSecret);
+    if (!session) return sendJson(res, 401, { error: 'Session expired' });
+    sendJson(res, 200, mintToken(config.tokenSecret, config.tokenTtlSeconds, session.sid));
+  };
+
+  const handleProxy = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    if (!verifyToken(tokenFrom(req, null), config.tokenSecret)) {
+      return sendJson(res, 401, { error: { code: 401, status: 'UNAUTHENTICATED', message: 'Session expired' } });
+    }
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value === undefined || DROPPED_REQUEST_HEADERS.includes(name)) continue;
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+    headers.set('x-goog-api-key', config.apiKey);
+
+    const target = upstreamUrl(url, 'http');
+    if (!target) return sendJson(res, 400, { error: { code: 400, status: 'INVALID_ARGUMENT', message: 'Invalid upstream path' } });
+
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    const upstream = await fetch(target, {
+      method: req.method,
+      headers,
+      body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+      // Required by Node's fetch for streamed request bodies
+      duplex: 'half',
+    } as RequestInit);
+
+    upstream.headers.forEach((value, name) => {
+      if (!DROPPED_RESPONSE_HEADERS.includes(name)) res.setHeader(name, value);
+    });
+    res.writeHead(upstream.status);
+    if (upstream.body) {
+      Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>).pipe(res);
+    } else {
+      res.end();
+    }
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    applyCors(req, res);
+    if (!isAllowedOrigin(req.headers.origin)) return sendJson(res, 403, { error: 'Origin not allowed' });
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+
+    try {
+      if (url.pathname === '/api/health') return sendJson(res, 200, { ok: true });
+      if (url.pathname === '/api/session' && req.method === 'POST') return await handleLogin(req, res);
+      if (url.pathname === '/api/session/refresh' && req.method === 'POST') return handleRefresh(req, res);
+      if (url.pathname.startsWith(`${GEMINI_PREFIX}/`)) return await handleProxy(req, res, url);
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (err) {
+      if (err instanceof RequestError) return sendJson(res, err.status, { error: err.message });
+      console.error(`[proxy] ${req.method} ${url.pathname} failed:`, err);
+      if (!res.headersSent) sendJson(res, 502, { error: { code: 502, status: 'UNAVAILABLE', message: 'Upstream request failed' } });
+      else res.end();
+    }
+  });
+
+  // Live sessions: accept the browser socket, open our own to Gemini with the real key, relay frames both ways.
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Close codes 1005/1006 are reserved for reporting and cannot be sent on the wire.
+  const safeCloseCode = (code: number) => (code >= 1000 && code <= 4999 && code !== 1005 && code !== 1006 ? code : 1011);
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith(`${GEMINI_PREFIX}/ws/`) || !isAllowedOrigin(req.headers.origin)) {
+      socket.destroy();
+      return;
+    }
+    if (!verifyToken(tokenFrom(req, url), config.tokenSecret)) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+
+    const target = upstreamUrl(url, 'ws');
+    if (!target) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (client) => {
+      const upstream = new WebSocket(target);
+      const pending: [RawData, boolean][] = [];
+
+      client.on('message', (data, isBinary) => {
+        if (upstream.readyState === WebSocket.OPEN) upstream.send(data, { binary: isBinary });
+        else pending.push([data, isBinary]);
+      });
+      upstream.on('open', () => {
+        pending.splice(0).forEach(([data, isBinary]) => upstream.send(data, { binary: isBinary }));
+      });
+      upstream.on('message', (data, isBinary) => {
+        if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+      });
+
+      upstream.on('close', (code, reason) => client.close(safeCloseCode(code), reason));
+      client.on('close', (code, reason) => {
+        if (upstream.readyState === WebSocket.CONNECTING) upstream.terminate();
+        else upstream.close(safeCloseCode(code), reason);
+      });
+      upstream.on('error', (err) => {
+        console.error('[proxy] live upstream error:', err.message);
+        client.close(1011, 'Upstream unavailable');
+      });
+      client.on('error', () => upstream.terminate());
+    });
+  });
+
+  return server;
+};
@@ -0,0 +1,56 @@
+import http from 'node:http';
+
+// Stand-in backend for the twin's HTTP tools, so tool calls can be exercised
+// without a real service:
+//   npm run server:stand-in-tools   (then HTTP_TOOL_URL=http://localhost:8789)
+
+const PORT = Number(process.env.STAND_IN_TOOLS_PORT || 8789);
+
+const FACTS: [RegExp, string][] = [
+  [/neural bridge/i, 'The Neural Bridge is the live voice and vision link between the user and their digital twin.'],
+  [/veo/i, 'Veo generates short video clips from a prompt and an optional reference image.'],
+  [/tehran/i, 'Tehran is the capital of Iran, with a metropolitan population of roughly 16 million.'],
+];
+
+// The browser calls this server directly from the Vite origin
+const CORS = {
+  'access-control-allow-origin': '*',
+  'access-control-allow-headers': 'content-type',
+};
+
+const json = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS, 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage) => new Promise<any>((resolve) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch {
+      resolve({});
+    }
+  });
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  console.log(`[stand-in-tools] ${req.method} ${url.pathname}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS);
+    return res.end();
+  }
+
+  if (url.pathname === '/lookup') {
+    const { query = '' } = req.method === 'POST' ? await readBody(req) : { query: url.searchParams.get('query') };
+    const hit = FACTS.find(([pattern]) => pattern.test(String(query)));
+    return json(res, 200, hit
+      ? { query, answer: hit[1], source: 'stand-in' }
+      : { query, answer: null, note: 'The stand-in lookup only knows a few topics.' });
+  }
+  json(res, 404, { error: `No stand-in tool at ${url.pathname}` });
+});
+
+server.listen(PORT, () => console.log(`[stand-in-tools] tool backend on http://localhost:${PORT}`));
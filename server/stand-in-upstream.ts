@@ -0,0 +1,70 @@
+import http from 'node:http';
+import { WebSocketServer } from 'ws';
+
+// A tiny fake of the Gemini REST and Live endpoints, for exercising the proxy
+// without a real key or network access:
+//   GEMINI_UPSTREAM_URL=http://localhost:8788 GEMINI_API_KEY=stand-in npm run server
+
+const PORT = Number(process.env.STAND_IN_PORT || 8788);
+const EXPECTED_KEY = process.env.GEMINI_API_KEY || 'stand-in';
+const operations = new Map<string, number>();
+
+const json = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const key = req.headers['x-goog-api-key'] ?? url.searchParams.get('key');
+  console.log(`[stand-in] ${req.method} ${url.pathname} key=${key === EXPECTED_KEY ? 'ok' : 'missing'}`);
+  if (key !== EXPECTED_KEY) {
+    return json(res, 403, { error: { code: 403, status: 'PERMISSION_DENIED', message: 'API key not valid' } });
+  }
+
+  if (url.pathname.endsWith(':generateContent')) {
+    // 200 ms of 24 kHz silence stands in for synthesized speech
+    const silence = Buffer.alloc(24000 * 2 / 5).toString('base64');
+    return json(res, 200, {
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Stand-in reply.' }, { inlineData: { mimeType: 'audio/pcm;rate=24000', data: silence } }] } }],
+    });
+  }
+  if (url.pathname.endsWith(':predictLongRunning')) {
+    const name = `models/veo/operations/stand-in-${operations.size + 1}`;
+    operations.set(name, Date.now());
+    return json(res, 200, { name, done: false });
+  }
+  const operation = [...operations.keys()].find(name => url.pathname.endsWith(name));
+  if (operation) {
+    const done = Date.now() - operations.get(operation)! > 3000;
+    return json(res, 200, done
+      ? { name: operation, done, response: { generateVideoResponse: { generatedSamples: [{ video: { uri: `http://localhost:${PORT}/v1beta/files/stand-in:download?alt=media` } }] } } }
+      : { name: operation, done });
+  }
+  if (url.pathname.endsWith(':download')) {
+    res.writeHead(200, { 'content-type': 'video/mp4' });
+    return res.end(Buffer.alloc(1024));
+  }
+  json(res, 404, { error: { code: 404, status: 'NOT_FOUND', message: `No stand-in for ${url.pathname}` } });
+});
+
+const wss = new WebSocketServer({ server });
+wss.on('connection', (socket, req) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  if (url.searchParams.get('key') !== EXPECTED_KEY) {
+    socket.close(1008, 'API key not valid');
+    return;
+  }
+  socket.on('message', (raw) => {
+    const message = JSON.parse(raw.toString());
+    if (message.setup) {
+      socket.send(JSON.stringify({ setupComplete: {} }));
+    } else if (message.clientContent || message.realtimeInput?.text) {
+      socket.send(JSON.stringify({ serverContent: { modelTurn: { parts: [{ text: 'Stand-in live reply.' }] } } }));
+      socket.send(JSON.stringify({ serverContent: { outputTranscription: { text: 'Stand-in live reply.' } } }));
+      socket.send(JSON.stringify({ serverContent: { turnComplete: true } }));
+    }
+  });
+});
+
+server.listen(PORT, () => console.log(`[stand-in] fake Gemini upstream on http://localhost:${PORT}`));
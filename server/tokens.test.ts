@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { createHmac } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mintToken, verifyToken } from './tokens';
+
+const SECRET = 'test-secret';
+
+const parts = (token: string) => token.split('.');
+
+describe('session tokens', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('verifies a token it minted and keeps the session id', () => {
+    const { token, expiresAt } = mintToken(SECRET, 60, 'session-1');
+
+    expect(token.startsWith('astra.')).toBe(true);
+    expect(verifyToken(token, SECRET)).toEqual({ sid: 'session-1', exp: expiresAt });
+  });
+
+  it('rejects a token once it has expired', () => {
+    vi.useFakeTimers();
+    const { token } = mintToken(SECRET, 60);
+
+    vi.advanceTimersByTime(59_000);
+    expect(verifyToken(token, SECRET)).not.toBeNull();
+    vi.advanceTimersByTime(1_000);
+    expect(verifyToken(token, SECRET)).toBeNull();
+  });
+
+  it('rejects a tampered payload or signature and tokens of another secret', () => {
+    const { token } = mintToken(SECRET, 60, 'session-1');
+    const [prefix, payload, signature] = parts(token);
+    const forged = Buffer.from(JSON.stringify({ sid: 'session-1', exp: Date.now() + 3_600_000 })).toString('base64url');
+
+    expect(verifyToken(`${prefix}.${forged}.${signature}`, SECRET)).toBeNull();
+    expect(verifyToken(`${prefix}.${payload}.${signature.slice(0, -1)}${signature.endsWith('A') ? 'B' : 'A'}`, SECRET)).toBeNull();
+    expect(verifyToken(`${prefix}.${payload}.${signature}x`, SECRET)).toBeNull();
+    expect(verifyToken(token, 'other-secret')).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyToken(undefined, SECRET)).toBeNull();
+    expect(verifyToken('AIzaSy-real-looking-key', SECRET)).toBeNull();
+    expect(verifyToken(`key.${parts(mintToken(SECRET, 60).token).slice(1).join('.')}`, SECRET)).toBeNull();
+  });
+
+  it('rejects a correctly signed payload of the wrong shape', () => {
+    const payload = Buffer.from(JSON.stringify({ exp: Date.now() + 60_000 })).toString('base64url');
+    const signature = createHmac('sha256', SECRET).update(payload).digest('base64url');
+
+    expect(verifyToken(`astra.${payload}.${signature}`, SECRET)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+
+export interface SessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+interface TokenPayload {
+  sid: string;
+  exp: number;
+}
+
+const isTokenPayload = (value: unknown): value is TokenPayload =>
+  typeof value === 'object' && value !== null
+  && 'sid' in value && typeof value.sid === 'string'
+  && 'exp' in value && typeof value.exp === 'number';
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+/**
+ * Short-lived, stateless session tokens: a base64url payload plus an HMAC.
+ * Prefixed so they are never mistaken for (or forwarded as) a real API key.
+ */
+export const mintToken = (secret: string, ttlSeconds: number, sid: string = randomUUID()): SessionToken => {
+  const expiresAt = Date.now() + ttlSeconds * 1000;
+  const payload = Buffer.from(JSON.stringify({ sid, exp: expiresAt } satisfies TokenPayload)).toString('base64url');
+  return { token: `astra.${payload}.${sign(payload, secret)}`, expiresAt };
+};
+
+export const verifyToken = (token: string | null | undefined, secret: string): TokenPayload | null => {
+  const [prefix, payload, signature] = (token ?? '').split('.');
+  if (prefix !== 'astra' || !payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (!isTokenPayload(parsed)) return null;
+    return parsed.exp > Date.now() ? parsed : null;
+  } catch {
+    return null;
+  }
+};
@@ -1,35 +0,0 @@
-import React, { useState, useEffect } from 'react';
-
-const App = () => {
-  const [neuralBridgeStatus, setNeuralBridgeStatus] = useState('Disconnected');
-  const [userAvatar, setUserAvatar] = useState('');
-
-  useEffect(() => {
-    // Simulate fetching the avatar and neural bridge status
-    const fetchData = async () => {
-      // Here you would typically fetch data from an API
-      setUserAvatar('https://example.com/avatar.png'); // Replace with actual avatar URL
-      setNeuralBridgeStatus('Connected'); // Update status accordingly
-    };
-
-    fetchData();
-  }, []);
-
-  return (
-    <div className="app">
-      <header className="app-header">
-        <h1>Welcome to the Digital Twin Application</h1>
-      </header>
-      <main>
-        <div className="avatar-container">
-          <img src={userAvatar} alt="User Avatar" />
-        </div>
-        <div className="status-container">
-          <h2>Neural Bridge Status: {neuralBridgeStatus}</h2>
-        </div>
-      </main>
-    </div>
-  );
-};
-
-export default App;
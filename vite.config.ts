@@ -5,18 +5,47 @@ import tailwindcss from '@tailwindcss/vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const authMode = env.AUTH_MODE === 'aistudio' ? 'aistudio' : 'proxy';
+    // Only AI Studio builds embed the key; proxy builds talk to the local relay instead
+    const bundledKey = authMode === 'aistudio' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': { target: `http://localhost:${env.PROXY_PORT || 8787}`, ws: true },
+        },
+      },
+      build: {
+        rollupOptions: {
+          // The app, the embeddable widget page and the host SDK other sites load
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            embed: path.resolve(__dirname, 'embed.html'),
+            sdk: path.resolve(__dirname, 'embed/astra-embed.ts'),
+          },
+          output: {
+            // Host pages link the SDK by a stable URL
+            entryFileNames: chunk => chunk.name === 'sdk' ? 'astra-embed.js' : 'assets/[name]-[hash].js',
+          },
+          preserveEntrySignatures: 'exports-only',
+        },
       },
       plugins: [
         react(),
         tailwindcss(),
       ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.AUTH_MODE': JSON.stringify(authMode),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || ''),
+        'process.env.LIVE_PROVIDER': JSON.stringify(env.LIVE_PROVIDER || 'gemini'),
+        'process.env.MOCK_SCRIPT_URL': JSON.stringify(env.MOCK_SCRIPT_URL || ''),
+        'process.env.HTTP_TOOL_URL': JSON.stringify(env.HTTP_TOOL_URL || ''),
+        'process.env.EMBED_ALLOWED_ORIGINS': JSON.stringify(env.EMBED_ALLOWED_ORIGINS || ''),
+        // Versions the service worker, so each build replaces the cached app shell
+        'process.env.BUILD_ID': JSON.stringify(Date.now().toString(36))
       },
       resolve: {
         alias: {
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Services lean on window timers, localStorage and IndexedDB
+    environment: 'happy-dom',
+    setupFiles: ['fake-indexeddb/auto'],
+    include: ['Src/**/*.test.ts', 'server/**/*.test.ts', 'embed/**/*.test.ts'],
+  },
+});